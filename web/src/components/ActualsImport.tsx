@@ -0,0 +1,182 @@
+import { useMemo, useRef, useState } from 'react'
+import type { ChangeEvent } from 'react'
+import type { YearRow } from '../lib/types'
+import type { BaselineDetail } from '../lib/defaults'
+import { ACTUALS_FIELD_LABELS, BUDGET_FIELD_LABELS, applyActuals, diffActuals, parseBudgetWorkbook, summarizeBudget } from '../lib/actualsImport'
+import type { ActualsField, ActualsSource, BudgetField, BudgetWorkbook } from '../lib/actualsImport'
+import { currency } from '../lib/format'
+
+interface ActualsImportProps {
+  historic: YearRow[]
+  baselineDetails: Record<number, BaselineDetail>
+  source: ActualsSource | null
+  onApply: (historic: YearRow[], details: Record<number, BaselineDetail>, source: ActualsSource) => void
+  onReset: () => void
+}
+
+const buttonStyle = { border: '1px solid #ccc', borderRadius: 4, background: 'white', padding: '2px 8px', cursor: 'pointer', fontSize: 12 }
+const cellStyle = { padding: '2px 6px', borderTop: '1px solid #f0f0f0', fontSize: 13 }
+
+// Load actuals from a profit-and-loss workbook, preview the changes, then apply them
+export function ActualsImport({ historic, baselineDetails, source, onApply, onReset }: ActualsImportProps) {
+  const [workbook, setWorkbook] = useState<BudgetWorkbook | null>(null)
+  const [fields, setFields] = useState<BudgetField[]>([])
+  const [columnPosition, setColumnPosition] = useState(0)
+  const [year, setYear] = useState(historic[historic.length - 1]?.year ?? 2025)
+  const [skipped, setSkipped] = useState<ActualsField[]>([])
+  const [showLines, setShowLines] = useState(false)
+  const [message, setMessage] = useState<null | { text: string; error: boolean }>(null)
+  const fileInput = useRef<HTMLInputElement>(null)
+  const years = historic.map((h) => h.year)
+
+  const chooseColumn = (book: BudgetWorkbook, position: number) => {
+    setColumnPosition(position)
+    const detected = book.columns[position]?.year
+    if (detected !== null && detected !== undefined && years.includes(detected)) setYear(detected)
+  }
+
+  const importFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = '' // allow re-importing the same file
+    if (!file) return
+    try {
+      const book = parseBudgetWorkbook(await file.arrayBuffer(), file.name)
+      setWorkbook(book)
+      setFields(book.lines.map((line) => line.field))
+      setSkipped([])
+      chooseColumn(book, 0)
+      setMessage(null)
+    } catch (err) {
+      setWorkbook(null)
+      setMessage({ text: `Could not import ${file.name}: ${err instanceof Error ? err.message : String(err)}`, error: true })
+    }
+  }
+
+  const totals = useMemo(() => (workbook ? summarizeBudget(workbook, columnPosition, fields) : null), [workbook, columnPosition, fields])
+  const diff = useMemo(() => (totals ? diffActuals(historic, baselineDetails, year, totals) : []), [historic, baselineDetails, year, totals])
+  const selected = diff.filter((row) => row.applicable && row.next !== row.current && !skipped.includes(row.field)).map((row) => row.field)
+
+  const apply = () => {
+    if (!workbook || !totals || selected.length === 0) return
+    const next = applyActuals(historic, baselineDetails, year, totals, selected)
+    onApply(next.historic, next.details, {
+      fileName: workbook.fileName,
+      importedAt: new Date().toISOString(),
+      years: Array.from(new Set([...(source?.years ?? []), year])).sort(),
+    })
+    setMessage({ text: `Applied ${selected.length} value${selected.length === 1 ? '' : 's'} from ${workbook.fileName} to ${year}`, error: false })
+    setWorkbook(null)
+  }
+
+  return (
+    <div style={{ border: '1px solid #e5e7eb', borderRadius: 8, padding: 8, background: '#ffffff', marginBottom: 8 }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8, flexWrap: 'wrap', marginBottom: 6 }}>
+        <div style={{ fontWeight: 600, flex: 1 }}>Import Actuals</div>
+        <button onClick={() => fileInput.current?.click()} style={buttonStyle}>Choose workbook…</button>
+        <input ref={fileInput} type="file" accept=".xlsx,.xls,.csv" onChange={importFile} style={{ display: 'none' }} />
+      </div>
+      <div style={{ fontSize: 12, color: '#6b7280' }}>
+        {source ? (
+          <>
+            Using actuals imported from {source.fileName} on {new Date(source.importedAt).toLocaleString()} ({source.years.join(', ')}).{' '}
+            <button onClick={() => { if (confirm('Go back to the built-in actuals? Imported values will be discarded.')) onReset() }} style={buttonStyle}>Revert to built-in</button>
+          </>
+        ) : (
+          <>
+            Using the built-in actuals. Import a profit-and-loss workbook (account names down the side, one column of amounts per year) to refresh them.
+            The Budget YTD workbook is password protected, so save a copy without the password first. Accounts are mapped by name
+            as a best guess, not from that workbook's own layout: review the mapping before applying.
+          </>
+        )}
+      </div>
+      {message && (
+        <div style={{ marginTop: 6, fontSize: 12, color: message.error ? '#b91c1c' : '#15803d' }}>{message.text}</div>
+      )}
+      {workbook && totals && (
+        <div style={{ marginTop: 8 }}>
+          <div style={{ display: 'flex', alignItems: 'center', gap: 8, flexWrap: 'wrap', fontSize: 13 }}>
+            <span>Sheet "{workbook.sheetName}", column</span>
+            <select value={columnPosition} onChange={(e) => chooseColumn(workbook, Number(e.target.value))} style={{ fontSize: 13, padding: '2px 4px' }}>
+              {workbook.columns.map((c, i) => <option key={c.index} value={i}>{c.header}</option>)}
+            </select>
+            <span>into year</span>
+            <select value={year} onChange={(e) => setYear(Number(e.target.value))} style={{ fontSize: 13, padding: '2px 4px' }}>
+              {years.map((y) => <option key={y} value={y}>{y}</option>)}
+            </select>
+          </div>
+          <table style={{ marginTop: 8, borderCollapse: 'collapse', width: '100%', fontVariantNumeric: 'tabular-nums' }}>
+            <thead>
+              <tr style={{ textAlign: 'left', fontSize: 12, color: '#6b7280' }}>
+                <th style={{ width: 24 }}></th>
+                <th>Value</th>
+                <th style={{ textAlign: 'right' }}>Current</th>
+                <th style={{ textAlign: 'right' }}>Imported</th>
+                <th style={{ textAlign: 'right' }}>Change</th>
+              </tr>
+            </thead>
+            <tbody>
+              {diff.map((row) => {
+                const changed = row.next !== row.current
+                const delta = row.next - (row.current ?? 0)
+                return (
+                  <tr key={row.field} style={{ color: row.applicable ? undefined : '#9ca3af' }}>
+                    <td style={cellStyle}>
+                      <input
+                        type="checkbox"
+                        checked={row.applicable && changed && !skipped.includes(row.field)}
+                        disabled={!row.applicable || !changed}
+                        onChange={(e) => setSkipped((prev) => (e.target.checked ? prev.filter((f) => f !== row.field) : [...prev, row.field]))}
+                      />
+                    </td>
+                    <td style={cellStyle} title={row.applicable ? undefined : `${year} has no baseline detail to store this in`}>{ACTUALS_FIELD_LABELS[row.field]}</td>
+                    <td style={{ ...cellStyle, textAlign: 'right' }}>{row.current === undefined ? '—' : currency(row.current)}</td>
+                    <td style={{ ...cellStyle, textAlign: 'right' }}>{currency(row.next)}</td>
+                    <td style={{ ...cellStyle, textAlign: 'right', color: !changed ? '#9ca3af' : delta > 0 ? '#15803d' : '#b91c1c' }}>
+                      {changed ? `${delta > 0 ? '+' : '−'}${currency(Math.abs(delta))}` : 'no change'}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+          <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginTop: 8 }}>
+            <button onClick={() => setShowLines((v) => !v)} style={buttonStyle}>{showLines ? 'Hide' : 'Review'} account mapping ({workbook.lines.length})</button>
+            <div style={{ flex: 1 }} />
+            <button onClick={() => setWorkbook(null)} style={buttonStyle}>Cancel</button>
+            <button onClick={apply} disabled={selected.length === 0} style={{ ...buttonStyle, opacity: selected.length === 0 ? 0.5 : 1 }}>
+              Apply {selected.length} change{selected.length === 1 ? '' : 's'}
+            </button>
+          </div>
+          {showLines && (
+            <div style={{ marginTop: 8, maxHeight: 320, overflowY: 'auto' }}>
+              <table style={{ borderCollapse: 'collapse', width: '100%', fontVariantNumeric: 'tabular-nums' }}>
+                <tbody>
+                  {workbook.lines.map((line, i) => (
+                    <tr key={i}>
+                      <td style={cellStyle}>
+                        <div>{line.label}</div>
+                        {line.section && <div style={{ fontSize: 11, color: '#6b7280' }}>{line.section}</div>}
+                      </td>
+                      <td style={{ ...cellStyle, textAlign: 'right' }}>{currency(line.values[columnPosition] ?? 0)}</td>
+                      <td style={cellStyle}>
+                        <select
+                          value={fields[i]}
+                          onChange={(e) => setFields((prev) => prev.map((f, j) => (j === i ? (e.target.value as BudgetField) : f)))}
+                          style={{ fontSize: 12, padding: '1px 4px' }}
+                        >
+                          {(Object.keys(BUDGET_FIELD_LABELS) as BudgetField[]).map((key) => (
+                            <option key={key} value={key}>{BUDGET_FIELD_LABELS[key]}</option>
+                          ))}
+                        </select>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
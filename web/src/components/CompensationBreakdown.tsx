@@ -0,0 +1,61 @@
+import type { YearCompensation } from '../lib/compensation'
+import { currency, currencyOrDash } from '../lib/format'
+
+interface CompensationBreakdownProps {
+  result: YearCompensation
+  physicianId: string
+  title: string
+  onClose: () => void
+}
+
+// Itemized view of how one physician's compensation for a year was built
+export function CompensationBreakdown({ result, physicianId, title, onClose }: CompensationBreakdownProps) {
+  const p = result.physicians.find((x) => x.id === physicianId)
+  if (!p) return null
+
+  const fteShareText = p.fteWeight > 0 && result.totalPartnerWeight > 0
+    ? `${(p.fteWeight * 52).toFixed(1)} of ${(result.totalPartnerWeight * 52).toFixed(1)} partner weeks × ${currency(result.pool)} pool`
+    : 'No partner weeks this year'
+
+  const items: { label: string; value: number; note?: string }[] = [
+    { label: 'FTE-weighted pool share', value: p.poolShare, note: p.role === 'partner' ? fteShareText : undefined },
+    { label: 'Shared MD allocation', value: p.sharedMdAllocation, note: p.sharedMdAllocation > 0 ? `${((p.sharedMdAllocation / (result.medicalDirectorIncome || 1)) * 100).toFixed(2)}% of ${currency(result.medicalDirectorIncome)}` : undefined },
+    { label: 'PRCS MD allocation', value: p.prcsMdAllocation },
+    { label: 'Trailing shared MD (prior-year retiree)', value: p.trailingSharedMd },
+    { label: 'Buyout', value: p.buyout },
+    { label: 'W2 salary (employee portion)', value: p.w2Salary },
+    { label: 'Delayed W2 (prior-year work)', value: p.delayedW2, note: p.delayedW2Taxes > 0 ? `Employer taxes of ${currency(p.delayedW2Taxes)} are a practice cost` : undefined },
+    { label: 'Bonus', value: p.bonus },
+    { label: '401(k) safe-harbor match', value: p.retirementMatch, note: p.retirementMatch > 0 ? 'Employer contribution on W2 salary, a practice cost' : undefined },
+    { label: 'Profit sharing', value: p.profitSharing, note: p.profitSharing > 0 ? 'Deducted from the pool before the FTE split' : undefined },
+    { label: 'Cash balance credit', value: p.cashBalance, note: p.cashBalance > 0 ? 'Deducted from the pool before the FTE split' : undefined },
+  ]
+
+  return (
+    <div style={{ marginTop: 8, border: '1px solid #e5e7eb', borderRadius: 6, padding: 8, background: '#ffffff' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 8 }}>
+        <div style={{ fontWeight: 600 }}>{title}</div>
+        <button
+          onClick={onClose}
+          style={{ border: '1px solid #ccc', borderRadius: 4, background: 'white', padding: '2px 8px', cursor: 'pointer', fontSize: 12 }}
+          title="Close breakdown"
+        >
+          ✕
+        </button>
+      </div>
+      <div style={{ display: 'grid', gridTemplateColumns: '2fr 1fr 3fr', gap: 4, fontSize: 14 }}>
+        {items.map((item) => (
+          <div key={item.label} style={{ display: 'contents' }}>
+            <div style={{ color: item.value === 0 ? '#9ca3af' : undefined }}>{item.label}</div>
+            <div style={{ textAlign: 'right', color: item.value === 0 ? '#9ca3af' : undefined }}>{currencyOrDash(item.value)}</div>
+            <div style={{ color: '#6b7280', fontSize: 12, alignSelf: 'center' }}>{item.note ?? ''}</div>
+          </div>
+        ))}
+        <div style={{ gridColumn: '1 / -1', height: 1, background: '#e5e7eb', margin: '4px 0' }} />
+        <div style={{ fontWeight: 700 }}>Total</div>
+        <div style={{ textAlign: 'right', fontWeight: 700 }}>{currency(p.comp)}</div>
+        <div />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,99 @@
+import { useState } from 'react'
+import type { CostCategory, FutureYear, OneOffCost } from '../lib/types'
+import { COST_CATEGORIES, COST_CATEGORY_COLORS, COST_CATEGORY_LABELS, oneOffTotal, splitCosts } from '../lib/costs'
+import { currency } from '../lib/format'
+
+interface CostBreakdownPanelProps {
+  fy: FutureYear
+  canEditCategories: boolean // Only the editable baseline sets the split; later years grow from it
+  canEditOneOffs: boolean
+  readOnlyHint?: string // Shown in place of the editors when nothing can be changed here
+  onCategoryChange: (category: CostCategory, amount: number | undefined) => void
+  onOneOffsChange: (oneOffs: OneOffCost[]) => void
+}
+
+const OTHER_COLOR = '#9ca3af'
+const ONE_OFF_COLOR = '#111827'
+const inputStyle = { fontSize: 12, padding: '1px 4px', border: '1px solid #d1d5db', borderRadius: 3 }
+const buttonStyle = { border: '1px solid #d1d5db', borderRadius: 4, background: 'white', padding: '1px 6px', cursor: 'pointer', fontSize: 11, color: '#6b7280' }
+
+// Non-employment costs for one year as a stacked bar by category, with the category split and
+// one-off costs editable underneath
+export function CostBreakdownPanel({ fy, canEditCategories, canEditOneOffs, readOnlyHint, onCategoryChange, onOneOffsChange }: CostBreakdownPanelProps) {
+  const [expanded, setExpanded] = useState(false)
+  const { breakdown, rest } = splitCosts(fy)
+  const oneOffs = fy.oneOffCosts ?? []
+  const segments = [
+    ...COST_CATEGORIES.filter((c) => (breakdown[c] ?? 0) > 0).map((c) => ({ key: c, label: COST_CATEGORY_LABELS[c], value: breakdown[c] ?? 0, color: COST_CATEGORY_COLORS[c] })),
+    ...(rest > 0 ? [{ key: 'other', label: 'Other', value: rest, color: OTHER_COLOR }] : []),
+    ...(oneOffTotal(oneOffs) > 0 ? [{ key: 'oneOff', label: 'One-off', value: oneOffTotal(oneOffs), color: ONE_OFF_COLOR }] : []),
+  ]
+  const barTotal = segments.reduce((sum, s) => sum + s.value, 0)
+
+  const updateOneOff = (index: number, change: Partial<OneOffCost>) =>
+    onOneOffsChange(oneOffs.map((o, i) => (i === index ? { ...o, ...change } : o)))
+
+  return (
+    <div style={{ marginTop: 6 }}>
+      <div style={{ display: 'flex', height: 10, borderRadius: 3, overflow: 'hidden', background: '#f3f4f6' }}>
+        {segments.map((s) => (
+          <div key={s.key} title={`${s.label}: ${currency(Math.round(s.value))}`} style={{ width: `${(s.value / barTotal) * 100}%`, background: s.color }} />
+        ))}
+      </div>
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '2px 10px', marginTop: 4, fontSize: 11, color: '#4b5563' }}>
+        {segments.map((s) => (
+          <span key={s.key} style={{ display: 'inline-flex', alignItems: 'center', gap: 3 }}>
+            <span style={{ width: 8, height: 8, borderRadius: 2, background: s.color, display: 'inline-block' }} />
+            {s.label} {currency(Math.round(s.value))}
+          </span>
+        ))}
+        <button onClick={() => setExpanded(!expanded)} style={{ ...buttonStyle, marginLeft: 'auto' }}>
+          {expanded ? 'Hide details' : 'Categories & one-offs'}
+        </button>
+      </div>
+
+      {expanded && (
+        <div style={{ marginTop: 6, display: 'flex', flexDirection: 'column', gap: 4, fontSize: 12 }}>
+          {readOnlyHint && <div style={{ color: '#6b7280' }}>{readOnlyHint}</div>}
+          {canEditCategories && (
+            <>
+              <div style={{ color: '#6b7280' }}>Split the total into categories; whatever is left is other. Each category grows at its own rate from here.</div>
+              {COST_CATEGORIES.map((category) => (
+                <label key={category} style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+                  <span style={{ flex: 1 }}>{COST_CATEGORY_LABELS[category]}</span>
+                  <input
+                    type="number"
+                    value={breakdown[category] ?? ''}
+                    placeholder="—"
+                    onChange={(e) => onCategoryChange(category, e.target.value === '' ? undefined : Number(e.target.value))}
+                    style={{ ...inputStyle, width: 100, textAlign: 'right' }}
+                  />
+                </label>
+              ))}
+              <div style={{ display: 'flex', gap: 6, color: rest < 0 ? '#b91c1c' : '#6b7280' }}>
+                <span style={{ flex: 1 }}>Other</span>
+                <span>{currency(Math.round(rest))}</span>
+              </div>
+              {rest < 0 && <div style={{ color: '#b91c1c' }}>The categories add up to more than the total; raise the total or lower a category.</div>}
+            </>
+          )}
+          {canEditOneOffs && (
+            <>
+              <div style={{ color: '#6b7280', marginTop: canEditCategories ? 6 : 0 }}>One-off costs land in this year only and are added to its total.</div>
+              {oneOffs.map((o, index) => (
+                <div key={index} style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+                  <input type="text" value={o.label} placeholder="e.g. Linac replacement" onChange={(e) => updateOneOff(index, { label: e.target.value })} style={{ ...inputStyle, flex: 1 }} />
+                  <input type="number" value={o.amount} onChange={(e) => updateOneOff(index, { amount: Number(e.target.value) })} style={{ ...inputStyle, width: 100, textAlign: 'right' }} />
+                  <button onClick={() => onOneOffsChange(oneOffs.filter((_, i) => i !== index))} style={buttonStyle}>✕</button>
+                </div>
+              ))}
+              <div>
+                <button onClick={() => onOneOffsChange([...oneOffs, { label: '', amount: 0 }])} style={buttonStyle}>+ One-off cost</button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,35 @@
+import type { CostBreakdown, CostCategory } from '../lib/types'
+import { COST_CATEGORIES, COST_CATEGORY_LABELS } from '../lib/costs'
+
+interface CostCategoryGrowthEditorProps {
+  rates: CostBreakdown | undefined
+  flatRate: number // Non-employment growth that categories without a rate follow
+  onChange: (category: CostCategory, pct: number | undefined) => void
+}
+
+// Growth rate per non-employment cost category
+export function CostCategoryGrowthEditor({ rates, flatRate, onChange }: CostCategoryGrowthEditorProps) {
+  return (
+    <div style={{ padding: 8, backgroundColor: '#ffffff', borderRadius: 8, border: '1px solid #e5e7eb' }}>
+      <div style={{ fontSize: 12, color: '#6b7280', marginBottom: 6 }}>
+        Applies to years whose baseline splits costs into categories. Blank categories, and the uncategorized rest, grow at the non-employment rate ({flatRate}%).
+      </div>
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(180px, 1fr))', gap: '4px 12px' }}>
+        {COST_CATEGORIES.map((category) => (
+          <label key={category} style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: 13 }}>
+            <span style={{ flex: 1 }}>{COST_CATEGORY_LABELS[category]}</span>
+            <input
+              type="number"
+              step={0.1}
+              value={rates?.[category] ?? ''}
+              placeholder={String(flatRate)}
+              onChange={(e) => onChange(category, e.target.value === '' ? undefined : Number(e.target.value))}
+              style={{ width: 56, fontSize: 12, padding: '1px 4px', textAlign: 'right', border: '1px solid #d1d5db', borderRadius: 3, background: rates?.[category] === undefined ? 'white' : '#eff6ff' }}
+            />
+            <span style={{ fontSize: 12, color: '#6b7280' }}>%</span>
+          </label>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -4,45 +4,59 @@ import { persist, createJSONStorage } from 'zustand/middleware'
 import { immer } from 'zustand/middleware/immer'
 import Plot from 'react-plotly.js'
 import { DragDropPhysicians } from './DragDropPhysicians'
-
-export type YearRow = {
-  year: number
-  therapyIncome: number // For 2024+, this represents only therapy income (not including medical director income)
-  nonEmploymentCosts: number
-  employeePayroll?: number
-}
-
-export type PhysicianType = 'partner' | 'employee' | 'employeeToPartner' | 'partnerToRetire' | 'newEmployee' | 'employeeToTerminate'
-
-export type Physician = {
-  id: string
-  name: string
-  type: PhysicianType
-  salary?: number
-  weeksVacation?: number
-  // For mixed type: portion of the year as an employee (0..1). Remainder is partner.
-  employeePortionOfYear?: number
-  // For partnerToRetire: portion of the year working as partner (0..1). Remainder is retired.
-  partnerPortionOfYear?: number
-  // For newEmployee: portion of the year when they start (0 = Jan 1, 1 = Dec 31)
-  startPortionOfYear?: number
-  // For employeeToTerminate: portion of the year when they terminate (0 = Jan 1, 1 = Dec 31)
-  terminatePortionOfYear?: number
-  // Whether this employee receives benefits (medical/dental/vision)
-  receivesBenefits?: boolean
-  // Whether this employee receives bonuses
-  receivesBonuses?: boolean
-  // Relocation/Signing bonus amount
-  bonusAmount?: number
-  // Whether this partner has Medical Director Hours
-  hasMedicalDirectorHours?: boolean
-  // Medical Director Hours percentage (0-100)
-  medicalDirectorHoursPercentage?: number
-  // Buyout cost for retiring partners
-  buyoutCost?: number
-  // Trailing shared MD dollars for prior-year retirees
-  trailingSharedMdAmount?: number
-}
+import { CompensationBreakdown } from './CompensationBreakdown'
+import { ScenarioManager } from './ScenarioManager'
+import { ScenarioLibrary } from './ScenarioLibrary'
+import { HistoryPanel } from './HistoryPanel'
+import { ActualsImport } from './ActualsImport'
+import { YearEndClose } from './YearEndClose'
+import { GrowthScheduleEditor } from './GrowthScheduleEditor'
+import { CostBreakdownPanel } from './CostBreakdownPanel'
+import { StaffRosterEditor } from './StaffRosterEditor'
+import { PayrollTaxTableEditor } from './PayrollTaxTableEditor'
+import { RetirementPlansEditor } from './RetirementPlansEditor'
+import { PartnerTakeHome } from './PartnerTakeHome'
+import { CostCategoryGrowthEditor } from './CostCategoryGrowthEditor'
+import { HistoricDataEditor } from './HistoricDataEditor'
+import { PayrollImport } from './PayrollImport'
+import { PrintReport } from './PrintReport'
+import { SimulationControls } from './SimulationControls'
+import { SensitivityPanel } from './SensitivityPanel'
+import { GoalSeekPanel } from './GoalSeekPanel'
+import type { CostCategory, DataMode, FutureYear, GrowthField, HistoricField, OneOffCost, PayrollLedger, PayrollTaxRule, PayrollTaxTables, Physician, PhysicianType, Projection, RetirementPlans, ScenarioKey, ScenarioPreset, ScenarioSnapshot, ScenarioState, StaffMember, TakeHomeSettings, YearRow } from '../lib/types'
+import { dateToString, dayOfYearToDate, daysInYear, employeePortionToTransitionDay, getQuarterStartDays, partnerPortionToRetirementDay, retirementDayToPartnerPortion, startDayToStartPortion, startPortionToStartDay, transitionDayToEmployeePortion } from '../lib/calendar'
+import { calculateMedicalDirectorHourPercentages, getDefaultTrailingSharedMdAmount, getEmployeePortionOfYear, getPartnerFTEWeightProper, getPartnerPortionOfYear } from '../lib/physicians'
+import { calculateBenefitStartDay, calculateDelayedW2Payment, calculateEmployeeTotalCost, calculateStaffRosterCost, computeStaffCostsFromLedger, getBenefitCostsForYear } from '../lib/payroll'
+import { describeEmployerRate, employerPayrollTaxItems, withPayrollTaxTable } from '../lib/payrollTaxes'
+import { BASELINE_DETAILS, DEFAULT_BASELINE_YEAR, DEFAULT_PAYROLL_LEDGER, HISTORIC_DATA, actualsBaselineYear, actualsDataModes, availableDataMode, buildBaselineYear, dataModeYear, defaultDataMode, latestActualYear } from '../lib/defaults'
+import type { BaselineDetail, BaselineYear } from '../lib/defaults'
+import { currency, currencyOrDash, currencyShort } from '../lib/format'
+import { makeSavedScenarioId } from '../lib/library'
+import { downloadBlob, toFileSlug } from '../lib/download'
+import { assumptionsTable, compensationTables, parameterTables, tablesToCsv, tablesToXlsx } from '../lib/summaryExport'
+import type { ExportTable } from '../lib/summaryExport'
+import { diffScenarios } from '../lib/scenarioDiff'
+import { fitGrowthVolatility, simulateScenario } from '../lib/monteCarlo'
+import type { PercentileBand, SimulationResult, SimulationSettings } from '../lib/monteCarlo'
+import { DEFAULT_SENSITIVITY_SHOCK_PCT, analyzeSensitivity } from '../lib/sensitivity'
+import type { SensitivityTarget } from '../lib/sensitivity'
+import type { GoalSeekContext, GoalVariable } from '../lib/goalSeek'
+import { MigrationError, SCHEMA_VERSION, migratePersistedState, migrateSnapshot } from '../lib/migrations'
+import type { SavedScenario } from '../lib/library'
+import { FUTURE_FIELD_LABELS, HISTORY_COALESCE_MS, HISTORY_LIMIT, PROJECTION_FIELD_LABELS, describePhysicianChange } from '../lib/history'
+import type { HistoryEntry } from '../lib/history'
+import type { ActualsSource } from '../lib/actualsImport'
+import { HISTORIC_FIELD_LABELS, clearDetailOverrides, editHistoricCostCategory, editHistoricSource, editHistoricValue } from '../lib/historic'
+import { COST_CATEGORY_LABELS, growCosts, oneOffTotal, projectCosts, splitCosts, splitTotal, withCategoryValue } from '../lib/costs'
+import { defaultStaffRoster, describeStaffRoster, newStaffMember, rollStaffForward, rollStaffMember } from '../lib/staff'
+import { GROWTH_RATE_FIELDS, compoundGrowth, growthRateFor, hasSchedule, withScheduledRate } from '../lib/growth'
+import { DEFAULT_TREND_SETTINGS, TREND_METHOD_LABELS, deriveProjectionDefaults, describeTrend, fitTrendFields, trendLine, unfittedTrendFields } from '../lib/trend'
+import type { TrendFit, TrendMethod, TrendSettings } from '../lib/trend'
+import { alignScenarioToBaseline, closeActuals, draftYearEndFigures, rebaseScenarioAfterClose } from '../lib/yearEnd'
+import type { YearEndFigures } from '../lib/yearEnd'
+import { MAX_PROJECTION_YEARS, MIN_PROJECTION_YEARS, SCENARIO_COLORS, copyScenarioName, createScenarioState, makeScenarioId, nextProjectionYear, nextScenarioColor, nextScenarioName, scenarioDefaultsByYear } from '../lib/scenarios'
+import { computeYearCompensation, getTotalIncome } from '../lib/compensation'
+import type { PhysicianCompensation, YearCompensation } from '../lib/compensation'
 
 // Responsive helper
 function useIsMobile(breakpoint = 768): boolean {
@@ -418,11 +432,6 @@ function createPrcsAmountTooltip(
   }
 }
 
-// Default trailing shared MD amount for prior-year retirees
-function getDefaultTrailingSharedMdAmount(physician: Physician): number {
-  return physician.name === 'HW' ? 8302.5 : 2500
-}
-
 // Helper function for creating interactive Prior-Year Retiree Shared MD $ tooltip
 function createTrailingSharedMdAmountTooltip(
   physicianId: string,
@@ -515,60 +524,67 @@ function createTrailingSharedMdAmountTooltip(
   }
 }
 
-// Extend FutureYear with nonMdEmploymentCosts
-export type FutureYear = {
-  year: number
-  therapyIncome: number // Therapy income only (not including medical director income)
-  nonEmploymentCosts: number
-  nonMdEmploymentCosts: number
-  locumCosts: number
-  miscEmploymentCosts: number
-  medicalDirectorHours?: number
-  prcsMedicalDirectorHours?: number
-  prcsDirectorPhysicianId?: string
-  physicians: Physician[]
-}
-
-type Projection = {
-  incomeGrowthPct: number // Total income growth percentage
-  medicalDirectorHours: number // Medical Director Hours annual amount (0-250K)
-  prcsMedicalDirectorHours: number // PRCS Medical Director Hours annual amount (0-90K)
-  nonEmploymentCostsPct: number // Non-Employment Costs growth percentage
-  nonMdEmploymentCostsPct: number // Staff Employment Costs growth percentage
-  locumsCosts: number // Locums costs in dollars (global override)
-  miscEmploymentCostsPct: number // Misc Employment Costs growth percentage
-  benefitCostsGrowthPct: number // Benefit Costs growth percentage
-}
-
-type ScenarioState = {
-  future: FutureYear[]
-  projection: Projection
-  selectedYear: number
-  dataMode: 'Custom' | '2024 Data' | '2025 Data'
-}
-
-type ScenarioKey = 'A' | 'B'
 
 type Store = {
   historic: YearRow[]
-  scenarioA: ScenarioState
-  scenarioB?: ScenarioState
-  scenarioBEnabled: boolean
-  setScenarioEnabled: (enabled: boolean) => void
+  baselineDetails: Record<number, BaselineDetail>
+  actualsSource: ActualsSource | null // Set once actuals have been imported over the built-in figures
+  applyImportedActuals: (historic: YearRow[], details: Record<number, BaselineDetail>, source: ActualsSource) => void
+  resetActuals: () => void
+  setHistoricValue: (year: number, field: HistoricField, value: number | undefined) => void
+  setHistoricSource: (year: number, field: HistoricField, source: string) => void
+  setHistoricCostCategory: (year: number, category: CostCategory, amount: number | undefined) => void
+  baselineYear: number // Year the Baseline tab models; moves on each time a year is closed
+  trendSettings: TrendSettings // How default growth rates are fitted to the historic data
+  setTrendSettings: (settings: Partial<TrendSettings>) => void
+  closeYear: (figures: YearEndFigures, rosterFrom: ScenarioKey) => void // Roster on record is the one `rosterFrom` has for the year
+  payrollLedger: PayrollLedger // Pay runs behind delayed W2 payments and baseline staff costs
+  applyPayrollLedger: (ledger: PayrollLedger) => void
+  resetPayrollLedger: () => void
+  scenarios: Record<ScenarioKey, ScenarioState>
+  scenarioOrder: ScenarioKey[]
+  selectedScenarioIds: ScenarioKey[]
+  createScenario: (preset: ScenarioPreset) => ScenarioKey
+  duplicateScenario: (scenario: ScenarioKey) => ScenarioKey | undefined
+  renameScenario: (scenario: ScenarioKey, name: string) => void
+  deleteScenario: (scenario: ScenarioKey) => void
+  setScenarioColor: (scenario: ScenarioKey, color: string) => void
+  setScenarioSelected: (scenario: ScenarioKey, selected: boolean) => void
   setFutureValue: (
     scenario: ScenarioKey,
     year: number,
     field: 'therapyIncome' | 'nonEmploymentCosts' | 'nonMdEmploymentCosts' | 'locumCosts' | 'miscEmploymentCosts' | 'medicalDirectorHours' | 'prcsMedicalDirectorHours',
     value: number
   ) => void
+  clearLocumsOverride: (scenario: ScenarioKey, year: number) => void // The year goes back to the projection's locums
   upsertPhysician: (scenario: ScenarioKey, year: number, physician: Physician) => void
   removePhysician: (scenario: ScenarioKey, year: number, physicianId: string) => void
   reorderPhysicians: (scenario: ScenarioKey, year: number, fromIndex: number, toIndex: number) => void
   setProjectionField: (scenario: ScenarioKey, field: keyof Projection, value: number) => void
+  setScheduledGrowth: (scenario: ScenarioKey, field: GrowthField, year: number, pct: number | undefined) => void // undefined goes back to the flat rate
+  clearGrowthSchedule: (scenario: ScenarioKey, field: GrowthField) => void
+  setCostCategory: (scenario: ScenarioKey, year: number, category: CostCategory, amount: number | undefined) => void // Re-splits the year's total
+  setOneOffCosts: (scenario: ScenarioKey, year: number, oneOffs: OneOffCost[]) => void // Added to (or taken off) the year's total
+  setCostCategoryGrowth: (scenario: ScenarioKey, category: CostCategory, pct: number | undefined) => void // undefined follows the non-employment rate
+  setStaffRoster: (scenario: ScenarioKey, year: number, enabled: boolean) => void // From the year on; off goes back to the growth rate
+  upsertStaffMember: (scenario: ScenarioKey, year: number, member: StaffMember) => void // Carried into later years' rosters
+  removeStaffMember: (scenario: ScenarioKey, year: number, memberId: string) => void // From the year on
+  setPayrollTaxTable: (scenario: ScenarioKey, year: number, rules: PayrollTaxRule[] | undefined) => void // undefined lets earlier rules carry on
+  setTakeHome: (scenario: ScenarioKey, partnerName: string, settings: TakeHomeSettings | undefined) => void // undefined turns the estimate off
+  setRetirementPlans: (scenario: ScenarioKey, plans: RetirementPlans | undefined) => void // undefined removes the plans
   applyProjectionFromLastActual: (scenario: ScenarioKey) => void
+  addProjectionYear: (scenario: ScenarioKey) => void
+  removeProjectionYear: (scenario: ScenarioKey) => void
   setSelectedYear: (scenario: ScenarioKey, year: number) => void
-  setDataMode: (scenario: ScenarioKey, mode: 'Custom' | '2024 Data' | '2025 Data') => void
-  loadSnapshot: (snapshot: { scenarioA: ScenarioState; scenarioBEnabled: boolean; scenarioB?: ScenarioState }) => void
+  setDataMode: (scenario: ScenarioKey, mode: DataMode) => void
+  loadSnapshot: (snapshot: ScenarioSnapshot) => void
+  loadError: string | null
+  setLoadError: (message: string | null) => void
+  library: SavedScenario[]
+  saveToLibrary: (name: string, description: string) => void
+  addToLibrary: (entry: SavedScenario) => void
+  removeFromLibrary: (id: string) => void
+  loadFromLibrary: (id: string) => void
   resetToDefaults: () => void
   resetPhysicians: (scenario: ScenarioKey, year: number) => void
   resetAllPhysicians: (scenario: ScenarioKey) => void
@@ -576,50 +592,152 @@ type Store = {
   resetYearByYearValues: (scenario: ScenarioKey) => void
   resetViewSettings: (scenario: ScenarioKey) => void
   setPrcsDirector: (scenario: ScenarioKey, year: number, physicianId?: string) => void
+  undoStack: HistoryEntry[]
+  redoStack: HistoryEntry[]
+  undo: (steps?: number) => void
+  redo: (steps?: number) => void
 }
 
-const HISTORIC_DATA: YearRow[] = [
-  // 2016-2023: therapyIncome represents total income (no separate medical director data available)
-  { year: 2016, therapyIncome: 2325241.84, nonEmploymentCosts: 167375.03, employeePayroll: 188151.97 },
-  { year: 2017, therapyIncome: 2376068.79, nonEmploymentCosts: 170366.16, employeePayroll: 180060.96 },
-  { year: 2018, therapyIncome: 2386310.08, nonEmploymentCosts: 162454.23, employeePayroll: 357360.09 },
-  { year: 2019, therapyIncome: 2503463.49, nonEmploymentCosts: 170088.91, employeePayroll: 533175.95 },
-  { year: 2020, therapyIncome: 2535944.52, nonEmploymentCosts: 171824.41, employeePayroll: 573277.22 },
-  { year: 2021, therapyIncome: 2686843.84, nonEmploymentCosts: 176887.39, employeePayroll: 655524.05 },
-  { year: 2022, therapyIncome: 2582916.38, nonEmploymentCosts: 269191.26, employeePayroll: 503812.98 },
-  { year: 2023, therapyIncome: 2963164.73, nonEmploymentCosts: 201243.57, employeePayroll: 790092.00 },
-  // 2024+: therapyIncome is now truly therapy income only (medical director income is separate)
-  { year: 2024, therapyIncome: 2934770.14, nonEmploymentCosts: 261114.98, employeePayroll: 785924.54 },
-  // 2025 actuals per provided figures
-  { year: 2025, therapyIncome: 3164006.93, nonEmploymentCosts: 229713.57, employeePayroll:  752155.73  },
-]
-
-// Helper function to calculate true total income for any year
-function getTotalIncome(yearData: YearRow | FutureYear): number {
-  // For historic years 2016-2023, therapyIncome represents total income (no separate MD data)
-  if ('year' in yearData && yearData.year <= 2023) {
-    return yearData.therapyIncome
-  }
-  
-  // For 2024+ (including historic 2024-2025), calculate therapy + medical director income
-  const therapyIncome = yearData.therapyIncome || 0
-  
-  // For historic years (2024-2025), we need to estimate medical director income
-  if ('employeePayroll' in yearData) {
-    // Historic year - estimate medical director income based on defaults
-    const defaultMedicalDirectorIncome = 119373.75 // Default shared MD income
-    const defaultPrcsMedicalDirectorIncome = 60000 // Default PRCS MD income
-    return therapyIncome + defaultMedicalDirectorIncome + defaultPrcsMedicalDirectorIncome
-  }
-  
-  // For future years, calculate from stored values
-  const futureYear = yearData as FutureYear
-  const medicalDirectorIncome = futureYear.medicalDirectorHours ?? 110000
-  const prcsMedicalDirectorIncome = futureYear.prcsDirectorPhysicianId ? (futureYear.prcsMedicalDirectorHours ?? 60000) : 0
-  
-  return therapyIncome + medicalDirectorIncome + prcsMedicalDirectorIncome
+// Undo history labels for every action that edits the scenario set or the historic actuals. `merge` opts an action into
+// folding rapid repeats on the same target (typing, slider drags) into a single entry.
+type HistoryLabels = {
+  [K in keyof Store]?: Store[K] extends (...args: infer A) => unknown
+    ? { label: (state: Store, ...args: A) => string; merge?: (...args: A) => string }
+    : never
+}
+
+// Helper to tell scenarios apart in labels once there is more than one
+function scenarioSuffix(state: Store, scenario: ScenarioKey): string {
+  const sc = state.scenarios[scenario]
+  return sc && state.scenarioOrder.length > 1 ? ` (${sc.name})` : ''
+}
+
+const HISTORY_LABELS: HistoryLabels = {
+  setFutureValue: {
+    label: (state, scenario, year, field) => `Changed ${FUTURE_FIELD_LABELS[field]} ${year}${scenarioSuffix(state, scenario)}`,
+    merge: (scenario, year, field) => `${scenario}:${year}:${field}`,
+  },
+  clearLocumsOverride: { label: (state, scenario, year) => `Cleared locums override ${year}${scenarioSuffix(state, scenario)}` },
+  upsertPhysician: {
+    label: (state, scenario, year, physician) => {
+      const prev = state.scenarios[scenario]?.future.find((f) => f.year === year)?.physicians.find((p) => p.id === physician.id)
+      return describePhysicianChange(prev, physician, year) + scenarioSuffix(state, scenario)
+    },
+    merge: (scenario, year, physician) => `${scenario}:${year}:${physician.id}`,
+  },
+  removePhysician: {
+    label: (state, scenario, year, physicianId) => {
+      const name = state.scenarios[scenario]?.future.find((f) => f.year === year)?.physicians.find((p) => p.id === physicianId)?.name
+      return `Removed ${name ?? 'physician'} ${year}${scenarioSuffix(state, scenario)}`
+    },
+  },
+  reorderPhysicians: { label: (state, scenario, year) => `Reordered physicians ${year}${scenarioSuffix(state, scenario)}` },
+  setProjectionField: {
+    label: (state, scenario, field) => `Changed ${PROJECTION_FIELD_LABELS[field]}${scenarioSuffix(state, scenario)}`,
+    merge: (scenario, field) => `${scenario}:${field}`,
+  },
+  setDataMode: { label: (state, scenario, mode) => `Switched to ${mode}${scenarioSuffix(state, scenario)}` },
+  addProjectionYear: {
+    label: (state, scenario) => `Added ${Math.max(...(state.scenarios[scenario]?.future.map((f) => f.year) ?? [state.baselineYear])) + 1}${scenarioSuffix(state, scenario)}`,
+  },
+  removeProjectionYear: {
+    label: (state, scenario) => `Removed ${Math.max(...(state.scenarios[scenario]?.future.map((f) => f.year) ?? [state.baselineYear]))}${scenarioSuffix(state, scenario)}`,
+  },
+  setPrcsDirector: {
+    label: (state, scenario, year, physicianId) => {
+      const name = state.scenarios[scenario]?.future.find((f) => f.year === year)?.physicians.find((p) => p.id === physicianId)?.name
+      return `${name ? `Set PRCS director to ${name}` : 'Cleared PRCS director'} ${year}${scenarioSuffix(state, scenario)}`
+    },
+  },
+  createScenario: { label: () => 'Added scenario' },
+  duplicateScenario: { label: (state, scenario) => `Duplicated ${state.scenarios[scenario]?.name ?? 'scenario'}` },
+  renameScenario: {
+    label: (state, scenario, name) => `Renamed ${state.scenarios[scenario]?.name ?? 'scenario'} to ${name}`,
+    merge: (scenario) => scenario,
+  },
+  deleteScenario: { label: (state, scenario) => `Deleted ${state.scenarios[scenario]?.name ?? 'scenario'}` },
+  setScenarioColor: {
+    label: (state, scenario) => `Changed color of ${state.scenarios[scenario]?.name ?? 'scenario'}`,
+    merge: (scenario) => scenario,
+  },
+  setScenarioSelected: {
+    label: (state, scenario, selected) => `${selected ? 'Compared' : 'Hid'} ${state.scenarios[scenario]?.name ?? 'scenario'}`,
+  },
+  loadSnapshot: { label: () => 'Loaded scenarios' },
+  loadFromLibrary: { label: (state, id) => `Loaded ${state.library.find((e) => e.id === id)?.name ?? 'saved scenarios'}` },
+  resetToDefaults: { label: () => 'Reset to defaults' },
+  resetPhysicians: { label: (state, scenario, year) => `Reset physicians ${year}${scenarioSuffix(state, scenario)}` },
+  resetAllPhysicians: { label: (state, scenario) => `Reset all physicians${scenarioSuffix(state, scenario)}` },
+  resetProjectionSettings: { label: (state, scenario) => `Reset projection settings${scenarioSuffix(state, scenario)}` },
+  setScheduledGrowth: {
+    label: (state, scenario, field, year) => `Changed ${PROJECTION_FIELD_LABELS[GROWTH_RATE_FIELDS[field]]} ${year}${scenarioSuffix(state, scenario)}`,
+    merge: (scenario, field, year) => `${scenario}:${field}:${year}`,
+  },
+  setCostCategory: {
+    label: (state, scenario, year, category) => `Changed ${COST_CATEGORY_LABELS[category].toLowerCase()} ${year}${scenarioSuffix(state, scenario)}`,
+    merge: (scenario, year, category) => `${scenario}:${year}:${category}`,
+  },
+  setOneOffCosts: {
+    label: (state, scenario, year) => `Changed one-off costs ${year}${scenarioSuffix(state, scenario)}`,
+    merge: (scenario, year) => `${scenario}:${year}`,
+  },
+  setCostCategoryGrowth: {
+    label: (state, scenario, category) => `Changed ${COST_CATEGORY_LABELS[category].toLowerCase()} growth${scenarioSuffix(state, scenario)}`,
+    merge: (scenario, category) => `${scenario}:${category}`,
+  },
+  setStaffRoster: {
+    label: (state, scenario, year, enabled) => `${enabled ? 'Started' : 'Stopped'} staff roster ${year}${scenarioSuffix(state, scenario)}`,
+  },
+  upsertStaffMember: {
+    label: (state, scenario, year, member) => {
+      const prev = state.scenarios[scenario]?.future.find((f) => f.year === year)?.staff?.find((m) => m.id === member.id)
+      return `${prev ? `Changed ${prev.name || prev.role}` : 'Added staff member'} ${year}${scenarioSuffix(state, scenario)}`
+    },
+    merge: (scenario, year, member) => `${scenario}:${year}:${member.id}`,
+  },
+  removeStaffMember: {
+    label: (state, scenario, year, memberId) => {
+      const member = state.scenarios[scenario]?.future.find((f) => f.year === year)?.staff?.find((m) => m.id === memberId)
+      return `Removed ${member?.name || member?.role || 'staff member'} ${year}${scenarioSuffix(state, scenario)}`
+    },
+  },
+  setPayrollTaxTable: {
+    label: (state, scenario, year) => `Changed payroll taxes ${year}${scenarioSuffix(state, scenario)}`,
+    merge: (scenario, year) => `${scenario}:${year}`,
+  },
+  setTakeHome: {
+    label: (state, scenario, partnerName, settings) => `${settings ? 'Changed' : 'Removed'} take-home estimate for ${partnerName}${scenarioSuffix(state, scenario)}`,
+    merge: (scenario, partnerName) => `${scenario}:${partnerName}`,
+  },
+  setRetirementPlans: {
+    label: (state, scenario, plans) => `${plans ? 'Changed' : 'Removed'} retirement plans${scenarioSuffix(state, scenario)}`,
+    merge: (scenario) => scenario,
+  },
+  clearGrowthSchedule: { label: (state, scenario, field) => `Cleared ${PROJECTION_FIELD_LABELS[GROWTH_RATE_FIELDS[field]]} by year${scenarioSuffix(state, scenario)}` },
+  resetYearByYearValues: { label: (state, scenario) => `Reset year-by-year values${scenarioSuffix(state, scenario)}` },
+  resetViewSettings: { label: (state, scenario) => `Reset view settings${scenarioSuffix(state, scenario)}` },
+  setHistoricValue: {
+    label: (_state, year, field) => `Changed ${year} ${HISTORIC_FIELD_LABELS[field].toLowerCase()} actuals`,
+    merge: (year, field) => `${year}:${field}`,
+  },
+  setHistoricSource: {
+    label: (_state, year, field) => `Noted source of ${year} ${HISTORIC_FIELD_LABELS[field].toLowerCase()}`,
+    merge: (year, field) => `${year}:${field}`,
+  },
+  setHistoricCostCategory: {
+    label: (_state, year, category) => `Changed ${year} ${COST_CATEGORY_LABELS[category].toLowerCase()} actuals`,
+    merge: (year, category) => `${year}:${category}`,
+  },
+}
+
+// Helper to capture the undoable part of the store. Immer never mutates published state, so
+// holding on to these references is enough - no deep copy needed.
+function takeSnapshot(state: Store): ScenarioSnapshot {
+  return { scenarios: state.scenarios, scenarioOrder: state.scenarioOrder, selectedScenarioIds: state.selectedScenarioIds }
 }
 
+
+
 /* eslint-disable @typescript-eslint/no-unused-vars */
 // @ts-ignore: kept for future use
 function defaultPhysiciansGeneric(year: number): Physician[] {
@@ -632,345 +750,223 @@ function defaultPhysiciansGeneric(year: number): Physician[] {
 }
 /* eslint-enable @typescript-eslint/no-unused-vars */
 
-// Helper function to calculate even medical director hour percentages among partners
-function calculateMedicalDirectorHourPercentages(physicians: Physician[]): Physician[] {
-  // Calculate total partner work time (sum of partner portions, ignoring vacation as requested)
-  const totalPartnerPortions = physicians.reduce((sum, physician) => {
-    return sum + getPartnerPortionOfYear(physician)
-  }, 0)
-  
-  // If no partners, return physicians as-is
-  if (totalPartnerPortions === 0) {
-    return physicians.map(p => ({
-      ...p,
-      medicalDirectorHoursPercentage: 0,
-      hasMedicalDirectorHours: false
-    }))
-  }
-  
-  // Distribute percentages evenly among partners based on their portion of year
-  return physicians.map(physician => {
-    const partnerPortion = getPartnerPortionOfYear(physician)
-    const percentage = partnerPortion > 0 ? (partnerPortion / totalPartnerPortions) * 100 : 0
-    
-    return {
-      ...physician,
-      medicalDirectorHoursPercentage: percentage,
-      hasMedicalDirectorHours: percentage > 0
-    }
-  })
-}
-
-function scenario2024Defaults(): Physician[] {
-  const physicians: Physician[] = [
-    { id: `2024-JS`, name: 'JS', type: 'partner' as PhysicianType, weeksVacation: 12, receivesBonuses: false, bonusAmount: 0 },
-    { id: `2024-GA`, name: 'GA', type: 'partner' as PhysicianType, weeksVacation: 16, receivesBonuses: false, bonusAmount: 0 },
-    { id: `2024-HW`, name: 'HW', type: 'partner' as PhysicianType, weeksVacation: 19, receivesBonuses: false, bonusAmount: 0 },
-    { id: `2024-MC`, name: 'MC', type: 'employee' as PhysicianType, salary: 341323.02, receivesBenefits: false, receivesBonuses: false, bonusAmount: 0 },
-    { id: `2024-CD`, name: 'CD', type: 'employeeToTerminate' as PhysicianType, terminatePortionOfYear: 30/365, salary: 318640, receivesBenefits: false, receivesBonuses: false, bonusAmount: 0 }, // Jan 31 termination
-    { id: `2024-BT`, name: 'BT', type: 'newEmployee' as PhysicianType, startPortionOfYear: 279/365, salary: 407196, receivesBenefits: false, receivesBonuses: false, bonusAmount: 0 }, // Oct 7 start
-  ]
-  return calculateMedicalDirectorHourPercentages(physicians)
-}
 
-function scenarioADefaultsByYear(year: number): Physician[] {
-  let physicians: Physician[] = []
-  
-  if (year === 2025) {
-    physicians = [
-      { id: `${year}-MC`, name: 'MC', type: 'employeeToPartner', employeePortionOfYear: 0, salary: 328840, weeksVacation: 9, receivesBenefits: false, receivesBonuses: false, bonusAmount: 0, hasMedicalDirectorHours: true, medicalDirectorHoursPercentage: 26.39 },
-      { id: `${year}-JS`, name: 'JS', type: 'partner', weeksVacation: 11, receivesBonuses: false, bonusAmount: 0, hasMedicalDirectorHours: true, medicalDirectorHoursPercentage: 33.33 },
-      { id: `${year}-GA`, name: 'GA', type: 'partner', weeksVacation: 16, receivesBonuses: false, bonusAmount: 0, hasMedicalDirectorHours: true, medicalDirectorHoursPercentage: 33.33 },
-      { id: `${year}-HW`, name: 'HW', type: 'partnerToRetire', partnerPortionOfYear: 0, buyoutCost: 51666.58, receivesBonuses: false, bonusAmount: 0, hasMedicalDirectorHours: true, medicalDirectorHoursPercentage: 6.96, trailingSharedMdAmount: 8302.50 },
-      { id: `${year}-BT`, name: 'BT', type: 'employee', salary: 430760, receivesBenefits: false, receivesBonuses: false, bonusAmount: 0 },
-    ]
-  }
-  else if (year === 2026) {
-    physicians = [
-      { id: `${year}-MC`, name: 'MC', type: 'partner', weeksVacation: 8, receivesBonuses: false, bonusAmount: 0 },
-      { id: `${year}-JS`, name: 'JS', type: 'partner', weeksVacation: 11, receivesBonuses: false, bonusAmount: 0 },
-      { id: `${year}-GA`, name: 'GA', type: 'partnerToRetire', partnerPortionOfYear: 182/365, weeksVacation: 8, buyoutCost: 50000, receivesBonuses: false, bonusAmount: 0 },
-      { id: `${year}-BT`, name: 'BT', type: 'employeeToPartner', employeePortionOfYear: 181/365, salary: 507240, weeksVacation: 8, receivesBenefits: false, receivesBonuses: false, bonusAmount: 0 },
-      { id: `${year}-LK`, name: 'LK', type: 'newEmployee', startPortionOfYear: calendarDateToPortion(6, 1, year), salary: 600000, receivesBenefits: true, receivesBonuses: true, bonusAmount: 20000 },
-    ]
-  }
-  else if (year === 2027) {
-    physicians = [
-      { id: `${year}-MC`, name: 'MC', type: 'partner', weeksVacation: 10, receivesBonuses: false, bonusAmount: 0 },
-      { id: `${year}-JS`, name: 'JS', type: 'partner', weeksVacation: 12, receivesBonuses: false, bonusAmount: 0 },
-      { id: `${year}-BT`, name: 'BT', type: 'partner', weeksVacation: 8, receivesBonuses: false, bonusAmount: 0 }, // First year as partner
-      { id: `${year}-LK`, name: 'LK', type: 'employee', salary: 600000, receivesBonuses: false, bonusAmount: 0 },
-    ]
-  }
-  else if (year === 2028) {
-    physicians = [
-      { id: `${year}-MC`, name: 'MC', type: 'partner', weeksVacation: 10, receivesBonuses: false, bonusAmount: 0 },
-      { id: `${year}-JS`, name: 'JS', type: 'partner', weeksVacation: 12, receivesBonuses: false, bonusAmount: 0 },
-      { id: `${year}-BT`, name: 'BT', type: 'partner', weeksVacation: 9, receivesBonuses: false, bonusAmount: 0 }, // Second year as partner
-      { id: `${year}-LK`, name: 'LK', type: 'employeeToPartner', employeePortionOfYear: calendarDateToPortion(6, 1, year), salary: 600000, weeksVacation: 8, receivesBenefits: false, receivesBonuses: false, bonusAmount: 0 }, // Becomes partner exactly 2 years after hire
-    ]
-  }
-  else if (year === 2029) {
-    physicians = [
-      { id: `${year}-MC`, name: 'MC', type: 'partner', weeksVacation: 10, receivesBonuses: false, bonusAmount: 0 },
-      { id: `${year}-JS`, name: 'JS', type: 'partner', weeksVacation: 12, receivesBonuses: false, bonusAmount: 0 },
-      { id: `${year}-BT`, name: 'BT', type: 'partner', weeksVacation: 10, receivesBonuses: false, bonusAmount: 0 }, // Third year as partner
-      { id: `${year}-LK`, name: 'LK', type: 'partner', weeksVacation: 9, receivesBonuses: false, bonusAmount: 0 }, // Second year as partner
-    ]
-  }
-  else {
-    // 2030+
-    physicians = [
-      { id: `${year}-MC`, name: 'MC', type: 'partner', weeksVacation: 10, receivesBonuses: false, bonusAmount: 0 },
-      { id: `${year}-JS`, name: 'JS', type: 'partner', weeksVacation: 12, receivesBonuses: false, bonusAmount: 0 },
-      { id: `${year}-BT`, name: 'BT', type: 'partner', weeksVacation: Math.min(12, 8 + (year - 2027)), receivesBonuses: false, bonusAmount: 0 }, // Increases yearly, max 12
-      { id: `${year}-LK`, name: 'LK', type: 'partner', weeksVacation: Math.min(12, 8 + (year - 2028)), receivesBonuses: false, bonusAmount: 0 }, // Increases yearly, max 12
-    ]
-  }
-  
-  // For 2025, medical director percentages are manually set, so return directly
-  if (year === 2025) {
-    return physicians
-  }
-  
-  return calculateMedicalDirectorHourPercentages(physicians)
-}
 
-// Helper: Get Social Security wage base limit for a given year
-function getSocialSecurityWageBase(year: number): number {
-  const wageBases: Record<number, number> = {
-    2025: 176100,
-    2026: 183600,
-    2027: 190800,
-    2028: 198900,
-    2029: 207000,
-    2030: 215400,
-  }
-  return wageBases[year] || wageBases[2030] // Use 2030 as fallback for later years
-}
 
-// Helper: employer payroll taxes for W2 annual wages (WA State medical practice <50 employees)
-function calculateEmployerPayrollTaxes(annualWages: number, year: number = 2025): number {
-  const ssWageBase = getSocialSecurityWageBase(year)
-  
-  // Federal taxes
-  const federalUnemploymentTax = Math.min(annualWages, 7000) * 0.006 // FUTA: 0.6% on first $7,000
-  const socialSecurityTax = Math.min(annualWages, ssWageBase) * 0.062 // FICA: 6.2%
-  const medicareTax = annualWages * 0.0145 // Medicare: 1.45% on all wages
-  // Note: Additional Medicare tax (0.9% over $200K) is employee-paid, not employer-paid
-  
-  // Washington State taxes
-  const waUnemploymentTax = Math.min(annualWages, 72800) * 0.009 // WA SUTA: 0.9% on first $72,800
-  const waFamilyLeaveTax = Math.min(annualWages, ssWageBase) * 0.00658 // WA FLI: 0.658% on first SS wage base
-  const waStateDisabilityTax = annualWages * 0.00255 // WA SDI: 0.255% on all wages
-  const washingtonRateTax = annualWages * 0.0003 // Washington Rate: 0.030% on all wages
-  
-  return federalUnemploymentTax + socialSecurityTax + medicareTax + 
-         waUnemploymentTax + waFamilyLeaveTax + waStateDisabilityTax + washingtonRateTax
-}
 
-const MONTHLY_BENEFITS_MED = 796.37
-const MONTHLY_BENEFITS_DENTAL = 57.12
-const MONTHLY_BENEFITS_VISION = 6.44
-const ANNUAL_BENEFITS_FULLTIME = (MONTHLY_BENEFITS_MED + MONTHLY_BENEFITS_DENTAL + MONTHLY_BENEFITS_VISION) * 12
-const NET_PARTNER_POOL_2025 =  2362198.89 
-const DEFAULT_MISC_EMPLOYMENT_COSTS = 29115.51
-
-// Helper: Calculate benefit costs for a given year with growth applied
-function getBenefitCostsForYear(year: number, benefitGrowthPct: number): number {
-  const baseYear = 2025
-  const baseCost = (MONTHLY_BENEFITS_MED + MONTHLY_BENEFITS_DENTAL + MONTHLY_BENEFITS_VISION) * 12
-  if (year <= baseYear) {
-    return baseCost
-  }
-  const yearsOfGrowth = year - baseYear
-  const growthMultiplier = Math.pow(1 + benefitGrowthPct / 100, yearsOfGrowth)
-  return baseCost * growthMultiplier
-}
 
-// Default Staff employment costs (wages + employer taxes + benefits for FT 1)
-function computeDefaultNonMdEmploymentCosts(year: number = 2025): number {
-  // Return the correct 2025 baseline value
-  if (year === 2025) {
-    return 164273.25
-  }
-  
-  // For other years, use the original calculation
-  // Employee 1: $31.25/hr, 40 hrs/week, full-time + benefits
-  const emp1Wages = 31.25 * 40 * 52
-  const emp1Taxes = calculateEmployerPayrollTaxes(emp1Wages, year)
-  const emp1Total = emp1Wages + emp1Taxes + ANNUAL_BENEFITS_FULLTIME
-  // Employee 2: $27/hr, 32 hrs/week, part-time (no benefits specified)
-  const emp2Wages = 27 * 32 * 52
-  const emp2Taxes = calculateEmployerPayrollTaxes(emp2Wages, year)
-  const emp2Total = emp2Wages + emp2Taxes
-  // Employee 3: $23/hr, 20 hrs/week, part-time
-  const emp3Wages = 23 * 20 * 52
-  const emp3Taxes = calculateEmployerPayrollTaxes(emp3Wages, year)
-  const emp3Total = emp3Wages + emp3Taxes
-  return Math.round(emp1Total + emp2Total + emp3Total)
-}
 
+export const useDashboardStore = create<Store>()(
+  persist(
+    immer<Store>((set, get) => {
+      // Only the outermost tracked action records an entry; actions it calls internally are folded in
+      let historyDepth = 0
+      let lastMerge: { key: string; at: number } | null = null
+
+      const track = (label: string, mergeKey: string | null, fn: () => unknown) => {
+        const before = get()
+        historyDepth++
+        let result: unknown
+        try {
+          result = fn()
+        } finally {
+          historyDepth--
+        }
+        const after = get()
+        if (after.scenarios === before.scenarios && after.scenarioOrder === before.scenarioOrder && after.selectedScenarioIds === before.selectedScenarioIds && after.historic === before.historic) {
+          return result
+        }
+        const now = Date.now()
+        const merge = mergeKey !== null && lastMerge?.key === mergeKey && now - lastMerge.at < HISTORY_COALESCE_MS && after.undoStack.length > 0
+        lastMerge = mergeKey === null ? null : { key: mergeKey, at: now }
+        set((state) => {
+          if (merge) {
+            // Keep the older snapshot so one undo reverts the whole burst
+            const top = state.undoStack[state.undoStack.length - 1]
+            top.label = label
+            top.at = now
+          } else {
+            state.undoStack.push({ label, at: now, snapshot: takeSnapshot(before), historic: before.historic })
+            if (state.undoStack.length > HISTORY_LIMIT) state.undoStack.splice(0, state.undoStack.length - HISTORY_LIMIT)
+          }
+          state.redoStack = []
+        })
+        return result
+      }
 
-const FUTURE_YEARS_BASE: Omit<FutureYear, 'physicians'>[] = Array.from({ length: 5 }).map((_, idx) => {
-  const startYear = HISTORIC_DATA[HISTORIC_DATA.length - 1].year + 1 // start after last actual (2025)
-  const year = startYear + idx
-  return {
-    year,
-    therapyIncome: HISTORIC_DATA[HISTORIC_DATA.length - 1].therapyIncome,
-    nonEmploymentCosts:
-      HISTORIC_DATA[HISTORIC_DATA.length - 1].nonEmploymentCosts,
-    nonMdEmploymentCosts: computeDefaultNonMdEmploymentCosts(year),
-    locumCosts: year === 2026 ? 60000 : 120000,
-    miscEmploymentCosts: DEFAULT_MISC_EMPLOYMENT_COSTS,
-  }
-})
+      const restore = (state: Store, entry: Pick<HistoryEntry, 'snapshot' | 'historic'>) => {
+        state.scenarios = entry.snapshot.scenarios
+        state.scenarioOrder = entry.snapshot.scenarioOrder
+        state.selectedScenarioIds = entry.snapshot.selectedScenarioIds
+        state.historic = entry.historic
+      }
 
-const INITIAL_FUTURE_YEARS_A: FutureYear[] = FUTURE_YEARS_BASE.map((b) => {
-  const physicians = scenarioADefaultsByYear(b.year)
-  const js = physicians.find((p) => p.name === 'JS' && (p.type === 'partner' || p.type === 'employeeToPartner' || p.type === 'partnerToRetire'))
-  return {
-    ...b,
-    physicians,
-    prcsDirectorPhysicianId: b.year >= 2024 && js ? js.id : undefined,
-  }
-})
+      // Re-base scenarios on replaced actuals (an import, a payroll ledger). Their undo snapshots were
+      // projected from the old actuals, which the history does not hold, so it goes, as it does on a close
+      const reprojectScenarios = (ids: ScenarioKey[]) => {
+        if (ids.length === 0) return
+        set((state) => {
+          state.undoStack = []
+          state.redoStack = []
+        })
+        for (const id of ids) get().applyProjectionFromLastActual(id)
+      }
 
-function scenarioBDefaultsByYear(year: number): Physician[] {
-  let physicians: Physician[] = []
-  
-  if (year === 2025) {
-    physicians = [
-      { id: `${year}-MC`, name: 'MC', type: 'employeeToPartner', employeePortionOfYear: 0, salary: 328840, weeksVacation: 9, receivesBenefits: false, receivesBonuses: false, bonusAmount: 0, hasMedicalDirectorHours: true, medicalDirectorHoursPercentage: 26.39 },
-      { id: `${year}-JS`, name: 'JS', type: 'partner', weeksVacation: 11, receivesBonuses: false, bonusAmount: 0, hasMedicalDirectorHours: true, medicalDirectorHoursPercentage: 33.33 },
-      { id: `${year}-GA`, name: 'GA', type: 'partner', weeksVacation: 16, receivesBonuses: false, bonusAmount: 0, hasMedicalDirectorHours: true, medicalDirectorHoursPercentage: 33.33 },
-      { id: `${year}-HW`, name: 'HW', type: 'partnerToRetire', partnerPortionOfYear: 0, buyoutCost: 51666.58, receivesBonuses: false, bonusAmount: 0, hasMedicalDirectorHours: true, medicalDirectorHoursPercentage: 6.96, trailingSharedMdAmount: 8302.50 },
-      { id: `${year}-BT`, name: 'BT', type: 'employee', salary: 430760, receivesBenefits: false, receivesBonuses: false, bonusAmount: 0 },
-    ]
-  }
-  else if (year === 2026) {
-    physicians = [
-      { id: `${year}-MC`, name: 'MC', type: 'partner', weeksVacation: 8, receivesBonuses: false, bonusAmount: 0 },
-      { id: `${year}-JS`, name: 'JS', type: 'partner', weeksVacation: 11, receivesBonuses: false, bonusAmount: 0 },
-      { id: `${year}-GA`, name: 'GA', type: 'partnerToRetire', partnerPortionOfYear: 182/365, weeksVacation: 8, buyoutCost: 50000, receivesBonuses: false, bonusAmount: 0 },
-      { id: `${year}-BT`, name: 'BT', type: 'employeeToPartner', employeePortionOfYear: 181/365, salary: 507240, weeksVacation: 8, receivesBenefits: false, receivesBonuses: false, bonusAmount: 0 },
-      { id: `${year}-LK`, name: 'LK', type: 'newEmployee', startPortionOfYear: calendarDateToPortion(6, 1, year), salary: 600000, receivesBenefits: true, receivesBonuses: true, bonusAmount: 20000 },
-    ]
-  }
-  else if (year === 2027) {
-    physicians = [
-      { id: `${year}-MC`, name: 'MC', type: 'partner', weeksVacation: 10, receivesBonuses: false, bonusAmount: 0 },
-      { id: `${year}-JS`, name: 'JS', type: 'partner', weeksVacation: 12, receivesBonuses: false, bonusAmount: 0 },
-      { id: `${year}-BT`, name: 'BT', type: 'partner', weeksVacation: 8, receivesBonuses: false, bonusAmount: 0 }, // First year as partner
-      { id: `${year}-LK`, name: 'LK', type: 'employee', salary: 600000, receivesBonuses: false, bonusAmount: 0 },
-      { id: `${year}-P5`, name: 'Potential Hire', type: 'newEmployee', startPortionOfYear: 0, salary: 500000, receivesBenefits: true, receivesBonuses: true, bonusAmount: 20000 },
-    ]
-  }
-  else if (year === 2028) {
-    physicians = [
-      { id: `${year}-MC`, name: 'MC', type: 'partner', weeksVacation: 10, receivesBonuses: false, bonusAmount: 0 },
-      { id: `${year}-JS`, name: 'JS', type: 'partner', weeksVacation: 12, receivesBonuses: false, bonusAmount: 0 },
-      { id: `${year}-BT`, name: 'BT', type: 'partner', weeksVacation: 9, receivesBonuses: false, bonusAmount: 0 }, // Second year as partner
-      { id: `${year}-LK`, name: 'LK', type: 'employeeToPartner', employeePortionOfYear: calendarDateToPortion(6, 1, year), salary: 600000, weeksVacation: 8, receivesBenefits: false, receivesBonuses: false, bonusAmount: 0 }, // Becomes partner exactly 2 years after hire
-      { id: `${year}-P5`, name: 'Potential Hire', type: 'employee', salary: 500000, receivesBenefits: true, receivesBonuses: false, bonusAmount: 0 }, // Second year as employee
-    ]
-  }
-  else if (year === 2029) {
-    physicians = [
-      { id: `${year}-MC`, name: 'MC', type: 'partner', weeksVacation: 10, receivesBonuses: false, bonusAmount: 0 },
-      { id: `${year}-JS`, name: 'JS', type: 'partner', weeksVacation: 12, receivesBonuses: false, bonusAmount: 0 },
-      { id: `${year}-BT`, name: 'BT', type: 'partner', weeksVacation: 10, receivesBonuses: false, bonusAmount: 0 }, // Third year as partner
-      { id: `${year}-LK`, name: 'LK', type: 'partner', weeksVacation: 9, receivesBonuses: false, bonusAmount: 0 }, // Second year as partner
-      { id: `${year}-P5`, name: 'Potential Hire', type: 'employeeToPartner', employeePortionOfYear: 0, salary: 500000, weeksVacation: 8, receivesBenefits: false, receivesBonuses: false, bonusAmount: 0 }, // Transition year - becomes partner
-    ]
-  }
-  else {
-    // 2030+
-    physicians = [
-      { id: `${year}-MC`, name: 'MC', type: 'partner', weeksVacation: 10, receivesBonuses: false, bonusAmount: 0 },
-      { id: `${year}-JS`, name: 'JS', type: 'partner', weeksVacation: 12, receivesBonuses: false, bonusAmount: 0 },
-      { id: `${year}-BT`, name: 'BT', type: 'partner', weeksVacation: Math.min(12, 8 + (year - 2027)), receivesBonuses: false, bonusAmount: 0 }, // Increases yearly, max 12
-      { id: `${year}-LK`, name: 'LK', type: 'partner', weeksVacation: Math.min(12, 8 + (year - 2028)), receivesBonuses: false, bonusAmount: 0 }, // Increases yearly, max 12
-      { id: `${year}-P5`, name: 'Potential Hire', type: 'partner', weeksVacation: Math.min(12, 8 + (year - 2029)), receivesBonuses: false, bonusAmount: 0 }, // Increases yearly from 2030, max 12
-    ]
-  }
-  
-  // For 2025, medical director percentages are manually set, so return directly
-  if (year === 2025) {
-    return physicians
-  }
-  
-  return calculateMedicalDirectorHourPercentages(physicians)
-}
+      // Helper: scenarios whose baseline is built from this year's actuals (Custom ones keep their own).
+      // Edits in the historic table re-project these inside their own undo entry, with the rows alongside
+      const scenariosReading = (year: number) => get().scenarioOrder.filter((id) => dataModeYear(get().scenarios[id].dataMode) === year)
 
-const INITIAL_FUTURE_YEARS_B: FutureYear[] = FUTURE_YEARS_BASE.map((b) => {
-  const physicians = scenarioBDefaultsByYear(b.year)
-  const js = physicians.find((p) => p.name === 'JS' && (p.type === 'partner' || p.type === 'employeeToPartner' || p.type === 'partnerToRetire'))
-  return {
-    ...b,
-    // Scenario B default: $0 locums except $60k in 2026
-    locumCosts: b.year === 2026 ? 60000 : 0,
-    physicians,
-    prcsDirectorPhysicianId: b.year >= 2024 && js ? js.id : undefined,
-  }
-})
-export const useDashboardStore = create<Store>()(
-  persist(
-    immer<Store>((set, get) => {
-      void get
-      return {
+      const store: Store = {
         historic: HISTORIC_DATA,
-        scenarioA: {
-          future: INITIAL_FUTURE_YEARS_A,
-          projection: { 
-            incomeGrowthPct: 3.7, 
-            medicalDirectorHours: 110000,
-            prcsMedicalDirectorHours: 60000,
-            nonEmploymentCostsPct: 7.8, 
-            nonMdEmploymentCostsPct: 6.0, 
-            locumsCosts: 120000, 
-            miscEmploymentCostsPct: 6.7, 
-            benefitCostsGrowthPct: 5.0 
-          },
-          selectedYear: 2025, // Default to Baseline tab
-          dataMode: '2025 Data',
+        baselineDetails: BASELINE_DETAILS,
+        actualsSource: null,
+        applyImportedActuals: (historic, details, source) => {
+          set((state) => {
+            state.historic = historic
+            state.baselineDetails = details
+            state.actualsSource = source
+          })
+          reprojectScenarios(get().scenarioOrder)
         },
-        scenarioB: undefined,
-        scenarioBEnabled: false,
-        setScenarioEnabled: (enabled) => {
+        resetActuals: () => {
           set((state) => {
-            state.scenarioBEnabled = enabled
-            if (enabled) {
-              // Initialize scenario B with its own defaults instead of cloning A
-              state.scenarioB = {
-                future: INITIAL_FUTURE_YEARS_B.map((f) => ({ ...f, physicians: [...f.physicians] })),
-                projection: { 
-                  incomeGrowthPct: 3.7, 
-                  medicalDirectorHours: 110000,
-                  prcsMedicalDirectorHours: 60000,
-                  nonEmploymentCostsPct: 7.8, 
-                  nonMdEmploymentCostsPct: 6.0, 
-                  locumsCosts: 0, 
-                  miscEmploymentCostsPct: 6.7,
-                  benefitCostsGrowthPct: 5.0
-                },
-                selectedYear: state.scenarioA.selectedYear,
-                dataMode: '2024 Data',
+            state.historic = HISTORIC_DATA
+            state.baselineDetails = BASELINE_DETAILS
+            state.actualsSource = null
+            // Closed years go with the rest of the entered actuals
+            if (state.baselineYear !== DEFAULT_BASELINE_YEAR) {
+              state.baselineYear = DEFAULT_BASELINE_YEAR
+              for (const sc of Object.values(state.scenarios)) {
+                sc.dataMode = defaultDataMode(sc.preset, HISTORIC_DATA, BASELINE_DETAILS, DEFAULT_BASELINE_YEAR)
               }
-            } else {
-              state.scenarioB = undefined
             }
           })
-          // Apply projections to scenario B if it was just enabled
-          if (enabled) {
-            const store = useDashboardStore.getState()
-            if (store.scenarioB) store.applyProjectionFromLastActual('B')
-          }
+          reprojectScenarios(get().scenarioOrder)
+        },
+        setHistoricValue: (year, field, value) => {
+          set((state) => {
+            state.historic = editHistoricValue(state.historic, year, field, value)
+          })
+          for (const id of scenariosReading(year)) get().applyProjectionFromLastActual(id)
+        },
+        setHistoricSource: (year, field, source) => {
+          set((state) => {
+            state.historic = editHistoricSource(state.historic, year, field, source)
+          })
+        },
+        setHistoricCostCategory: (year, category, amount) => {
+          set((state) => {
+            state.historic = editHistoricCostCategory(state.historic, year, category, amount)
+          })
+          for (const id of scenariosReading(year)) get().applyProjectionFromLastActual(id)
+        },
+        baselineYear: DEFAULT_BASELINE_YEAR,
+        trendSettings: DEFAULT_TREND_SETTINGS,
+        setTrendSettings: (settings) =>
+          set((state) => {
+            Object.assign(state.trendSettings, settings)
+          }),
+        closeYear: (figures, rosterFrom) => {
+          const { historic, baselineDetails, baselineYear, scenarios } = get()
+          const { fy } = scenarioBaseline(historic, baselineDetails, baselineYear, scenarios[rosterFrom])
+          const closed = closeActuals(historic, baselineDetails, baselineYear, figures, fy)
+          set((state) => {
+            state.historic = closed.historic
+            state.baselineDetails = closed.details
+            state.baselineYear = baselineYear + 1
+            for (const id of state.scenarioOrder) state.scenarios[id] = rebaseScenarioAfterClose(scenarios[id], baselineYear, figures)
+            // Earlier snapshots are laid out for the old baseline year
+            state.undoStack = []
+            state.redoStack = []
+          })
+          for (const id of get().scenarioOrder) get().applyProjectionFromLastActual(id)
         },
+        payrollLedger: DEFAULT_PAYROLL_LEDGER,
+        applyPayrollLedger: (ledger) => {
+          set((state) => {
+            state.payrollLedger = ledger
+            const detail = state.baselineDetails[ledger.year]
+            if (!detail) return
+            detail.nonMdEmploymentCosts = computeStaffCostsFromLedger(ledger)
+            state.historic = clearDetailOverrides(state.historic, ledger.year, ['nonMdEmploymentCosts'])
+          })
+          reprojectScenarios(get().scenarioOrder)
+        },
+        resetPayrollLedger: () => {
+          set((state) => {
+            const detail = state.baselineDetails[state.payrollLedger.year]
+            const builtIn = BASELINE_DETAILS[state.payrollLedger.year]
+            if (detail && builtIn) detail.nonMdEmploymentCosts = builtIn.nonMdEmploymentCosts
+            state.payrollLedger = DEFAULT_PAYROLL_LEDGER
+          })
+          reprojectScenarios(get().scenarioOrder)
+        },
+        scenarios: { A: createScenarioState('A', 'Scenario A', SCENARIO_COLORS[0], deriveProjectionDefaults(HISTORIC_DATA, DEFAULT_TREND_SETTINGS, 'A'), DEFAULT_BASELINE_YEAR, defaultDataMode('A', HISTORIC_DATA, BASELINE_DETAILS, DEFAULT_BASELINE_YEAR)) },
+        scenarioOrder: ['A'],
+        selectedScenarioIds: ['A'],
+        createScenario: (preset) => {
+          const id = makeScenarioId()
+          set((state) => {
+            const existing = state.scenarioOrder.map((k) => state.scenarios[k])
+            const projection = deriveProjectionDefaults(state.historic, state.trendSettings, preset)
+            state.scenarios[id] = alignScenarioToBaseline(createScenarioState(preset, nextScenarioName(existing), nextScenarioColor(existing), projection, state.baselineYear, defaultDataMode(preset, state.historic, state.baselineDetails, state.baselineYear)), state.baselineYear)
+            state.scenarioOrder.push(id)
+            state.selectedScenarioIds.push(id)
+          })
+          get().applyProjectionFromLastActual(id)
+          return id
+        },
+        duplicateScenario: (scenario) => {
+          const source = get().scenarios[scenario]
+          if (!source) return undefined
+          const id = makeScenarioId()
+          set((state) => {
+            const existing = state.scenarioOrder.map((k) => state.scenarios[k])
+            state.scenarios[id] = {
+              ...structuredClone(source),
+              name: copyScenarioName(source.name, existing),
+              color: nextScenarioColor(existing),
+            }
+            // Place the copy right after its source
+            state.scenarioOrder.splice(state.scenarioOrder.indexOf(scenario) + 1, 0, id)
+            state.selectedScenarioIds.push(id)
+          })
+          return id
+        },
+        renameScenario: (scenario, name) =>
+          set((state) => {
+            const sc = state.scenarios[scenario]
+            if (!sc) return
+            sc.name = name
+          }),
+        deleteScenario: (scenario) =>
+          set((state) => {
+            // Always keep at least one scenario around
+            if (!state.scenarios[scenario] || state.scenarioOrder.length <= 1) return
+            delete state.scenarios[scenario]
+            state.scenarioOrder = state.scenarioOrder.filter((k) => k !== scenario)
+            state.selectedScenarioIds = state.selectedScenarioIds.filter((k) => k !== scenario)
+            if (state.selectedScenarioIds.length === 0) state.selectedScenarioIds = [state.scenarioOrder[0]]
+          }),
+        setScenarioColor: (scenario, color) =>
+          set((state) => {
+            const sc = state.scenarios[scenario]
+            if (!sc) return
+            sc.color = color
+          }),
+        setScenarioSelected: (scenario, selected) =>
+          set((state) => {
+            if (!state.scenarios[scenario]) return
+            const others = state.selectedScenarioIds.filter((k) => k !== scenario)
+            // Keep at least one scenario in the comparison; preserve roster order
+            if (!selected && others.length === 0) return
+            const next = selected ? [...others, scenario] : others
+            state.selectedScenarioIds = state.scenarioOrder.filter((k) => next.includes(k))
+          }),
         
         setPrcsDirector: (scenario, year, physicianId) =>
           set((state) => {
-            const sc = scenario === 'A' ? state.scenarioA : state.scenarioB
+            const sc = state.scenarios[scenario]
             if (!sc) return
             const fy = sc.future.find((f) => f.year === year)
             if (!fy) return
@@ -994,16 +990,26 @@ export const useDashboardStore = create<Store>()(
           }),
         setFutureValue: (scenario, year, field, value) =>
           set((state) => {
-            const sc = scenario === 'A' ? state.scenarioA : state.scenarioB
+            const sc = state.scenarios[scenario]
             if (!sc) return
             const fy = sc.future.find((f) => f.year === year)
             if (fy) {
               ;(fy as any)[field] = value
+              // A year's own locums stay put when the projection is re-applied
+              if (field === 'locumCosts') fy.locumsOverride = value
             }
           }),
+        clearLocumsOverride: (scenario, year) =>
+          set((state) => {
+            const sc = state.scenarios[scenario]
+            const fy = sc?.future.find((f) => f.year === year)
+            if (!sc || !fy) return
+            delete fy.locumsOverride
+            fy.locumCosts = sc.projection.locumsCosts
+          }),
         upsertPhysician: (scenario, year, physician) =>
           set((state) => {
-            const sc = scenario === 'A' ? state.scenarioA : state.scenarioB
+            const sc = state.scenarios[scenario]
             if (!sc) return
             const fy = sc.future.find((f) => f.year === year)
             if (!fy) return
@@ -1231,7 +1237,7 @@ export const useDashboardStore = create<Store>()(
           }),
         removePhysician: (scenario, year, physicianId) =>
           set((state) => {
-            const sc = scenario === 'A' ? state.scenarioA : state.scenarioB
+            const sc = state.scenarios[scenario]
             if (!sc) return
             // Identify by id and, if possible, by name to remove across years
             const thisYear = sc.future.find((f) => f.year === year)
@@ -1252,7 +1258,7 @@ export const useDashboardStore = create<Store>()(
           }),
         reorderPhysicians: (scenario, year, fromIndex, toIndex) =>
           set((state) => {
-            const sc = scenario === 'A' ? state.scenarioA : state.scenarioB
+            const sc = state.scenarios[scenario]
             if (!sc) return
             const fy = sc.future.find((f) => f.year === year)
             if (!fy) return
@@ -1267,7 +1273,7 @@ export const useDashboardStore = create<Store>()(
           }),
         setProjectionField: (scenario, field, value) =>
           set((state) => {
-            const sc = scenario === 'A' ? state.scenarioA : state.scenarioB
+            const sc = state.scenarios[scenario]
             if (!sc) return
             
             // Apply appropriate limits based on field type
@@ -1291,229 +1297,241 @@ export const useDashboardStore = create<Store>()(
             }
             
             // Apply the updated projections to all future years immediately within the same state update
-            // Use baseline data based on selected dataMode
-            const dataMode = sc.dataMode
-            const last2024 = state.historic.find((h) => h.year === 2024)
-            const last2025 = state.historic.find((h) => h.year === 2025)
-            
-            // Determine starting values based on data mode
-            let baselineData
-            if (dataMode === 'Custom') {
-              // For Custom mode, use the existing baseline data from year 2025 in future array
-              const customBaseline = sc.future.find(f => f.year === 2025)
-              if (customBaseline) {
-                baselineData = {
-                  therapyIncome: customBaseline.therapyIncome,
-                  nonEmploymentCosts: customBaseline.nonEmploymentCosts,
-                  miscEmploymentCosts: customBaseline.miscEmploymentCosts,
-                  nonMdEmploymentCosts: customBaseline.nonMdEmploymentCosts,
-                }
-              } else {
-                // Fallback if Custom baseline missing (shouldn't happen)
-                baselineData = {
-                  therapyIncome: last2025?.therapyIncome || 3344068.19,
-                  nonEmploymentCosts: last2025?.nonEmploymentCosts || 229713.57,
-                  miscEmploymentCosts: DEFAULT_MISC_EMPLOYMENT_COSTS,
-                  nonMdEmploymentCosts: computeDefaultNonMdEmploymentCosts(2025),
-                }
-              }
-            } else if (dataMode === '2024 Data' && last2024) {
-              baselineData = {
-                therapyIncome: last2024.therapyIncome,
-                nonEmploymentCosts: last2024.nonEmploymentCosts,
-                miscEmploymentCosts: 24623.49, // 2024 actual misc employment from image
-                nonMdEmploymentCosts: 164677.44, // 2024 actual staff employment costs
-              }
-            } else if (last2025) {
-              baselineData = {
-                therapyIncome: last2025.therapyIncome,
-                nonEmploymentCosts: last2025.nonEmploymentCosts,
-                miscEmploymentCosts: DEFAULT_MISC_EMPLOYMENT_COSTS,
-                nonMdEmploymentCosts: computeDefaultNonMdEmploymentCosts(2025),
-              }
-            } else {
-              // Fallback to 2025 hardcoded values
-              baselineData = {
-                therapyIncome: 3344068.19,
-                nonEmploymentCosts: 229713.57,
-                miscEmploymentCosts: DEFAULT_MISC_EMPLOYMENT_COSTS,
-                nonMdEmploymentCosts: computeDefaultNonMdEmploymentCosts(2025),
-              }
-            }
+            // Starting values from the baseline the selected data mode produces
+            const baselineData = scenarioBaseline(state.historic, state.baselineDetails, state.baselineYear, sc).fy
             
-            // Convert percentage growth rates to decimal multipliers
-            const incomeGpct = sc.projection.incomeGrowthPct / 100
-            const nonEmploymentGpct = sc.projection.nonEmploymentCostsPct / 100
-            const nonMdEmploymentGpct = sc.projection.nonMdEmploymentCostsPct / 100
-            const miscEmploymentGpct = sc.projection.miscEmploymentCostsPct / 100
+            // Each year's growth multiplier: its scheduled rate, else the flat projection rate
+            const growth = (field: GrowthField, year: number) => 1 + growthRateFor(sc.projection, sc.growthSchedules, field, year) / 100
             
             // Starting values from the selected baseline
             let income = baselineData.therapyIncome
-            let nonEmploymentCosts = baselineData.nonEmploymentCosts
+            // Non-employment costs grow category by category; one-off costs are not carried forward
+            let costs = splitCosts(baselineData)
             let nonMdEmploymentCosts = baselineData.nonMdEmploymentCosts
             let miscEmploymentCosts = baselineData.miscEmploymentCosts
             
-            // Apply projections to each future year (SKIP baseline year 2025)
+            // Apply projections to each year after the baseline (never overwrite baseline data)
             for (const fy of sc.future) {
-              if (fy.year === 2025) continue  // Never overwrite baseline data
+              if (fy.year <= state.baselineYear) continue
               
-              income = income * (1 + incomeGpct)
-              nonEmploymentCosts = nonEmploymentCosts * (1 + nonEmploymentGpct)
-              nonMdEmploymentCosts = nonMdEmploymentCosts * (1 + nonMdEmploymentGpct)
-              miscEmploymentCosts = miscEmploymentCosts * (1 + miscEmploymentGpct)
+              income = income * growth('therapyIncome', fy.year)
+              costs = growCosts(costs, sc.costCategoryGrowth, growthRateFor(sc.projection, sc.growthSchedules, 'nonEmploymentCosts', fy.year))
+              // Years with a staff roster are priced from it; later years without one grow from there
+              nonMdEmploymentCosts = fy.staff ? calculateStaffRosterCost(fy.staff, fy.year, sc.projection.benefitCostsGrowthPct, sc.payrollTaxes) : nonMdEmploymentCosts * growth('nonMdEmploymentCosts', fy.year)
+              miscEmploymentCosts = miscEmploymentCosts * growth('miscEmploymentCosts', fy.year)
               
               fy.therapyIncome = income
-              fy.nonEmploymentCosts = nonEmploymentCosts
+              fy.nonEmploymentCosts = splitTotal(costs) + oneOffTotal(fy.oneOffCosts)
+              if (baselineData.costBreakdown) fy.costBreakdown = costs.breakdown
+              else delete fy.costBreakdown
               fy.nonMdEmploymentCosts = nonMdEmploymentCosts
               fy.miscEmploymentCosts = miscEmploymentCosts
-              fy.locumCosts = fy.year === 2026 ? 60000 : sc.projection.locumsCosts
+              fy.locumCosts = fy.locumsOverride ?? sc.projection.locumsCosts
             }
           }),
-        applyProjectionFromLastActual: (scenario) =>
+        setScheduledGrowth: (scenario, field, year, pct) => {
           set((state) => {
-            const sc = scenario === 'A' ? state.scenarioA : state.scenarioB
+            const sc = state.scenarios[scenario]
             if (!sc) return
-            
-            // Use baseline data based on selected dataMode
-            const dataMode = sc.dataMode
-            const last2024 = state.historic.find((h) => h.year === 2024)
-            const last2025 = state.historic.find((h) => h.year === 2025)
-            
-            // Determine starting values based on data mode
-            let baselineData
-            if (dataMode === 'Custom') {
-              // For Custom mode, use the existing baseline data from year 2025 in future array
-              const customBaseline = sc.future.find(f => f.year === 2025)
-              if (customBaseline) {
-                baselineData = {
-                  therapyIncome: customBaseline.therapyIncome,
-                  nonEmploymentCosts: customBaseline.nonEmploymentCosts,
-                  miscEmploymentCosts: customBaseline.miscEmploymentCosts,
-                  nonMdEmploymentCosts: customBaseline.nonMdEmploymentCosts,
-                }
-              } else {
-                // Fallback if Custom baseline missing (shouldn't happen)
-                baselineData = {
-                  therapyIncome: last2025?.therapyIncome || 3344068.19,
-                  nonEmploymentCosts: last2025?.nonEmploymentCosts || 229713.57,
-                  miscEmploymentCosts: DEFAULT_MISC_EMPLOYMENT_COSTS,
-                  nonMdEmploymentCosts: computeDefaultNonMdEmploymentCosts(2025),
-                }
-              }
-            } else if (dataMode === '2024 Data' && last2024) {
-              baselineData = {
-                therapyIncome: last2024.therapyIncome,
-                nonEmploymentCosts: last2024.nonEmploymentCosts,
-                miscEmploymentCosts: 24623.49, // 2024 actual misc employment from image
-                nonMdEmploymentCosts: 164677.44, // 2024 actual staff employment costs
-              }
-            } else if (last2025) {
-              baselineData = {
-                therapyIncome: last2025.therapyIncome,
-                nonEmploymentCosts: last2025.nonEmploymentCosts,
-                miscEmploymentCosts: DEFAULT_MISC_EMPLOYMENT_COSTS,
-                nonMdEmploymentCosts: computeDefaultNonMdEmploymentCosts(2025),
-              }
-            } else {
-              // Fallback to 2025 hardcoded values
-              baselineData = {
-                therapyIncome: 3344068.19,
-                nonEmploymentCosts: 229713.57,
-                miscEmploymentCosts: DEFAULT_MISC_EMPLOYMENT_COSTS,
-                nonMdEmploymentCosts: computeDefaultNonMdEmploymentCosts(2025),
+            sc.growthSchedules = withScheduledRate(sc.growthSchedules, field, year, pct)
+          })
+          get().applyProjectionFromLastActual(scenario)
+        },
+        clearGrowthSchedule: (scenario, field) => {
+          set((state) => {
+            const sc = state.scenarios[scenario]
+            if (!sc?.growthSchedules) return
+            delete sc.growthSchedules[field]
+          })
+          get().applyProjectionFromLastActual(scenario)
+        },
+        setCostCategory: (scenario, year, category, amount) => {
+          set((state) => {
+            const fy = state.scenarios[scenario]?.future.find((f) => f.year === year)
+            if (!fy) return
+            const breakdown = withCategoryValue(fy.costBreakdown, category, amount)
+            if (breakdown) fy.costBreakdown = breakdown
+            else delete fy.costBreakdown
+          })
+          // A new split of the baseline changes how every later year grows
+          if (year === get().baselineYear) get().applyProjectionFromLastActual(scenario)
+        },
+        setOneOffCosts: (scenario, year, oneOffs) =>
+          set((state) => {
+            const fy = state.scenarios[scenario]?.future.find((f) => f.year === year)
+            if (!fy) return
+            fy.nonEmploymentCosts += oneOffTotal(oneOffs) - oneOffTotal(fy.oneOffCosts)
+            if (oneOffs.length > 0) fy.oneOffCosts = oneOffs
+            else delete fy.oneOffCosts
+          }),
+        setCostCategoryGrowth: (scenario, category, pct) => {
+          set((state) => {
+            const sc = state.scenarios[scenario]
+            if (!sc) return
+            const rates = withCategoryValue(sc.costCategoryGrowth, category, pct)
+            if (rates) sc.costCategoryGrowth = rates
+            else delete sc.costCategoryGrowth
+          })
+          get().applyProjectionFromLastActual(scenario)
+        },
+        setStaffRoster: (scenario, year, enabled) => {
+          set((state) => {
+            const sc = state.scenarios[scenario]
+            if (!sc) return
+            let previous = sc.future.find((f) => f.year === year - 1)?.staff
+            for (const fy of sc.future) {
+              if (fy.year < year) continue
+              if (!enabled) {
+                delete fy.staff
+                continue
               }
+              // Carried on from the year before when it has a roster, else the built-in staff
+              fy.staff = previous ? rollStaffForward(previous, fy.year) : defaultStaffRoster(fy.year, sc.projection.nonMdEmploymentCostsPct)
+              previous = fy.staff
+            }
+            priceBaselineStaff(sc, state.baselineYear)
+          })
+          get().applyProjectionFromLastActual(scenario)
+        },
+        upsertStaffMember: (scenario, year, member) => {
+          set((state) => {
+            const sc = state.scenarios[scenario]
+            const fy = sc?.future.find((f) => f.year === year)
+            if (!sc || !fy?.staff) return
+            const idx = fy.staff.findIndex((m) => m.id === member.id)
+            if (idx >= 0) fy.staff[idx] = member
+            else fy.staff.push(member)
+            // Later rosters get the member rolled on a year at a time, and lose them once they leave
+            let carried: StaffMember | undefined = member
+            for (const later of sc.future) {
+              if (later.year <= year || !later.staff) continue
+              carried = carried && rollStaffMember(carried, later.year)
+              const at = later.staff.findIndex((m) => m.id === member.id)
+              if (carried && at >= 0) later.staff[at] = carried
+              else if (carried) later.staff.push(carried)
+              else if (at >= 0) later.staff.splice(at, 1)
+            }
+            priceBaselineStaff(sc, state.baselineYear)
+          })
+          get().applyProjectionFromLastActual(scenario)
+        },
+        removeStaffMember: (scenario, year, memberId) => {
+          set((state) => {
+            const sc = state.scenarios[scenario]
+            if (!sc) return
+            for (const fy of sc.future) {
+              if (fy.year >= year && fy.staff) fy.staff = fy.staff.filter((m) => m.id !== memberId)
             }
+            priceBaselineStaff(sc, state.baselineYear)
+          })
+          get().applyProjectionFromLastActual(scenario)
+        },
+        setPayrollTaxTable: (scenario, year, rules) => {
+          set((state) => {
+            const sc = state.scenarios[scenario]
+            if (!sc) return
+            const tables = withPayrollTaxTable(sc.payrollTaxes, year, rules)
+            if (tables) sc.payrollTaxes = tables
+            else delete sc.payrollTaxes
+            priceBaselineStaff(sc, state.baselineYear)
+          })
+          // Staff rosters are priced with the taxes
+          get().applyProjectionFromLastActual(scenario)
+        },
+        setTakeHome: (scenario, partnerName, settings) =>
+          set((state) => {
+            const sc = state.scenarios[scenario]
+            if (!sc) return
+            const next = { ...sc.takeHome }
+            if (settings) next[partnerName] = settings
+            else delete next[partnerName]
+            if (Object.keys(next).length > 0) sc.takeHome = next
+            else delete sc.takeHome
+          }),
+        setRetirementPlans: (scenario, plans) =>
+          set((state) => {
+            const sc = state.scenarios[scenario]
+            if (!sc) return
+            if (plans) sc.retirementPlans = plans
+            else delete sc.retirementPlans
+          }),
+        applyProjectionFromLastActual: (scenario) =>
+          set((state) => {
+            const sc = state.scenarios[scenario]
+            if (!sc) return
+            
+            // Starting values from the baseline the selected data mode produces
+            const baselineData = scenarioBaseline(state.historic, state.baselineDetails, state.baselineYear, sc).fy
             
-            // Convert percentage growth rates to decimal multipliers
-            const incomeGpct = sc.projection.incomeGrowthPct / 100
-            const nonEmploymentGpct = sc.projection.nonEmploymentCostsPct / 100
-            const nonMdEmploymentGpct = sc.projection.nonMdEmploymentCostsPct / 100
-            const miscEmploymentGpct = sc.projection.miscEmploymentCostsPct / 100
+            // Each year's growth multiplier: its scheduled rate, else the flat projection rate
+            const growth = (field: GrowthField, year: number) => 1 + growthRateFor(sc.projection, sc.growthSchedules, field, year) / 100
             
             // Starting values from the selected baseline
             let income = baselineData.therapyIncome
-            let nonEmploymentCosts = baselineData.nonEmploymentCosts
+            // Non-employment costs grow category by category; one-off costs are not carried forward
+            let costs = splitCosts(baselineData)
             let nonMdEmploymentCosts = baselineData.nonMdEmploymentCosts
             let miscEmploymentCosts = baselineData.miscEmploymentCosts
             
-            // Apply projections to each future year (SKIP baseline year 2025)
+            // Apply projections to each year after the baseline (never overwrite baseline data)
             for (const fy of sc.future) {
-              if (fy.year === 2025) continue  // Never overwrite baseline data
+              if (fy.year <= state.baselineYear) continue
               
-              income = income * (1 + incomeGpct)
-              nonEmploymentCosts = nonEmploymentCosts * (1 + nonEmploymentGpct)
-              nonMdEmploymentCosts = nonMdEmploymentCosts * (1 + nonMdEmploymentGpct)
-              miscEmploymentCosts = miscEmploymentCosts * (1 + miscEmploymentGpct)
+              income = income * growth('therapyIncome', fy.year)
+              costs = growCosts(costs, sc.costCategoryGrowth, growthRateFor(sc.projection, sc.growthSchedules, 'nonEmploymentCosts', fy.year))
+              // Years with a staff roster are priced from it; later years without one grow from there
+              nonMdEmploymentCosts = fy.staff ? calculateStaffRosterCost(fy.staff, fy.year, sc.projection.benefitCostsGrowthPct, sc.payrollTaxes) : nonMdEmploymentCosts * growth('nonMdEmploymentCosts', fy.year)
+              miscEmploymentCosts = miscEmploymentCosts * growth('miscEmploymentCosts', fy.year)
               
               fy.therapyIncome = income
-              fy.nonEmploymentCosts = nonEmploymentCosts
+              fy.nonEmploymentCosts = splitTotal(costs) + oneOffTotal(fy.oneOffCosts)
+              if (baselineData.costBreakdown) fy.costBreakdown = costs.breakdown
+              else delete fy.costBreakdown
               fy.nonMdEmploymentCosts = nonMdEmploymentCosts
               fy.miscEmploymentCosts = miscEmploymentCosts
               
-              // Set locums costs from the global override (except 2026 which defaults to 60K)
-              fy.locumCosts = fy.year === 2026 ? 60000 : sc.projection.locumsCosts
+              // Set locums costs from the global override unless the year books its own
+              fy.locumCosts = fy.locumsOverride ?? sc.projection.locumsCosts
             }
 
             // Do not modify PRCS Director assignment during projection recalculation
           }),
+        addProjectionYear: (scenario) =>
+          set((state) => {
+            const sc = state.scenarios[scenario]
+            if (!sc) return
+            const projected = sc.future.filter((f) => f.year > state.baselineYear)
+            if (projected.length === 0 || projected.length >= MAX_PROJECTION_YEARS) return
+            const last = projected.reduce((a, b) => (b.year > a.year ? b : a))
+            sc.future.push(nextProjectionYear(last, sc))
+          }),
+        removeProjectionYear: (scenario) =>
+          set((state) => {
+            const sc = state.scenarios[scenario]
+            if (!sc) return
+            const projected = sc.future.filter((f) => f.year > state.baselineYear)
+            if (projected.length <= MIN_PROJECTION_YEARS) return
+            const lastYear = Math.max(...projected.map((f) => f.year))
+            sc.future = sc.future.filter((f) => f.year !== lastYear)
+            if (sc.selectedYear === lastYear) sc.selectedYear = lastYear - 1
+          }),
         setSelectedYear: (scenario, year) =>
           set((state) => {
-            const sc = scenario === 'A' ? state.scenarioA : state.scenarioB
+            const sc = state.scenarios[scenario]
             if (!sc) return
             sc.selectedYear = year
           }),
         setDataMode: (scenario, mode) =>
           set((state) => {
-            const sc = scenario === 'A' ? state.scenarioA : state.scenarioB
+            const sc = state.scenarios[scenario]
             if (!sc) return
             
             // If switching TO Custom mode, capture current baseline data and make it editable
             if (mode === 'Custom' && sc.dataMode !== 'Custom') {
-              const last2024 = state.historic.find((h) => h.year === 2024)
-              const last2025 = state.historic.find((h) => h.year === 2025)
+              const baselineData = scenarioBaseline(state.historic, state.baselineDetails, state.baselineYear, sc).fy
               
-              let baselineData: FutureYear
-              
-              if (sc.dataMode === '2024 Data' && last2024) {
-                baselineData = {
-                  year: 2025,
-                  therapyIncome: last2024.therapyIncome,
-                  nonEmploymentCosts: last2024.nonEmploymentCosts,
-                  nonMdEmploymentCosts: 164677.44, // 2024 actual staff employment costs
-                  locumCosts: 113400, // 2024 actual locums costs
-                  miscEmploymentCosts: 24623.49, // 2024 actual misc employment
-                  physicians: scenario2024Defaults(),
-                }
-              } else if (sc.dataMode === '2025 Data' && last2025) {
-                baselineData = {
-                  year: 2025,
-                  therapyIncome: last2025.therapyIncome,
-                  nonEmploymentCosts: last2025.nonEmploymentCosts,
-                  nonMdEmploymentCosts: computeDefaultNonMdEmploymentCosts(2025),
-                  locumCosts: 54600,
-                  miscEmploymentCosts: DEFAULT_MISC_EMPLOYMENT_COSTS,
-                  physicians: scenario === 'A' ? scenarioADefaultsByYear(2025) : scenarioBDefaultsByYear(2025),
-                }
-              } else {
-                // Fallback to 2025 defaults
-                const physicians = scenario === 'A' ? scenarioADefaultsByYear(2025) : scenarioBDefaultsByYear(2025)
-                const js = physicians.find(p => p.name === 'JS' && (p.type === 'partner' || p.type === 'employeeToPartner' || p.type === 'partnerToRetire'))
-                baselineData = {
-                  year: 2025,
-                  therapyIncome: last2025?.therapyIncome || 3344068.19,
-                  nonEmploymentCosts: last2025?.nonEmploymentCosts || 229713.57,
-                  nonMdEmploymentCosts: computeDefaultNonMdEmploymentCosts(2025),
-                  locumCosts: 54600,
-                  miscEmploymentCosts: DEFAULT_MISC_EMPLOYMENT_COSTS,
-                  medicalDirectorHours: 119373.75, // 2025 shared medical director amount
-                  prcsMedicalDirectorHours: 37792.5, // 2025 PRCS medical director amount (JS)
-                  prcsDirectorPhysicianId: js?.id, // Assign PRCS to JS
-                  physicians,
-                }
-              }
-              
-              // Set the baseline data as the first entry in future years (replacing or adding 2025)
-              const existingIndex = sc.future.findIndex(f => f.year === 2025)
+              // Set the baseline data as the first entry in future years (replacing or adding the baseline year)
+              const existingIndex = sc.future.findIndex(f => f.year === state.baselineYear)
               if (existingIndex >= 0) {
                 sc.future[existingIndex] = baselineData
               } else {
@@ -1525,19 +1543,56 @@ export const useDashboardStore = create<Store>()(
           }),
         loadSnapshot: (snapshot) =>
           set((state) => {
-            state.scenarioA = snapshot.scenarioA
-            state.scenarioBEnabled = !!snapshot.scenarioBEnabled
-            state.scenarioB = snapshot.scenarioBEnabled && snapshot.scenarioB ? snapshot.scenarioB : undefined
+            const order = snapshot.scenarioOrder.filter((k) => snapshot.scenarios[k])
+            if (order.length === 0) return
+            const selected = snapshot.selectedScenarioIds.filter((k) => order.includes(k))
+            // Snapshots saved before a year-end close still hold the closed year, and may read actuals
+            // this browser has no baseline detail for
+            state.scenarios = Object.fromEntries(order.map((k) => {
+              const sc = alignScenarioToBaseline(snapshot.scenarios[k], state.baselineYear)
+              return [k, { ...sc, dataMode: availableDataMode(sc, state.historic, state.baselineDetails, state.baselineYear) }]
+            }))
+            state.scenarioOrder = order
+            state.selectedScenarioIds = selected.length > 0 ? selected : [order[0]]
+          }),
+        loadError: null,
+        setLoadError: (message) =>
+          set((state) => {
+            state.loadError = message
+          }),
+        library: [],
+        saveToLibrary: (name, description) => {
+          const { scenarios, scenarioOrder, selectedScenarioIds } = get()
+          const snapshot = structuredClone({ scenarios, scenarioOrder, selectedScenarioIds })
+          set((state) => {
+            state.library.unshift({
+              id: makeSavedScenarioId(),
+              name,
+              description,
+              savedAt: new Date().toISOString(),
+              version: SCHEMA_VERSION,
+              snapshot,
+            })
+          })
+        },
+        addToLibrary: (entry) =>
+          set((state) => {
+            state.library.unshift(entry)
+          }),
+        removeFromLibrary: (id) =>
+          set((state) => {
+            state.library = state.library.filter((e) => e.id !== id)
           }),
+        loadFromLibrary: (id) => {
+          const entry = get().library.find((e) => e.id === id)
+          if (entry) get().loadSnapshot(structuredClone(entry.snapshot))
+        },
         // Reset physicians for a specific scenario and year to defaults
         resetPhysicians: (scenario: ScenarioKey, year: number) => {
-          const defaultPhysicians = scenario === 'A' 
-            ? scenarioADefaultsByYear(year) 
-            : scenarioBDefaultsByYear(year)
-          
           set((state) => {
-            const scenarioState = scenario === 'A' ? state.scenarioA : state.scenarioB
+            const scenarioState = state.scenarios[scenario]
             if (!scenarioState) return
+            const defaultPhysicians = scenarioDefaultsByYear(scenarioState.preset, year)
             
             const futureYear = scenarioState.future.find(f => f.year === year)
             if (!futureYear) return
@@ -1550,13 +1605,11 @@ export const useDashboardStore = create<Store>()(
         // Reset all physicians across all years for a scenario
         resetAllPhysicians: (scenario: ScenarioKey) => {
           set((state) => {
-            const scenarioState = scenario === 'A' ? state.scenarioA : state.scenarioB
+            const scenarioState = state.scenarios[scenario]
             if (!scenarioState) return
             
             scenarioState.future.forEach(fy => {
-              const defaultPhysicians = scenario === 'A' 
-                ? scenarioADefaultsByYear(fy.year) 
-                : scenarioBDefaultsByYear(fy.year)
+              const defaultPhysicians = scenarioDefaultsByYear(scenarioState.preset, fy.year)
               fy.physicians = defaultPhysicians.map(p => ({ ...p }))
             })
           })
@@ -1565,19 +1618,11 @@ export const useDashboardStore = create<Store>()(
         // Reset projection settings for a scenario to defaults
         resetProjectionSettings: (scenario: ScenarioKey) => {
           set((state) => {
-            const scenarioState = scenario === 'A' ? state.scenarioA : state.scenarioB
+            const scenarioState = state.scenarios[scenario]
             if (!scenarioState) return
             
-            scenarioState.projection = {
-              incomeGrowthPct: 3.7, 
-              medicalDirectorHours: 110000,
-              prcsMedicalDirectorHours: 60000,
-              nonEmploymentCostsPct: 7.8, 
-              nonMdEmploymentCostsPct: 6.0, 
-              locumsCosts: 120000, 
-              miscEmploymentCostsPct: 6.7, 
-              benefitCostsGrowthPct: 5.0 
-            }
+            scenarioState.projection = deriveProjectionDefaults(state.historic, state.trendSettings, scenarioState.preset)
+            delete scenarioState.growthSchedules
           })
           
           // Recalculate projections after resetting settings
@@ -1593,39 +1638,22 @@ export const useDashboardStore = create<Store>()(
         // Reset app-level view settings (which year selected, data mode, etc.)
         resetViewSettings: (scenario: ScenarioKey) => {
           set((state) => {
-            const scenarioState = scenario === 'A' ? state.scenarioA : state.scenarioB
+            const scenarioState = state.scenarios[scenario]
             if (!scenarioState) return
             
-            scenarioState.selectedYear = 2025 // Reset to Baseline tab
-            scenarioState.dataMode = '2025 Data'
+            scenarioState.selectedYear = state.baselineYear // Reset to Baseline tab
+            scenarioState.dataMode = defaultDataMode(scenarioState.preset, state.historic, state.baselineDetails, state.baselineYear)
           })
         },
 
         resetToDefaults: () => {
           set((state) => {
-            // Initialize scenario A with basic structure
-            state.scenarioA = {
-              future: INITIAL_FUTURE_YEARS_A.map((f) => ({ 
-                ...f, 
-                physicians: [...f.physicians.map(p => ({ ...p }))] 
-              })),
-              projection: { 
-                incomeGrowthPct: 3.7, 
-                medicalDirectorHours: 110000,
-                prcsMedicalDirectorHours: 60000,
-                nonEmploymentCostsPct: 7.8, 
-                nonMdEmploymentCostsPct: 6.0, 
-                locumsCosts: 120000, 
-                miscEmploymentCostsPct: 6.7, 
-                benefitCostsGrowthPct: 5.0 
-              },
-              selectedYear: 2025, // Reset to Baseline tab
-              dataMode: '2025 Data',
-            }
-            
-            // Reset app-level state (not handled by section resets)
-            state.scenarioBEnabled = false
-            state.scenarioB = undefined
+            // Back to a single default scenario
+            state.trendSettings = DEFAULT_TREND_SETTINGS
+            const projection = deriveProjectionDefaults(state.historic, DEFAULT_TREND_SETTINGS, 'A')
+            state.scenarios = { A: alignScenarioToBaseline(createScenarioState('A', 'Scenario A', SCENARIO_COLORS[0], projection, state.baselineYear, defaultDataMode('A', state.historic, state.baselineDetails, state.baselineYear)), state.baselineYear) }
+            state.scenarioOrder = ['A']
+            state.selectedScenarioIds = ['A']
           }, false)
 
           // Use the dedicated reset functions to ensure consistency
@@ -1635,15 +1663,86 @@ export const useDashboardStore = create<Store>()(
           state.resetYearByYearValues('A')
           state.resetViewSettings('A')
         },
+
+        undoStack: [],
+        redoStack: [],
+        undo: (steps = 1) => {
+          const { undoStack, redoStack } = get()
+          const count = Math.min(steps, undoStack.length)
+          if (count <= 0) return
+          const undone = undoStack.slice(undoStack.length - count)
+          const current = { snapshot: takeSnapshot(get()), historic: get().historic }
+          // Each redo entry holds the state after its change: the next entry's "before", or the current state
+          const redone = undone.map((entry, i) => {
+            const after = i + 1 < undone.length ? undone[i + 1] : current
+            return { ...entry, snapshot: after.snapshot, historic: after.historic }
+          })
+          lastMerge = null
+          set((state) => {
+            restore(state, undone[0])
+            state.undoStack = undoStack.slice(0, undoStack.length - count)
+            state.redoStack = [...redoStack, ...redone.reverse()]
+          })
+        },
+        redo: (steps = 1) => {
+          const { undoStack, redoStack } = get()
+          const count = Math.min(steps, redoStack.length)
+          if (count <= 0) return
+          const redone = redoStack.slice(redoStack.length - count).reverse()
+          const current = { snapshot: takeSnapshot(get()), historic: get().historic }
+          // Back on the undo stack each entry holds the state before its change again
+          const undoable = redone.map((entry, i) => {
+            const before = i === 0 ? current : redone[i - 1]
+            return { ...entry, snapshot: before.snapshot, historic: before.historic }
+          })
+          lastMerge = null
+          set((state) => {
+            restore(state, redone[redone.length - 1])
+            state.redoStack = redoStack.slice(0, redoStack.length - count)
+            state.undoStack = [...undoStack, ...undoable].slice(-HISTORY_LIMIT)
+          })
+        },
+      }
+
+      // Wrap every labelled action so it records an undo entry
+      for (const key of Object.keys(HISTORY_LABELS) as (keyof Store)[]) {
+        const describe = HISTORY_LABELS[key] as unknown as { label: (state: Store, ...args: unknown[]) => string; merge?: (...args: unknown[]) => string }
+        const action = store[key] as unknown as (...args: unknown[]) => unknown
+        Object.assign(store, {
+          [key]: (...args: unknown[]) => {
+            if (historyDepth > 0) return action(...args)
+            return track(describe.label(get(), ...args), describe.merge ? `${key}:${describe.merge(...args)}` : null, () => action(...args))
+          },
+        })
       }
+      return store
     }),
     {
       name: 'radiantcare-state-v1',
+      version: SCHEMA_VERSION,
       storage: createJSONStorage((): Storage => localStorage),
+      migrate: (persisted, version) => {
+        try {
+          const { warnings, ...migrated } = migratePersistedState(persisted, version)
+          return { ...migrated, loadError: warnings.length > 0 ? warnings.join('\n') : null } as unknown as Store
+        } catch (err) {
+          // Keep the unreadable blob so it is not lost when defaults get persisted over it
+          localStorage.setItem('radiantcare-state-unreadable', JSON.stringify({ version, state: persisted }))
+          const reason = err instanceof MigrationError ? err.message : String(err)
+          return { loadError: `Your saved scenarios could not be restored, so defaults were loaded instead. ${reason} A copy of the old data was kept in this browser under "radiantcare-state-unreadable".` } as unknown as Store
+        }
+      },
       partialize: (state: Store) => ({
-        scenarioA: state.scenarioA,
-        scenarioBEnabled: state.scenarioBEnabled,
-        scenarioB: state.scenarioB,
+        scenarios: state.scenarios,
+        scenarioOrder: state.scenarioOrder,
+        selectedScenarioIds: state.selectedScenarioIds,
+        library: state.library,
+        // Built-in actuals ship with the code, so only imported ones are stored
+        ...(state.actualsSource ? { historic: state.historic, baselineDetails: state.baselineDetails, actualsSource: state.actualsSource } : {}),
+        ...(state.payrollLedger.source ? { payrollLedger: state.payrollLedger, baselineDetails: state.baselineDetails } : {}),
+        ...(state.baselineYear !== DEFAULT_BASELINE_YEAR ? { baselineYear: state.baselineYear, historic: state.historic, baselineDetails: state.baselineDetails } : {}),
+        ...(state.historic !== HISTORIC_DATA ? { historic: state.historic } : {}),
+        ...(state.trendSettings !== DEFAULT_TREND_SETTINGS ? { trendSettings: state.trendSettings } : {}),
       }),
     }
   )
@@ -1651,285 +1750,18 @@ export const useDashboardStore = create<Store>()(
 
 // Initialize projections on store creation
 setTimeout(() => {
+  useDashboardStore.setState((state) => {
+    for (const sc of Object.values(state.scenarios)) sc.dataMode = availableDataMode(sc, state.historic, state.baselineDetails, state.baselineYear)
+  })
   const store = useDashboardStore.getState()
-  store.applyProjectionFromLastActual('A')
-  if (store.scenarioB) store.applyProjectionFromLastActual('B')
+  for (const id of store.scenarioOrder) store.applyProjectionFromLastActual(id)
 }, 0)
 
-function currency(value: number): string {
-  // Handle undefined/null values gracefully
-  if (value == null || isNaN(value)) {
-    value = 0
-  }
-  return value.toLocaleString('en-US', {
-    style: 'currency',
-    currency: 'USD',
-    minimumFractionDigits: 0,
-    maximumFractionDigits: 0,
-  })
-}
 
-// Currency formatter that shows dash for zero values (for tables)
-function currencyOrDash(value: number): string {
-  // Handle undefined/null values gracefully
-  if (value == null || isNaN(value) || value === 0) {
-    return '-'
-  }
-  return value.toLocaleString('en-US', {
-    style: 'currency',
-    currency: 'USD',
-    minimumFractionDigits: 0,
-    maximumFractionDigits: 0,
-  })
-}
-
-// Abbreviated currency for compact displays (e.g., $525k)
-function currencyShort(value: number): string {
-  const thousands = Math.round(value / 1000)
-  return `$${thousands}k`
-}
-
-function clamp(value: number, min: number, max: number): number {
-  return Math.max(min, Math.min(max, value))
-}
-
-// Calculate when benefits start for a new employee based on the new waiting period rules
-function calculateBenefitStartDay(startDay: number, year: number): number {
-  const { month: startMonth, day: startDayOfMonth } = dayOfYearToDate(startDay, year)
-  
-  // Rule: If start date is the first of any month (except February), benefits start next month
-  if (startDayOfMonth === 1 && startMonth !== 2) {
-    // Benefits start on the first of the next month
-    const nextMonth = startMonth === 12 ? 1 : startMonth + 1
-    const nextYear = startMonth === 12 ? year + 1 : year
-    
-    if (nextYear > year) {
-      // If it rolls to next year, benefits start after this year ends
-      return daysInYear(year) + 1
-    }
-    
-    // Calculate day of year for first of next month
-    const daysInMonth = [31, isLeapYear(year) ? 29 : 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31]
-    let dayOfYear = 0
-    for (let i = 0; i < nextMonth - 1; i++) {
-      dayOfYear += daysInMonth[i]
-    }
-    return dayOfYear + 1
-  }
-  
-  // Rule: If start is mid-month (or Feb 1st), benefits start one month PLUS rounding up to next month start
-  // This means: 30 days + beginning of first full month after that
-  const thirtyDaysAfterStart = startDay + 30
-  
-  if (thirtyDaysAfterStart > daysInYear(year)) {
-    // If 30 days after start goes into next year, benefits start after this year
-    return daysInYear(year) + 1
-  }
-  
-  // Find what month the 30-day mark falls in
-  const { month: month30Days } = dayOfYearToDate(thirtyDaysAfterStart, year)
-  
-  // Benefits start on the first of the month AFTER the 30-day mark
-  const benefitMonth = month30Days === 12 ? 1 : month30Days + 1
-  const benefitYear = month30Days === 12 ? year + 1 : year
-  
-  if (benefitYear > year) {
-    // If benefits start next year, return beyond this year
-    return daysInYear(year) + 1
-  }
-  
-  // Calculate day of year for first of benefit month
-  const daysInMonth = [31, isLeapYear(year) ? 29 : 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31]
-  let dayOfYear = 0
-  for (let i = 0; i < benefitMonth - 1; i++) {
-    dayOfYear += daysInMonth[i]
-  }
-  return dayOfYear + 1
-}
-
-// Calculate total cost for an employee including benefits and payroll taxes (WA State medical practice <50 employees)
-function calculateEmployeeTotalCost(employee: Physician, year: number = 2025, benefitGrowthPct: number = 5.0): number {
-  
-  const baseSalary = employee.salary || 0
-  const bonusAmount = employee.bonusAmount || 0
-  
-  // Monthly benefits (convert to annual) - only if employee receives benefits
-  let annualBenefits = 0
-  if (employee.receivesBenefits) {
-    const yearlyBenefitCost = getBenefitCostsForYear(year, benefitGrowthPct)
-    if (employee.type === 'newEmployee') {
-      // For new employees, use the new benefit waiting period calculation
-      const startDay = startPortionToStartDay(employee.startPortionOfYear ?? 0, year)
-      const benefitStartDay = calculateBenefitStartDay(startDay, year)
-      const totalDays = daysInYear(year)
-      
-      // Only count benefits if they start within this year
-      if (benefitStartDay <= totalDays) {
-        const benefitDays = Math.max(0, totalDays - benefitStartDay + 1)
-        const benefitPortion = benefitDays / totalDays
-        annualBenefits = yearlyBenefitCost * benefitPortion
-      }
-    } else {
-      // For regular employees and mixed types, full benefits if they receive them
-      annualBenefits = yearlyBenefitCost
-    }
-  }
-  
-  // Calculate all employer payroll taxes using the comprehensive function
-  const totalPayrollTaxes = calculateEmployerPayrollTaxes(baseSalary, year)
-  
-  return baseSalary + annualBenefits + totalPayrollTaxes + bonusAmount
-}
-
-// Mixed type helpers
-function getEmployeePortionOfYear(physician: Physician): number {
-  if (physician.type === 'employee') return 1
-  if (physician.type === 'partner') return 0
-  if (physician.type === 'newEmployee') {
-    // New employees work from their start date to end of year
-    const startPortion = physician.startPortionOfYear ?? 0
-    return 1 - startPortion
-  }
-  if (physician.type === 'employeeToTerminate') {
-    // Terminating employees work from beginning of year to termination date
-    const terminatePortion = physician.terminatePortionOfYear ?? 1
-    return terminatePortion
-  }
-  const val = physician.employeePortionOfYear ?? 0.5
-  return clamp(val, 0, 1)
-}
-
-function getPartnerPortionOfYear(physician: Physician): number {
-  if (physician.type === 'employee') return 0
-  if (physician.type === 'newEmployee') return 0
-  if (physician.type === 'employeeToTerminate') return 0
-  if (physician.type === 'partner') return 1
-  if (physician.type === 'employeeToPartner') return 1 - getEmployeePortionOfYear(physician)
-  if (physician.type === 'partnerToRetire') return physician.partnerPortionOfYear ?? 0.5
-  return 0
-}
-
-function getPartnerFTEWeight(physician: Physician): number {
-  // Allow up to 24 weeks for historical data compatibility
-  const weeks = clamp(physician.weeksVacation ?? 0, 0, 24)
-  const baseFte = 1 - weeks / 52
-  return baseFte * getPartnerPortionOfYear(physician)
-}
-
-// Calculate FTE weight properly accounting for vacation during partner working period
-function getPartnerFTEWeightProper(physician: Physician): number {
-  const partnerPortion = getPartnerPortionOfYear(physician)
-  if (partnerPortion === 0) return 0
-  
-  const weeksVacation = clamp(physician.weeksVacation ?? 0, 0, 24)
-  const partnerWeeksInYear = partnerPortion * 52
-  
-  // Vacation is taken during the partner working period
-  const effectivePartnerWeeks = Math.max(0, partnerWeeksInYear - weeksVacation)
-  
-  // Return as fraction of full year for comparison
-  return effectivePartnerWeeks / 52
-}
-
-
-// Helper functions for date-based employee->partner transition
-function isLeapYear(year: number): boolean {
-  return (year % 4 === 0 && year % 100 !== 0) || (year % 400 === 0)
-}
-
-function daysInYear(year: number): number {
-  return isLeapYear(year) ? 366 : 365
-}
 
-function dayOfYearToDate(dayOfYear: number, year: number): { month: number, day: number } {
-  const daysInMonth = [31, isLeapYear(year) ? 29 : 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31]
-  let remainingDays = dayOfYear
-  let month = 0
-  
-  while (remainingDays > daysInMonth[month]) {
-    remainingDays -= daysInMonth[month]
-    month++
-  }
-  
-  return { month: month + 1, day: remainingDays }
-}
-
-function calendarDateToPortion(month: number, day: number, year: number): number {
-  const daysInMonth = [31, isLeapYear(year) ? 29 : 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31]
-  let dayOfYear = 0
-  
-  // Add days for all complete months before the target month
-  for (let i = 0; i < month - 1; i++) {
-    dayOfYear += daysInMonth[i]
-  }
-  
-  // Add the day within the target month
-  dayOfYear += day
-  
-  // Convert to portion of year (0 to 1)
-  const totalDays = daysInYear(year)
-  return (dayOfYear - 1) / totalDays
-}
-
-function dateToString(month: number, day: number): string {
-  const monthNames = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
-  return `${monthNames[month - 1]} ${day}`
-}
-
-function employeePortionToTransitionDay(employeePortionOfYear: number, year: number): number {
-  const totalDays = daysInYear(year)
-  // If employeePortionOfYear is 0, they transition on Jan 1 (day 1)
-  // If employeePortionOfYear is 1, they transition on Jan 1 of next year (day = totalDays + 1)
-  return Math.max(1, Math.round(employeePortionOfYear * totalDays) + 1)
-}
-
-function transitionDayToEmployeePortion(transitionDay: number, year: number): number {
-  const totalDays = daysInYear(year)
-  // Day 1 means transition on Jan 1 (0% employee time - partner from day 1)
-  // Day N means they were employee for (N-1) days, then partner from day N onward
-  return Math.max(0, (transitionDay - 1) / totalDays)
-}
 
-// Helper for retirement portion - day 0 means retired in prior year (0 working days), day 1+ means last day of work
-function retirementDayToPartnerPortion(retirementDay: number, year: number): number {
-  const totalDays = daysInYear(year)
-  if (retirementDay === 0) {
-    // Day 0 means retired in prior year - 0 working days in current year
-    return 0
-  }
-  return retirementDay / totalDays
-}
-
-function partnerPortionToRetirementDay(partnerPortionOfYear: number, year: number): number {
-  const totalDays = daysInYear(year)
-  if (partnerPortionOfYear === 0) {
-    // 0 working portion means day 0 (retired in prior year)
-    return 0
-  }
-  return Math.round(partnerPortionOfYear * totalDays)
-}
-
-// Helper for new employee start date - similar to transition day but for start of employment
-function startPortionToStartDay(startPortionOfYear: number, year: number): number {
-  const totalDays = daysInYear(year)
-  // startPortionOfYear 0 means Jan 1 (day 1), 1 means Dec 31 (last day)
-  return Math.max(1, Math.round(startPortionOfYear * totalDays) + 1)
-}
 
-function startDayToStartPortion(startDay: number, year: number): number {
-  const totalDays = daysInYear(year)
-  // Day 1 means start on Jan 1 (0% through year), last day means start near end
-  return Math.max(0, Math.min(1, (startDay - 1) / totalDays))
-}
 
-// Helper function to get quarter start days for a given year (Apr 1, Jul 1, Oct 1)
-function getQuarterStartDays(year: number): { q2: number; q3: number; q4: number } {
-  const isLeap = isLeapYear(year)
-  const q2 = 31 + (isLeap ? 29 : 28) + 31 + 1 // Apr 1
-  const q3 = 31 + (isLeap ? 29 : 28) + 31 + 30 + 31 + 30 + 1 // Jul 1
-  const q4 = 31 + (isLeap ? 29 : 28) + 31 + 30 + 31 + 30 + 31 + 31 + 30 + 1 // Oct 1
-  return { q2, q3, q4 }
-}
 // Helper function to abbreviate physician names for summary display
 function abbreviatePhysicianName(name: string): string {
   // Check if it's a default "Physician X" format
@@ -1956,133 +1788,10 @@ function abbreviatePhysicianName(name: string): string {
   return name.trim()
 }
 
-// Bi-weekly payroll schedule calculations
-// Reference: 12/20/2024 pay date for period 11/30/2024-12/13/2024
-const REFERENCE_PAY_DATE = new Date('2024-12-20')
-const REFERENCE_PERIOD_END = new Date('2024-12-13')
-
-function addDays(date: Date, days: number): Date {
-  const result = new Date(date)
-  result.setDate(result.getDate() + days)
-  return result
-}
-
-function getPayPeriodsForYear(year: number): Array<{ periodStart: Date; periodEnd: Date; payDate: Date }> {
-  const periods: Array<{ periodStart: Date; periodEnd: Date; payDate: Date }> = []
-  
-  // Start from reference point and work backwards to find the first period of the year
-  let currentPeriodEnd = new Date(REFERENCE_PERIOD_END)
-  let currentPayDate = new Date(REFERENCE_PAY_DATE)
-  
-  // Go back to find the first pay period of the target year
-  while (currentPeriodEnd.getFullYear() > year || 
-         (currentPeriodEnd.getFullYear() === year && currentPeriodEnd.getMonth() > 0) ||
-         (currentPeriodEnd.getFullYear() === year && currentPeriodEnd.getMonth() === 0 && currentPeriodEnd.getDate() > 14)) {
-    currentPeriodEnd = addDays(currentPeriodEnd, -14)
-    currentPayDate = addDays(currentPayDate, -14)
-  }
-  
-  // Now work forward to collect all periods that could affect the target year
-  const nextYearEnd = new Date(year + 1, 0, 31) // Include early next year for delayed payments
-  
-  while (currentPayDate <= nextYearEnd) {
-    const periodStart = addDays(currentPeriodEnd, -13) // 14-day period
-    
-    periods.push({
-      periodStart,
-      periodEnd: new Date(currentPeriodEnd),
-      payDate: new Date(currentPayDate)
-    })
-    
-    // Move to next bi-weekly period
-    currentPeriodEnd = addDays(currentPeriodEnd, 14)
-    currentPayDate = addDays(currentPayDate, 14)
-  }
-  
-  return periods
-}
 
-function calculateDelayedW2Payment(physician: Physician, year: number): { amount: number; taxes: number; periodDetails: string } {
-  if (physician.type !== 'employeeToPartner') {
-    return { amount: 0, taxes: 0, periodDetails: '' }
-  }
-  
-  // Manual override for MC in 2025
-  if (physician.name === 'MC' && year === 2025) {
-    return {
-      amount: 15289.23,
-      taxes: 1493.36,
-      periodDetails: '12/14/24-12/27/24, 12/28/24-12/31/24 (manual override)'
-    }
-  }
-  
-  const transitionDay = employeePortionToTransitionDay(physician.employeePortionOfYear ?? 0.5, year)
-  const transitionDate = new Date(year, 0, transitionDay) // Convert to actual date
-  
-  const periods = getPayPeriodsForYear(year)
-  const salary = physician.salary ?? 0
-  
-  // Calculate hourly rate: salary ÷ (52 weeks × 5 days × 8 hours)
-  const annualWorkHours = 52 * 5 * 8  // 2,080 hours per year
-  const hourlyRate = salary / annualWorkHours
-  
-  let totalWorkDays = 0
-  let periodDetails: string[] = []
-  
-  // Helper function to count business days (Mon-Fri) in a date range
-  function countBusinessDays(startDate: Date, endDate: Date): number {
-    let count = 0
-    const current = new Date(startDate)
-    
-    while (current <= endDate) {
-      const dayOfWeek = current.getDay()
-      // 1 = Monday through 5 = Friday
-      if (dayOfWeek >= 1 && dayOfWeek <= 5) {
-        count++
-      }
-      current.setDate(current.getDate() + 1)
-    }
-    
-    return count
-  }
-  
-  // Find periods where work was done in prior year but paid in current year
-  for (const period of periods) {
-    // Skip periods where pay date is before transition date
-    if (period.payDate < transitionDate) continue
-    
-    // Check if work period was in prior year
-    if (period.periodStart.getFullYear() < year || period.periodEnd.getFullYear() < year) {
-      // Calculate business days in prior year
-      const priorYearEnd = new Date(year - 1, 11, 31)
-      const periodStartInPriorYear = period.periodStart.getFullYear() < year ? period.periodStart : new Date(year, 0, 1)
-      const periodEndInPriorYear = period.periodEnd.getFullYear() < year ? period.periodEnd : priorYearEnd
-      
-      if (periodStartInPriorYear <= priorYearEnd) {
-        const businessDaysInPriorYear = countBusinessDays(periodStartInPriorYear, periodEndInPriorYear)
-        totalWorkDays += businessDaysInPriorYear
-        
-        const periodStartStr = `${periodStartInPriorYear.getMonth() + 1}/${periodStartInPriorYear.getDate()}`
-        const periodEndStr = `${periodEndInPriorYear.getMonth() + 1}/${periodEndInPriorYear.getDate()}`
-        const payDateStr = `${period.payDate.getMonth() + 1}/${period.payDate.getDate()}`
-        periodDetails.push(`${periodStartStr}-${periodEndStr} (paid ${payDateStr}, ${businessDaysInPriorYear} work days)`)
-      }
-    }
-  }
-  
-  // Calculate total amount: business days × 8 hours/day × hourly rate
-  const amount = totalWorkDays * 8 * hourlyRate
-  const taxes = calculateEmployerPayrollTaxes(amount, year)
-  
-  return {
-    amount: Math.round(amount),
-    taxes: Math.round(taxes),
-    periodDetails: periodDetails.join(', ')
-  }
-}
 
 // Generate tooltip content for employee cost breakdown (WA State medical practice <50 employees)
-function getEmployeeCostTooltip(employee: Physician, year: number = 2025, benefitGrowthPct: number = 5.0, delayedW2Amount: number = 0, delayedW2Taxes: number = 0, delayedW2Details: string = ''): string {
+function getEmployeeCostTooltip(employee: Physician, year: number = 2025, benefitGrowthPct: number = 5.0, delayedW2Amount: number = 0, delayedW2Taxes: number = 0, delayedW2Details: string = '', taxTables?: PayrollTaxTables): string {
   
   const baseSalary = employee.salary || 0
   const bonusAmount = employee.bonusAmount || 0
@@ -2113,21 +1822,13 @@ function getEmployeeCostTooltip(employee: Physician, year: number = 2025, benefi
     }
   }
   
-  const ssWageBase = getSocialSecurityWageBase(year)
-  
-  // Federal taxes
-  const federalUnemployment = Math.min(baseSalary, 7000) * 0.006
-  const socialSecurity = Math.min(baseSalary, ssWageBase) * 0.062
-  const medicare = baseSalary * 0.0145
-  // Note: Additional Medicare tax is employee-paid, not employer-paid
-  
-  // Washington State taxes
-  const waUnemployment = Math.min(baseSalary, 72800) * 0.009
-  const waFamilyLeave = Math.min(baseSalary, ssWageBase) * 0.00658
-  const waStateDisability = baseSalary * 0.00255
-  const washingtonRate = baseSalary * 0.0003
+  // Employer taxes under the year's rules, grouped by who levies them
+  const taxItems = employerPayrollTaxItems(baseSalary, year, taxTables)
+  const jurisdictions = Array.from(new Set(taxItems.map((item) => item.rule.jurisdiction)))
+  const taxLines = jurisdictions.map((jurisdiction) => `${jurisdiction} Taxes:
+${taxItems.filter((item) => item.rule.jurisdiction === jurisdiction).map((item) => `${item.rule.name} (${describeEmployerRate(item.rule, year)}): ${currency(item.amount)}`).join('\n')}`).join('\n\n')
   
-  const totalCost = calculateEmployeeTotalCost(employee, year, benefitGrowthPct)
+  const totalCost = calculateEmployeeTotalCost(employee, year, benefitGrowthPct, taxTables)
   const totalCostWithDelayed = totalCost + delayedW2Amount + delayedW2Taxes
   
   return `Employee Total Cost Breakdown (${year}):
@@ -2136,16 +1837,7 @@ Relocation/Signing Bonus: ${currency(bonusAmount)}` : ''}${employee.receivesBene
 Benefits (Medical/Dental/Vision): ${currency(benefits)}${benefitsNote}` : `
 Benefits: None`}
 
-Federal Taxes:
-FUTA (0.6% on first $7K): ${currency(federalUnemployment)}
-Social Security (6.2% on first ${currency(ssWageBase)}): ${currency(socialSecurity)}
-Medicare (1.45%): ${currency(medicare)}
-
-Washington State Taxes:
-SUTA (0.9% on first $72.8K): ${currency(waUnemployment)}
-Family Leave (0.658% on first ${currency(ssWageBase)}): ${currency(waFamilyLeave)}
-State Disability (0.255%): ${currency(waStateDisability)}
-Washington Rate (0.030%): ${currency(washingtonRate)}${delayedW2Amount > 0 ? `
+${taxLines}${delayedW2Amount > 0 ? `
 
 Delayed W2 Payments (Prior Year Work):
 W2 Amount: ${currency(delayedW2Amount)}
@@ -2157,203 +1849,42 @@ Total Cost: ${currency(totalCostWithDelayed)}
 This total cost is deducted from the partner compensation pool.`
 }
 
+// Helper: a scenario's baseline year as its data mode builds it
+function scenarioBaseline(historic: YearRow[], details: Record<number, BaselineDetail>, baselineYear: number, sc: ScenarioState): BaselineYear {
+  return buildBaselineYear(sc.dataMode, historic, details, sc.future, baselineYear)
+}
+
+// Helper: the data a scenario uses for a given year. The baseline year is derived from the
+// scenario's data mode so every view (year panel, summaries, chart) sees the same numbers.
+function getScenarioYear(historic: YearRow[], details: Record<number, BaselineDetail>, baselineYear: number, sc: ScenarioState, year: number): BaselineYear | undefined {
+  if (year === baselineYear) return scenarioBaseline(historic, details, baselineYear, sc)
+  if (year < baselineYear) return undefined
+  const fy = sc.future.find((f) => f.year === year)
+  return fy ? { fy } : undefined
+}
+
+// Helper: the years a scenario projects past the baseline
+function projectedYears(sc: ScenarioState, baselineYear: number): number[] {
+  return sc.future.filter((f) => f.year > baselineYear).map((f) => f.year)
+}
+
+// Helper: run the compensation engine for one scenario year
+function computeScenarioYearCompensation(historic: YearRow[], details: Record<number, BaselineDetail>, baselineYear: number, ledger: PayrollLedger, sc: ScenarioState, year: number): YearCompensation | undefined {
+  const scenarioYear = getScenarioYear(historic, details, baselineYear, sc, year)
+  if (!scenarioYear) return undefined
+  return computeYearCompensation(scenarioYear.fy, sc.projection, { netPartnerPool: scenarioYear.netPartnerPool, payrollLedger: ledger, payrollTaxes: sc.payrollTaxes, retirementPlans: sc.retirementPlans })
+}
+
 function usePartnerComp(year: number, scenario: ScenarioKey) {
   const store = useDashboardStore()
-  const sc = scenario === 'A' ? store.scenarioA : store.scenarioB!
-  const fy = sc.future.find((f) => f.year === year)
-  const dataMode = scenario === 'A' ? store.scenarioA.dataMode : store.scenarioB?.dataMode
+  const { historic, baselineDetails, baselineYear, payrollLedger } = store
+  const sc = store.scenarios[scenario]
   return useMemo(() => {
-    // For baseline year (2025): always derive from the selected data mode unless in Custom.
-    // This avoids stale Custom state (e.g., a persisted 2025 entry in future years) from skewing baseline.
-    if (year === 2025 && dataMode !== 'Custom') {
-      // Get the baseline scenario data which includes PRCS director assignment
-      const baselineData = (() => {
-        const last2024 = store.historic.find(h => h.year === 2024)
-        const last2025 = store.historic.find(h => h.year === 2025)
-        
-        if (dataMode === '2024 Data' && last2024) {
-          const physicians = scenario2024Defaults()
-          const js = physicians.find(p => p.name === 'JS' && (p.type === 'partner' || p.type === 'employeeToPartner' || p.type === 'partnerToRetire'))
-          return {
-            medicalDirectorHours: 102870,
-            prcsMedicalDirectorHours: 25805,
-            prcsDirectorPhysicianId: js?.id,
-            physicians,
-          }
-        } else if (dataMode === '2025 Data' && last2025) {
-          const physicians = scenario === 'A' ? scenarioADefaultsByYear(2025) : scenarioBDefaultsByYear(2025)
-          const js = physicians.find(p => p.name === 'JS' && (p.type === 'partner' || p.type === 'employeeToPartner' || p.type === 'partnerToRetire'))
-          return {
-            medicalDirectorHours: 119373.75,
-            prcsMedicalDirectorHours: 37792.5,
-            prcsDirectorPhysicianId: js?.id,
-            physicians,
-          }
-        } else {
-          const physicians = scenario === 'A' ? scenarioADefaultsByYear(2025) : scenarioBDefaultsByYear(2025)
-          const js = physicians.find(p => p.name === 'JS' && (p.type === 'partner' || p.type === 'employeeToPartner' || p.type === 'partnerToRetire'))
-          return {
-            medicalDirectorHours: 119373.75,
-            prcsMedicalDirectorHours: 37792.5,
-            prcsDirectorPhysicianId: js?.id,
-            physicians,
-          }
-        }
-      })()
-      
-      const partners = baselineData.physicians.filter((p) => p.type === 'partner' || p.type === 'employeeToPartner' || p.type === 'partnerToRetire')
-      const partnerFTEs = partners.map((p) => {
-        // Allow up to 24 weeks for historical data compatibility
-        const weeks = clamp(p.weeksVacation ?? 0, 0, 24)
-        const fte = 1 - weeks / 52
-        const weight = fte * getPartnerPortionOfYear(p)
-        return { p, weight }
-      })
-      const totalWeight = partnerFTEs.reduce((s, x) => s + x.weight, 0) || 1
-      // For 2025, only account for buyout costs of partners who worked part of the year
-      // Partners who retired in prior year (weight = 0) shouldn't reduce the active partner pool
-      const buyoutCosts = partners.reduce((sum, p) => {
-        if (p.type === 'partnerToRetire') {
-          const weight = (1 - (p.weeksVacation ?? 0) / 52) * (p.partnerPortionOfYear ?? 0.5)
-          // Only subtract buyout if the partner worked part of the year
-          return sum + (weight > 0 ? (p.buyoutCost ?? 0) : 0)
-        }
-        return sum
-      }, 0)
-      
-      // Calculate Medical Director income allocations first for 2025 baseline
-      const medicalDirectorIncome = baselineData.medicalDirectorHours
-      const prcsMedicalDirectorIncome = baselineData.prcsMedicalDirectorHours
-      
-      // Calculate direct Medical Director allocations to partners
-      const partnerMedicalDirectorAllocations = new Map<string, number>()
-      
-      // Allocate shared Medical Director income based on percentages
-      for (const partner of partners) {
-        if (partner.hasMedicalDirectorHours && partner.medicalDirectorHoursPercentage) {
-          const allocation = (partner.medicalDirectorHoursPercentage / 100) * medicalDirectorIncome
-          partnerMedicalDirectorAllocations.set(partner.id, allocation)
-        }
-      }
-      
-      // Allocate PRCS Medical Director income directly to the assigned physician
-      if (baselineData.prcsDirectorPhysicianId && prcsMedicalDirectorIncome > 0) {
-        const currentPrcsAllocation = partnerMedicalDirectorAllocations.get(baselineData.prcsDirectorPhysicianId) ?? 0
-        partnerMedicalDirectorAllocations.set(baselineData.prcsDirectorPhysicianId, currentPrcsAllocation + prcsMedicalDirectorIncome)
-      }
-      
-      // Calculate total Medical Director allocations to subtract from pool
-      const totalMedicalDirectorAllocations = Array.from(partnerMedicalDirectorAllocations.values()).reduce((sum, allocation) => sum + allocation, 0)
-      
-      // Use different partner pools based on data mode
-      const basePool = dataMode === '2024 Data' ? 2032099.02 : NET_PARTNER_POOL_2025
-      // NET_PARTNER_POOL_2025 is already net of all costs, so only subtract buyouts and MD allocations
-      // delayedW2Costs are already accounted for in the net pool
-      const adjustedPool = Math.max(0, basePool - buyoutCosts - totalMedicalDirectorAllocations)
-      
-      return partnerFTEs
-        .filter(({ p, weight }) => {
-          // Exclude partners who retired in prior year and only got buyout (no working portion)
-          if (p.type === 'partnerToRetire' && weight === 0) {
-            return false
-          }
-          return true
-        })
-        .map(({ p, weight }) => ({ 
-          id: p.id, 
-          name: p.name, 
-          comp: (weight / totalWeight) * adjustedPool + (partnerMedicalDirectorAllocations.get(p.id) ?? 0) + (p.type === 'partnerToRetire' ? (p.buyoutCost ?? 0) : 0)
-        }))
-    }
-    if (!fy) return [] as { id: string; name: string; comp: number }[]
-    const partners = fy.physicians.filter((p) => p.type === 'partner' || p.type === 'employeeToPartner' || p.type === 'partnerToRetire')
-    const employees = fy.physicians.filter((p) => p.type === 'employee' || p.type === 'employeeToPartner' || p.type === 'newEmployee' || p.type === 'employeeToTerminate')
-    const totalEmployeeCosts = employees.reduce((sum, e) => {
-      const employeePortion = getEmployeePortionOfYear(e)
-      if (employeePortion <= 0) return sum
-      
-      // Calculate full employee cost including benefits and payroll taxes
-      if (e.type === 'newEmployee') {
-        // For new employees, calculate prorated total cost
-        const proratedEmployee = { ...e, salary: (e.salary ?? 0) * employeePortion }
-        return sum + calculateEmployeeTotalCost(proratedEmployee, year, sc.projection.benefitCostsGrowthPct)
-      } else if (e.type === 'employeeToTerminate') {
-        // For terminating employees, calculate prorated total cost
-        const proratedEmployee = { ...e, salary: (e.salary ?? 0) * employeePortion }
-        return sum + calculateEmployeeTotalCost(proratedEmployee, year, sc.projection.benefitCostsGrowthPct)
-      } else if (e.type === 'employeeToPartner') {
-        // For mixed types, only count the employee portion of their total cost
-        const employeePortionSalary = (e.salary ?? 0) * employeePortion
-        const employeePortionPhysician = { ...e, salary: employeePortionSalary }
-        return sum + calculateEmployeeTotalCost(employeePortionPhysician, year, sc.projection.benefitCostsGrowthPct)
-      } else {
-        // For regular employees, calculate full cost
-        return sum + calculateEmployeeTotalCost(e, year, sc.projection.benefitCostsGrowthPct)
-      }
-    }, 0)
-    const totalBuyoutCosts = fy.physicians.reduce((sum, p) => {
-      if (p.type === 'partnerToRetire') {
-        const weight = getPartnerFTEWeight(p)
-        // Only subtract buyout if the partner worked part of the year
-        return sum + (weight > 0 ? (p.buyoutCost ?? 0) : 0)
-      }
-      return sum
-    }, 0)
-    // Calculate delayed W2 payments for employeeToPartner physicians
-    const totalDelayedW2Costs = fy.physicians.reduce((sum, p) => {
-      if (p.type === 'employeeToPartner') {
-        const delayed = calculateDelayedW2Payment(p, year)
-        return sum + delayed.amount + delayed.taxes
-      }
-      return sum
-    }, 0)
-    // Calculate Medical Director income allocations first
-    const medicalDirectorIncome = fy.medicalDirectorHours ?? 110000
-    const prcsMedicalDirectorIncome = fy.prcsDirectorPhysicianId ? (fy.prcsMedicalDirectorHours ?? 60000) : 0
-    
-    // Calculate direct Medical Director allocations to partners
-    const partnerMedicalDirectorAllocations = new Map<string, number>()
-    
-    // Allocate shared Medical Director income based on percentages
-    for (const partner of partners) {
-      if (partner.hasMedicalDirectorHours && partner.medicalDirectorHoursPercentage) {
-        const allocation = (partner.medicalDirectorHoursPercentage / 100) * medicalDirectorIncome
-        partnerMedicalDirectorAllocations.set(partner.id, allocation)
-      }
-    }
-    
-    // Allocate PRCS Medical Director income directly to the assigned physician
-    if (fy.prcsDirectorPhysicianId && prcsMedicalDirectorIncome > 0) {
-      const currentPrcsAllocation = partnerMedicalDirectorAllocations.get(fy.prcsDirectorPhysicianId) ?? 0
-      partnerMedicalDirectorAllocations.set(fy.prcsDirectorPhysicianId, currentPrcsAllocation + prcsMedicalDirectorIncome)
-    }
-    
-    // Calculate total Medical Director allocations to subtract from pool
-    const totalMedicalDirectorAllocations = Array.from(partnerMedicalDirectorAllocations.values()).reduce((sum, allocation) => sum + allocation, 0)
-    
-    const totalCosts = fy.nonEmploymentCosts + fy.nonMdEmploymentCosts + fy.miscEmploymentCosts + fy.locumCosts + totalEmployeeCosts + totalBuyoutCosts + totalDelayedW2Costs
-    const basePool = Math.max(0, fy.therapyIncome - totalCosts)
-    
-    // Subtract Medical Director allocations from the pool to get the FTE-distributable pool
-    const pool = Math.max(0, basePool - totalMedicalDirectorAllocations)
-    
-    if (partners.length === 0) return []
-    const partnerFTEs = partners.map((p) => ({ p, weight: getPartnerFTEWeight(p) }))
-    const totalWeight = partnerFTEs.reduce((s, x) => s + x.weight, 0) || 1
-    return partnerFTEs
-      .filter(({ p, weight }) => {
-        // Exclude partners who retired in prior year and only got buyout (no working portion)
-        if (p.type === 'partnerToRetire' && weight === 0) {
-          return false
-        }
-        return true
-      })
-      .map(({ p, weight }) => ({
-        id: p.id,
-        name: p.name,
-        comp: (weight / totalWeight) * pool + (partnerMedicalDirectorAllocations.get(p.id) ?? 0) + (p.type === 'partnerToRetire' ? (p.buyoutCost ?? 0) : 0),
-      }))
-  }, [fy, sc, dataMode])
+    const result = computeScenarioYearCompensation(historic, baselineDetails, baselineYear, payrollLedger, sc, year)
+    if (!result) return [] as PhysicianCompensation[]
+    // Exclude partners who retired in prior year and only got buyout (no working portion)
+    return result.physicians.filter((p) => p.role === 'partner' && !p.retiredPriorYear)
+  }, [historic, baselineDetails, baselineYear, payrollLedger, sc, year])
 }
 
 // Helper function to check if physicians have been changed from defaults
@@ -2364,9 +1895,7 @@ function arePhysiciansChanged(
   _store: any
 ): boolean {
   // Get default physicians for this year and scenario
-  const defaultPhysicians = scenario === 'A' 
-    ? scenarioADefaultsByYear(year) 
-    : scenarioBDefaultsByYear(year)
+  const defaultPhysicians = scenarioDefaultsByYear(_store.scenarios[scenario].preset, year)
   
   // If different number of physicians, it's changed
   if (currentPhysicians.length !== defaultPhysicians.length) {
@@ -2401,7 +1930,7 @@ function arePhysiciansChanged(
   
   // Include PRCS director selection and PRCS amount override in change detection
   try {
-    const sc = scenario === 'A' ? _store.scenarioA : _store.scenarioB
+    const sc = _store.scenarios[scenario]
     const fy = sc?.future.find((f: any) => f.year === year)
     const projectionPrcs = sc?.projection?.prcsMedicalDirectorHours ?? 80000
     const currentPrcs = fy?.prcsMedicalDirectorHours ?? projectionPrcs
@@ -2421,162 +1950,146 @@ function arePhysiciansChanged(
 }
 
 // Helper function to calculate projected value for a specific year and field
+// Helper: an editable baseline year isn't projected, so its roster is priced whenever the roster changes
+function priceBaselineStaff(sc: ScenarioState, baselineYear: number) {
+  const fy = sc.future.find((f) => f.year === baselineYear)
+  if (fy?.staff && sc.dataMode === 'Custom') fy.nonMdEmploymentCosts = calculateStaffRosterCost(fy.staff, baselineYear, sc.projection.benefitCostsGrowthPct, sc.payrollTaxes)
+}
+
 function calculateProjectedValue(
   scenario: ScenarioKey,
   year: number,
-  field: 'therapyIncome' | 'nonEmploymentCosts' | 'nonMdEmploymentCosts' | 'miscEmploymentCosts',
+  field: GrowthField,
   store: any
 ): number {
-  const sc = scenario === 'A' ? store.scenarioA : store.scenarioB
-  if (!sc || year === 2025) return 0 // No projections for baseline year
+  const sc = store.scenarios[scenario]
+  if (!sc || year <= store.baselineYear) return 0 // No projections for baseline year
 
   // Get baseline data based on data mode
-  let baselineData
-  if (sc.dataMode === 'Custom') {
-    const customBaseline = sc.baseline?.find((b: any) => b.year === 2025)
-    if (customBaseline) {
-      baselineData = {
-        therapyIncome: customBaseline.therapyIncome,
-        nonEmploymentCosts: customBaseline.nonEmploymentCosts,
-        miscEmploymentCosts: customBaseline.miscEmploymentCosts,
-        nonMdEmploymentCosts: customBaseline.nonMdEmploymentCosts,
-      }
-    } else {
-      const last2025 = store.historic.find((h: any) => h.year === 2025)
-      baselineData = {
-        therapyIncome: last2025?.therapyIncome || 3344068.19,
-        nonEmploymentCosts: last2025?.nonEmploymentCosts || 229713.57,
-        miscEmploymentCosts: DEFAULT_MISC_EMPLOYMENT_COSTS,
-        nonMdEmploymentCosts: computeDefaultNonMdEmploymentCosts(2025),
-      }
-    }
-  } else if (sc.dataMode === '2024 Data') {
-    const last2024 = store.historic.find((h: any) => h.year === 2024)!
-    baselineData = {
-      therapyIncome: last2024.therapyIncome,
-      nonEmploymentCosts: last2024.nonEmploymentCosts,
-      miscEmploymentCosts: 24623.49,
-      nonMdEmploymentCosts: 164677.44,
-    }
-  } else if (sc.dataMode === '2025 Data') {
-    const last2025 = store.historic.find((h: any) => h.year === 2025)!
-    baselineData = {
-      therapyIncome: last2025.therapyIncome,
-      nonEmploymentCosts: last2025.nonEmploymentCosts,
-      miscEmploymentCosts: DEFAULT_MISC_EMPLOYMENT_COSTS,
-      nonMdEmploymentCosts: computeDefaultNonMdEmploymentCosts(2025),
-    }
-  } else {
-    baselineData = {
-      therapyIncome: 3344068.19,
-      nonEmploymentCosts: 229713.57,
-      miscEmploymentCosts: DEFAULT_MISC_EMPLOYMENT_COSTS,
-      nonMdEmploymentCosts: computeDefaultNonMdEmploymentCosts(2025),
+  const baselineData = scenarioBaseline(store.historic, store.baselineDetails, store.baselineYear, sc).fy
+
+  // Chain each year's rate from the baseline to the requested year
+  if (field === 'nonEmploymentCosts') {
+    const oneOffs = sc.future.find((f: FutureYear) => f.year === year)?.oneOffCosts
+    return splitTotal(projectCosts(baselineData, sc.projection, sc.growthSchedules, sc.costCategoryGrowth, year)) + oneOffTotal(oneOffs)
+  }
+  if (field === 'nonMdEmploymentCosts') {
+    // Priced from the roster in years that have one, grown from the latest such year otherwise
+    let value = baselineData.nonMdEmploymentCosts
+    for (let y = store.baselineYear + 1; y <= year; y++) {
+      const staff = sc.future.find((f: FutureYear) => f.year === y)?.staff
+      value = staff
+        ? calculateStaffRosterCost(staff, y, sc.projection.benefitCostsGrowthPct, sc.payrollTaxes)
+        : value * (1 + growthRateFor(sc.projection, sc.growthSchedules, field, y) / 100)
     }
+    return value
   }
+  return compoundGrowth(baselineData[field], sc.projection, sc.growthSchedules, field, store.baselineYear, year)
+}
 
-  // Convert percentage growth rates to decimal multipliers
-  const incomeGpct = sc.projection.incomeGrowthPct / 100
-  const nonEmploymentGpct = sc.projection.nonEmploymentCostsPct / 100
-  const nonMdEmploymentGpct = sc.projection.nonMdEmploymentCostsPct / 100
-  const miscEmploymentGpct = sc.projection.miscEmploymentCostsPct / 100
+// Tornado chart for the selected year, collapsed until asked for
+function SensitivitySection({ year, scenario }: { year: number; scenario: ScenarioKey }) {
+  const store = useDashboardStore()
+  const { historic, baselineDetails, baselineYear, payrollLedger } = store
+  const sc = store.scenarios[scenario]
+  const [open, setOpen] = useState(false)
+  const [target, setTarget] = useState<SensitivityTarget>({ kind: 'pool' })
+  const [shockPct, setShockPct] = useState(DEFAULT_SENSITIVITY_SHOCK_PCT)
+  const scenarioYear = useMemo(() => getScenarioYear(historic, baselineDetails, baselineYear, sc, year), [historic, baselineDetails, baselineYear, sc, year])
+  const physicianNames = scenarioYear ? scenarioYear.fy.physicians.map((p) => p.name) : []
+  // A physician picked in another year may not be on this year's roster
+  const targetName = target.kind === 'physician' && physicianNames.includes(target.name) ? target.name : ''
+  const activeTarget = useMemo<SensitivityTarget>(() => (targetName ? { kind: 'physician', name: targetName } : { kind: 'pool' }), [targetName])
+  const result = useMemo(() => {
+    if (!open || !scenarioYear) return undefined
+    return analyzeSensitivity(scenarioYear.fy, sc.projection, sc.growthSchedules, baselineYear, activeTarget, shockPct, { netPartnerPool: scenarioYear.netPartnerPool, payrollLedger, payrollTaxes: sc.payrollTaxes, retirementPlans: sc.retirementPlans })
+  }, [open, scenarioYear, sc.projection, sc.payrollTaxes, sc.growthSchedules, sc.retirementPlans, baselineYear, activeTarget, shockPct, payrollLedger])
 
-  // Calculate projected value for the specific year
-  let value = baselineData[field]
-  const yearsSinceBaseline = year - 2025
-  
-  if (field === 'therapyIncome') {
-    value = value * Math.pow(1 + incomeGpct, yearsSinceBaseline)
-  } else if (field === 'nonEmploymentCosts') {
-    value = value * Math.pow(1 + nonEmploymentGpct, yearsSinceBaseline)
-  } else if (field === 'nonMdEmploymentCosts') {
-    value = value * Math.pow(1 + nonMdEmploymentGpct, yearsSinceBaseline)
-  } else if (field === 'miscEmploymentCosts') {
-    value = value * Math.pow(1 + miscEmploymentGpct, yearsSinceBaseline)
+  return (
+    <div style={{ marginTop: 8 }}>
+      <button
+        onClick={() => setOpen(!open)}
+        style={{ border: '1px solid #ccc', borderRadius: 4, background: open ? '#f0f4ff' : 'white', padding: '4px 10px', cursor: 'pointer', fontSize: 13 }}
+      >
+        {open ? 'Hide sensitivity' : 'Sensitivity analysis'}
+      </button>
+      {open && result && (
+        <div style={{ marginTop: 8 }}>
+          <SensitivityPanel
+            year={year}
+            result={result}
+            target={activeTarget}
+            physicianNames={physicianNames}
+            shockPct={shockPct}
+            note={scenarioYear?.netPartnerPool !== undefined ? 'The baseline uses the actual partner pool, so income and cost drivers do not move it.' : undefined}
+            onTargetChange={setTarget}
+            onShockChange={setShockPct}
+          />
+        </div>
+      )}
+    </div>
+  )
+}
+
+// Goal seek across the projected years, collapsed until asked for
+function GoalSeekSection({ year, scenario }: { year: number; scenario: ScenarioKey }) {
+  const store = useDashboardStore()
+  const { historic, baselineDetails, baselineYear, payrollLedger } = store
+  const sc = store.scenarios[scenario]
+  const [open, setOpen] = useState(false)
+  const years = projectedYears(sc, baselineYear)
+
+  const getContext = (y: number): GoalSeekContext | undefined => {
+    const scenarioYear = getScenarioYear(historic, baselineDetails, baselineYear, sc, y)
+    const baseline = getScenarioYear(historic, baselineDetails, baselineYear, sc, baselineYear)
+    if (!scenarioYear || !baseline) return undefined
+    return { fy: scenarioYear.fy, baseline: baseline.fy, projection: sc.projection, growthSchedules: sc.growthSchedules, options: { netPartnerPool: scenarioYear.netPartnerPool, payrollLedger, payrollTaxes: sc.payrollTaxes, retirementPlans: sc.retirementPlans } }
   }
 
-  return value
+  const applyGoal = (y: number, variable: GoalVariable, value: number) => {
+    if (variable.kind === 'projection') {
+      store.setProjectionField(scenario, variable.field, value)
+    } else if (variable.kind === 'year') {
+      store.setFutureValue(scenario, y, variable.field, value)
+    } else {
+      const physician = sc.future.find((f) => f.year === y)?.physicians.find((p) => p.id === variable.physicianId)
+      if (physician) store.upsertPhysician(scenario, y, { ...physician, [variable.field]: value })
+    }
+  }
+
+  if (years.length === 0) return null
+  return (
+    <div style={{ marginTop: 8 }}>
+      <button
+        onClick={() => setOpen(!open)}
+        style={{ border: '1px solid #ccc', borderRadius: 4, background: open ? '#f0f4ff' : 'white', padding: '4px 10px', cursor: 'pointer', fontSize: 13 }}
+      >
+        {open ? 'Hide goal seek' : 'Goal seek'}
+      </button>
+      {open && (
+        <div style={{ marginTop: 8 }}>
+          <GoalSeekPanel years={years} initialYear={year} getContext={getContext} onApply={applyGoal} />
+        </div>
+      )}
+    </div>
+  )
 }
 
 function YearPanel({ year, scenario }: { year: number; scenario: ScenarioKey }) {
   const store = useDashboardStore()
   const isMobile = useIsMobile()
-  const sc = scenario === 'A' ? store.scenarioA : store.scenarioB!
-  const dataMode = scenario === 'A' ? store.scenarioA.dataMode : store.scenarioB?.dataMode || '2025 Data'
-  const isReadOnly = year === 2025 && dataMode !== 'Custom'
-  const last2024 = store.historic.find((h) => h.year === 2024)
-  const last2025 = store.historic.find((h) => h.year === 2025)
-  
-  const fy = isReadOnly && (last2024 || last2025)
-    ? (() => {
-        // For Custom mode, use the editable data from future years array
-        if ((dataMode as string) === 'Custom') {
-          const customData = sc.future.find((f) => f.year === 2025)
-          if (customData) return customData
-          // Fallback if no custom data exists yet
-          return {
-            year: 2025,
-            therapyIncome: last2025?.therapyIncome || 3344068.19,
-            nonEmploymentCosts: last2025?.nonEmploymentCosts || 229713.57,
-            nonMdEmploymentCosts: computeDefaultNonMdEmploymentCosts(2025),
-            locumCosts: 54600,
-            miscEmploymentCosts: DEFAULT_MISC_EMPLOYMENT_COSTS,
-            physicians: scenario === 'A' ? scenarioADefaultsByYear(2025) : scenarioBDefaultsByYear(2025),
-          } as FutureYear
-        }
-        // Determine baseline data based on selected data mode
-        else if (dataMode === '2024 Data' && last2024) {
-          const physicians = scenario2024Defaults()
-          const js = physicians.find(p => p.name === 'JS' && (p.type === 'partner' || p.type === 'employeeToPartner' || p.type === 'partnerToRetire'))
-          return {
-            year: 2025,
-            therapyIncome: last2024.therapyIncome,
-            nonEmploymentCosts: last2024.nonEmploymentCosts,
-            nonMdEmploymentCosts: 164677.44, // 2024 actual staff employment costs
-            locumCosts: 113400, // 2024 actual locums costs
-            miscEmploymentCosts: 18182.56, // 2024 actual misc employment from image
-            medicalDirectorHours: 102870, // 2024 shared medical director amount
-            prcsMedicalDirectorHours: 25805, // 2024 PRCS medical director amount (JS)
-            prcsDirectorPhysicianId: js?.id, // Assign PRCS to JS
-            physicians,
-          } as FutureYear
-        } else if (dataMode === '2025 Data' && last2025) {
-          const physicians = scenario === 'A' ? scenarioADefaultsByYear(2025) : scenarioBDefaultsByYear(2025)
-          const js = physicians.find(p => p.name === 'JS' && (p.type === 'partner' || p.type === 'employeeToPartner' || p.type === 'partnerToRetire'))
-          return {
-            year: 2025,
-            therapyIncome: last2025.therapyIncome,
-            nonEmploymentCosts: last2025.nonEmploymentCosts,
-            nonMdEmploymentCosts: computeDefaultNonMdEmploymentCosts(2025),
-            locumCosts: 54600,
-            miscEmploymentCosts: DEFAULT_MISC_EMPLOYMENT_COSTS,
-            medicalDirectorHours: 119373.75, // 2025 shared medical director amount
-            prcsMedicalDirectorHours: 37792.5, // 2025 PRCS medical director amount (JS)
-            prcsDirectorPhysicianId: js?.id, // Assign PRCS to JS
-            physicians,
-          } as FutureYear
-        } else {
-          // Fallback 
-          const physicians = scenario === 'A' ? scenarioADefaultsByYear(2025) : scenarioBDefaultsByYear(2025)
-          const js = physicians.find(p => p.name === 'JS' && (p.type === 'partner' || p.type === 'employeeToPartner' || p.type === 'partnerToRetire'))
-          return {
-            year: 2025,
-            therapyIncome: last2025?.therapyIncome || 3344068.19,
-            nonEmploymentCosts: last2025?.nonEmploymentCosts || 229713.57,
-            nonMdEmploymentCosts: computeDefaultNonMdEmploymentCosts(2025),
-            locumCosts: 54600,
-            miscEmploymentCosts: DEFAULT_MISC_EMPLOYMENT_COSTS,
-            prcsDirectorPhysicianId: js?.id, // Assign PRCS to JS
-            physicians,
-          } as FutureYear
-        }
-      })()
+  const sc = store.scenarios[scenario]
+  const dataMode = store.scenarios[scenario].dataMode
+  const isBaseline = year === store.baselineYear
+  const isReadOnly = isBaseline && dataMode !== 'Custom'
+  const fy = isReadOnly
+    ? getScenarioYear(store.historic, store.baselineDetails, store.baselineYear, sc, year)!.fy
     : (sc.future.find((f) => f.year === year) as FutureYear)
   const partnerComp = usePartnerComp(year, scenario)
 
   return (
     <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
-      {year === 2025 ? (
+      {isBaseline ? (
         <div style={{ position: 'relative' }}>
           <div style={{ 
             display: 'flex', 
@@ -2587,7 +2100,7 @@ function YearPanel({ year, scenario }: { year: number; scenario: ScenarioKey })
             transformOrigin: 'top'
           }}>
             <span style={{ marginLeft: 13, fontWeight: 700, fontSize: 16, color: '#374151' }}>Data Source:</span>
-            {(['Custom', '2024 Data', '2025 Data'] as const).map((mode) => (
+            {(['Custom', ...actualsDataModes(store.historic, store.baselineDetails)] as DataMode[]).map((mode) => (
             <button
               key={mode}
               onClick={() => {
@@ -2601,8 +2114,8 @@ function YearPanel({ year, scenario }: { year: number; scenario: ScenarioKey })
                 padding: '4px 8px',
                 borderRadius: 4,
                 border: '1px solid #ccc',
-                background: (scenario === 'A' ? store.scenarioA.dataMode : store.scenarioB?.dataMode) === mode ? '#f0f4ff' : 'white',
-                fontWeight: (scenario === 'A' ? store.scenarioA.dataMode : store.scenarioB?.dataMode) === mode ? 600 : 400,
+                background: store.scenarios[scenario].dataMode === mode ? '#f0f4ff' : 'white',
+                fontWeight: store.scenarios[scenario].dataMode === mode ? 600 : 400,
                 cursor: 'pointer',
                 fontSize: 12,
               }}
@@ -2610,6 +2123,9 @@ function YearPanel({ year, scenario }: { year: number; scenario: ScenarioKey })
               {mode}
             </button>
             ))}
+            <span style={{ fontSize: 11, color: '#6b7280' }} title="Other historic years have income and cost totals only, so they feed the trend fit but cannot be a baseline. Closing a year records its detail.">
+              Only years with their roster and staff, misc and locums costs on record are listed
+            </span>
           </div>
         </div>
 
@@ -2976,6 +2492,16 @@ function YearPanel({ year, scenario }: { year: number; scenario: ScenarioKey })
           onClick={(e) => createTooltip('nonemp-tooltip', 'Includes these non-employment categories:\n\nInsurance Cost\nState/Local Taxes\nCommunications Cost\nLicensure Costs\nPromotional Costs\nBilling Costs\nOffice Overhead\nCapital Expense', e)}
         ><span style={{ transform: 'translateY(-0.5px)', display: 'inline-block' }}>ℹ</span></div>
       </div>
+      <CostBreakdownPanel
+        fy={fy}
+        canEditCategories={isBaseline && !isReadOnly}
+        canEditOneOffs={!isReadOnly}
+        readOnlyHint={isReadOnly
+          ? 'These are actuals; split them into categories under Historic data.'
+          : isBaseline ? undefined : 'Categories grow from the baseline split at their own rates; change the split on the Baseline tab.'}
+        onCategoryChange={(category, amount) => store.setCostCategory(scenario, year, category, amount)}
+        onOneOffsChange={(oneOffs) => store.setOneOffCosts(scenario, year, oneOffs)}
+      />
       </div>
 
       <div className="panel-red" style={{ padding: 8, backgroundColor: '#ffffff', borderRadius: 8, marginBottom: 16, border: '1px solid rgba(239, 68, 68, 0.4)', boxShadow: '0 1px 3px rgba(0, 0, 0, 0.05), 0 0 0 1px rgba(239, 68, 68, 0.05), 0 0 10px rgba(239, 68, 68, 0.08), 0 0 6px rgba(239, 68, 68, 0.4)' }}>
@@ -2985,7 +2511,7 @@ function YearPanel({ year, scenario }: { year: number; scenario: ScenarioKey })
           const projectedValue = calculateProjectedValue(scenario, year, 'nonMdEmploymentCosts', store)
           const currentValue = fy.nonMdEmploymentCosts || 0
           const isChanged = projectedValue > 0 && Math.abs(currentValue - projectedValue) > 1000 // $1000 threshold for dollar amounts
-          return isChanged && !isReadOnly ? (
+          return isChanged && !isReadOnly && !fy.staff ? (
             <button
               onClick={() => {
                 removeTooltip('staff-employment-reset-tooltip')
@@ -3018,7 +2544,7 @@ function YearPanel({ year, scenario }: { year: number; scenario: ScenarioKey })
           ) : null
         })()}
       </div>
-      <div className="mobile-stack" style={{ display: 'grid', gridTemplateColumns: isMobile ? '1fr' : '1fr auto auto', gap: 8, alignItems: 'center', opacity: isReadOnly ? 0.7 : 1 }}>
+      <div className="mobile-stack" style={{ display: 'grid', gridTemplateColumns: isMobile ? '1fr' : '1fr auto auto', gap: 8, alignItems: 'center', opacity: isReadOnly || fy.staff ? 0.7 : 1 }}>
         <input
           type="range"
           min={50000}
@@ -3033,7 +2559,7 @@ function YearPanel({ year, scenario }: { year: number; scenario: ScenarioKey })
               Number(e.target.value)
             )
           }
-          disabled={isReadOnly}
+          disabled={isReadOnly || !!fy.staff}
           style={{ 
             width: '100%',
             ['--fill-percent' as any]: `${(((fy.nonMdEmploymentCosts || 150000) - 50000) / (300000 - 50000)) * 100}%`
@@ -3050,7 +2576,7 @@ function YearPanel({ year, scenario }: { year: number; scenario: ScenarioKey })
               Number(e.target.value.replace(/[^0-9]/g, ''))
             )
           }
-          disabled={isReadOnly}
+          disabled={isReadOnly || !!fy.staff}
           style={{ 
             width: isMobile ? 100 : 100, 
             height: 20, 
@@ -3081,7 +2607,8 @@ function YearPanel({ year, scenario }: { year: number; scenario: ScenarioKey })
               box-shadow: 0 2px 8px rgba(0,0,0,0.2);
               pointer-events: none;
             `
-            tooltip.textContent = `Includes: Practice Manager, Billing\n\nBaseline 2025:\nRG: Full-time, $31.25 per hour, Medical/Dental/Vision\nAL: Part-time: $27 per hour, 32 hours per week\nMW: Part-time: $23 per hour, 20 hours per week`
+            const baselineStaff = sc.future.find((f) => f.year === store.baselineYear)?.staff ?? defaultStaffRoster(store.baselineYear, sc.projection.nonMdEmploymentCostsPct)
+            tooltip.textContent = describeStaffRoster(baselineStaff, store.baselineYear)
             document.body.appendChild(tooltip)
             const rect = (e.currentTarget as HTMLElement).getBoundingClientRect()
             tooltip.style.left = `${rect.right + 10}px`
@@ -3095,6 +2622,19 @@ function YearPanel({ year, scenario }: { year: number; scenario: ScenarioKey })
           <span style={{ transform: 'translateY(-0.5px)', display: 'inline-block' }}>ℹ</span>
         </div>
       </div>
+      {!isReadOnly && (
+        <StaffRosterEditor
+          year={year}
+          staff={fy.staff}
+          benefitGrowthPct={sc.projection.benefitCostsGrowthPct}
+          taxTables={sc.payrollTaxes}
+          onEnable={() => store.setStaffRoster(scenario, year, true)}
+          onDisable={() => store.setStaffRoster(scenario, year, false)}
+          onAdd={() => store.upsertStaffMember(scenario, year, newStaffMember(year, sc.projection.nonMdEmploymentCostsPct))}
+          onChange={(member) => store.upsertStaffMember(scenario, year, member)}
+          onRemove={(memberId) => store.removeStaffMember(scenario, year, memberId)}
+        />
+      )}
 
 
       <div style={{ display: 'flex', alignItems: 'center', gap: 4, marginBottom: 2, marginTop: 8 }}>
@@ -3221,15 +2761,11 @@ function YearPanel({ year, scenario }: { year: number; scenario: ScenarioKey })
         year={year}
         scenario={scenario}
         readOnly={isReadOnly}
-        physiciansOverride={isReadOnly ? (() => {
-          if (dataMode === '2024 Data') {
-            return scenario2024Defaults()
-          } else {
-            return scenario === 'A' ? scenarioADefaultsByYear(2025) : scenarioBDefaultsByYear(2025)
-          }
-        })() : undefined}
+        baselineOverride={isReadOnly ? fy : undefined}
         locumCosts={fy.locumCosts}
         onLocumCostsChange={(value) => store.setFutureValue(scenario, year, 'locumCosts', value)}
+        locumsOverridden={!isReadOnly && year > store.baselineYear && fy.locumsOverride !== undefined}
+        onLocumsOverrideClear={() => store.clearLocumsOverride(scenario, year)}
       />
 
       {partnerComp.length > 0 && (
@@ -3240,40 +2776,32 @@ function YearPanel({ year, scenario }: { year: number; scenario: ScenarioKey })
               <Fragment key={p.id}>
                 <div>{p.name}</div>
                 <div style={{ textAlign: 'right', position: 'relative', overflow: 'visible' }}>
-                  {currency(p.comp)}
+                  {currency(p.partnerComp)}
                   {(() => {
-                    const md = fy?.physicians.find((x) => x.id === p.id)
-                    if (md && md.type === 'employeeToPartner') {
-                      // Show delayed W2 payments for employeeToPartner physicians
-                      const delayedW2 = calculateDelayedW2Payment(md, year)
-                      if (delayedW2.amount > 0) {
-                        return (
-                          <span style={{ position: 'absolute', left: 'calc(100% + 8px)', top: 0, whiteSpace: 'nowrap', color: '#6b7280', fontWeight: 400 }}>
-                            {`(+ ${currency(delayedW2.amount)} W2)`}
-                          </span>
-                        )
-                      }
-                      
-                      // Fallback to regular W2 calculation if no delayed payments
-                      const employeePortion = md.employeePortionOfYear ?? 0
-                      const w2 = (md.salary ?? 0) * employeePortion
-                      if (w2 > 0) {
-                        return (
-                          <span style={{ position: 'absolute', left: 'calc(100% + 8px)', top: 0, whiteSpace: 'nowrap', color: '#6b7280', fontWeight: 400 }}>
-                            {`(+ ${currency(w2)} W2)`}
-                          </span>
-                        )
-                      }
-                    }
-                    return null
+                    // Show W2 income for employeeToPartner physicians: delayed payments if any, else the employee-portion salary
+                    if (p.type !== 'employeeToPartner') return null
+                    const w2 = p.delayedW2 > 0 ? p.delayedW2 : p.w2Salary
+                    if (w2 <= 0) return null
+                    return (
+                      <span style={{ position: 'absolute', left: 'calc(100% + 8px)', top: 0, whiteSpace: 'nowrap', color: '#6b7280', fontWeight: 400 }}>
+                        {`(+ ${currency(w2)} W2)`}
+                      </span>
+                    )
                   })()}
                 </div>
+                <PartnerTakeHome
+                  year={year}
+                  partnerIncome={p.partnerComp}
+                  w2Wages={p.w2Salary + p.delayedW2}
+                  settings={sc.takeHome?.[p.name]}
+                  onChange={(settings) => store.setTakeHome(scenario, p.name, settings)}
+                />
               </Fragment>
             ))}
             <div style={{ gridColumn: '1 / -1', height: 1, background: '#e5e7eb', margin: '4px 0' }} />
             <div style={{ fontWeight: 700 }}>Net Income</div>
             <div style={{ textAlign: 'right', fontWeight: 700 }}>
-              {currency(partnerComp.reduce((s, x) => s + x.comp, 0))}
+              {currency(partnerComp.reduce((s, x) => s + x.partnerComp, 0))}
             </div>
           </div>
         </div>
@@ -3282,11 +2810,12 @@ function YearPanel({ year, scenario }: { year: number; scenario: ScenarioKey })
     </div>
   )
 }
-function PhysiciansEditor({ year, scenario, readOnly = false, physiciansOverride, locumCosts, onLocumCostsChange }: { year: number; scenario: ScenarioKey; readOnly?: boolean; physiciansOverride?: Physician[]; locumCosts: number; onLocumCostsChange: (value: number) => void }) {
+function PhysiciansEditor({ year, scenario, readOnly = false, baselineOverride, locumCosts, onLocumCostsChange, locumsOverridden = false, onLocumsOverrideClear }: { year: number; scenario: ScenarioKey; readOnly?: boolean; baselineOverride?: FutureYear; locumCosts: number; onLocumCostsChange: (value: number) => void; locumsOverridden?: boolean; onLocumsOverrideClear?: () => void }) {
   const store = useDashboardStore()
-  const sc = scenario === 'A' ? store.scenarioA : store.scenarioB!
-  const fyExisting = sc.future.find((f) => f.year === year)
-  const defaultPhysiciansIfNeeded = physiciansOverride ?? (scenario === 'A' ? scenarioADefaultsByYear(year) : scenarioBDefaultsByYear(year))
+  const sc = store.scenarios[scenario]
+  // A read-only baseline shows the actuals it was built from rather than the scenario's own entry
+  const fyExisting = baselineOverride ?? sc.future.find((f) => f.year === year)
+  const defaultPhysiciansIfNeeded = scenarioDefaultsByYear(sc.preset, year)
   const jsDefault = year >= 2024 ? defaultPhysiciansIfNeeded.find((p) => p.name === 'JS' && (p.type === 'partner' || p.type === 'employeeToPartner' || p.type === 'partnerToRetire')) : undefined
   const fy: FutureYear = fyExisting ?? {
     year,
@@ -3300,9 +2829,11 @@ function PhysiciansEditor({ year, scenario, readOnly = false, physiciansOverride
     prcsDirectorPhysicianId: jsDefault?.id,
     physicians: defaultPhysiciansIfNeeded,
   }
-  const physicians = physiciansOverride ?? fy.physicians
+  const physicians = fy.physicians
   const defaultPrcsDirectorId = jsDefault?.id
   const prcsSelectedId = (fy.prcsDirectorPhysicianId ?? defaultPrcsDirectorId)
+  // Rosters from 2024 and earlier carry longer vacations, so their sliders run further
+  const maxVacationWeeks = Math.min(year, dataModeYear(sc.dataMode) ?? year) <= 2024 ? 24 : 16
 
   const handleReorder = (fromIndex: number, toIndex: number) => {
     store.reorderPhysicians(scenario, year, fromIndex, toIndex)
@@ -3365,13 +2896,7 @@ function PhysiciansEditor({ year, scenario, readOnly = false, physiciansOverride
                 if (readOnly) {
                   // Read-only: show a non-interactive summary tooltip reflecting current selection state
                   if (isSelected) {
-                    // Use specific 2024-25 values when in those data modes for baseline year
-                    let amount = fy.prcsMedicalDirectorHours ?? sc.projection.prcsMedicalDirectorHours ?? 0
-                    if (year === 2025 && sc.dataMode === '2024 Data') {
-                      amount = fy.prcsMedicalDirectorHours ?? 25805 // 2024 PRCS medical director amount
-                    } else if (year === 2025 && sc.dataMode === '2025 Data') {
-                      amount = fy.prcsMedicalDirectorHours ?? 37792.5 // 2025 PRCS medical director amount
-                    }
+                    const amount = fy.prcsMedicalDirectorHours ?? sc.projection.prcsMedicalDirectorHours ?? 0
                     createTooltip(`prcs-readonly-${p.id}`, `PRCS Medical Director: ${currency(Math.round(amount))}`, e)
                   } else {
                     createTooltip(`prcs-readonly-${p.id}`, 'PRCS Medical Director: Not designated', e)
@@ -3383,13 +2908,7 @@ function PhysiciansEditor({ year, scenario, readOnly = false, physiciansOverride
                   createTooltip(`prcs-md-hover-${p.id}`, msg, e)
                   // Only show the slider on hover if this physician is already selected
                   if (isSelected) {
-                    // Use specific 2024-25 values when in those data modes for baseline year
-                    let currentAmount = fy.prcsMedicalDirectorHours ?? sc.projection.prcsMedicalDirectorHours ?? 80000
-                    if (year === 2025 && sc.dataMode === '2024 Data') {
-                      currentAmount = fy.prcsMedicalDirectorHours ?? 25805 // 2024 PRCS medical director amount
-                    } else if (year === 2025 && sc.dataMode === '2025 Data') {
-                      currentAmount = fy.prcsMedicalDirectorHours ?? 37792.5 // 2025 PRCS medical director amount
-                    }
+                    const currentAmount = fy.prcsMedicalDirectorHours ?? sc.projection.prcsMedicalDirectorHours ?? 80000
                     createPrcsAmountTooltip(p.id, currentAmount, e, (_pid, amount) => {
                       store.setFutureValue(scenario, year, 'prcsMedicalDirectorHours', Math.max(0, Math.min(120000, amount)))
                     }, msg, 120000)
@@ -3427,13 +2946,7 @@ function PhysiciansEditor({ year, scenario, readOnly = false, physiciansOverride
                   // Remove hover text on this new selection before showing the slider
                   removeTooltip(`prcs-md-hover-${p.id}`)
                   const msg = 'Double-click to deselect'
-                  // Use specific 2024-25 values when in those data modes for baseline year
-                  let currentAmount = fy.prcsMedicalDirectorHours ?? sc.projection.prcsMedicalDirectorHours ?? 80000
-                  if (year === 2025 && sc.dataMode === '2024 Data') {
-                    currentAmount = fy.prcsMedicalDirectorHours ?? 25805 // 2024 PRCS medical director amount
-                  } else if (year === 2025 && sc.dataMode === '2025 Data') {
-                    currentAmount = fy.prcsMedicalDirectorHours ?? 37792.5 // 2025 PRCS medical director amount
-                  }
+                  const currentAmount = fy.prcsMedicalDirectorHours ?? sc.projection.prcsMedicalDirectorHours ?? 80000
                   createPrcsAmountTooltip(p.id, currentAmount, e as any, (_pid, amount) => {
                     store.setFutureValue(scenario, year, 'prcsMedicalDirectorHours', Math.max(0, Math.min(120000, amount)))
                   }, msg, 120000)
@@ -3449,13 +2962,7 @@ function PhysiciansEditor({ year, scenario, readOnly = false, physiciansOverride
                 if (readOnly) return
                 const isSelected = prcsSelectedId === p.id
                 const msg = isSelected ? 'Double-click to deselect' : 'Double-click to select as PRCS Medical Director'
-                // Use specific 2024-25 values when in those data modes for baseline year
-                let currentAmount = fy.prcsMedicalDirectorHours ?? sc.projection.prcsMedicalDirectorHours ?? 80000
-                if (year === 2025 && sc.dataMode === '2024 Data') {
-                  currentAmount = fy.prcsMedicalDirectorHours ?? 25805 // 2024 PRCS medical director amount
-                } else if (year === 2025 && sc.dataMode === '2025 Data') {
-                  currentAmount = fy.prcsMedicalDirectorHours ?? 37792.5 // 2025 PRCS medical director amount
-                }
+                const currentAmount = fy.prcsMedicalDirectorHours ?? sc.projection.prcsMedicalDirectorHours ?? 80000
                 createPrcsAmountTooltip(p.id, currentAmount, e, (_pid, amount) => {
                   store.setFutureValue(scenario, year, 'prcsMedicalDirectorHours', Math.max(0, Math.min(120000, amount)))
                 }, msg, 120000)
@@ -3826,7 +3333,7 @@ function PhysiciansEditor({ year, scenario, readOnly = false, physiciansOverride
                   tooltip.style.cssText = `position: absolute; background: #333; color: white; padding: 8px 12px; border-radius: 4px; font-size: 12px; white-space: pre-line; text-align: left; z-index: 1000; max-width: 300px; box-shadow: 0 2px 8px rgba(0,0,0,0.2); pointer-events: none;`
                   const workingPortion = 1 - (p.startPortionOfYear ?? 0)
                   const proratedSalary = (p.salary ?? 0) * workingPortion
-                  const tooltip_content = getEmployeeCostTooltip({ ...p, salary: proratedSalary }, year, sc.projection.benefitCostsGrowthPct, 0, 0, '')
+                  const tooltip_content = getEmployeeCostTooltip({ ...p, salary: proratedSalary }, year, sc.projection.benefitCostsGrowthPct, 0, 0, '', sc.payrollTaxes)
                   tooltip.textContent = tooltip_content.replace('Employee Total Cost', 'New Employee Total Cost (Prorated)')
                   document.body.appendChild(tooltip)
                   const rect = (e.currentTarget as HTMLElement).getBoundingClientRect()
@@ -4123,7 +3630,7 @@ function PhysiciansEditor({ year, scenario, readOnly = false, physiciansOverride
                   tooltip.style.cssText = `position: absolute; background: #333; color: white; padding: 8px 12px; border-radius: 4px; font-size: 12px; white-space: pre-line; text-align: left; z-index: 1000; max-width: 300px; box-shadow: 0 2px 8px rgba(0,0,0,0.2); pointer-events: none;`
                   const workingPortion = p.terminatePortionOfYear ?? 1
                   const proratedSalary = (p.salary ?? 0) * workingPortion
-                  const tooltip_content = getEmployeeCostTooltip({ ...p, salary: proratedSalary }, year, sc.projection.benefitCostsGrowthPct, 0, 0, '')
+                  const tooltip_content = getEmployeeCostTooltip({ ...p, salary: proratedSalary }, year, sc.projection.benefitCostsGrowthPct, 0, 0, '', sc.payrollTaxes)
                   tooltip.textContent = tooltip_content.replace('Employee Total Cost', 'Terminating Employee Total Cost (Prorated)')
                   document.body.appendChild(tooltip)
                   const rect = (e.currentTarget as HTMLElement).getBoundingClientRect()
@@ -4263,7 +3770,7 @@ function PhysiciansEditor({ year, scenario, readOnly = false, physiciansOverride
                   box-shadow: 0 2px 8px rgba(0,0,0,0.2);
                   pointer-events: none;
                 `
-                tooltip.textContent = getEmployeeCostTooltip(p, year, sc.projection.benefitCostsGrowthPct, 0, 0, '')
+                tooltip.textContent = getEmployeeCostTooltip(p, year, sc.projection.benefitCostsGrowthPct, 0, 0, '', sc.payrollTaxes)
                 document.body.appendChild(tooltip)
                 
                 const rect = e.currentTarget.getBoundingClientRect()
@@ -4486,10 +3993,7 @@ function PhysiciansEditor({ year, scenario, readOnly = false, physiciansOverride
                   <input
                     type="range"
                     min={2}
-                    max={(() => {
-                      const currentDataMode = scenario === 'A' ? store.scenarioA.dataMode : store.scenarioB?.dataMode || '2025 Data'
-                      return (currentDataMode === '2024 Data' || year <= 2024) ? 24 : 16
-                    })()}
+                    max={maxVacationWeeks}
                     step={1}
                     value={p.weeksVacation ?? 8}
                     onChange={(e) =>
@@ -4502,8 +4006,7 @@ function PhysiciansEditor({ year, scenario, readOnly = false, physiciansOverride
                     style={{ 
                       width: '100%',
                       ['--fill-percent' as any]: `${(() => {
-                        const currentDataMode = scenario === 'A' ? store.scenarioA.dataMode : store.scenarioB?.dataMode || '2025 Data'
-                        const maxWeeks = (currentDataMode === '2024 Data' || year <= 2024) ? 24 : 16
+                        const maxWeeks = maxVacationWeeks
                         return ((p.weeksVacation ?? 8) - 2) / (maxWeeks - 2) * 100
                       })()}%`
                     }}
@@ -4603,13 +4106,7 @@ function PhysiciansEditor({ year, scenario, readOnly = false, physiciansOverride
                           })
                         })
                       } else {
-                        // Use specific 2024-25 values when in those data modes for baseline year
-                  let totalBudget = fy.medicalDirectorHours ?? sc.projection.medicalDirectorHours ?? 80000
-                  if (year === 2025 && sc.dataMode === '2024 Data') {
-                    totalBudget = fy.medicalDirectorHours ?? 102870 // 2024 shared medical director amount
-                  } else if (year === 2025 && sc.dataMode === '2025 Data') {
-                    totalBudget = fy.medicalDirectorHours ?? 119373.75 // 2025 shared medical director amount
-                  }
+                  const totalBudget = fy.medicalDirectorHours ?? sc.projection.medicalDirectorHours ?? 80000
                         const trailingTotal = fy.physicians.reduce((s, ph) => {
                           const isPriorYearRetiree = (ph.type === 'partnerToRetire') && ((ph.partnerPortionOfYear ?? 0) === 0)
                           return s + (isPriorYearRetiree ? (ph.trailingSharedMdAmount ?? getDefaultTrailingSharedMdAmount(ph)) : 0)
@@ -4626,13 +4123,7 @@ function PhysiciansEditor({ year, scenario, readOnly = false, physiciansOverride
                     }
                   }}
                 onMouseEnter={(e) => {
-                  // Use specific 2024-25 values when in those data modes for baseline year
-                  let totalBudget = fy.medicalDirectorHours ?? sc.projection.medicalDirectorHours ?? 80000
-                  if (year === 2025 && sc.dataMode === '2024 Data') {
-                    totalBudget = fy.medicalDirectorHours ?? 102870 // 2024 shared medical director amount
-                  } else if (year === 2025 && sc.dataMode === '2025 Data') {
-                    totalBudget = fy.medicalDirectorHours ?? 119373.75 // 2025 shared medical director amount
-                  }
+                  const totalBudget = fy.medicalDirectorHours ?? sc.projection.medicalDirectorHours ?? 80000
                   if (!readOnly) {
                     if ((p.type === 'partnerToRetire') && (p.partnerPortionOfYear ?? 0) === 0) {
                       const initial = p.trailingSharedMdAmount ?? getDefaultTrailingSharedMdAmount(p)
@@ -4703,13 +4194,7 @@ function PhysiciansEditor({ year, scenario, readOnly = false, physiciansOverride
                           })
                         })
                       } else {
-                        // Use specific 2024-25 values when in those data modes for baseline year
-                  let totalBudget = fy.medicalDirectorHours ?? sc.projection.medicalDirectorHours ?? 80000
-                  if (year === 2025 && sc.dataMode === '2024 Data') {
-                    totalBudget = fy.medicalDirectorHours ?? 102870 // 2024 shared medical director amount
-                  } else if (year === 2025 && sc.dataMode === '2025 Data') {
-                    totalBudget = fy.medicalDirectorHours ?? 119373.75 // 2025 shared medical director amount
-                  }
+                  const totalBudget = fy.medicalDirectorHours ?? sc.projection.medicalDirectorHours ?? 80000
                         const trailingTotal = fy.physicians.reduce((s, ph) => {
                           const isPriorYearRetiree = (ph.type === 'partnerToRetire') && ((ph.partnerPortionOfYear ?? 0) === 0)
                           return s + (isPriorYearRetiree ? (ph.trailingSharedMdAmount ?? getDefaultTrailingSharedMdAmount(ph)) : 0)
@@ -4830,10 +4315,7 @@ function PhysiciansEditor({ year, scenario, readOnly = false, physiciansOverride
               <input
                 type="range"
                 min={2}
-                max={(() => {
-                  const currentDataMode = scenario === 'A' ? store.scenarioA.dataMode : store.scenarioB?.dataMode || '2025 Data'
-                  return (currentDataMode === '2024 Data' || year <= 2024) ? 24 : 16
-                })()}
+                max={maxVacationWeeks}
                 step={1}
                 value={p.weeksVacation ?? 8}
                 onChange={(e) =>
@@ -4845,10 +4327,7 @@ function PhysiciansEditor({ year, scenario, readOnly = false, physiciansOverride
                 disabled={readOnly}
                 style={{ 
                   width: '100%',
-                  ['--fill-percent' as any]: `${((p.weeksVacation ?? 8) - 2) / ((() => {
-                    const currentDataMode = scenario === 'A' ? store.scenarioA.dataMode : store.scenarioB?.dataMode || '2025 Data'
-                    return (currentDataMode === '2024 Data' || year <= 2024) ? 24 : 16
-                  })() - 2) * 100}%`
+                  ['--fill-percent' as any]: `${((p.weeksVacation ?? 8) - 2) / (maxVacationWeeks - 2) * 100}%`
                 }}
               />
               <input
@@ -4889,13 +4368,7 @@ function PhysiciansEditor({ year, scenario, readOnly = false, physiciansOverride
                 }}
                 onClick={(e) => {
                   if (!readOnly) {
-                      // Use specific 2024-25 values when in those data modes for baseline year
-                  let totalBudget = fy.medicalDirectorHours ?? sc.projection.medicalDirectorHours ?? 80000
-                  if (year === 2025 && sc.dataMode === '2024 Data') {
-                    totalBudget = fy.medicalDirectorHours ?? 102870 // 2024 shared medical director amount
-                  } else if (year === 2025 && sc.dataMode === '2025 Data') {
-                    totalBudget = fy.medicalDirectorHours ?? 119373.75 // 2025 shared medical director amount
-                  }
+                  const totalBudget = fy.medicalDirectorHours ?? sc.projection.medicalDirectorHours ?? 80000
                       createHoursTooltip(p.id, p.medicalDirectorHoursPercentage ?? 0, e, (_, percentage) => {
                       store.upsertPhysician(scenario, year, {
                         ...p,
@@ -4906,13 +4379,7 @@ function PhysiciansEditor({ year, scenario, readOnly = false, physiciansOverride
                   }
                 }}
                 onMouseEnter={(e) => {
-                  // Use specific 2024-25 values when in those data modes for baseline year
-                  let totalBudget = fy.medicalDirectorHours ?? sc.projection.medicalDirectorHours ?? 80000
-                  if (year === 2025 && sc.dataMode === '2024 Data') {
-                    totalBudget = fy.medicalDirectorHours ?? 102870 // 2024 shared medical director amount
-                  } else if (year === 2025 && sc.dataMode === '2025 Data') {
-                    totalBudget = fy.medicalDirectorHours ?? 119373.75 // 2025 shared medical director amount
-                  }
+                  const totalBudget = fy.medicalDirectorHours ?? sc.projection.medicalDirectorHours ?? 80000
                   if (!readOnly) {
                       createHoursTooltip(p.id, p.medicalDirectorHoursPercentage ?? 0, e, (_, percentage) => {
                       store.upsertPhysician(scenario, year, {
@@ -4945,13 +4412,7 @@ function PhysiciansEditor({ year, scenario, readOnly = false, physiciansOverride
                   }
                 }}
                 onTouchStart={(e) => {
-                  // Use specific 2024-25 values when in those data modes for baseline year
-                  let totalBudget = fy.medicalDirectorHours ?? sc.projection.medicalDirectorHours ?? 80000
-                  if (year === 2025 && sc.dataMode === '2024 Data') {
-                    totalBudget = fy.medicalDirectorHours ?? 102870 // 2024 shared medical director amount
-                  } else if (year === 2025 && sc.dataMode === '2025 Data') {
-                    totalBudget = fy.medicalDirectorHours ?? 119373.75 // 2025 shared medical director amount
-                  }
+                  const totalBudget = fy.medicalDirectorHours ?? sc.projection.medicalDirectorHours ?? 80000
                   if (!readOnly) {
                       createHoursTooltip(p.id, p.medicalDirectorHoursPercentage ?? 0, e, (_, percentage) => {
                       store.upsertPhysician(scenario, year, {
@@ -5205,10 +4666,7 @@ function PhysiciansEditor({ year, scenario, readOnly = false, physiciansOverride
                 <input
                   type="range"
                   min={2}
-                  max={(() => {
-                    const currentDataMode = scenario === 'A' ? store.scenarioA.dataMode : store.scenarioB?.dataMode || '2025 Data'
-                    return (currentDataMode === '2024 Data' || year <= 2024) ? 24 : 16
-                  })()}
+                  max={maxVacationWeeks}
                   step={1}
                   value={p.weeksVacation ?? 8}
                   onChange={(e) =>
@@ -5221,8 +4679,7 @@ function PhysiciansEditor({ year, scenario, readOnly = false, physiciansOverride
                   style={{ 
                     width: '100%',
                     ['--fill-percent' as any]: `${(() => {
-                      const currentDataMode = scenario === 'A' ? store.scenarioA.dataMode : store.scenarioB?.dataMode || '2025 Data'
-                      const maxWeeks = (currentDataMode === '2024 Data' || year <= 2024) ? 24 : 16
+                      const maxWeeks = maxVacationWeeks
                       return ((p.weeksVacation ?? 8) - 2) / (maxWeeks - 2) * 100
                     })()}%`
                   }}
@@ -5301,13 +4758,7 @@ function PhysiciansEditor({ year, scenario, readOnly = false, physiciansOverride
                 }}
                 onClick={(e) => {
                   if (!readOnly) {
-                      // Use specific 2024-25 values when in those data modes for baseline year
-                  let totalBudget = fy.medicalDirectorHours ?? sc.projection.medicalDirectorHours ?? 80000
-                  if (year === 2025 && sc.dataMode === '2024 Data') {
-                    totalBudget = fy.medicalDirectorHours ?? 102870 // 2024 shared medical director amount
-                  } else if (year === 2025 && sc.dataMode === '2025 Data') {
-                    totalBudget = fy.medicalDirectorHours ?? 119373.75 // 2025 shared medical director amount
-                  }
+                  const totalBudget = fy.medicalDirectorHours ?? sc.projection.medicalDirectorHours ?? 80000
                       createHoursTooltip(p.id, p.medicalDirectorHoursPercentage ?? 0, e, (_, percentage) => {
                       store.upsertPhysician(scenario, year, {
                         ...p,
@@ -5318,13 +4769,7 @@ function PhysiciansEditor({ year, scenario, readOnly = false, physiciansOverride
                   }
                 }}
                 onMouseEnter={(e) => {
-                  // Use specific 2024-25 values when in those data modes for baseline year
-                  let totalBudget = fy.medicalDirectorHours ?? sc.projection.medicalDirectorHours ?? 80000
-                  if (year === 2025 && sc.dataMode === '2024 Data') {
-                    totalBudget = fy.medicalDirectorHours ?? 102870 // 2024 shared medical director amount
-                  } else if (year === 2025 && sc.dataMode === '2025 Data') {
-                    totalBudget = fy.medicalDirectorHours ?? 119373.75 // 2025 shared medical director amount
-                  }
+                  const totalBudget = fy.medicalDirectorHours ?? sc.projection.medicalDirectorHours ?? 80000
                   if (!readOnly) {
                       createHoursTooltip(p.id, p.medicalDirectorHoursPercentage ?? 0, e, (_, percentage) => {
                       store.upsertPhysician(scenario, year, {
@@ -5357,13 +4802,7 @@ function PhysiciansEditor({ year, scenario, readOnly = false, physiciansOverride
                   }
                 }}
                 onTouchStart={(e) => {
-                  // Use specific 2024-25 values when in those data modes for baseline year
-                  let totalBudget = fy.medicalDirectorHours ?? sc.projection.medicalDirectorHours ?? 80000
-                  if (year === 2025 && sc.dataMode === '2024 Data') {
-                    totalBudget = fy.medicalDirectorHours ?? 102870 // 2024 shared medical director amount
-                  } else if (year === 2025 && sc.dataMode === '2025 Data') {
-                    totalBudget = fy.medicalDirectorHours ?? 119373.75 // 2025 shared medical director amount
-                  }
+                  const totalBudget = fy.medicalDirectorHours ?? sc.projection.medicalDirectorHours ?? 80000
                   if (!readOnly) {
                       createHoursTooltip(p.id, p.medicalDirectorHoursPercentage ?? 0, e, (_, percentage) => {
                       store.upsertPhysician(scenario, year, {
@@ -5397,7 +4836,7 @@ function PhysiciansEditor({ year, scenario, readOnly = false, physiciansOverride
                     let extra = ''
                     if (Math.abs(transitionDay - 183) <= 1) extra = `\n(Mid-year transition)`
                     
-                    const delayedW2 = calculateDelayedW2Payment(p, year)
+                    const delayedW2 = calculateDelayedW2Payment(p, year, store.payrollLedger, sc.payrollTaxes)
                     let delayedW2Info = ''
                     if (delayedW2.amount > 0) {
                       delayedW2Info = `\n\nDelayed W2 Payments (prior year work):\nW2 Amount: ${currency(delayedW2.amount)}\nPayroll Taxes: ${currency(delayedW2.taxes)}\nTotal Cost: ${currency(delayedW2.amount + delayedW2.taxes)}\nPeriods: ${delayedW2.periodDetails}`
@@ -5420,14 +4859,15 @@ function PhysiciansEditor({ year, scenario, readOnly = false, physiciansOverride
                     tooltip.style.cssText = `position: absolute; background: #333; color: white; padding: 8px 12px; border-radius: 4px; font-size: 12px; white-space: pre-line; text-align: left; z-index: 1000; max-width: 300px; box-shadow: 0 2px 8px rgba(0,0,0,0.2); pointer-events: none;`
                     const employeePortion = getEmployeePortionOfYear(p)
                     const employeePortionSalary = (p.salary ?? 0) * employeePortion
-                    const delayedW2 = calculateDelayedW2Payment(p, year)
+                    const delayedW2 = calculateDelayedW2Payment(p, year, store.payrollLedger, sc.payrollTaxes)
                     let tooltip_content = getEmployeeCostTooltip(
                       { ...p, salary: employeePortionSalary }, 
                       year, 
                       sc.projection.benefitCostsGrowthPct,
                       delayedW2.amount,
                       delayedW2.taxes,
-                      delayedW2.periodDetails
+                      delayedW2.periodDetails,
+                      sc.payrollTaxes
                     )
                     tooltip_content = tooltip_content.replace('Employee Total Cost', `Employee Total Cost (${Math.round(employeePortion * 100)}% of year)`)
                     
@@ -5575,7 +5015,15 @@ function PhysiciansEditor({ year, scenario, readOnly = false, physiciansOverride
             textAlign: 'left',
             paddingLeft: 6,
             fontSize: '14px'
-          }}>Locums Costs</div>
+          }}>
+            Locums Costs
+            {locumsOverridden && (
+              <span style={{ marginLeft: 6, fontSize: 11, color: '#b45309' }} title={`${year} keeps this amount when the projection's locums change`}>
+                set for {year}{' '}
+                <button onClick={onLocumsOverrideClear} style={{ border: '1px solid #d1d5db', borderRadius: 4, background: 'white', padding: '0 4px', cursor: 'pointer', fontSize: 11, color: '#6b7280' }}>Use projection</button>
+              </span>
+            )}
+          </div>
           <div className="control-panel" style={{ display: 'grid', gridTemplateColumns: '1fr auto', gap: 8, alignItems: 'center' }}>
             <input
               type="range"
@@ -5660,190 +5108,85 @@ function PhysiciansEditor({ year, scenario, readOnly = false, physiciansOverride
     </div>
   )
 }
-function computeAllCompensationsForYear(year: number, scenario: ScenarioKey) {
+// Per-physician compensation for the summary tables, including prior-year retirees (buyout only)
+function computeAllCompensationsForYear(year: number, scenario: ScenarioKey): PhysicianCompensation[] {
   const state = useDashboardStore.getState()
-  const sc = scenario === 'A' ? state.scenarioA : state.scenarioB!
-  // Try to find the future year; if not found and year is 2025, build a synthetic year from historic actuals
-  let fy = sc.future.find((f) => f.year === year) as FutureYear | undefined
-  // For the multi-year summary tables, ALWAYS use true 2025 actuals for the 2025 column
-  if (year === 2025) {
-    const last2025 = state.historic.find((h) => h.year === 2025)
-    if (last2025) {
-      const physicians = scenario === 'A' ? scenarioADefaultsByYear(2025) : scenarioBDefaultsByYear(2025)
-      const js = physicians.find(p => p.name === 'JS' && (p.type === 'partner' || p.type === 'employeeToPartner' || p.type === 'partnerToRetire'))
-      fy = {
-        year: 2025,
-        therapyIncome: last2025.therapyIncome,
-        nonEmploymentCosts: last2025.nonEmploymentCosts,
-        nonMdEmploymentCosts: computeDefaultNonMdEmploymentCosts(2025),
-        locumCosts: 54600,
-        miscEmploymentCosts: DEFAULT_MISC_EMPLOYMENT_COSTS,
-        medicalDirectorHours: 119373.75, // 2025 shared medical director amount
-        prcsMedicalDirectorHours: 37792.5, // 2025 PRCS medical director amount (JS)
-        prcsDirectorPhysicianId: js?.id, // Assign PRCS to JS
-        physicians,
-      }
-    }
-  }
-  if (!fy) return [] as { id: string; name: string; type: PhysicianType; comp: number }[]
-  const partners = fy!.physicians.filter((p) => p.type === 'partner' || p.type === 'employeeToPartner' || p.type === 'partnerToRetire')
-  const employees = fy!.physicians.filter((p) => p.type === 'employee' || p.type === 'employeeToPartner' || p.type === 'newEmployee' || p.type === 'employeeToTerminate')
-
-  const totalEmployeeCosts = employees.reduce((sum, e) => {
-    const portion = e.type === 'employeeToPartner' ? getEmployeePortionOfYear(e) : 
-                   (e.type === 'employee' ? 1 : 
-                   (e.type === 'newEmployee' ? getEmployeePortionOfYear(e) :
-                   (e.type === 'employeeToTerminate' ? getEmployeePortionOfYear(e) : 0)))
-    if (portion <= 0) return sum
-    
-    // Calculate full employee cost including benefits and payroll taxes
-    if (e.type === 'newEmployee') {
-      // For new employees, calculate prorated total cost
-      const proratedEmployee = { ...e, salary: (e.salary ?? 0) * portion }
-      return sum + calculateEmployeeTotalCost(proratedEmployee, year, sc.projection.benefitCostsGrowthPct)
-    } else if (e.type === 'employeeToTerminate') {
-      // For terminating employees, calculate prorated total cost
-      const proratedEmployee = { ...e, salary: (e.salary ?? 0) * portion }
-      return sum + calculateEmployeeTotalCost(proratedEmployee, year, sc.projection.benefitCostsGrowthPct)
-    } else if (e.type === 'employeeToPartner') {
-      // For mixed types, only count the employee portion of their total cost
-      const employeePortionSalary = (e.salary ?? 0) * portion
-      const employeePortionPhysician = { ...e, salary: employeePortionSalary }
-      return sum + calculateEmployeeTotalCost(employeePortionPhysician, year, sc.projection.benefitCostsGrowthPct)
-    } else {
-      // For regular employees, calculate full cost
-      return sum + calculateEmployeeTotalCost(e, year, sc.projection.benefitCostsGrowthPct)
-    }
-  }, 0)
+  const sc = state.scenarios[scenario]
+  return computeScenarioYearCompensation(state.historic, state.baselineDetails, state.baselineYear, state.payrollLedger, sc, year)?.physicians ?? []
+}
 
-  const totalBuyoutCosts = fy!.physicians.reduce((sum, p) => {
-    if (p.type === 'partnerToRetire') {
-      const weight = getPartnerFTEWeight(p)
-      // Only subtract buyout if the partner worked part of the year
-      return sum + (weight > 0 ? (p.buyoutCost ?? 0) : 0)
-    }
-    return sum
-  }, 0)
-
-  // Calculate delayed W2 payments for employeeToPartner physicians
-  const totalDelayedW2Costs = fy!.physicians.reduce((sum, p) => {
-    if (p.type === 'employeeToPartner') {
-      const delayed = calculateDelayedW2Payment(p, year)
-      return sum + delayed.amount + delayed.taxes
-    }
-    return sum
-  }, 0)
+// Prefill for the year-end close: the baseline year as the first compared scenario models it
+function draftCloseFigures(state: Store, sc: ScenarioState): YearEndFigures {
+  const baseline = scenarioBaseline(state.historic, state.baselineDetails, state.baselineYear, sc)
+  const comp = computeYearCompensation(baseline.fy, sc.projection, { netPartnerPool: baseline.netPartnerPool, payrollLedger: state.payrollLedger, payrollTaxes: sc.payrollTaxes, retirementPlans: sc.retirementPlans })
+  return draftYearEndFigures(state.historic, state.baselineDetails, state.baselineYear, {
+    fy: baseline.fy,
+    netPartnerPool: baseline.netPartnerPool ?? comp.basePool + comp.costs.buyouts,
+  })
+}
 
-  // Calculate Medical Director income allocations first
-  const medicalDirectorIncome = fy!.medicalDirectorHours ?? 110000
-  const prcsMedicalDirectorIncome = fy!.prcsDirectorPhysicianId ? (fy!.prcsMedicalDirectorHours ?? 60000) : 0
-  
-  // Calculate direct Medical Director allocations to partners
-  const partnerMedicalDirectorAllocations = new Map<string, number>()
-  
-  // Allocate shared Medical Director income based on percentages
-  for (const partner of partners) {
-    if (partner.hasMedicalDirectorHours && partner.medicalDirectorHoursPercentage) {
-      const allocation = (partner.medicalDirectorHoursPercentage / 100) * medicalDirectorIncome
-      partnerMedicalDirectorAllocations.set(partner.id, allocation)
-    }
-  }
-  
-  // Allocate PRCS Medical Director income directly to the assigned physician
-  if (fy!.prcsDirectorPhysicianId && prcsMedicalDirectorIncome > 0) {
-    const currentPrcsAllocation = partnerMedicalDirectorAllocations.get(fy!.prcsDirectorPhysicianId) ?? 0
-    partnerMedicalDirectorAllocations.set(fy!.prcsDirectorPhysicianId, currentPrcsAllocation + prcsMedicalDirectorIncome)
-  }
-  
-  // Calculate total Medical Director allocations to subtract from pool
-  const totalMedicalDirectorAllocations = Array.from(partnerMedicalDirectorAllocations.values()).reduce((sum, allocation) => sum + allocation, 0)
-  
-  // Calculate partner pool excluding Medical Director income that's directly allocated
-  const basePool = year === 2025
-    ? (NET_PARTNER_POOL_2025 - totalBuyoutCosts)
-    : Math.max(0, fy!.therapyIncome - (fy!.nonEmploymentCosts + fy!.nonMdEmploymentCosts + fy!.miscEmploymentCosts + fy!.locumCosts + totalEmployeeCosts + totalBuyoutCosts + totalDelayedW2Costs))
-    
-  // Subtract Medical Director allocations from the pool to get the FTE-distributable pool
-  const pool = Math.max(0, basePool - totalMedicalDirectorAllocations)
-
-  const parts = partners.map((p) => ({ p, weight: getPartnerFTEWeight(p) }))
-  const workingPartners = parts.filter(({ weight }) => weight > 0)
-  const totalWeight = workingPartners.reduce((s, x) => s + x.weight, 0) || 1
-  const partnerShares = parts.map(({ p, weight }) => ({ 
-    id: p.id, 
-    name: p.name, 
-    type: 'partner' as const, 
-    baseShare: weight > 0 ? (weight / totalWeight) * pool : 0, 
-    physician: p 
-  }))
-
-  // Compose final list per physician (ensure each physician appears once with combined comp if mixed)
-  const results: { id: string; name: string; type: PhysicianType; comp: number }[] = []
-  // Add partner and mixed (exclude retired partners with no working portion)
-  for (const s of partnerShares) {
-    // Skip partners who retired in prior year and only got buyout (no working portion)
-    if (s.physician.type === 'partnerToRetire' && s.baseShare === 0) {
-      continue
-    }
-    
-    let comp = s.baseShare
-    
-    // Add Medical Director income allocation directly to the partner
-    const medicalDirectorAllocation = partnerMedicalDirectorAllocations.get(s.id) ?? 0
-    comp += medicalDirectorAllocation
-    
-    if (s.physician.type === 'employeeToPartner') {
-      const salaryPortion = (s.physician.salary ?? 0) * getEmployeePortionOfYear(s.physician)
-      // Add delayed W2 payments for employeeToPartner physicians
-      const delayedW2 = calculateDelayedW2Payment(s.physician, year)
-      comp += salaryPortion + delayedW2.amount
-    }
-    if (s.physician.type === 'partnerToRetire') {
-      // Add buyout cost back to retiring partner's total compensation
-      comp += s.physician.buyoutCost ?? 0
+// Helper: the years the Parameters Summary lists for a scenario; the baseline year always shows the latest actuals
+function getParameterYears(historic: YearRow[], details: Record<number, BaselineDetail>, baselineYear: number, sc: ScenarioState): FutureYear[] {
+  const actuals = actualsBaselineYear(historic, details, latestActualYear(historic, details), baselineYear).fy
+  return [actuals, ...projectedYears(sc, baselineYear).map((year) => sc.future.find((f) => f.year === year)!)]
+}
+
+// Multi-Year Compensation and Parameters summaries for the compared scenarios, as plain tables
+function buildSummaryTables(state: Store): { compensation: ExportTable[]; parameters: ExportTable[]; assumptions: ExportTable } {
+  const compared = state.selectedScenarioIds.filter((id) => state.scenarios[id])
+  const years = Array.from(new Set([state.baselineYear, ...compared.flatMap((id) => projectedYears(state.scenarios[id], state.baselineYear))])).sort((a, b) => a - b)
+  const series = compared.map((id) => {
+    const sc = state.scenarios[id]
+    const perYear = years.map((y) => computeAllCompensationsForYear(y, id))
+    const names = Array.from(new Set(perYear.flatMap((comps) => comps.map((c) => c.name))))
+    return {
+      scenarioName: sc.name,
+      physicians: names.map((name) => ({ name, values: perYear.map((comps) => comps.find((c) => c.name === name)?.comp ?? 0) })),
+      locums: years.map((y) => getScenarioYear(state.historic, state.baselineDetails, state.baselineYear, sc, y)?.fy.locumCosts ?? 0),
     }
-    results.push({ id: s.id, name: s.name, type: 'partner', comp })
+  })
+  return {
+    compensation: compensationTables(years, series),
+    parameters: compared.flatMap((id) => parameterTables(state.scenarios[id].name, getParameterYears(state.historic, state.baselineDetails, state.baselineYear, state.scenarios[id]))),
+    assumptions: assumptionsTable(compared.map((id) => ({ scenarioName: state.scenarios[id].name, dataMode: state.scenarios[id].dataMode, projection: state.scenarios[id].projection }))),
   }
-  // Add pure employees (exclude mixed already included)
-  for (const e of fy!.physicians.filter((p) => p.type === 'employee' || p.type === 'newEmployee' || p.type === 'employeeToTerminate')) {
-    const comp = e.type === 'newEmployee' ? (e.salary ?? 0) * getEmployeePortionOfYear(e) :
-                 e.type === 'employeeToTerminate' ? (e.salary ?? 0) * getEmployeePortionOfYear(e) :
-                 (e.salary ?? 0)
-    results.push({ id: e.id, name: e.name, type: 'employee', comp })
+}
+
+// Download the summary tables for the compared scenarios
+function exportSummaryTables(format: 'csv' | 'xlsx') {
+  const state = useDashboardStore.getState()
+  const compared = state.selectedScenarioIds.filter((id) => state.scenarios[id])
+  const { compensation, parameters, assumptions } = buildSummaryTables(state)
+  const tables = [...compensation, ...parameters, assumptions]
+  const name = `radiantcare-${toFileSlug(compared.map((id) => state.scenarios[id].name).join(' vs '))}-${new Date().toISOString().slice(0, 10)}`
+  if (format === 'csv') {
+    downloadBlob(`${name}.csv`, new Blob([tablesToCsv(tables)], { type: 'text/csv' }))
+  } else {
+    downloadBlob(`${name}.xlsx`, new Blob([tablesToXlsx(tables)], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }))
   }
-  return results
 }
 
 function ProjectionSettingsControls({ scenario }: { scenario: ScenarioKey }) {
   const store = useDashboardStore()
-  const sc = scenario === 'A' ? store.scenarioA : store.scenarioB
+  const sc = store.scenarios[scenario]
   const isMobile = useIsMobile()
+  const [showSchedule, setShowSchedule] = useState(false)
+  const [showCategoryGrowth, setShowCategoryGrowth] = useState(false)
+  const [showPayrollTaxes, setShowPayrollTaxes] = useState(false)
+  const [showRetirement, setShowRetirement] = useState(false)
   
   if (!sc) return null
 
-  // Default values for reset functionality
-  const defaultValues = scenario === 'B'
-    ? {
-        incomeGrowthPct: 3.7,
-        medicalDirectorHours: 110000,
-        prcsMedicalDirectorHours: 60000,
-        nonEmploymentCostsPct: 7.8,
-        nonMdEmploymentCostsPct: 6.0,
-        // Scenario B default: $0 locums (except 2026 handled elsewhere)
-        locumsCosts: 0,
-        miscEmploymentCostsPct: 6.7,
-        benefitCostsGrowthPct: 5.0,
-      }
-    : {
-        incomeGrowthPct: 3.7,
-        medicalDirectorHours: 110000,
-        prcsMedicalDirectorHours: 60000,
-        nonEmploymentCostsPct: 7.8,
-        nonMdEmploymentCostsPct: 6.0,
-        locumsCosts: 120000,
-        miscEmploymentCostsPct: 6.7,
-        benefitCostsGrowthPct: 5.0,
-      }
+  // Baseline and projected years, and everyone who is a partner in any of them
+  const planFuture = sc.future.filter((f) => f.year >= store.baselineYear)
+  const planYears = planFuture.map((f) => f.year)
+  const partnerNames = Array.from(new Set(planFuture.flatMap((f) => f.physicians.filter((p) => p.type === 'partner' || p.type === 'employeeToPartner' || p.type === 'partnerToRetire').map((p) => p.name))))
+
+  // Reset targets: the preset defaults with growth rates fitted to the historic trend
+  const defaultValues = deriveProjectionDefaults(store.historic, store.trendSettings, sc.preset)
+  const trendReset = `Reset to ${describeTrend(store.trendSettings)}`
+  const fittedFields = Object.keys(fitTrendFields(store.historic, store.trendSettings))
+  const unfitted = unfittedTrendFields(store.historic, store.trendSettings)
 
   // Helper function to create a slider with number input and reset button
   const createSlider = (
@@ -5856,9 +5199,10 @@ function ProjectionSettingsControls({ scenario }: { scenario: ScenarioKey }) {
     suffix: string = '%',
     isDollar: boolean = false,
     glowType: 'income' | 'cost' = 'cost',
-    resetTooltip: string = 'Reset to 2016-2024 Trend',
+    resetTooltip: string = 'Reset to Default',
     bare: boolean = false
   ) => {
+    if (fittedFields.includes(field)) resetTooltip = trendReset
     const defaultValue = defaultValues[field]
     const isChanged = Math.abs(value - defaultValue) > 0.001 // Account for floating point precision
     
@@ -6327,7 +5671,7 @@ function ProjectionSettingsControls({ scenario }: { scenario: ScenarioKey }) {
           onMouseEnter={(e) => { 
             e.currentTarget.style.opacity = '1'
             e.currentTarget.style.backgroundColor = '#f3f4f6'
-            createTooltip('reset-all-tooltip', 'Reset All to 2016-2024 Trend', e)
+            createTooltip('reset-all-tooltip', `Reset all to defaults, with growth from the ${describeTrend(store.trendSettings)}`, e)
           }}
           onMouseLeave={(e) => { 
             e.currentTarget.style.opacity = '0.8'
@@ -6338,8 +5682,27 @@ function ProjectionSettingsControls({ scenario }: { scenario: ScenarioKey }) {
           ↺ Reset All
         </button>
       </div>
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'center', gap: 6, flexWrap: 'wrap', marginBottom: 12, fontSize: 12, color: '#6b7280' }}>
+        <span>Default growth from</span>
+        <select value={store.trendSettings.method} onChange={(e) => store.setTrendSettings({ method: e.target.value as TrendMethod })} style={{ fontSize: 12 }}>
+          {(Object.keys(TREND_METHOD_LABELS) as TrendMethod[]).map((method) => <option key={method} value={method}>{TREND_METHOD_LABELS[method]}</option>)}
+        </select>
+        <span>over</span>
+        <select value={store.trendSettings.fromYear} onChange={(e) => store.setTrendSettings({ fromYear: Number(e.target.value) })} style={{ fontSize: 12 }}>
+          {store.historic.filter((h) => h.year < store.trendSettings.toYear).map((h) => <option key={h.year} value={h.year}>{h.year}</option>)}
+        </select>
+        <span>–</span>
+        <select value={store.trendSettings.toYear} onChange={(e) => store.setTrendSettings({ toYear: Number(e.target.value) })} style={{ fontSize: 12 }}>
+          {store.historic.filter((h) => h.year > store.trendSettings.fromYear).map((h) => <option key={h.year} value={h.year}>{h.year}</option>)}
+        </select>
+        {unfitted.length > 0 && (
+          <span title="The window needs at least two years with figures, recorded the same way, to fit a trend">
+            · {unfitted.map((f) => f.label).join(', ')} {unfitted.length === 1 ? 'keeps its' : 'keep their'} built-in default
+          </span>
+        )}
+      </div>
       <div style={{ display: 'grid', gridTemplateColumns: isMobile ? '1fr' : 'repeat(2, 1fr)', gap: 16 }}>
-        {createSlider('Therapy Income Growth', 'incomeGrowthPct', sc.projection.incomeGrowthPct ?? 3.7, -10, 20, 0.1, '%', false, 'income')}
+        {createSlider('Therapy Income Growth', 'incomeGrowthPct', sc.projection.incomeGrowthPct, -10, 20, 0.1, '%', false, 'income')}
 
         <div className={'panel-green'} style={{ padding: 8, backgroundColor: '#ffffff', borderRadius: 8, border: '1px solid rgba(16, 185, 129, 0.4)', boxShadow: '0 1px 3px rgba(0, 0, 0, 0.05), 0 0 0 1px rgba(16, 185, 129, 0.05), 0 0 10px rgba(16, 185, 129, 0.08), 0 0 6px rgba(16, 185, 129, 0.4)' }}>
           <div style={{ fontSize: 14, fontWeight: 600, marginBottom: 2 }}>Medical Director Hours (Annual Overrides)</div>
@@ -6349,73 +5712,133 @@ function ProjectionSettingsControls({ scenario }: { scenario: ScenarioKey }) {
           </div>
         </div>
 
-        {createSlider('Non-Employment Costs Growth', 'nonEmploymentCostsPct', sc.projection.nonEmploymentCostsPct ?? 7.8, -10, 20, 0.1, '%', false, 'cost')}
-        {createSlider('Staff Employment Costs Growth', 'nonMdEmploymentCostsPct', sc.projection.nonMdEmploymentCostsPct ?? 6.0, -10, 20, 0.1, '%', false, 'cost', 'Reset to Default')}
+        {createSlider('Non-Employment Costs Growth', 'nonEmploymentCostsPct', sc.projection.nonEmploymentCostsPct, -10, 20, 0.1, '%', false, 'cost')}
+        {createSlider('Staff Employment Costs Growth', 'nonMdEmploymentCostsPct', sc.projection.nonMdEmploymentCostsPct, -10, 20, 0.1, '%', false, 'cost')}
         {createSlider('Benefit Costs Growth', 'benefitCostsGrowthPct', sc.projection.benefitCostsGrowthPct ?? 5.0, -10, 20, 0.1, '%', false, 'cost', 'Reset to Default')}
-        {createSlider('Misc Employment Costs Growth', 'miscEmploymentCostsPct', sc.projection.miscEmploymentCostsPct ?? 6.7, -10, 20, 0.1, '%', false, 'cost')}
+        {createSlider('Misc Employment Costs Growth', 'miscEmploymentCostsPct', sc.projection.miscEmploymentCostsPct, -10, 20, 0.1, '%', false, 'cost')}
         <div style={{ gridColumn: isMobile ? '1' : '1 / -1' }}>
         {createSlider('Locums Costs (Annual Override)', 'locumsCosts', sc.projection.locumsCosts ?? 120000, 0, 500000, 1000, '', true, 'cost', 'Reset to Default')}
         </div>
       </div>
+      <div style={{ marginTop: 12 }}>
+        <button
+          onClick={() => setShowSchedule(!showSchedule)}
+          style={{ background: 'none', border: 'none', padding: 0, cursor: 'pointer', fontSize: 13, fontWeight: 600, color: '#374151', marginBottom: 6 }}
+        >
+          {showSchedule ? '▾' : '▸'} Year-by-year growth
+          {sc.growthSchedules && Object.keys(sc.growthSchedules).length > 0 && <span style={{ fontWeight: 400, color: '#2563eb' }}> (in use)</span>}
+        </button>
+        {showSchedule && (
+          <GrowthScheduleEditor
+            years={sc.future.filter((f) => f.year > store.baselineYear).map((f) => f.year)}
+            projection={sc.projection}
+            schedules={sc.growthSchedules}
+            onChange={(field, year, pct) => store.setScheduledGrowth(scenario, field, year, pct)}
+            onClear={(field) => store.clearGrowthSchedule(scenario, field)}
+          />
+        )}
+      </div>
+      <div style={{ marginTop: 8 }}>
+        <button
+          onClick={() => setShowCategoryGrowth(!showCategoryGrowth)}
+          style={{ background: 'none', border: 'none', padding: 0, cursor: 'pointer', fontSize: 13, fontWeight: 600, color: '#374151', marginBottom: 6 }}
+        >
+          {showCategoryGrowth ? '▾' : '▸'} Cost category growth
+          {sc.costCategoryGrowth && <span style={{ fontWeight: 400, color: '#2563eb' }}> (in use)</span>}
+        </button>
+        {showCategoryGrowth && (
+          <CostCategoryGrowthEditor
+            rates={sc.costCategoryGrowth}
+            flatRate={sc.projection.nonEmploymentCostsPct}
+            onChange={(category, pct) => store.setCostCategoryGrowth(scenario, category, pct)}
+          />
+        )}
+      </div>
+      <div style={{ marginTop: 8 }}>
+        <button
+          onClick={() => setShowPayrollTaxes(!showPayrollTaxes)}
+          style={{ background: 'none', border: 'none', padding: 0, cursor: 'pointer', fontSize: 13, fontWeight: 600, color: '#374151', marginBottom: 6 }}
+        >
+          {showPayrollTaxes ? '▾' : '▸'} Payroll taxes
+          {sc.payrollTaxes && <span style={{ fontWeight: 400, color: '#2563eb' }}> (in use)</span>}
+        </button>
+        {showPayrollTaxes && (
+          <PayrollTaxTableEditor
+            years={planYears}
+            tables={sc.payrollTaxes}
+            onChange={(year, rules) => store.setPayrollTaxTable(scenario, year, rules)}
+          />
+        )}
+      </div>
+      <div style={{ marginTop: 8 }}>
+        <button
+          onClick={() => setShowRetirement(!showRetirement)}
+          style={{ background: 'none', border: 'none', padding: 0, cursor: 'pointer', fontSize: 13, fontWeight: 600, color: '#374151', marginBottom: 6 }}
+        >
+          {showRetirement ? '▾' : '▸'} Retirement plans
+          {sc.retirementPlans && <span style={{ fontWeight: 400, color: '#2563eb' }}> (in use)</span>}
+        </button>
+        {showRetirement && (
+          <RetirementPlansEditor
+            years={planYears}
+            partnerNames={partnerNames}
+            plans={sc.retirementPlans}
+            onChange={(plans) => store.setRetirementPlans(scenario, plans)}
+          />
+        )}
+      </div>
     </div>
   )
 }
 
+// Line styles used to tell compared scenarios apart on the charts
+const SCENARIO_DASHES = ['dot', 'dash', 'dashdot', 'longdash', 'longdashdot']
+
+// Line colors for per-physician series
+const PHYSICIAN_COLORS = ['#1f77b4', '#ff7f0e', '#2ca02c', '#d62728', '#9467bd', '#8c564b', '#e377c2', '#7f7f7f', '#bcbd22', '#17becf']
+
+// Helper: translucent version of a hex color, for filled bands
+function withAlpha(hex: string, alpha: number): string {
+  const value = hex.replace('#', '')
+  const [r, g, b] = [0, 2, 4].map((i) => parseInt(value.slice(i, i + 2), 16))
+  return `rgba(${r}, ${g}, ${b}, ${alpha})`
+}
+
 function HistoricAndProjectionChart() {
   const store = useDashboardStore()
   const isMobile = useIsMobile()
   const historicYears = store.historic.map((h) => h.year)
   const incomeHistoric = store.historic.map((h) => getTotalIncome(h))
+  const therapyHistoric = store.historic.map((h) => h.therapyIncome)
+  const medicalDirectorHistoric = store.historic.map((h, i) => incomeHistoric[i] - h.therapyIncome)
   const costHistoric = store.historic.map((h) => h.nonEmploymentCosts)
   const netHistoric = store.historic.map((h) => getTotalIncome(h) - h.nonEmploymentCosts - (h.employeePayroll ?? 0))
   const employmentHistoric = store.historic.map((h) => h.employeePayroll ?? 0)
 
-  // Helper function to get 2025 baseline values for each scenario based on their dataMode
-  const getScenarioBaseline = (scenario: 'A' | 'B') => {
-    const sc = scenario === 'A' ? store.scenarioA : store.scenarioB!
-    const dataMode = sc.dataMode
-    const last2024 = store.historic.find((h) => h.year === 2024)
-    const last2025 = store.historic.find((h) => h.year === 2025)
-    
-    if (dataMode === 'Custom') {
-      // For Custom mode, use the existing baseline data from year 2025 in future array
-      const customBaseline = sc.future.find(f => f.year === 2025)
-      if (customBaseline) {
-        return {
-          therapyIncome: getTotalIncome(customBaseline),
-          nonEmploymentCosts: customBaseline.nonEmploymentCosts,
-          employeePayroll: customBaseline.nonMdEmploymentCosts + customBaseline.miscEmploymentCosts
-        }
-      }
-    } else if (dataMode === '2024 Data' && last2024) {
-      return {
-        therapyIncome: getTotalIncome(last2024),
-        nonEmploymentCosts: last2024.nonEmploymentCosts,
-        employeePayroll: last2024.employeePayroll ?? (164677.44 + 24623.49) // 2024 actual values
-      }
-    } else if (dataMode === '2025 Data' && last2025) {
-      return {
-        therapyIncome: getTotalIncome(last2025),
-        nonEmploymentCosts: last2025.nonEmploymentCosts,
-        employeePayroll: last2025.employeePayroll ?? (computeDefaultNonMdEmploymentCosts(2025) + DEFAULT_MISC_EMPLOYMENT_COSTS)
-      }
-    }
-    
-    // Fallback to 2025 defaults - use actual 2025 historic data if available
-    return {
-      therapyIncome: last2025 ? getTotalIncome(last2025) : 2700000,
-      nonEmploymentCosts: last2025?.nonEmploymentCosts || 229713.57,
-      employeePayroll: last2025?.employeePayroll ?? (computeDefaultNonMdEmploymentCosts(2025) + DEFAULT_MISC_EMPLOYMENT_COSTS)
-    }
-  }
+  // Fitted trend behind the default growth rates, drawn over its window
+  const incomeTrend = trendLine(store.historic, store.trendSettings, 'incomeGrowthPct')
+  const costTrend = trendLine(store.historic, store.trendSettings, 'nonEmploymentCostsPct')
+  const trendTrace = (fit: TrendFit, label: string, color: string, group: string) => ({
+    x: fit.line.map((p) => p.year),
+    y: fit.line.map((p) => p.value),
+    type: 'scatter',
+    mode: 'lines',
+    name: `${label} trend (${fit.ratePct}%/yr)`,
+    line: { color: withAlpha(color, 0.6), width: 2, dash: 'dashdot' },
+    hovertemplate: `${label} trend: %{y:$,.0f}<extra></extra>`,
+    legendgroup: group,
+    legendrank: 1,
+  })
 
-  const baselineA = getScenarioBaseline('A')
-  const baselineB = store.scenarioBEnabled && store.scenarioB ? getScenarioBaseline('B') : null
+  // Projections start from the baseline year's actuals while they are still on record, and from
+  // the last closed year once it has been closed (the baseline year is then the first projected point)
+  const anchor = store.historic.find((h) => h.year === store.baselineYear) ?? store.historic[store.historic.length - 1]
+  const anchorNet = store.baselineDetails[anchor.year]?.netPartnerPool ?? netHistoric[store.historic.indexOf(anchor)]
 
-  // Marker fill: make 2025 points solid white to match plot background
+  // Marker fill: make provisional baseline-year points solid white to match plot background
   const plotBackgroundColor = '#ffffff'
-  const markerColorsFor2025 = (seriesColor: string) =>
-    historicYears.map(y => (y === 2025 ? plotBackgroundColor : seriesColor))
+  const markerColorsForBaseline = (seriesColor: string) =>
+    historicYears.map(y => (y === store.baselineYear ? plotBackgroundColor : seriesColor))
 
   // Helper function to create intermediate color between white and trace color
   const getIntermediateColor = (traceColor: string, opacity: number = 0.3) => {
@@ -6433,98 +5856,58 @@ function HistoricAndProjectionChart() {
     return `rgb(${blendedR}, ${blendedG}, ${blendedB})`
   }
 
-  // For Scenario B: use intermediate color for all markers, we'll overlay white for 2025 later
-  const getScenarioBMarkerColor = (traceColor: string) => getIntermediateColor(traceColor)
-
-  // Calculate max Y value from all data
-  const scAIncome = store.scenarioA.future.map(f => getTotalIncome(f))
-  const scACosts = store.scenarioA.future.map(f => f.nonEmploymentCosts)
-  const scAEmployment = store.scenarioA.future.map(f => {
-    const md = f.physicians.reduce((s, e) => {
-      if (e.type === 'employee') return s + (e.salary ?? 0)
-      if (e.type === 'newEmployee') return s + (e.salary ?? 0) * getEmployeePortionOfYear(e)
-      if (e.type === 'employeeToPartner') return s + (e.salary ?? 0) * getEmployeePortionOfYear(e)
-      if (e.type === 'partnerToRetire') return s + (e.buyoutCost ?? 0)
-      return s
-    }, 0)
-    // Add delayed W2 payments for employeeToPartner physicians
-    const delayedW2 = f.physicians.reduce((s, p) => {
-      if (p.type === 'employeeToPartner') {
-        const delayed = calculateDelayedW2Payment(p, f.year)
-        return s + delayed.amount + delayed.taxes
-      }
-      return s
-    }, 0)
-    return md + f.nonMdEmploymentCosts + delayedW2
-  })
-  const scBIncome = store.scenarioB?.future.map(f => getTotalIncome(f)) || []
-  const scBCosts = store.scenarioB?.future.map(f => f.nonEmploymentCosts) || []
-  const scBEmployment = store.scenarioB?.future.map(f => {
-    const md = f.physicians.reduce((s, e) => {
-      if (e.type === 'employee') return s + (e.salary ?? 0)
-      if (e.type === 'newEmployee') return s + (e.salary ?? 0) * getEmployeePortionOfYear(e)
-      if (e.type === 'employeeToPartner') return s + (e.salary ?? 0) * getEmployeePortionOfYear(e)
-      if (e.type === 'partnerToRetire') return s + (e.buyoutCost ?? 0)
-      return s
-    }, 0)
-    // Add delayed W2 payments for employeeToPartner physicians
-    const delayedW2 = f.physicians.reduce((s, p) => {
-      if (p.type === 'employeeToPartner') {
-        const delayed = calculateDelayedW2Payment(p, f.year)
-        return s + delayed.amount + delayed.taxes
-      }
-      return s
-    }, 0)
-    return md + f.nonMdEmploymentCosts + delayedW2
-  }) || []
-  const scANet = store.scenarioA.future.map(f => {
-    const md = f.physicians.reduce((s, e) => {
-      if (e.type === 'employee') return s + (e.salary ?? 0)
-      if (e.type === 'newEmployee') return s + (e.salary ?? 0) * getEmployeePortionOfYear(e)
-      if (e.type === 'employeeToPartner') return s + (e.salary ?? 0) * getEmployeePortionOfYear(e)
-      return s
-    }, 0)
-    const buyouts = f.physicians.reduce((s, p) => s + (p.type === 'partnerToRetire' ? (p.buyoutCost ?? 0) : 0), 0)
-    const delayedW2 = f.physicians.reduce((s, p) => {
-      if (p.type === 'employeeToPartner') {
-        const delayed = calculateDelayedW2Payment(p, f.year)
-        return s + delayed.amount + delayed.taxes
-      }
-      return s
-    }, 0)
-    return getTotalIncome(f) - f.nonEmploymentCosts - f.nonMdEmploymentCosts - f.miscEmploymentCosts - f.locumCosts - md - buyouts - delayedW2
-  })
-  const scBNet = store.scenarioB?.future.map(f => {
-    const md = f.physicians.reduce((s, e) => {
-      if (e.type === 'employee') return s + (e.salary ?? 0)
-      if (e.type === 'newEmployee') return s + (e.salary ?? 0) * getEmployeePortionOfYear(e)
-      if (e.type === 'employeeToPartner') return s + (e.salary ?? 0) * getEmployeePortionOfYear(e)
-      return s
-    }, 0)
-    const buyouts = f.physicians.reduce((s, p) => s + (p.type === 'partnerToRetire' ? (p.buyoutCost ?? 0) : 0), 0)
-    const delayedW2 = f.physicians.reduce((s, p) => {
-      if (p.type === 'employeeToPartner') {
-        const delayed = calculateDelayedW2Payment(p, f.year)
-        return s + delayed.amount + delayed.taxes
+  // Projected series for every compared scenario. Employment and net income for projected
+  // years come straight from the compensation engine.
+  const projections = store.selectedScenarioIds
+    .filter((id) => store.scenarios[id])
+    .map((id) => {
+      const sc = store.scenarios[id]
+      const future = sc.future.filter(f => f.year > anchor.year).map(f => getScenarioYear(store.historic, store.baselineDetails, store.baselineYear, sc, f.year)?.fy ?? f)
+      const results = future.map(f => computeYearCompensation(f, sc.projection, { payrollLedger: store.payrollLedger, payrollTaxes: sc.payrollTaxes, retirementPlans: sc.retirementPlans }))
+      return {
+        id,
+        sc,
+        years: future.map(f => f.year),
+        income: future.map(f => getTotalIncome(f)),
+        costs: future.map(f => f.nonEmploymentCosts),
+        employment: results.map(r => r.costs.staffEmployment + r.costs.physicianEmployees + r.costs.buyouts + r.costs.delayedW2 + r.costs.retirement),
+        net: results.map(r => r.netIncome),
       }
-      return s
+    })
+
+  // Monte Carlo bands around each compared scenario's projection (off by default). A run takes
+  // seconds, so it only happens on request; edits since the last run flag the bands as out of date.
+  const [simulation, setSimulation] = useState<SimulationSettings | null>(null)
+  const [simulationRun, setSimulationRun] = useState<{ inputs: typeof simulationInputs; results: { id: ScenarioKey; sim: SimulationResult }[] } | null>(null)
+  const [simulationRunning, setSimulationRunning] = useState(false)
+  const fittedVolatility = useMemo(() => fitGrowthVolatility(store.historic), [store.historic])
+  const { scenarios, selectedScenarioIds, payrollLedger, baselineYear } = store
+  const simulationInputs = { simulation, scenarios, selectedScenarioIds, payrollLedger, baselineYear }
+  const runSimulation = () => {
+    if (!simulation) return
+    const inputs = simulationInputs
+    setSimulationRunning(true)
+    // Let the "Running" state paint before the draws block the page
+    setTimeout(() => {
+      const results = selectedScenarioIds
+        .filter((id) => scenarios[id])
+        .map((id) => ({ id, sim: simulateScenario(scenarios[id].future.filter((f) => f.year > baselineYear), scenarios[id].projection, scenarios[id].growthSchedules, simulation, { payrollLedger, payrollTaxes: scenarios[id].payrollTaxes, retirementPlans: scenarios[id].retirementPlans }) }))
+      setSimulationRun({ inputs, results })
+      setSimulationRunning(false)
     }, 0)
-    return getTotalIncome(f) - f.nonEmploymentCosts - f.nonMdEmploymentCosts - f.miscEmploymentCosts - f.locumCosts - md - buyouts - delayedW2
-  }) || []
-  
+  }
+  const simulationStale = simulationRun !== null && (Object.keys(simulationInputs) as (keyof typeof simulationInputs)[]).some((key) => simulationInputs[key] !== simulationRun.inputs[key])
+  // Bands only for scenarios still on the chart
+  const simulations = simulation && simulationRun ? simulationRun.results.filter((r) => projections.some((p) => p.id === r.id)) : []
+
+  // Calculate max Y value from all data
   const yMax = Math.max(
     ...incomeHistoric,
     ...costHistoric,
     ...netHistoric,
     ...employmentHistoric,
-    ...scAIncome,
-    ...scACosts,
-    ...scAEmployment,
-    ...scANet,
-    ...scBIncome,
-    ...scBCosts,
-    ...scBEmployment,
-    ...scBNet
+    ...projections.flatMap(p => [...p.income, ...p.costs, ...p.employment, ...p.net]),
+    ...simulations.flatMap(({ sim }) => sim.net.p90.map((v) => v ?? 0))
   )
 
   return (
@@ -6544,35 +5927,60 @@ function HistoricAndProjectionChart() {
       <Plot
         data={(() => {
           const traces: any[] = []
-          const historic2025 = store.historic.find(h => h.year === 2025)
-          // Group: Income
-          traces.push({ x: historicYears, y: incomeHistoric, type: 'scatter', mode: 'lines+markers', name: 'Total Income', line: { color: '#1976d2', width: 3 }, marker: { symbol: 'circle', color: markerColorsFor2025('#1976d2'), line: { color: '#1976d2', width: 2 }, size: 8 }, hovertemplate: '%{y:$,.0f}', legendgroup: 'income', legendrank: 1 })
-          traces.push({ x: [2025, ...store.scenarioA.future.filter(f => f.year !== 2025).map(f => f.year)], y: [historic2025 ? getTotalIncome(historic2025) : baselineA.therapyIncome, ...store.scenarioA.future.filter(f => f.year !== 2025).map(f => getTotalIncome(f))], type: 'scatter', mode: 'lines+markers', name: 'Income projection A', line: { dash: 'dot', color: '#1976d2', width: 2 }, marker: { symbol: 'circle', color: plotBackgroundColor, line: { color: '#1976d2', width: 2 }, size: 8 }, hovertemplate: 'A: %{y:$,.0f}<extra></extra>', legendgroup: 'income', legendrank: 2 })
-          if (store.scenarioBEnabled && store.scenarioB && baselineB) traces.push({ x: [2025, ...store.scenarioB.future.filter(f => f.year !== 2025).map(f => f.year)], y: [historic2025 ? getTotalIncome(historic2025) : baselineB.therapyIncome, ...store.scenarioB.future.filter(f => f.year !== 2025).map(f => getTotalIncome(f))], type: 'scatter', mode: 'lines+markers', name: 'Income projection B', line: { dash: 'dash', color: '#1976d2', width: 2 }, marker: { symbol: 'circle', color: getScenarioBMarkerColor('#1976d2'), line: { color: '#1976d2', width: 2 }, size: 8 }, hovertemplate: 'B: %{y:$,.0f}<extra></extra>', legendgroup: 'income', legendrank: 3 })
+          // Group: Income. Therapy income with the MD income stacked on it as a band up to the total
+          traces.push({ x: historicYears, y: therapyHistoric, type: 'scatter', mode: 'lines', name: 'Therapy Income', line: { color: '#1976d2', width: 1, dash: 'dot' }, hovertemplate: 'Therapy: %{y:$,.0f}<extra></extra>', legendgroup: 'income', legendrank: 1 })
+          traces.push({ x: historicYears, y: incomeHistoric, customdata: medicalDirectorHistoric, type: 'scatter', mode: 'lines', name: 'Medical Director Income', line: { color: '#7c3aed', width: 0 }, fill: 'tonexty', fillcolor: withAlpha('#7c3aed', 0.2), hovertemplate: 'Medical director: %{customdata:$,.0f}<extra></extra>', legendgroup: 'income', legendrank: 1 })
+          if (incomeTrend) traces.push(trendTrace(incomeTrend, 'Therapy Income', '#1976d2', 'income'))
+          traces.push({ x: historicYears, y: incomeHistoric, type: 'scatter', mode: 'lines+markers', name: 'Total Income', line: { color: '#1976d2', width: 3 }, marker: { symbol: 'circle', color: markerColorsForBaseline('#1976d2'), line: { color: '#1976d2', width: 2 }, size: 8 }, hovertemplate: '%{y:$,.0f}', legendgroup: 'income', legendrank: 1 })
+          // One dashed projection per compared scenario and metric; markers take the scenario's color
+          // (hollow at the anchor year, where every scenario starts from the same actuals)
+          const projectionTrace = (p: typeof projections[number], idx: number, metric: { label: string; color: string; group: string }, start: number, values: number[]) => ({
+            x: [anchor.year, ...p.years],
+            y: [start, ...values],
+            type: 'scatter',
+            mode: 'lines+markers',
+            name: `${metric.label} projection – ${p.sc.name}`,
+            line: { dash: SCENARIO_DASHES[idx % SCENARIO_DASHES.length], color: metric.color, width: 2 },
+            marker: { symbol: 'circle', color: [plotBackgroundColor, ...p.years.map(() => getIntermediateColor(p.sc.color, 0.6))], line: { color: metric.color, width: 2 }, size: 8 },
+            hovertemplate: `${p.sc.name}: %{y:$,.0f}<extra></extra>`,
+            legendgroup: metric.group,
+            legendrank: 2 + idx,
+          })
+          projections.forEach((p, idx) => traces.push(projectionTrace(p, idx, { label: 'Income', color: '#1976d2', group: 'income' }, getTotalIncome(anchor), p.income)))
 
           // Group: Non-employment costs
-          traces.push({ x: historicYears, y: costHistoric, type: 'scatter', mode: 'lines+markers', name: 'Non-Employment Costs', line: { color: '#e65100', width: 3 }, marker: { symbol: 'circle', color: markerColorsFor2025('#e65100'), line: { color: '#e65100', width: 2 }, size: 8 }, hovertemplate: '%{y:$,.0f}', legendgroup: 'cost', legendrank: 1 })
-          traces.push({ x: [2025, ...store.scenarioA.future.filter(f => f.year !== 2025).map(f => f.year)], y: [historic2025?.nonEmploymentCosts ?? baselineA.nonEmploymentCosts, ...store.scenarioA.future.filter(f => f.year !== 2025).map(f => f.nonEmploymentCosts)], type: 'scatter', mode: 'lines+markers', name: 'Cost projection A', line: { dash: 'dot', color: '#e65100', width: 2 }, marker: { symbol: 'circle', color: plotBackgroundColor, line: { color: '#e65100', width: 2 }, size: 8 }, hovertemplate: 'A: %{y:$,.0f}<extra></extra>', legendgroup: 'cost', legendrank: 2 })
-          if (store.scenarioBEnabled && store.scenarioB && baselineB) traces.push({ x: [2025, ...store.scenarioB.future.filter(f => f.year !== 2025).map(f => f.year)], y: [historic2025?.nonEmploymentCosts ?? baselineB.nonEmploymentCosts, ...store.scenarioB.future.filter(f => f.year !== 2025).map(f => f.nonEmploymentCosts)], type: 'scatter', mode: 'lines+markers', name: 'Cost projection B', line: { dash: 'dash', color: '#e65100', width: 2 }, marker: { symbol: 'circle', color: getScenarioBMarkerColor('#e65100'), line: { color: '#e65100', width: 2 }, size: 8 }, hovertemplate: 'B: %{y:$,.0f}<extra></extra>', legendgroup: 'cost', legendrank: 3 })
+          traces.push({ x: historicYears, y: costHistoric, type: 'scatter', mode: 'lines+markers', name: 'Non-Employment Costs', line: { color: '#e65100', width: 3 }, marker: { symbol: 'circle', color: markerColorsForBaseline('#e65100'), line: { color: '#e65100', width: 2 }, size: 8 }, hovertemplate: '%{y:$,.0f}', legendgroup: 'cost', legendrank: 1 })
+          if (costTrend) traces.push(trendTrace(costTrend, 'Non-Employment Costs', '#e65100', 'cost'))
+          projections.forEach((p, idx) => traces.push(projectionTrace(p, idx, { label: 'Cost', color: '#e65100', group: 'cost' }, anchor.nonEmploymentCosts, p.costs)))
 
           // Group: Net income
-          traces.push({ x: historicYears, y: netHistoric, type: 'scatter', mode: 'lines+markers', name: 'Net Income (Historic)', line: { color: '#2e7d32', width: 3 }, marker: { symbol: 'circle', color: markerColorsFor2025('#2e7d32'), line: { color: '#2e7d32', width: 2 }, size: 8 }, hovertemplate: '%{y:$,.0f}', legendgroup: 'net', legendrank: 1 })
-          traces.push({ x: [2025, ...store.scenarioA.future.filter(f => f.year !== 2025).map(f => f.year)], y: [NET_PARTNER_POOL_2025, ...store.scenarioA.future.filter(f => f.year !== 2025).map((_, idx) => scANet[idx])], type: 'scatter', mode: 'lines+markers', name: 'Net projection A', line: { dash: 'dot', color: '#2e7d32', width: 2 }, marker: { symbol: 'circle', color: plotBackgroundColor, line: { color: '#2e7d32', width: 2 }, size: 8 }, hovertemplate: 'A: %{y:$,.0f}<extra></extra>', legendgroup: 'net', legendrank: 2 })
-          if (store.scenarioBEnabled && store.scenarioB) traces.push({ x: [2025, ...store.scenarioB.future.filter(f => f.year !== 2025).map(f => f.year)], y: [NET_PARTNER_POOL_2025, ...store.scenarioB.future.filter(f => f.year !== 2025).map((_, idx) => scBNet[idx])], type: 'scatter', mode: 'lines+markers', name: 'Net projection B', line: { dash: 'dash', color: '#2e7d32', width: 2 }, marker: { symbol: 'circle', color: getScenarioBMarkerColor('#2e7d32'), line: { color: '#2e7d32', width: 2 }, size: 8 }, hovertemplate: 'B: %{y:$,.0f}<extra></extra>', legendgroup: 'net', legendrank: 3 })
+          traces.push({ x: historicYears, y: netHistoric, type: 'scatter', mode: 'lines+markers', name: 'Net Income (Historic)', line: { color: '#2e7d32', width: 3 }, marker: { symbol: 'circle', color: markerColorsForBaseline('#2e7d32'), line: { color: '#2e7d32', width: 2 }, size: 8 }, hovertemplate: '%{y:$,.0f}', legendgroup: 'net', legendrank: 1 })
+          projections.forEach((p, idx) => traces.push(projectionTrace(p, idx, { label: 'Net', color: '#2e7d32', group: 'net' }, anchorNet, p.net)))
 
           // Group: Employment
-          traces.push({ x: historicYears, y: employmentHistoric, type: 'scatter', mode: 'lines+markers', name: 'Employment Costs (Historic)', line: { color: '#6b7280', width: 3 }, marker: { symbol: 'circle', color: markerColorsFor2025('#6b7280'), line: { color: '#6b7280', width: 2 }, size: 8 }, hovertemplate: '%{y:$,.0f}', legendgroup: 'employment', legendrank: 1 })
-          traces.push({ x: [2025, ...store.scenarioA.future.filter(f => f.year !== 2025).map(f => f.year)], y: [historic2025?.employeePayroll ?? baselineA.employeePayroll, ...store.scenarioA.future.filter(f => f.year !== 2025).map((_, idx) => scAEmployment[idx])], type: 'scatter', mode: 'lines+markers', name: 'Employment projection A', line: { dash: 'dot', color: '#6b7280', width: 2 }, marker: { symbol: 'circle', color: plotBackgroundColor, line: { color: '#6b7280', width: 2 }, size: 8 }, hovertemplate: 'A: %{y:$,.0f}<extra></extra>', legendgroup: 'employment', legendrank: 2 })
-          if (store.scenarioBEnabled && store.scenarioB && baselineB) traces.push({ x: [2025, ...store.scenarioB.future.filter(f => f.year !== 2025).map(f => f.year)], y: [historic2025?.employeePayroll ?? baselineB.employeePayroll, ...store.scenarioB.future.filter(f => f.year !== 2025).map((_, idx) => scBEmployment[idx])], type: 'scatter', mode: 'lines+markers', name: 'Employment projection B', line: { dash: 'dash', color: '#6b7280', width: 2 }, marker: { symbol: 'circle', color: getScenarioBMarkerColor('#6b7280'), line: { color: '#6b7280', width: 2 }, size: 8 }, hovertemplate: 'B: %{y:$,.0f}<extra></extra>', legendgroup: 'employment', legendrank: 3 })
-
-          // Add white overlay markers for Scenario B's 2025 points to make them appear hollow
-          // All scenarios should use 2025 historic data for the 2025 points
-          if (store.scenarioBEnabled && store.scenarioB && historic2025) {
-            traces.push({ x: [2025], y: [getTotalIncome(historic2025)], type: 'scatter', mode: 'markers', showlegend: false, marker: { symbol: 'circle', color: plotBackgroundColor, line: { color: '#1976d2', width: 2 }, size: 8 }, hovertemplate: 'B: %{y:$,.0f}<extra></extra>', legendgroup: 'income' })
-            traces.push({ x: [2025], y: [historic2025.nonEmploymentCosts], type: 'scatter', mode: 'markers', showlegend: false, marker: { symbol: 'circle', color: plotBackgroundColor, line: { color: '#e65100', width: 2 }, size: 8 }, hovertemplate: 'B: %{y:$,.0f}<extra></extra>', legendgroup: 'cost' })
-            traces.push({ x: [2025], y: [NET_PARTNER_POOL_2025], type: 'scatter', mode: 'markers', showlegend: false, marker: { symbol: 'circle', color: plotBackgroundColor, line: { color: '#2e7d32', width: 2 }, size: 8 }, hovertemplate: 'B: %{y:$,.0f}<extra></extra>', legendgroup: 'net' })
-            traces.push({ x: [2025], y: [historic2025.employeePayroll ?? 0], type: 'scatter', mode: 'markers', showlegend: false, marker: { symbol: 'circle', color: plotBackgroundColor, line: { color: '#6b7280', width: 2 }, size: 8 }, hovertemplate: 'B: %{y:$,.0f}<extra></extra>', legendgroup: 'employment' })
+          traces.push({ x: historicYears, y: employmentHistoric, type: 'scatter', mode: 'lines+markers', name: 'Employment Costs (Historic)', line: { color: '#6b7280', width: 3 }, marker: { symbol: 'circle', color: markerColorsForBaseline('#6b7280'), line: { color: '#6b7280', width: 2 }, size: 8 }, hovertemplate: '%{y:$,.0f}', legendgroup: 'employment', legendrank: 1 })
+          projections.forEach((p, idx) => traces.push(projectionTrace(p, idx, { label: 'Employment', color: '#6b7280', group: 'employment' }, anchor.employeePayroll ?? 0, p.employment)))
+
+          // Group: Monte Carlo bands. The P10 line is drawn first so the P90 line can fill down to it.
+          const bandTraces = (years: number[], band: PercentileBand, label: string, color: string, group: string, rank: number) => {
+            const common = { x: years, type: 'scatter', mode: 'lines', legendgroup: group, legendrank: rank, connectgaps: false }
+            return [
+              { ...common, y: band.p10, name: `${label} P10`, line: { color, width: 0 }, showlegend: false, hovertemplate: `${label} P10: %{y:$,.0f}<extra></extra>` },
+              { ...common, y: band.p90, name: `${label} P10–P90`, line: { color, width: 0 }, fill: 'tonexty', fillcolor: withAlpha(color, 0.15), hovertemplate: `${label} P90: %{y:$,.0f}<extra></extra>` },
+              { ...common, y: band.p50, name: `${label} P50`, line: { color, width: 1.5, dash: 'dot' }, showlegend: false, hovertemplate: `${label} P50: %{y:$,.0f}<extra></extra>` },
+            ]
           }
+          // Same color for a partner in every scenario
+          const bandNames = Array.from(new Set(simulations.flatMap(({ sim }) => sim.partners.map((partner) => partner.name))))
+          simulations.forEach(({ id, sim }, idx) => {
+            const sc = projections.find((p) => p.id === id)!.sc
+            const suffix = projections.length > 1 ? ` – ${sc.name}` : ''
+            traces.push(...bandTraces(sim.years, sim.net, `Net${suffix}`, '#2e7d32', 'net-band', 10 + idx))
+            sim.partners.forEach((partner) => {
+              const color = PHYSICIAN_COLORS[bandNames.indexOf(partner.name) % PHYSICIAN_COLORS.length]
+              traces.push(...bandTraces(sim.years, partner.band, `${partner.name}${suffix}`, color, `band-${partner.name}`, 20 + idx))
+            })
+          })
 
           return traces
         })() as any}
@@ -6603,6 +6011,17 @@ function HistoricAndProjectionChart() {
         style={{ width: '100%', height: isMobile ? 320 : 480 }}
       />
       </div>
+      <SimulationControls
+        settings={simulation}
+        fittedVolatility={fittedVolatility}
+        historicRange={`${historicYears[0]}–${historicYears[historicYears.length - 1]}`}
+        runState={simulationRunning ? 'running' : simulationRun === null ? 'none' : simulationStale ? 'stale' : 'current'}
+        onChange={(settings) => {
+          setSimulation(settings)
+          if (!settings) setSimulationRun(null)
+        }}
+        onRun={runSimulation}
+      />
     </div>
   )
 }
@@ -6614,28 +6033,65 @@ export function Dashboard() {
   useEffect(() => {
     // Nudge Plotly to recompute sizes when layout width changes
     window.dispatchEvent(new Event('resize'))
-  }, [store.scenarioBEnabled])
+  }, [store.selectedScenarioIds.length])
 
   // Load from shareable URL hash if present
   useEffect(() => {
     const hash = window.location.hash
     if (hash && hash.startsWith('#s=')) {
+      const { loadSnapshot, setLoadError } = useDashboardStore.getState()
+      let snap: { version?: unknown } | null
       try {
         const encoded = hash.slice(3)
-        const json = decodeURIComponent(atob(encoded))
-        const snap = JSON.parse(json)
-        useDashboardStore.getState().loadSnapshot(snap)
+        snap = JSON.parse(decodeURIComponent(atob(encoded)))
       } catch {
-        // ignore malformed
+        setLoadError('This share link could not be opened because it is incomplete or corrupted. Ask for the link to be copied again.')
+        return
+      }
+      try {
+        loadSnapshot(migrateSnapshot(snap, typeof snap?.version === 'number' ? snap.version : 1))
+      } catch (err) {
+        setLoadError(`This share link could not be opened. ${err instanceof Error ? err.message : String(err)}`)
       }
     }
   }, [])
 
+  // Scenarios shown side by side, in roster order
+  const compared = store.selectedScenarioIds.filter((id) => store.scenarios[id])
+  const [showLibrary, setShowLibrary] = useState(false)
+  const [showHistory, setShowHistory] = useState(false)
+  const [showActuals, setShowActuals] = useState(false)
+  const [showPayroll, setShowPayroll] = useState(false)
+  const [showClose, setShowClose] = useState(false)
+  const [showHistoric, setShowHistoric] = useState(false)
+  const [showReport, setShowReport] = useState(false)
+
+  // Undo/redo shortcuts; text fields keep their own native undo
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return
+      const target = e.target as HTMLElement | null
+      if (target && (target.isContentEditable || target.tagName === 'TEXTAREA' || (target.tagName === 'INPUT' && ['text', 'number'].includes((target as HTMLInputElement).type)))) return
+      const key = e.key.toLowerCase()
+      const { undo, redo } = useDashboardStore.getState()
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault()
+        undo()
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault()
+        redo()
+      }
+    }
+    window.addEventListener('keydown', onKeyDown)
+    return () => window.removeEventListener('keydown', onKeyDown)
+  }, [])
+
   const copyShareLink = async () => {
-    const snap = {
-      scenarioA: store.scenarioA,
-      scenarioBEnabled: store.scenarioBEnabled,
-      scenarioB: store.scenarioBEnabled ? store.scenarioB : undefined,
+    const snap: ScenarioSnapshot & { version: number } = {
+      version: SCHEMA_VERSION,
+      scenarios: store.scenarios,
+      scenarioOrder: store.scenarioOrder,
+      selectedScenarioIds: store.selectedScenarioIds,
     }
     const json = JSON.stringify(snap)
     const encoded = btoa(encodeURIComponent(json))
@@ -6649,8 +6105,29 @@ export function Dashboard() {
     }
   }
 
+  if (showReport) {
+    const { compensation, parameters, assumptions } = buildSummaryTables(store)
+    const base = store.scenarios[compared[0]]
+    return (
+      <PrintReport
+        generatedAt={new Date()}
+        scenarios={compared.map((id) => ({ name: store.scenarios[id].name, color: store.scenarios[id].color, dataMode: store.scenarios[id].dataMode }))}
+        notes={[
+          store.actualsSource ? `Actuals imported from ${store.actualsSource.fileName} (${store.actualsSource.years.join(', ')}).` : 'Built-in actuals.',
+          store.payrollLedger.source ? `Payroll imported from ${store.payrollLedger.source.fileName}.` : 'Built-in payroll ledger.',
+        ]}
+        chart={<HistoricAndProjectionChart key={compared.join('|')} />}
+        assumptions={assumptions}
+        parameters={parameters}
+        compensation={compensation[0]}
+        diffs={compared.slice(1).map((id) => ({ name: store.scenarios[id].name, rows: diffScenarios(base, store.scenarios[id]) }))}
+        onClose={() => setShowReport(false)}
+      />
+    )
+  }
+
   return (
-    <div className="dashboard-container" style={{ fontFamily: 'Inter, system-ui, Arial', padding: isMobile ? 8 : 16, maxWidth: store.scenarioBEnabled ? 1610 : 1000, margin: '0 auto' }}>
+    <div className="dashboard-container" style={{ fontFamily: 'Inter, system-ui, Arial', padding: isMobile ? 8 : 16, maxWidth: compared.length > 1 ? 1610 : 1000, margin: '0 auto' }}>
       <div style={{ display: 'flex', alignItems: 'baseline', gap: 12, margin: isMobile ? '8px 0' : '0 0 4px', justifyContent: 'center' }}>
         <img src="/radiantcare.png" alt="RadiantCare" style={{ height: 60, width: 'auto', display: 'block' }} />
         <h2 style={{ margin: 0, fontFamily: '"Myriad Pro", Myriad, "Helvetica Neue", Arial, sans-serif', color: '#7c2a83', fontWeight: 900, fontSize: 36, lineHeight: 1.05 }}>Compensation Dashboard</h2>
@@ -6658,23 +6135,81 @@ export function Dashboard() {
       <div style={{ marginTop: 20, display: 'flex', justifyContent: isMobile ? 'center' : 'flex-end', flexWrap: 'wrap', marginBottom: 8, gap: 8 }}>
         <button onClick={() => { store.resetToDefaults(); window.location.hash = '' }} style={{ border: '1px solid #ccc', borderRadius: 6, padding: '6px 10px', background: '#fff', cursor: 'pointer' }}>Reset to defaults</button>
         <button onClick={copyShareLink} style={{ border: '1px solid #ccc', borderRadius: 6, padding: '6px 10px', background: '#fff', cursor: 'pointer' }}>Copy shareable link</button>
+        <button onClick={() => setShowLibrary((v) => !v)} style={{ border: '1px solid #ccc', borderRadius: 6, padding: '6px 10px', background: showLibrary ? '#f0f4ff' : '#fff', cursor: 'pointer' }}>Scenario library</button>
+        <button onClick={() => store.undo()} disabled={store.undoStack.length === 0} title={store.undoStack.length > 0 ? `Undo ${store.undoStack[store.undoStack.length - 1].label} (Ctrl+Z)` : 'Nothing to undo'} style={{ border: '1px solid #ccc', borderRadius: 6, padding: '6px 10px', background: '#fff', cursor: store.undoStack.length === 0 ? 'not-allowed' : 'pointer', opacity: store.undoStack.length === 0 ? 0.5 : 1 }}>Undo</button>
+        <button onClick={() => store.redo()} disabled={store.redoStack.length === 0} title={store.redoStack.length > 0 ? `Redo ${store.redoStack[store.redoStack.length - 1].label} (Ctrl+Shift+Z)` : 'Nothing to redo'} style={{ border: '1px solid #ccc', borderRadius: 6, padding: '6px 10px', background: '#fff', cursor: store.redoStack.length === 0 ? 'not-allowed' : 'pointer', opacity: store.redoStack.length === 0 ? 0.5 : 1 }}>Redo</button>
+        <button onClick={() => setShowHistory((v) => !v)} style={{ border: '1px solid #ccc', borderRadius: 6, padding: '6px 10px', background: showHistory ? '#f0f4ff' : '#fff', cursor: 'pointer' }}>History</button>
+        <button onClick={() => setShowActuals((v) => !v)} style={{ border: '1px solid #ccc', borderRadius: 6, padding: '6px 10px', background: showActuals ? '#f0f4ff' : '#fff', cursor: 'pointer' }}>Import actuals</button>
+        <button onClick={() => setShowPayroll((v) => !v)} style={{ border: '1px solid #ccc', borderRadius: 6, padding: '6px 10px', background: showPayroll ? '#f0f4ff' : '#fff', cursor: 'pointer' }}>Import payroll</button>
+        <button onClick={() => setShowHistoric((v) => !v)} style={{ border: '1px solid #ccc', borderRadius: 6, padding: '6px 10px', background: showHistoric ? '#f0f4ff' : '#fff', cursor: 'pointer' }}>Historic data</button>
+        <button onClick={() => setShowClose((v) => !v)} style={{ border: '1px solid #ccc', borderRadius: 6, padding: '6px 10px', background: showClose ? '#f0f4ff' : '#fff', cursor: 'pointer' }}>Close {store.baselineYear}</button>
+        <button onClick={() => setShowReport(true)} style={{ border: '1px solid #ccc', borderRadius: 6, padding: '6px 10px', background: '#fff', cursor: 'pointer' }}>Print report</button>
       </div>
-      <HistoricAndProjectionChart key={store.scenarioBEnabled ? 'withB' : 'withoutB'} />
+      {store.loadError && (
+        <div role="alert" style={{ display: 'flex', alignItems: 'flex-start', gap: 8, border: '1px solid #fca5a5', background: '#fef2f2', color: '#991b1b', borderRadius: 6, padding: '8px 10px', marginBottom: 8, fontSize: 14, whiteSpace: 'pre-line' }}>
+          <div style={{ flex: 1 }}>{store.loadError}</div>
+          <button onClick={() => store.setLoadError(null)} style={{ border: 'none', background: 'none', color: '#991b1b', cursor: 'pointer', fontSize: 14 }} title="Dismiss">✕</button>
+        </div>
+      )}
+      {showLibrary && (
+        <ScenarioLibrary
+          entries={store.library}
+          defaultName={compared.map((id) => store.scenarios[id].name).join(' vs ')}
+          onSave={store.saveToLibrary}
+          onLoad={store.loadFromLibrary}
+          onRemove={store.removeFromLibrary}
+          onImport={store.addToLibrary}
+        />
+      )}
+      {showHistory && (
+        <HistoryPanel undoStack={store.undoStack} redoStack={store.redoStack} onUndo={store.undo} onRedo={store.redo} />
+      )}
+      {showActuals && (
+        <ActualsImport
+          historic={store.historic}
+          baselineDetails={store.baselineDetails}
+          source={store.actualsSource}
+          onApply={store.applyImportedActuals}
+          onReset={store.resetActuals}
+        />
+      )}
+      {showPayroll && (
+        <PayrollImport
+          ledger={store.payrollLedger}
+          physicians={(compared.length > 0 ? getScenarioYear(store.historic, store.baselineDetails, store.baselineYear, store.scenarios[compared[0]], store.payrollLedger.year)?.fy.physicians : undefined) ?? scenarioDefaultsByYear('A', store.payrollLedger.year)}
+          baselineDetails={store.baselineDetails}
+          onApply={store.applyPayrollLedger}
+          onReset={store.resetPayrollLedger}
+        />
+      )}
+      {showHistoric && (
+        <HistoricDataEditor historic={store.historic} details={store.baselineDetails} onValueChange={store.setHistoricValue} onSourceChange={store.setHistoricSource} onCostCategoryChange={store.setHistoricCostCategory} />
+      )}
+      {showClose && compared.length > 0 && (
+        <YearEndClose
+          key={store.baselineYear}
+          year={store.baselineYear}
+          initial={draftCloseFigures(store, store.scenarios[compared[0]])}
+          closedYears={store.baselineYear - DEFAULT_BASELINE_YEAR}
+          onClose={(figures) => store.closeYear(figures, compared[0])}
+          onReset={store.resetActuals}
+        />
+      )}
+      <HistoricAndProjectionChart key={compared.join('|')} />
 
       {/* Scenario compare */}
       <div style={{ marginTop: 16 }}>
-        <div style={{ display: 'flex', alignItems: 'center', gap: 12, marginBottom: 8, justifyContent: 'flex-end' }}>
-          <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
-            <label style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
-              <input
-                type="checkbox"
-                checked={store.scenarioBEnabled}
-                onChange={(e) => store.setScenarioEnabled(e.target.checked)}
-              />
-              <span>Enable Scenario B</span>
-            </label>
-          </div>
-        </div>
+        <ScenarioManager
+          scenarios={store.scenarios}
+          order={store.scenarioOrder}
+          selectedIds={store.selectedScenarioIds}
+          onCreate={store.createScenario}
+          onDuplicate={store.duplicateScenario}
+          onRename={store.renameScenario}
+          onDelete={store.deleteScenario}
+          onColorChange={store.setScenarioColor}
+          onSelectedChange={store.setScenarioSelected}
+        />
 
         <div className="scenario-grid" style={{
           border: '1px solid #e5e7eb',
@@ -6682,66 +6217,74 @@ export function Dashboard() {
           padding: isMobile ? 8 : 12,
           marginTop: 0,
           display: 'grid',
-          gridTemplateColumns: store.scenarioBEnabled && !isMobile ? '1fr 1fr' : '1fr',
+          gridTemplateColumns: compared.length > 1 && !isMobile ? '1fr 1fr' : '1fr',
           alignItems: 'start',
           gap: 12,
           background: '#f9fafb',
         }}>
-          {/* Scenario A column */}
-          <div>
-            <div style={{ fontWeight: 700, marginBottom: 4 }}>Scenario A</div>
-            <ProjectionSettingsControls scenario={'A'} />
-            <div className="year-buttons" style={{ display: 'flex', gap: 8, flexWrap: isMobile ? 'nowrap' : 'wrap', overflowX: isMobile ? 'auto' : 'visible', whiteSpace: isMobile ? 'nowrap' : 'normal' }}>
-              {[2025, ...store.scenarioA.future.filter((f) => f.year !== 2025).map((f) => f.year)].map((yr) => (
-                <button
-                  key={`A-${yr}`}
-                  onClick={() => store.setSelectedYear('A', yr)}
-                  style={{
-                    padding: isMobile ? '6px 10px' : '8px 12px',
-                    borderRadius: 6,
-                    border: '1px solid #ccc',
-                    background: store.scenarioA.selectedYear === yr ? '#f0f4ff' : 'white',
-                    fontWeight: store.scenarioA.selectedYear === yr ? 700 : 500,
-                    cursor: 'pointer',
-                  }}
-                >
-                  {yr === 2025 ? 'Baseline' : yr}
-                </button>
-              ))}
-            </div>
-            <div style={{ marginTop: 8 }}>
-              <YearPanel year={store.scenarioA.selectedYear} scenario={'A'} />
-            </div>
-          </div>
-
-          {/* Scenario B column */}
-          {store.scenarioBEnabled && store.scenarioB && (
-            <div>
-              <div style={{ fontWeight: 700, marginBottom: 4 }}>Scenario B</div>
-              <ProjectionSettingsControls scenario={'B'} />
-              <div className="year-buttons" style={{ display: 'flex', gap: 8, flexWrap: isMobile ? 'nowrap' : 'wrap', overflowX: isMobile ? 'auto' : 'visible', whiteSpace: isMobile ? 'nowrap' : 'normal' }}>
-                {[2025, ...store.scenarioB.future.filter((f) => f.year !== 2025).map((f) => f.year)].map((yr) => (
-                <button
-                    key={`B-${yr}`}
-                    onClick={() => store.setSelectedYear('B', yr)}
-                    style={{
-                    padding: isMobile ? '6px 10px' : '8px 12px',
+          {compared.map((id) => {
+            const sc = store.scenarios[id]
+            return (
+              <div key={id}>
+                <div style={{ fontWeight: 700, marginBottom: 4, borderLeft: `4px solid ${sc.color}`, paddingLeft: 6 }}>{sc.name}</div>
+                <ProjectionSettingsControls scenario={id} />
+                <div className="year-buttons" style={{ display: 'flex', gap: 8, flexWrap: isMobile ? 'nowrap' : 'wrap', overflowX: isMobile ? 'auto' : 'visible', whiteSpace: isMobile ? 'nowrap' : 'normal' }}>
+                  {[store.baselineYear, ...projectedYears(sc, store.baselineYear)].map((yr) => (
+                    <button
+                      key={`${id}-${yr}`}
+                      onClick={() => store.setSelectedYear(id, yr)}
+                      style={{
+                        padding: isMobile ? '6px 10px' : '8px 12px',
+                        borderRadius: 6,
+                        border: '1px solid #ccc',
+                        background: sc.selectedYear === yr ? '#f0f4ff' : 'white',
+                        fontWeight: sc.selectedYear === yr ? 700 : 500,
+                        cursor: 'pointer',
+                      }}
+                    >
+                      {yr === store.baselineYear ? 'Baseline' : yr}
+                    </button>
+                  ))}
+                  {(() => {
+                    const horizon = projectedYears(sc, store.baselineYear).length
+                    const yearButtonStyle = (enabled: boolean) => ({
+                      padding: isMobile ? '6px 8px' : '8px 10px',
                       borderRadius: 6,
-                      border: '1px solid #ccc',
-                      background: store.scenarioB?.selectedYear === yr ? '#f0f4ff' : 'white',
-                      fontWeight: store.scenarioB?.selectedYear === yr ? 700 : 500,
-                      cursor: 'pointer',
-                    }}
-                  >
-                    {yr === 2025 ? 'Baseline' : yr}
-                  </button>
-                ))}
-              </div>
-              <div style={{ marginTop: 8 }}>
-                <YearPanel year={store.scenarioB.selectedYear} scenario={'B'} />
+                      border: '1px dashed #ccc',
+                      background: 'white',
+                      color: enabled ? '#374151' : '#9ca3af',
+                      cursor: enabled ? 'pointer' : 'not-allowed',
+                    })
+                    return (
+                      <>
+                        <button
+                          onClick={() => store.removeProjectionYear(id)}
+                          disabled={horizon <= MIN_PROJECTION_YEARS}
+                          title="Remove the last projected year"
+                          style={yearButtonStyle(horizon > MIN_PROJECTION_YEARS)}
+                        >
+                          − Year
+                        </button>
+                        <button
+                          onClick={() => store.addProjectionYear(id)}
+                          disabled={horizon >= MAX_PROJECTION_YEARS}
+                          title={`Add a year after the last one, rolling its roster forward (up to ${MAX_PROJECTION_YEARS} years)`}
+                          style={yearButtonStyle(horizon < MAX_PROJECTION_YEARS)}
+                        >
+                          + Year
+                        </button>
+                      </>
+                    )
+                  })()}
+                </div>
+                <div style={{ marginTop: 8 }}>
+                  <YearPanel year={sc.selectedYear} scenario={id} />
+                  <SensitivitySection year={sc.selectedYear} scenario={id} />
+                  <GoalSeekSection year={sc.selectedYear} scenario={id} />
+                </div>
               </div>
-            </div>
-          )}
+            )
+          })}
         </div>
       </div>
       <OverallCompensationSummary />
@@ -6754,115 +6297,53 @@ export function Dashboard() {
 function OverallCompensationSummary() {
   const store = useDashboardStore()
   const isMobile = useIsMobile()
-  const years = Array.from(new Set([2025, ...store.scenarioA.future.map((f) => f.year)]))
-  const perYearA = years.map((y) => ({ year: y, comps: computeAllCompensationsForYear(y, 'A') }))
-  const perYearB = store.scenarioBEnabled && store.scenarioB
-    ? years.map((y) => ({ year: y, comps: computeAllCompensationsForYear(y, 'B') }))
-    : undefined
-  // const totalPerYear = perYear.map(({ year, comps }) => ({ year, total: comps.reduce((s, c) => s + c.comp, 0) }))
-
-  // For the "Per Physician By Year" table, we want to include retired partners
-  // Create a modified version that includes all partners
-  const computeAllCompensationsForYearWithRetired = (year: number, scenario: ScenarioKey) => {
-    const regularComps = computeAllCompensationsForYear(year, scenario)
-    const state = useDashboardStore.getState()
-    const sc = scenario === 'A' ? state.scenarioA : state.scenarioB!
-    let fy = sc.future.find((f) => f.year === year) as FutureYear | undefined
-    if (!fy && year === 2025) {
-      const last2025 = state.historic.find((h) => h.year === 2025)
-      
-      // For the multi-year compensation summary, 2025 should always show 2025 actual values
-      // regardless of the baseline data mode selection
-      if (last2025) {
-        const physicians = scenario === 'A' ? scenarioADefaultsByYear(2025) : scenarioBDefaultsByYear(2025)
-        const js = physicians.find(p => p.name === 'JS' && (p.type === 'partner' || p.type === 'employeeToPartner' || p.type === 'partnerToRetire'))
-        fy = {
-          year: 2025,
-          therapyIncome: last2025.therapyIncome,
-          nonEmploymentCosts: last2025.nonEmploymentCosts,
-          nonMdEmploymentCosts: computeDefaultNonMdEmploymentCosts(2025),
-          locumCosts: 54600,
-          miscEmploymentCosts: DEFAULT_MISC_EMPLOYMENT_COSTS,
-          medicalDirectorHours: 119373.75, // 2025 shared medical director amount
-          prcsMedicalDirectorHours: 37792.5, // 2025 PRCS medical director amount (JS)
-          prcsDirectorPhysicianId: js?.id, // Assign PRCS to JS
-          physicians,
-        }
-      }
+  // Scenarios being compared, in roster order
+  const compared = store.selectedScenarioIds.filter((id) => store.scenarios[id])
+  const multi = compared.length > 1
+  const years = Array.from(new Set([store.baselineYear, ...compared.flatMap((id) => projectedYears(store.scenarios[id], store.baselineYear))])).sort((a, b) => a - b)
+  const perScenario = compared.map((id) => {
+    const sc = store.scenarios[id]
+    return {
+      id,
+      sc,
+      perYear: years.map((y) => ({ year: y, comps: computeAllCompensationsForYear(y, id) })),
+      locums: years.map((y) => getScenarioYear(store.historic, store.baselineDetails, store.baselineYear, sc, y)?.fy.locumCosts ?? 0),
     }
-    if (!fy) return regularComps
-    
-    // Add any retired partners that were excluded
-    const retiredPartners = fy.physicians.filter(p => p.type === 'partnerToRetire' && getPartnerFTEWeight(p) === 0)
-    const retiredComps = retiredPartners.map(p => ({
-      id: p.id,
-      name: p.name,
-      type: 'partner' as const,
-      comp: p.buyoutCost ?? 0 // Show buyout amount as their compensation
-    }))
-    
-    return [...regularComps, ...retiredComps]
-  }
-  
-  const perYearAWithRetired = years.map((y) => ({ year: y, comps: computeAllCompensationsForYearWithRetired(y, 'A') }))
-  const perYearBWithRetired = store.scenarioBEnabled && store.scenarioB
-    ? years.map((y) => ({ year: y, comps: computeAllCompensationsForYearWithRetired(y, 'B') }))
-    : undefined
+  })
+  type ScenarioEntry = typeof perScenario[number]
 
-  // Collect all physician names from both scenarios (including retired)
-  const allNamesFromA = perYearAWithRetired.flatMap((y) => y.comps.map((c) => c.name))
-  const allNamesFromB = perYearBWithRetired ? perYearBWithRetired.flatMap((y) => y.comps.map((c) => c.name)) : []
-  const allNames = Array.from(new Set([...allNamesFromA, ...allNamesFromB]))
-  // Assign a consistent color per person for both scenarios
-  const colorPalette = ['#1f77b4', '#ff7f0e', '#2ca02c', '#d62728', '#9467bd', '#8c564b', '#e377c2', '#7f7f7f', '#bcbd22', '#17becf']
+  // Collect all physician names from every compared scenario (including retired)
+  const allNames = Array.from(new Set(perScenario.flatMap((entry) => entry.perYear.flatMap((y) => y.comps.map((c) => c.name)))))
+  // Assign a consistent color per person across scenarios
   const colorByName: Record<string, string> = {}
-  allNames.forEach((n, i) => { colorByName[n] = colorPalette[i % colorPalette.length] })
-  const seriesA = allNames.map((name) => ({
-    name,
-    values: years.map((y) => {
-      const found = perYearAWithRetired.find((py) => py.year === y)?.comps.find((c) => c.name === name)
-      return found ? found.comp : 0
-    }),
-  }))
-  const seriesB = perYearBWithRetired
-    ? allNames.map((name) => ({
-        name,
-        values: years.map((y) => {
-          const found = perYearBWithRetired.find((py) => py.year === y)?.comps.find((c) => c.name === name)
-          return found ? found.comp : 0
-        }),
-      }))
-    : []
-
-  // Calculate locums data for both scenarios
-  const locumsSeriesA = years.map((y) => {
-    const fy = y === 2025 
-      ? { locumCosts: 54600 } // 2025 default
-      : store.scenarioA.future.find(f => f.year === y)
-    return fy?.locumCosts ?? 0
-  })
-  const locumsSeriesB = store.scenarioBEnabled && store.scenarioB
-    ? years.map((y) => {
-        const fy = y === 2025 
-          ? { locumCosts: 54600 } // 2025 default
-          : store.scenarioB!.future.find(f => f.year === y)
-        return fy?.locumCosts ?? 0
-      })
-    : []
+  allNames.forEach((n, i) => { colorByName[n] = PHYSICIAN_COLORS[i % PHYSICIAN_COLORS.length] })
+
+  const sum = (values: number[]) => values.reduce((a, b) => a + b, 0)
+  const physicianValues = (entry: ScenarioEntry, name: string) =>
+    entry.perYear.map((py) => py.comps.find((c) => c.name === name)?.comp ?? 0)
+  // Net income for MDs: all physician compensation plus locums
+  const netValues = (entry: ScenarioEntry) =>
+    entry.perYear.map((py, i) => sum(py.comps.map((c) => c.comp)) + entry.locums[i])
+  // First compared scenario draws solid lines, the rest cycle through dash styles
+  const dashFor = (idx: number) => (idx === 0 ? 'solid' : SCENARIO_DASHES[(idx - 1) % SCENARIO_DASHES.length])
+  const swatch = (color: string) => (
+    <span style={{ display: 'inline-block', width: 8, height: 8, borderRadius: 2, background: color, marginRight: 6, verticalAlign: 'middle' }} />
+  )
+  const rowLabel = (entry: ScenarioEntry, base: string) => (multi ? <>{swatch(entry.sc.color)}{`${base} (${entry.sc.name})`}</> : base)
 
-  const [highlight, setHighlight] = useState<null | { scenario: 'A' | 'B'; name: string }>(null)
-  const [isolated, setIsolated] = useState<null | { scenario: 'A' | 'B'; name: string }>(null)
+  const [highlight, setHighlight] = useState<null | { scenario: ScenarioKey; name: string }>(null)
+  const [isolated, setIsolated] = useState<null | { scenario: ScenarioKey; name: string }>(null)
   
   // Separate state for scenario table highlighting/isolation
-  const [scenarioHighlight, setScenarioHighlight] = useState<null | { scenario: 'A' | 'B'; name: string }>(null)
-  const [scenarioIsolated, setScenarioIsolated] = useState<null | { scenario: 'A' | 'B'; name: string }>(null)
+  const [scenarioHighlight, setScenarioHighlight] = useState<null | { scenario: ScenarioKey; name: string }>(null)
+  const [scenarioIsolated, setScenarioIsolated] = useState<null | { scenario: ScenarioKey; name: string }>(null)
   
-  const isHighlighted = (scenario: 'A' | 'B', name: string) => {
+  const isHighlighted = (scenario: ScenarioKey, name: string) => {
     // Check isolation from either table (physician table or scenario table)
     if (isolated || scenarioIsolated) {
       const activeIsolated = isolated || scenarioIsolated
-      // For physician table isolation: when both scenarios are enabled, highlight both A and B for the same physician
-      if (isolated && store.scenarioBEnabled) {
+      // For physician table isolation: when comparing scenarios, highlight the physician in all of them
+      if (isolated && multi) {
         return isolated.name === name
       }
       // For scenario table isolation or single scenario: exact match only
@@ -6872,8 +6353,8 @@ function OverallCompensationSummary() {
     // Check highlighting from either table (physician table or scenario table)
     if (highlight || scenarioHighlight) {
       const activeHighlight = highlight || scenarioHighlight
-      // For physician table highlighting: when both scenarios are enabled, highlight both A and B for the same physician  
-      if (highlight && store.scenarioBEnabled) {
+      // For physician table highlighting: when comparing scenarios, highlight the physician in all of them
+      if (highlight && multi) {
         return highlight.name === name
       }
       // For scenario table highlighting or single scenario: exact match only
@@ -6882,19 +6363,19 @@ function OverallCompensationSummary() {
     return true
   }
 
-  const isIsolated = (scenario: 'A' | 'B', name: string) => {
+  const isIsolated = (scenario: ScenarioKey, name: string) => {
     const activeIsolated = isolated || scenarioIsolated
     if (!activeIsolated) return false
     
-    // For physician table isolation: when both scenarios are enabled, isolate both A and B for the same physician
-    if (isolated && store.scenarioBEnabled) {
+    // For physician table isolation: when comparing scenarios, isolate the physician in all of them
+    if (isolated && multi) {
       return isolated.name === name
     }
     // For scenario table isolation or single scenario: exact match only
     return activeIsolated.scenario === scenario && activeIsolated.name === name
   }
 
-  const isRowHighlighted = (scenario: 'A' | 'B', name: string) => {
+  const isRowHighlighted = (scenario: ScenarioKey, name: string) => {
     // If something is isolated (from either table), show blue background for the isolated rows
     if (isolated || scenarioIsolated) {
       return isIsolated(scenario, name)
@@ -6906,8 +6387,8 @@ function OverallCompensationSummary() {
     return false
   }
 
-  const handleRowClick = (scenario: 'A' | 'B', name: string) => {
-    // When both scenarios are enabled, check if the physician name is already isolated
+  const handleRowClick = (scenario: ScenarioKey, name: string) => {
+    // When comparing scenarios, check if the physician name is already isolated
     const isPhysicianIsolated = isolated?.name === name
     
     if (isPhysicianIsolated) {
@@ -6920,7 +6401,7 @@ function OverallCompensationSummary() {
     }
   }
 
-  const handleScenarioRowClick = (scenario: 'A' | 'B', name: string) => {
+  const handleScenarioRowClick = (scenario: ScenarioKey, name: string) => {
     // Check if this row is already isolated in scenario table
     const isRowIsolated = scenarioIsolated?.scenario === scenario && scenarioIsolated?.name === name
     
@@ -6942,8 +6423,26 @@ function OverallCompensationSummary() {
   }
   
 
+  // Drill-down: itemized breakdown for a single physician/year cell
+  const [breakdown, setBreakdown] = useState<null | { scenario: ScenarioKey; name: string; year: number; id: string }>(null)
+  const isBreakdownCell = (scenario: ScenarioKey, name: string, year: number) =>
+    breakdown?.scenario === scenario && breakdown.name === name && breakdown.year === year
+  const toggleBreakdown = (scenario: ScenarioKey, name: string, year: number) => {
+    if (isBreakdownCell(scenario, name, year)) {
+      setBreakdown(null)
+      return
+    }
+    const entry = perScenario.find((e) => e.id === scenario)
+    const found = entry?.perYear.find((py) => py.year === year)?.comps.find((c) => c.name === name)
+    setBreakdown(found ? { scenario, name, year, id: found.id } : null)
+  }
+  const breakdownEntry = breakdown ? perScenario.find((e) => e.id === breakdown.scenario) : undefined
+  const breakdownResult = breakdown && breakdownEntry
+    ? computeScenarioYearCompensation(store.historic, store.baselineDetails, store.baselineYear, store.payrollLedger, breakdownEntry.sc, breakdown.year)
+    : undefined
+
   // Cross-table highlighting functions
-  const handleScenarioRowHover = (scenario: 'A' | 'B', name: string) => {
+  const handleScenarioRowHover = (scenario: ScenarioKey, name: string) => {
     if (!isolated && !scenarioIsolated) {
       setScenarioHighlight({ scenario, name })
     }
@@ -6955,80 +6454,54 @@ function OverallCompensationSummary() {
     }
   }
 
-
-
-  // const totalsByPhysician = allNames.map((name) => ({
-  //   name,
-  //   total: years.reduce((s, _y, idx) => s + series.find((s2) => s2.name === name)!.values[idx], 0),
-  // }))
+  const gridTemplateColumns = `2fr repeat(${years.length}, 1fr) 1fr`
 
   return (
     <div style={{ marginTop: 16, border: '1px solid #e5e7eb', borderRadius: 8, padding: 12, background: '#f9fafb' }}>
-      <h3 style={{ margin: '12px 0' }}>Multi-Year Compensation Summary (2025–2030)</h3>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8, flexWrap: 'wrap' }}>
+        <h3 style={{ margin: '12px 0', flex: 1 }}>Multi-Year Compensation Summary ({years[0]}–{years[years.length - 1]})</h3>
+        <button onClick={() => exportSummaryTables('csv')} style={{ border: '1px solid #ccc', borderRadius: 6, padding: '4px 10px', background: '#fff', cursor: 'pointer' }} title="Compensation and parameter tables, with projection assumptions">Export CSV</button>
+        <button onClick={() => exportSummaryTables('xlsx')} style={{ border: '1px solid #ccc', borderRadius: 6, padding: '4px 10px', background: '#fff', cursor: 'pointer' }} title="One sheet per table and per scenario, with projection assumptions">Export XLSX</button>
+      </div>
       <div style={{ maxWidth: 1100, margin: '0 auto' }}>
         <div style={{ border: '1px solid #e5e7eb', borderRadius: 6, background: '#ffffff', padding: 4, position: 'relative' }}>
         <Plot
           key={`plot-${isolated?.scenario}-${isolated?.name}-${highlight?.scenario}-${highlight?.name}-${scenarioIsolated?.scenario}-${scenarioIsolated?.name}-${scenarioHighlight?.scenario}-${scenarioHighlight?.name}`}
           data={(() => {
             const rows: any[] = []
+            const dimmed = Boolean(highlight || isolated || scenarioHighlight || scenarioIsolated)
             for (const name of allNames) {
-              const a = seriesA.find((s) => s.name === name)!
-              rows.push({
-                type: 'scatter',
-                mode: 'lines+markers',
-                name: store.scenarioBEnabled ? `${name} (A)` : name,
-                x: years,
-                y: a.values,
-                line: { color: colorByName[name], width: isHighlighted('A', name) ? 3 : 1.2 },
-                opacity: (highlight || isolated || scenarioHighlight || scenarioIsolated) ? (isHighlighted('A', name) ? 1 : 0.2) : 1,
-                legendgroup: name, // Group by physician name
-                legendrank: 1, // A scenario appears first in each group
-              })
-              if (store.scenarioBEnabled) {
-                const b = seriesB.find((s) => s.name === name)!
+              perScenario.forEach((entry, idx) => {
                 rows.push({
                   type: 'scatter',
                   mode: 'lines+markers',
-                  name: `${name} (B)`,
+                  name: multi ? `${name} (${entry.sc.name})` : name,
                   x: years,
-                  y: b.values,
-                  line: { color: colorByName[name], dash: 'dot', width: isHighlighted('B', name) ? 3 : 1.2 },
-                  opacity: (highlight || isolated || scenarioHighlight || scenarioIsolated) ? (isHighlighted('B', name) ? 1 : 0.2) : 1,
-                  legendgroup: name, // Same group as the A scenario
-                  legendrank: 2, // B scenario appears second in each group
+                  y: physicianValues(entry, name),
+                  line: { color: colorByName[name], dash: dashFor(idx), width: isHighlighted(entry.id, name) ? 3 : 1.2 },
+                  opacity: dimmed ? (isHighlighted(entry.id, name) ? 1 : 0.2) : 1,
+                  legendgroup: name, // Group by physician name
+                  legendrank: idx + 1, // Scenarios appear in roster order within each group
                 })
-              }
+              })
             }
             
             // Add Locums traces
-            rows.push({
-              type: 'scatter',
-              mode: 'lines+markers',
-              name: store.scenarioBEnabled ? 'Locums (A)' : 'Locums',
-              x: years,
-              y: locumsSeriesA,
-              line: { color: '#888888', width: isHighlighted('A', 'Locums') ? 3 : 1.2 },
-              opacity: (highlight || isolated || scenarioHighlight || scenarioIsolated) ? (isHighlighted('A', 'Locums') ? 1 : 0.2) : 1,
-              legendgroup: 'Locums', // Group by itself
-              legendrank: 999, // Put at end
-              hovertemplate: store.scenarioBEnabled ? 'A: %{y:$,.0f}<extra></extra>' : '%{y:$,.0f}',
-              hoverlabel: { bgcolor: '#888888', font: { color: 'white' } },
-            })
-            if (store.scenarioBEnabled) {
+            perScenario.forEach((entry, idx) => {
               rows.push({
                 type: 'scatter',
                 mode: 'lines+markers',
-                name: 'Locums (B)',
+                name: multi ? `Locums (${entry.sc.name})` : 'Locums',
                 x: years,
-                y: locumsSeriesB,
-                line: { color: '#888888', dash: 'dot', width: isHighlighted('B', 'Locums') ? 3 : 1.2 },
-                opacity: (highlight || isolated || scenarioHighlight || scenarioIsolated) ? (isHighlighted('B', 'Locums') ? 1 : 0.2) : 1,
-                legendgroup: 'Locums', // Same group as A scenario
-                legendrank: 1000, // Put at end after A
-                hovertemplate: 'B: %{y:$,.0f}<extra></extra>',
+                y: entry.locums,
+                line: { color: '#888888', dash: dashFor(idx), width: isHighlighted(entry.id, 'Locums') ? 3 : 1.2 },
+                opacity: dimmed ? (isHighlighted(entry.id, 'Locums') ? 1 : 0.2) : 1,
+                legendgroup: 'Locums', // Group by itself
+                legendrank: 999 + idx, // Put at end
+                hovertemplate: multi ? `${entry.sc.name}: %{y:$,.0f}<extra></extra>` : '%{y:$,.0f}',
                 hoverlabel: { bgcolor: '#888888', font: { color: 'white' } },
               })
-            }
+            })
             
             return rows
           })() as any}
@@ -7077,7 +6550,7 @@ function OverallCompensationSummary() {
 
       <div style={{ marginTop: 8, overflowX: isMobile ? 'auto' : 'visible', border: '1px solid #e5e7eb', borderRadius: 6, padding: 8, background: '#ffffff' }}>
         <div style={{ fontWeight: 600, marginBottom: 8 }}>Per Physician By Year</div>
-        <div style={{ display: 'grid', gridTemplateColumns: `2fr repeat(${years.length}, 1fr) 1fr`, gap: 2, fontWeight: 600 }}>
+        <div style={{ display: 'grid', gridTemplateColumns, gap: 2, fontWeight: 600 }}>
           <div>Name</div>
           {years.map((y) => (
             <div key={y} style={{ textAlign: 'right' }}>{y}</div>
@@ -7086,153 +6559,78 @@ function OverallCompensationSummary() {
         </div>
         {allNames.map((name, idx) => (
           <div key={name} style={{ display: 'contents' }}>
-            <div
-              className="table-row-hover"
-              style={{ display: 'grid', gridTemplateColumns: `2fr repeat(${years.length}, 1fr) 1fr`, gap: 4, padding: '1px 0', borderTop: '1px solid #f0f0f0', background: isRowHighlighted('A', name) ? 'rgba(59, 130, 246, 0.08)' : (idx % 2 === 0 ? '#f9fafb' : 'transparent') }}
-              onMouseEnter={() => !isolated && !scenarioIsolated && setHighlight({ scenario: 'A', name })}
-              onMouseLeave={() => !isolated && !scenarioIsolated && setHighlight(null)}
-              onClick={() => handleRowClick('A', name)}
-            >
-              <div>{store.scenarioBEnabled ? `${name} (Scenario A)` : name}</div>
-              {years.map((y, idx) => (
-                <div key={`A-${name}-${y}`} style={{ textAlign: 'right' }}>
-                  {currencyOrDash(seriesA.find((s) => s.name === name)!.values[idx])}
-                </div>
-              ))}
-              <div style={{ textAlign: 'right' }}>
-                {currency(
-                  seriesA
-                    .find((s) => s.name === name)!
-                    .values.reduce((a, b) => a + b, 0)
-                )}
-              </div>
-            </div>
-            {store.scenarioBEnabled && (
-              <div
-                className="table-row-hover"
-                style={{ display: 'grid', gridTemplateColumns: `2fr repeat(${years.length}, 1fr) 1fr`, gap: 4, padding: '1px 0', borderTop: '1px solid #f0f0f0', background: isRowHighlighted('B', name) ? 'rgba(59, 130, 246, 0.08)' : (idx % 2 === 0 ? '#f9fafb' : 'transparent') }}
-                onMouseEnter={() => !isolated && !scenarioIsolated && setHighlight({ scenario: 'B', name })}
-                onMouseLeave={() => !isolated && !scenarioIsolated && setHighlight(null)}
-                onClick={() => handleRowClick('B', name)}
-              >
-                <div>{`${name} (Scenario B)`}</div>
-                {years.map((y, idx) => (
-                  <div key={`B-${name}-${y}`} style={{ textAlign: 'right' }}>
-                    {currencyOrDash((seriesB.find((s) => s.name === name)?.values[idx]) ?? 0)}
-                  </div>
-                ))}
-                <div style={{ textAlign: 'right' }}>
-                  {currency(
-                    (seriesB.find((s) => s.name === name)?.values.reduce((a, b) => a + b, 0)) ?? 0
-                  )}
+            {perScenario.map((entry) => {
+              const values = physicianValues(entry, name)
+              return (
+                <div
+                  key={`${entry.id}-${name}`}
+                  className="table-row-hover"
+                  style={{ display: 'grid', gridTemplateColumns, gap: 4, padding: '1px 0', borderTop: '1px solid #f0f0f0', background: isRowHighlighted(entry.id, name) ? 'rgba(59, 130, 246, 0.08)' : (idx % 2 === 0 ? '#f9fafb' : 'transparent') }}
+                  onMouseEnter={() => !isolated && !scenarioIsolated && setHighlight({ scenario: entry.id, name })}
+                  onMouseLeave={() => !isolated && !scenarioIsolated && setHighlight(null)}
+                  onClick={() => handleRowClick(entry.id, name)}
+                >
+                  <div>{rowLabel(entry, name)}</div>
+                  {years.map((y, yIdx) => (
+                    <div
+                      key={`${entry.id}-${name}-${y}`}
+                      style={{ textAlign: 'right', cursor: 'pointer', textDecoration: isBreakdownCell(entry.id, name, y) ? 'underline' : undefined }}
+                      onClick={(e) => { e.stopPropagation(); toggleBreakdown(entry.id, name, y) }}
+                      title="Show breakdown"
+                    >
+                      {currencyOrDash(values[yIdx])}
+                    </div>
+                  ))}
+                  <div style={{ textAlign: 'right' }}>{currency(sum(values))}</div>
                 </div>
-              </div>
-            )}
+              )
+            })}
           </div>
         ))}
 
         {/* Locums rows */}
-        <div className="table-row-hover" style={{ display: 'grid', gridTemplateColumns: `2fr repeat(${years.length}, 1fr) 1fr`, gap: 4, padding: '2px 0', borderTop: '2px solid #e5e7eb', background: isRowHighlighted('A', 'Locums') ? 'rgba(59, 130, 246, 0.08)' : '#f8f9fa', fontSize: '14px', color: '#6b7280' }}
-        onMouseEnter={() => !isolated && !scenarioIsolated && setHighlight({ scenario: 'A', name: 'Locums' })}
-        onMouseLeave={() => !isolated && !scenarioIsolated && setHighlight(null)}
-        onClick={() => handleRowClick('A', 'Locums')}>
-          <div style={{ paddingLeft: '8px' }}>{store.scenarioBEnabled ? 'Locums (Scenario A)' : 'Locums'}</div>
-          {years.map((y, i) => {
-            const fy = y === 2025 
-              ? { locumCosts: 54600 } // 2025 default
-              : store.scenarioA.future.find(f => f.year === y)
-            const locumCost = fy?.locumCosts ?? 0
-            return <div key={`LA-${i}`} style={{ textAlign: 'right' }}>{currencyOrDash(locumCost)}</div>
-          })}
-          <div style={{ textAlign: 'right' }}>
-            {currency(years.reduce((total, y) => {
-              const fy = y === 2025 
-                ? { locumCosts: 54600 } // 2025 default
-                : store.scenarioA.future.find(f => f.year === y)
-              return total + (fy?.locumCosts ?? 0)
-            }, 0))}
-          </div>
-        </div>
-        {store.scenarioBEnabled && store.scenarioB && (
-          <div className="table-row-hover" style={{ display: 'grid', gridTemplateColumns: `2fr repeat(${years.length}, 1fr) 1fr`, gap: 4, padding: '2px 0', borderTop: '1px solid #e5e7eb', background: isRowHighlighted('B', 'Locums') ? 'rgba(59, 130, 246, 0.08)' : '#f8f9fa', fontSize: '14px', color: '#6b7280' }}
-          onMouseEnter={() => !isolated && !scenarioIsolated && setHighlight({ scenario: 'B', name: 'Locums' })}
+        {perScenario.map((entry, idx) => (
+          <div key={`L-${entry.id}`} className="table-row-hover" style={{ display: 'grid', gridTemplateColumns, gap: 4, padding: '2px 0', borderTop: idx === 0 ? '2px solid #e5e7eb' : '1px solid #e5e7eb', background: isRowHighlighted(entry.id, 'Locums') ? 'rgba(59, 130, 246, 0.08)' : '#f8f9fa', fontSize: '14px', color: '#6b7280' }}
+          onMouseEnter={() => !isolated && !scenarioIsolated && setHighlight({ scenario: entry.id, name: 'Locums' })}
           onMouseLeave={() => !isolated && !scenarioIsolated && setHighlight(null)}
-          onClick={() => handleRowClick('B', 'Locums')}>
-            <div style={{ paddingLeft: '8px' }}>Locums (Scenario B)</div>
-            {years.map((y, i) => {
-              const fy = y === 2025 
-                ? { locumCosts: 54600 } // 2025 default
-                : store.scenarioB!.future.find(f => f.year === y)
-              const locumCost = fy?.locumCosts ?? 0
-              return <div key={`LB-${i}`} style={{ textAlign: 'right' }}>{currencyOrDash(locumCost)}</div>
-            })}
-            <div style={{ textAlign: 'right' }}>
-              {currency(years.reduce((total, y) => {
-                const fy = y === 2025 
-                  ? { locumCosts: 54600 } // 2025 default
-                  : store.scenarioB!.future.find(f => f.year === y)
-                return total + (fy?.locumCosts ?? 0)
-              }, 0))}
-            </div>
-          </div>
-        )}
-
-        {/* Scenario A Total row */}
-        <div className="table-row-total-hover" style={{ display: 'grid', gridTemplateColumns: `2fr repeat(${years.length}, 1fr) 1fr`, gap: 4, padding: '4px 0', borderTop: '2px solid #e5e7eb', background: '#eef7ff', fontWeight: 700 }}>
-          <div>{store.scenarioBEnabled ? 'Scenario A (Net Income for MDs)' : 'Net Income for MDs'}</div>
-          {years.map((y) => {
-            const totalComp = perYearAWithRetired.find(py => py.year === y)?.comps.reduce((sum, c) => sum + c.comp, 0) ?? 0
-            const fy = y === 2025 
-              ? { locumCosts: 54600 } // 2025 default
-              : store.scenarioA.future.find(f => f.year === y)
-            const locumCost = fy?.locumCosts ?? 0
-            return <div key={`SAT-${y}`} style={{ textAlign: 'right' }}>{currency(totalComp + locumCost)}</div>
-          })}
-          <div style={{ textAlign: 'right' }}>
-            {currency(
-              perYearAWithRetired.reduce((total, py) => total + py.comps.reduce((sum, c) => sum + c.comp, 0), 0) +
-              years.reduce((total, y) => {
-                const fy = y === 2025 
-                  ? { locumCosts: 54600 } // 2025 default
-                  : store.scenarioA.future.find(f => f.year === y)
-                return total + (fy?.locumCosts ?? 0)
-              }, 0)
-            )}
+          onClick={() => handleRowClick(entry.id, 'Locums')}>
+            <div style={{ paddingLeft: '8px' }}>{rowLabel(entry, 'Locums')}</div>
+            {entry.locums.map((locumCost, i) => (
+              <div key={`L-${entry.id}-${i}`} style={{ textAlign: 'right' }}>{currencyOrDash(locumCost)}</div>
+            ))}
+            <div style={{ textAlign: 'right' }}>{currency(sum(entry.locums))}</div>
           </div>
-        </div>
+        ))}
 
-        {/* Scenario B Total row */}
-        {store.scenarioBEnabled && store.scenarioB && perYearBWithRetired && (
-          <div className="table-row-total-hover" style={{ display: 'grid', gridTemplateColumns: `2fr repeat(${years.length}, 1fr) 1fr`, gap: 4, padding: '4px 0', borderTop: '1px solid #e5e7eb', background: '#eef7ff', fontWeight: 700 }}>
-            <div>Scenario B (Net Income for MDs)</div>
-            {years.map((y) => {
-              const totalComp = perYearBWithRetired.find(py => py.year === y)?.comps.reduce((sum, c) => sum + c.comp, 0) ?? 0
-              const fy = y === 2025 
-                ? { locumCosts: 54600 } // 2025 default
-                : store.scenarioB!.future.find(f => f.year === y)
-              const locumCost = fy?.locumCosts ?? 0
-              return <div key={`SBT-${y}`} style={{ textAlign: 'right' }}>{currency(totalComp + locumCost)}</div>
-            })}
-            <div style={{ textAlign: 'right' }}>
-              {currency(
-                perYearBWithRetired.reduce((total, py) => total + py.comps.reduce((sum, c) => sum + c.comp, 0), 0) +
-                years.reduce((total, y) => {
-                  const fy = y === 2025 
-                    ? { locumCosts: 54600 } // 2025 default
-                    : store.scenarioB!.future.find(f => f.year === y)
-                  return total + (fy?.locumCosts ?? 0)
-                }, 0)
-              )}
+        {/* Scenario Total rows */}
+        {perScenario.map((entry, idx) => {
+          const net = netValues(entry)
+          return (
+            <div key={`T-${entry.id}`} className="table-row-total-hover" style={{ display: 'grid', gridTemplateColumns, gap: 4, padding: '4px 0', borderTop: idx === 0 ? '2px solid #e5e7eb' : '1px solid #e5e7eb', background: '#eef7ff', fontWeight: 700 }}>
+              <div>{multi ? <>{swatch(entry.sc.color)}{`${entry.sc.name} (Net Income for MDs)`}</> : 'Net Income for MDs'}</div>
+              {net.map((value, i) => (
+                <div key={`T-${entry.id}-${years[i]}`} style={{ textAlign: 'right' }}>{currency(value)}</div>
+              ))}
+              <div style={{ textAlign: 'right' }}>{currency(sum(net))}</div>
             </div>
-          </div>
-        )}
+          )
+        })}
       </div>
 
-      {/* Per Scenario by Year table - only show when Scenario B is enabled */}
-      {store.scenarioBEnabled && (
+      {breakdownResult && breakdown && breakdownEntry && (
+        <CompensationBreakdown
+          result={breakdownResult}
+          physicianId={breakdown.id}
+          title={`${breakdown.name} – ${breakdown.year}${multi ? ` (${breakdownEntry.sc.name})` : ''}`}
+          onClose={() => setBreakdown(null)}
+        />
+      )}
+
+      {/* Per Scenario by Year table - only shown when comparing scenarios */}
+      {multi && (
         <div style={{ marginTop: 16, overflowX: isMobile ? 'auto' : 'visible' }}>
           <div style={{ fontWeight: 600, marginBottom: 8 }}>Per Scenario by Year</div>
-        <div style={{ display: 'grid', gridTemplateColumns: `2fr repeat(${years.length}, 1fr) 1fr`, gap: 2, fontWeight: 600 }}>
+        <div style={{ display: 'grid', gridTemplateColumns, gap: 2, fontWeight: 600 }}>
           <div>Scenario</div>
           {years.map((y) => (
             <div key={y} style={{ textAlign: 'right' }}>{y}</div>
@@ -7240,146 +6638,53 @@ function OverallCompensationSummary() {
           <div style={{ textAlign: 'right' }}>Total</div>
         </div>
 
-        {/* Scenario A - Individual physicians */}
-        {allNames.map((name, idx) => (
-          <div key={`SA-${name}`} className="table-row-hover" 
-            style={{ display: 'grid', gridTemplateColumns: `2fr repeat(${years.length}, 1fr) 1fr`, gap: 4, padding: '2px 0', borderTop: idx === 0 ? '1px solid #f0f0f0' : '1px solid #f8f8f8', background: isRowHighlighted('A', name) ? 'rgba(59, 130, 246, 0.08)' : '#f9fafb' }}
-            onMouseEnter={() => handleScenarioRowHover('A', name)}
-            onMouseLeave={handleScenarioRowLeave}
-            onClick={() => handleScenarioRowClick('A', name)}>
-            <div style={{ paddingLeft: '8px' }}>{name} (A)</div>
-            {years.map((y) => {
-              const found = perYearAWithRetired.find((py) => py.year === y)?.comps.find((c) => c.name === name)
-              return <div key={`SA-${name}-${y}`} style={{ textAlign: 'right' }}>{currencyOrDash(found ? found.comp : 0)}</div>
-            })}
-            <div style={{ textAlign: 'right' }}>
-              {currency(
-                seriesA.find((s) => s.name === name)?.values.reduce((a, b) => a + b, 0) ?? 0
-              )}
-            </div>
-          </div>
-        ))}
-
-        {/* Scenario A - Locums */}
-        <div className="table-row-hover" 
-          style={{ display: 'grid', gridTemplateColumns: `2fr repeat(${years.length}, 1fr) 1fr`, gap: 4, padding: '2px 0', borderTop: '1px solid #f0f0f0', background: isRowHighlighted('A', 'Locums') ? 'rgba(59, 130, 246, 0.08)' : '#f9fafb', fontSize: '14px', color: '#6b7280' }}
-          onMouseEnter={() => handleScenarioRowHover('A', 'Locums')}
-          onMouseLeave={handleScenarioRowLeave}
-          onClick={() => handleScenarioRowClick('A', 'Locums')}>
-          <div style={{ paddingLeft: '16px' }}>Locums (A)</div>
-          {years.map((y, i) => {
-            const fy = y === 2025 
-              ? { locumCosts: 54600 } // 2025 default
-              : store.scenarioA.future.find(f => f.year === y)
-            const locumCost = fy?.locumCosts ?? 0
-            return <div key={`SAL-${i}`} style={{ textAlign: 'right' }}>{currencyOrDash(locumCost)}</div>
-          })}
-          <div style={{ textAlign: 'right' }}>
-            {currency(years.reduce((total, y) => {
-              const fy = y === 2025 
-                ? { locumCosts: 54600 } // 2025 default
-                : store.scenarioA.future.find(f => f.year === y)
-              return total + (fy?.locumCosts ?? 0)
-            }, 0))}
-          </div>
-        </div>
-
-        {/* Scenario A - Total including locums */}
-        <div className="table-row-total-hover" style={{ display: 'grid', gridTemplateColumns: `2fr repeat(${years.length}, 1fr) 1fr`, gap: 4, padding: '4px 0', borderTop: '1px solid #e5e7eb', background: '#eef7ff', fontWeight: 700 }}>
-          <div>Scenario A (Net Income for MDs)</div>
-          {years.map((y) => {
-            const totalComp = perYearA.find(py => py.year === y)?.comps.reduce((sum, c) => sum + c.comp, 0) ?? 0
-            const fy = y === 2025 
-              ? { locumCosts: 54600 } // 2025 default
-              : store.scenarioA.future.find(f => f.year === y)
-            const locumCost = fy?.locumCosts ?? 0
-            return <div key={`SAT-${y}`} style={{ textAlign: 'right' }}>{currency(totalComp + locumCost)}</div>
-          })}
-          <div style={{ textAlign: 'right' }}>
-            {currency(
-              perYearA.reduce((total, py) => total + py.comps.reduce((sum, c) => sum + c.comp, 0), 0) +
-              years.reduce((total, y) => {
-                const fy = y === 2025 
-                  ? { locumCosts: 54600 } // 2025 default
-                  : store.scenarioA.future.find(f => f.year === y)
-                return total + (fy?.locumCosts ?? 0)
-              }, 0)
-            )}
-          </div>
-        </div>
+        {perScenario.map((entry, scenarioIdx) => {
+          const rowBackground = scenarioIdx % 2 === 0 ? '#f9fafb' : '#faf9f7'
+          const net = netValues(entry)
+          return (
+            <Fragment key={`S-${entry.id}`}>
+              {/* Individual physicians */}
+              {allNames.map((name, idx) => {
+                const values = physicianValues(entry, name)
+                return (
+                  <div key={`S-${entry.id}-${name}`} className="table-row-hover" 
+                    style={{ display: 'grid', gridTemplateColumns, gap: 4, padding: '2px 0', borderTop: idx === 0 ? (scenarioIdx === 0 ? '1px solid #f0f0f0' : '2px solid #e5e7eb') : '1px solid #f8f8f8', background: isRowHighlighted(entry.id, name) ? 'rgba(59, 130, 246, 0.08)' : rowBackground }}
+                    onMouseEnter={() => handleScenarioRowHover(entry.id, name)}
+                    onMouseLeave={handleScenarioRowLeave}
+                    onClick={() => handleScenarioRowClick(entry.id, name)}>
+                    <div style={{ paddingLeft: '8px' }}>{name} ({entry.sc.name})</div>
+                    {values.map((value, i) => (
+                      <div key={`S-${entry.id}-${name}-${years[i]}`} style={{ textAlign: 'right' }}>{currencyOrDash(value)}</div>
+                    ))}
+                    <div style={{ textAlign: 'right' }}>{currency(sum(values))}</div>
+                  </div>
+                )
+              })}
 
-        {/* Scenario B rows - only if enabled */}
-        {store.scenarioBEnabled && store.scenarioB && perYearB && (
-          <>
-            {/* Scenario B - Individual physicians */}
-            {allNames.map((name, idx) => (
-              <div key={`SB-${name}`} className="table-row-hover" 
-                style={{ display: 'grid', gridTemplateColumns: `2fr repeat(${years.length}, 1fr) 1fr`, gap: 4, padding: '2px 0', borderTop: idx === 0 ? '2px solid #e5e7eb' : '1px solid #f8f8f8', background: isRowHighlighted('B', name) ? 'rgba(59, 130, 246, 0.08)' : '#faf9f7' }}
-                onMouseEnter={() => handleScenarioRowHover('B', name)}
+              {/* Locums */}
+              <div className="table-row-hover" 
+                style={{ display: 'grid', gridTemplateColumns, gap: 4, padding: '2px 0', borderTop: '1px solid #f0f0f0', background: isRowHighlighted(entry.id, 'Locums') ? 'rgba(59, 130, 246, 0.08)' : rowBackground, fontSize: '14px', color: '#6b7280' }}
+                onMouseEnter={() => handleScenarioRowHover(entry.id, 'Locums')}
                 onMouseLeave={handleScenarioRowLeave}
-                onClick={() => handleScenarioRowClick('B', name)}>
-                <div style={{ paddingLeft: '8px' }}>{name} (B)</div>
-                {years.map((y) => {
-                  const found = perYearBWithRetired?.find((py) => py.year === y)?.comps.find((c) => c.name === name)
-                  return <div key={`SB-${name}-${y}`} style={{ textAlign: 'right' }}>{currencyOrDash(found ? found.comp : 0)}</div>
-                })}
-                <div style={{ textAlign: 'right' }}>
-                  {currency(
-                    seriesB.find((s) => s.name === name)?.values.reduce((a, b) => a + b, 0) ?? 0
-                  )}
-                </div>
+                onClick={() => handleScenarioRowClick(entry.id, 'Locums')}>
+                <div style={{ paddingLeft: '16px' }}>Locums ({entry.sc.name})</div>
+                {entry.locums.map((locumCost, i) => (
+                  <div key={`SL-${entry.id}-${i}`} style={{ textAlign: 'right' }}>{currencyOrDash(locumCost)}</div>
+                ))}
+                <div style={{ textAlign: 'right' }}>{currency(sum(entry.locums))}</div>
               </div>
-            ))}
 
-            {/* Scenario B - Locums */}
-            <div className="table-row-hover" 
-              style={{ display: 'grid', gridTemplateColumns: `2fr repeat(${years.length}, 1fr) 1fr`, gap: 4, padding: '2px 0', borderTop: '1px solid #f0f0f0', background: isRowHighlighted('B', 'Locums') ? 'rgba(59, 130, 246, 0.08)' : '#faf9f7', fontSize: '14px', color: '#6b7280' }}
-              onMouseEnter={() => handleScenarioRowHover('B', 'Locums')}
-              onMouseLeave={handleScenarioRowLeave}
-              onClick={() => handleScenarioRowClick('B', 'Locums')}>
-              <div style={{ paddingLeft: '16px' }}>Locums (B)</div>
-              {years.map((y, i) => {
-                const fy = y === 2025 
-                  ? { locumCosts: 54600 } // 2025 default
-                  : store.scenarioB!.future.find(f => f.year === y)
-                const locumCost = fy?.locumCosts ?? 0
-                return <div key={`SBL-${i}`} style={{ textAlign: 'right' }}>{currencyOrDash(locumCost)}</div>
-              })}
-              <div style={{ textAlign: 'right' }}>
-                {currency(years.reduce((total, y) => {
-                  const fy = y === 2025 
-                    ? { locumCosts: 54600 } // 2025 default
-                    : store.scenarioB!.future.find(f => f.year === y)
-                  return total + (fy?.locumCosts ?? 0)
-                }, 0))}
-              </div>
-            </div>
-
-            {/* Scenario B - Total including locums */}
-            <div className="table-row-total-hover" style={{ display: 'grid', gridTemplateColumns: `2fr repeat(${years.length}, 1fr) 1fr`, gap: 4, padding: '4px 0', borderTop: '1px solid #e5e7eb', background: '#eef7ff', fontWeight: 700 }}>
-              <div>Scenario B (Net Income for MDs)</div>
-              {years.map((y) => {
-                const totalComp = perYearB.find(py => py.year === y)?.comps.reduce((sum, c) => sum + c.comp, 0) ?? 0
-                const fy = y === 2025 
-                  ? { locumCosts: 54600 } // 2025 default
-                  : store.scenarioB!.future.find(f => f.year === y)
-                const locumCost = fy?.locumCosts ?? 0
-                return <div key={`SBT-${y}`} style={{ textAlign: 'right' }}>{currency(totalComp + locumCost)}</div>
-              })}
-              <div style={{ textAlign: 'right' }}>
-                {currency(
-                  perYearB.reduce((total, py) => total + py.comps.reduce((sum, c) => sum + c.comp, 0), 0) +
-                  years.reduce((total, y) => {
-                    const fy = y === 2025 
-                      ? { locumCosts: 54600 } // 2025 default
-                      : store.scenarioB!.future.find(f => f.year === y)
-                    return total + (fy?.locumCosts ?? 0)
-                  }, 0)
-                )}
+              {/* Total including locums */}
+              <div className="table-row-total-hover" style={{ display: 'grid', gridTemplateColumns, gap: 4, padding: '4px 0', borderTop: '1px solid #e5e7eb', background: '#eef7ff', fontWeight: 700 }}>
+                <div>{swatch(entry.sc.color)}{entry.sc.name} (Net Income for MDs)</div>
+                {net.map((value, i) => (
+                  <div key={`ST-${entry.id}-${years[i]}`} style={{ textAlign: 'right' }}>{currency(value)}</div>
+                ))}
+                <div style={{ textAlign: 'right' }}>{currency(sum(net))}</div>
               </div>
-            </div>
-          </>
-        )}
+            </Fragment>
+          )
+        })}
         </div>
       )}
     </div>
@@ -7390,40 +6695,13 @@ function OverallCompensationSummary() {
 
 function ParametersSummary() {
   const store = useDashboardStore()
-  const isMobile = useIsMobile()
 
   // Helper function to detect if values have been manually overridden
-  const detectCustomOverrides = (scenario: 'A' | 'B') => {
-    const sc = scenario === 'A' ? store.scenarioA : store.scenarioB!
-    const dataMode = scenario === 'A' ? store.scenarioA.dataMode : store.scenarioB?.dataMode || '2025 Data'
+  const detectCustomOverrides = (scenario: ScenarioKey) => {
+    const sc = store.scenarios[scenario]
     
     // Get baseline data (same logic as applyProjectionFromLastActual)
-    let baselineData
-    const last2024 = store.historic.find((h) => h.year === 2024)
-    const last2025 = store.historic.find((h) => h.year === 2025)
-    
-    if (dataMode === '2024 Data' && last2024) {
-      baselineData = {
-        therapyIncome: last2024.therapyIncome,
-        nonEmploymentCosts: last2024.nonEmploymentCosts,
-        miscEmploymentCosts: 24623.49,
-        nonMdEmploymentCosts: 164677.44,
-      }
-    } else if (last2025) {
-      baselineData = {
-        therapyIncome: last2025.therapyIncome,
-        nonEmploymentCosts: last2025.nonEmploymentCosts,
-        miscEmploymentCosts: DEFAULT_MISC_EMPLOYMENT_COSTS,
-        nonMdEmploymentCosts: computeDefaultNonMdEmploymentCosts(2025),
-      }
-    } else {
-      baselineData = {
-        therapyIncome: 3344068.19,
-        nonEmploymentCosts: 229713.57,
-        miscEmploymentCosts: DEFAULT_MISC_EMPLOYMENT_COSTS,
-        nonMdEmploymentCosts: computeDefaultNonMdEmploymentCosts(2025),
-      }
-    }
+    const baselineData = scenarioBaseline(store.historic, store.baselineDetails, store.baselineYear, sc).fy
 
     const overrides = {
       incomeGrowthPct: false,
@@ -7432,27 +6710,25 @@ function ParametersSummary() {
       miscEmploymentCostsPct: false,
     }
 
-    // Convert percentage growth rates to decimal multipliers
-    const incomeGpct = sc.projection.incomeGrowthPct / 100
-    const nonEmploymentGpct = sc.projection.nonEmploymentCostsPct / 100
-    const nonMdEmploymentGpct = sc.projection.nonMdEmploymentCostsPct / 100
-    const miscEmploymentGpct = sc.projection.miscEmploymentCostsPct / 100
+    // Each year's growth multiplier: its scheduled rate, else the flat projection rate
+    const growth = (field: GrowthField, year: number) => 1 + growthRateFor(sc.projection, sc.growthSchedules, field, year) / 100
 
     // Starting values from the selected baseline
     let expectedIncome = baselineData.therapyIncome
-    let expectedNonEmploymentCosts = baselineData.nonEmploymentCosts
+    let expectedCosts = splitCosts(baselineData)
     let expectedNonMdEmploymentCosts = baselineData.nonMdEmploymentCosts
     let expectedMiscEmploymentCosts = baselineData.miscEmploymentCosts
 
     // Check each future year for deviations from expected values
     for (const fy of sc.future) {
-      if (fy.year === 2025) continue // Skip baseline year
+      if (fy.year <= store.baselineYear) continue // Skip baseline year
       
       // Calculate expected values for this year
-      expectedIncome = expectedIncome * (1 + incomeGpct)
-      expectedNonEmploymentCosts = expectedNonEmploymentCosts * (1 + nonEmploymentGpct)
-      expectedNonMdEmploymentCosts = expectedNonMdEmploymentCosts * (1 + nonMdEmploymentGpct)
-      expectedMiscEmploymentCosts = expectedMiscEmploymentCosts * (1 + miscEmploymentGpct)
+      expectedIncome = expectedIncome * growth('therapyIncome', fy.year)
+      expectedCosts = growCosts(expectedCosts, sc.costCategoryGrowth, growthRateFor(sc.projection, sc.growthSchedules, 'nonEmploymentCosts', fy.year))
+      const expectedNonEmploymentCosts = splitTotal(expectedCosts) + oneOffTotal(fy.oneOffCosts)
+      expectedNonMdEmploymentCosts = fy.staff ? calculateStaffRosterCost(fy.staff, fy.year, sc.projection.benefitCostsGrowthPct, sc.payrollTaxes) : expectedNonMdEmploymentCosts * growth('nonMdEmploymentCosts', fy.year)
+      expectedMiscEmploymentCosts = expectedMiscEmploymentCosts * growth('miscEmploymentCosts', fy.year)
 
       // Compare with actual values (with 1% tolerance for floating point differences)
       const tolerance = 0.01
@@ -7473,74 +6749,35 @@ function ParametersSummary() {
     return overrides
   }
 
-  const buildYearData = (scenario: 'A' | 'B') => {
-    const sc = scenario === 'A' ? store.scenarioA : store.scenarioB!
-    const historic2025 = store.historic.find((h) => h.year === 2025)!
-    const years = Array.from(new Set([2025, ...sc.future.map((f) => f.year)]))
-    return years.map((year) => {
-      if (year === 2025) {
-        const physicians = scenario === 'A' ? scenarioADefaultsByYear(2025) : scenarioBDefaultsByYear(2025)
-        const js = physicians.find(p => p.name === 'JS' && (p.type === 'partner' || p.type === 'employeeToPartner' || p.type === 'partnerToRetire'))
-        return {
-          year,
-        therapyIncome: historic2025.therapyIncome,
-        nonEmploymentCosts: historic2025.nonEmploymentCosts,
-        nonMdEmploymentCosts: computeDefaultNonMdEmploymentCosts(2025),
-        locumCosts: 54600,
-        miscEmploymentCosts: DEFAULT_MISC_EMPLOYMENT_COSTS,
-        medicalDirectorHours: 119373.75, // 2025 shared medical director amount
-        prcsMedicalDirectorHours: 37792.5, // 2025 PRCS medical director amount (JS)
-        prcsDirectorPhysicianId: js?.id, // Assign PRCS to JS
-        physicians,
-        } as FutureYear
-      }
-      return sc.future.find((f) => f.year === year) as FutureYear
-    })
-  }
-
-    const renderScenario = (scenario: 'A' | 'B') => {
-    const sc = scenario === 'A' ? store.scenarioA : store.scenarioB!
-    const data = buildYearData(scenario)
+  const renderScenario = (scenario: ScenarioKey) => {
+    const sc = store.scenarios[scenario]
+    const data = getParameterYears(store.historic, store.baselineDetails, store.baselineYear, sc)
     const overrides = detectCustomOverrides(scenario)
+    // Helper: a growth rate as summarized, noting hand-edited years and per-year schedules
+    const rateLabel = (field: GrowthField, custom: boolean) => {
+      if (custom) return 'Custom'
+      const rate = `${sc.projection[GROWTH_RATE_FIELDS[field]]}%`
+      return hasSchedule(sc.growthSchedules, field) ? `${rate}, varies by year` : rate
+    }
     const maxPhysicians = Math.max(...data.map((d) => d.physicians.length))
-    const baselineMode = scenario === 'A' ? store.scenarioA.dataMode : store.scenarioB?.dataMode || '2025 Data'
-    const baselineLabel = baselineMode === '2025 Data' ? null : `Baseline (${baselineMode === 'Custom' ? 'Custom' : (baselineMode?.match(/\d{4}/)?.[0] || baselineMode || 'Unknown')})`
+    const baselineMode = sc.dataMode
+    const baselineLabel = baselineMode === `${latestActualYear(store.historic, store.baselineDetails)} Data` ? null : `Baseline (${baselineMode === 'Custom' ? 'Custom' : (baselineMode?.match(/\d{4}/)?.[0] || baselineMode || 'Unknown')})`
     const hasExtraBaselineCol = Boolean(baselineLabel)
     // Narrow columns slightly when we include the extra Baseline column so everything fits without overflow
     const labelColWidth = hasExtraBaselineCol ? 120 : 150
     const yearColWidth = hasExtraBaselineCol ? 120 : 135
     const columnGap = hasExtraBaselineCol ? 3 : 4
-    const baselineDataObj = (() => {
-      if (!baselineLabel) return null
-      if (baselineMode === 'Custom') {
-        const custom = sc.future.find((f) => f.year === 2025)
-        return custom ? { ...custom, year: 2025 } : null
-      }
-      if (baselineMode === '2024 Data') {
-        const h2024 = store.historic.find((h) => h.year === 2024)
-        if (!h2024) return null
-        return {
-          year: 2024,
-          therapyIncome: h2024.therapyIncome,
-          nonEmploymentCosts: h2024.nonEmploymentCosts,
-          nonMdEmploymentCosts: 164677.44,
-          locumCosts: 113400,
-          miscEmploymentCosts: 18182.56,
-          physicians: scenario2024Defaults(),
-        } as FutureYear
-      }
-      return null
-    })()
+    const baselineDataObj = baselineLabel ? getScenarioYear(store.historic, store.baselineDetails, store.baselineYear, sc, store.baselineYear)!.fy : null
     return (
-      <div style={{ marginTop: 12, border: '1px solid #e5e7eb', borderRadius: 8, padding: 12, background: '#f9fafb', maxWidth: 1000, marginLeft: 'auto', marginRight: 'auto' }}>
+      <div key={scenario} style={{ marginTop: 12, border: '1px solid #e5e7eb', borderRadius: 8, padding: 12, background: '#f9fafb', maxWidth: 1000, marginLeft: 'auto', marginRight: 'auto' }}>
         <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline', gap: 8, flexWrap: 'wrap' }}>
-          <div style={{ fontWeight: 700, fontSize: 15 }}>Scenario {scenario} Parameters</div>
+          <div style={{ fontWeight: 700, fontSize: 15, borderLeft: `4px solid ${sc.color}`, paddingLeft: 6 }}>{sc.name} Parameters</div>
           <div style={{ fontSize: 13, color: '#374151', border: '1px solid #e5e7eb', borderRadius: 6, padding: 5, background: '#ffffff' }}>
-            Growth — Income: {overrides.incomeGrowthPct ? 'Custom' : `${sc.projection.incomeGrowthPct}%`} · Non-Emp: {overrides.nonEmploymentCostsPct ? 'Custom' : `${sc.projection.nonEmploymentCostsPct}%`} · Staff: {overrides.nonMdEmploymentCostsPct ? 'Custom' : `${sc.projection.nonMdEmploymentCostsPct}%`} · Benefits: {sc.projection.benefitCostsGrowthPct}% · Misc: {overrides.miscEmploymentCostsPct ? 'Custom' : `${sc.projection.miscEmploymentCostsPct}%`}
+            Growth — Income: {rateLabel('therapyIncome', overrides.incomeGrowthPct)} · Non-Emp: {rateLabel('nonEmploymentCosts', overrides.nonEmploymentCostsPct)} · Staff: {rateLabel('nonMdEmploymentCosts', overrides.nonMdEmploymentCostsPct)} · Benefits: {sc.projection.benefitCostsGrowthPct}% · Misc: {rateLabel('miscEmploymentCosts', overrides.miscEmploymentCostsPct)}
           </div>
         </div>
 
-        <div style={{ marginTop: 6, marginBottom: 12, overflowX: isMobile ? 'auto' : 'visible', border: '1px solid #e5e7eb', borderRadius: 6, padding: 8, background: '#ffffff' }}>
+        <div style={{ marginTop: 6, marginBottom: 12, overflowX: 'auto', border: '1px solid #e5e7eb', borderRadius: 6, padding: 8, background: '#ffffff' }}>
           <div style={{ fontWeight: 600, marginBottom: 4, fontSize: 14 }}>Per Year Core Values</div>
           <div style={{ fontSize: 13, fontVariantNumeric: 'tabular-nums' as any }}>
             {/* Header row */}
@@ -7570,7 +6807,7 @@ function ParametersSummary() {
           </div>
         </div>
 
-        <div style={{ marginTop: 8, overflowX: isMobile ? 'auto' : 'visible', border: '1px solid #e5e7eb', borderRadius: 6, padding: 8, background: '#ffffff' }}>
+        <div style={{ marginTop: 8, overflowX: 'auto', border: '1px solid #e5e7eb', borderRadius: 6, padding: 8, background: '#ffffff' }}>
           <div style={{ fontWeight: 600, marginBottom: 4, fontSize: 14 }}>Physicians Per Year</div>
           <div style={{ fontSize: 13, alignItems: 'center', fontVariantNumeric: 'tabular-nums' as any }}>
             {/* Header row */}
@@ -7730,8 +6967,7 @@ function ParametersSummary() {
   return (
     <div style={{ marginTop: 12 }}>
       <h3 style={{ margin: '8px 0', fontSize: 15 }}>Parameters Summary</h3>
-      {renderScenario('A')}
-      {store.scenarioBEnabled && store.scenarioB && renderScenario('B')}
+      {store.selectedScenarioIds.filter((id) => store.scenarios[id]).map((id) => renderScenario(id))}
     </div>
   )
 }
\ No newline at end of file
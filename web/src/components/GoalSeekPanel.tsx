@@ -0,0 +1,157 @@
+import { useState } from 'react'
+import type { Physician, Projection } from '../lib/types'
+import { FUTURE_FIELD_LABELS, PROJECTION_FIELD_LABELS } from '../lib/history'
+import { GOAL_PHYSICIAN_FIELD_LABELS, currentGoalValue, evaluateGoal, goalVariableLabel, solveGoal } from '../lib/goalSeek'
+import type { GoalMetric, GoalPhysicianField, GoalSeekContext, GoalSeekResult, GoalVariable, GoalYearField } from '../lib/goalSeek'
+import { currency } from '../lib/format'
+
+interface GoalSeekPanelProps {
+  years: number[]
+  initialYear: number
+  getContext: (year: number) => GoalSeekContext | undefined
+  onApply: (year: number, variable: GoalVariable, value: number) => void
+}
+
+const METRIC_LABELS: Record<Exclude<GoalMetric['kind'], 'physician'>, string> = {
+  minPartner: 'Lowest partner comp',
+  partnerTotal: 'Total partner comp',
+  pool: 'Distributable pool',
+  netIncome: 'Net income',
+}
+
+const buttonStyle = { border: '1px solid #ccc', borderRadius: 4, background: 'white', padding: '2px 8px', cursor: 'pointer', fontSize: 12 }
+
+// Select values: "minPartner", "physician:LK"
+function metricKey(metric: GoalMetric): string {
+  return metric.kind === 'physician' ? `physician:${metric.name}` : metric.kind
+}
+
+function parseMetric(key: string): GoalMetric {
+  if (key.startsWith('physician:')) return { kind: 'physician', name: key.slice('physician:'.length) }
+  return { kind: key as Exclude<GoalMetric['kind'], 'physician'> }
+}
+
+// Select values: "projection:incomeGrowthPct", "year:therapyIncome", "physician:2027-LK:salary"
+function variableKey(variable: GoalVariable): string {
+  if (variable.kind === 'physician') return `physician:${variable.physicianId}:${variable.field}`
+  return `${variable.kind}:${variable.field}`
+}
+
+function parseVariable(key: string): GoalVariable {
+  const [kind, ...rest] = key.split(':')
+  if (kind === 'physician') return { kind, physicianId: rest.slice(0, -1).join(':'), field: rest[rest.length - 1] as GoalPhysicianField }
+  if (kind === 'year') return { kind, field: rest[0] as GoalYearField }
+  return { kind: 'projection', field: rest[0] as keyof Projection }
+}
+
+// Helper: the fields the solver may move for one physician
+function physicianFields(p: Physician): GoalPhysicianField[] {
+  const fields: GoalPhysicianField[] = []
+  if (p.salary !== undefined) fields.push('salary')
+  if (p.weeksVacation !== undefined) fields.push('weeksVacation')
+  if (p.receivesBonuses) fields.push('bonusAmount')
+  if (p.type === 'partnerToRetire') fields.push('buyoutCost')
+  return fields
+}
+
+// Helper: show a variable value in its own unit
+function formatVariable(variable: GoalVariable, value: number): string {
+  if (variable.kind === 'projection' && variable.field.endsWith('Pct')) return `${value}%`
+  if (variable.kind === 'physician' && variable.field === 'weeksVacation') return `${value} weeks`
+  return currency(value)
+}
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1)
+
+// Goal seek: find the value of one input that makes a compensation metric hit a target
+export function GoalSeekPanel({ years, initialYear, getContext, onApply }: GoalSeekPanelProps) {
+  const [year, setYear] = useState(years.includes(initialYear) ? initialYear : years[0])
+  const [metric, setMetric] = useState<GoalMetric>({ kind: 'minPartner' })
+  const [variable, setVariable] = useState<GoalVariable>({ kind: 'projection', field: 'incomeGrowthPct' })
+  const [target, setTarget] = useState<number | undefined>(undefined)
+  const [result, setResult] = useState<{ variable: GoalVariable; metric: GoalMetric; target: number; outcome: GoalSeekResult } | null>(null)
+
+  const ctx = getContext(year)
+  if (!ctx) return null
+  const roster = ctx.fy.physicians
+  // A metric or variable picked in another year may not exist in this one
+  const activeMetric: GoalMetric = metric.kind === 'physician' && !roster.some((p) => p.name === metric.name) ? { kind: 'minPartner' } : metric
+  const activeVariable: GoalVariable = variable.kind === 'physician' && !roster.some((p) => p.id === variable.physicianId) ? { kind: 'projection', field: 'incomeGrowthPct' } : variable
+  const currentMetric = evaluateGoal(ctx, activeVariable, activeMetric, currentGoalValue(ctx, activeVariable))
+  const targetValue = target ?? Math.round(currentMetric / 1000) * 1000
+
+  const solve = () => setResult({ variable: activeVariable, metric: activeMetric, target: targetValue, outcome: solveGoal(ctx, activeVariable, activeMetric, targetValue) })
+
+  return (
+    <div style={{ border: '1px solid #e5e7eb', borderRadius: 6, padding: 8, background: '#fff', fontSize: 12, color: '#374151', display: 'flex', flexDirection: 'column', gap: 6 }}>
+      <span style={{ fontWeight: 700, fontSize: 14 }}>Goal seek</span>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8, flexWrap: 'wrap' }}>
+        In
+        <select value={year} onChange={(e) => { setYear(Number(e.target.value)); setResult(null) }} style={{ fontSize: 12 }}>
+          {years.map((y) => <option key={y} value={y}>{y}</option>)}
+        </select>
+        make
+        <select value={metricKey(activeMetric)} onChange={(e) => { setMetric(parseMetric(e.target.value)); setTarget(undefined); setResult(null) }} style={{ fontSize: 12 }}>
+          {(Object.keys(METRIC_LABELS) as (keyof typeof METRIC_LABELS)[]).map((kind) => <option key={kind} value={kind}>{METRIC_LABELS[kind]}</option>)}
+          {roster.map((p) => <option key={p.id} value={`physician:${p.name}`}>{p.name} comp</option>)}
+        </select>
+        equal
+        <input
+          type="number"
+          step={1000}
+          value={targetValue}
+          onChange={(e) => { setTarget(Number(e.target.value) || 0); setResult(null) }}
+          style={{ width: 110, fontSize: 12, padding: '1px 4px' }}
+        />
+        by changing
+        <select value={variableKey(activeVariable)} onChange={(e) => { setVariable(parseVariable(e.target.value)); setResult(null) }} style={{ fontSize: 12 }}>
+          <optgroup label="Projection settings">
+            {(Object.keys(PROJECTION_FIELD_LABELS) as (keyof Projection)[]).map((field) => (
+              <option key={field} value={`projection:${field}`}>{capitalize(PROJECTION_FIELD_LABELS[field])}</option>
+            ))}
+          </optgroup>
+          <optgroup label={`${year} values`}>
+            {(Object.keys(FUTURE_FIELD_LABELS) as GoalYearField[]).map((field) => (
+              <option key={field} value={`year:${field}`}>{capitalize(FUTURE_FIELD_LABELS[field])}</option>
+            ))}
+          </optgroup>
+          <optgroup label="Physicians">
+            {roster.flatMap((p) => physicianFields(p).map((field) => (
+              <option key={`${p.id}-${field}`} value={`physician:${p.id}:${field}`}>{p.name} {GOAL_PHYSICIAN_FIELD_LABELS[field]}</option>
+            )))}
+          </optgroup>
+        </select>
+        <button onClick={solve} style={buttonStyle}>Solve</button>
+      </div>
+      <div style={{ color: '#6b7280' }}>
+        Now: {capitalize(goalVariableLabel(activeVariable, roster))} {formatVariable(activeVariable, currentGoalValue(ctx, activeVariable))}, {activeMetric.kind === 'physician' ? `${activeMetric.name} comp` : METRIC_LABELS[activeMetric.kind].toLowerCase()} {currency(currentMetric)}
+      </div>
+      {result && result.outcome.status === 'solved' && (
+        <div style={{ display: 'flex', alignItems: 'center', gap: 8, flexWrap: 'wrap' }}>
+          <span>
+            Set {goalVariableLabel(result.variable, roster)} to <strong>{formatVariable(result.variable, result.outcome.value)}</strong>
+            {' '}({currency(result.outcome.achieved)} against a target of {currency(result.target)})
+          </span>
+          <button
+            onClick={() => {
+              if (result.outcome.status !== 'solved') return
+              onApply(year, result.variable, result.outcome.value)
+              setResult(null)
+            }}
+            style={buttonStyle}
+          >
+            Apply to scenario
+          </button>
+        </div>
+      )}
+      {result && result.outcome.status === 'unreachable' && (
+        <div style={{ color: '#b91c1c' }}>
+          No value of {goalVariableLabel(result.variable, roster)} reaches {currency(result.target)}; across its range the metric runs from {currency(result.outcome.atMin)} to {currency(result.outcome.atMax)}.
+        </div>
+      )}
+      {result && result.variable.kind === 'projection' && (
+        <div style={{ color: '#6b7280' }}>Projection settings apply to every projected year, and re-project the year-by-year values.</div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,66 @@
+import type { GrowthField, GrowthSchedules, Projection } from '../lib/types'
+import { GROWTH_FIELD_LABELS, GROWTH_RATE_FIELDS, hasSchedule } from '../lib/growth'
+
+interface GrowthScheduleEditorProps {
+  years: number[] // Projected years, oldest first
+  projection: Projection
+  schedules: GrowthSchedules | undefined
+  onChange: (field: GrowthField, year: number, pct: number | undefined) => void
+  onClear: (field: GrowthField) => void
+}
+
+const cellStyle = { padding: '2px 3px', borderTop: '1px solid #f0f0f0', fontSize: 13 }
+const buttonStyle = { border: '1px solid #d1d5db', borderRadius: 4, background: 'white', padding: '1px 6px', cursor: 'pointer', fontSize: 11, color: '#6b7280' }
+
+// Year-by-year growth rates; blank cells follow the flat rate set by the sliders
+export function GrowthScheduleEditor({ years, projection, schedules, onChange, onClear }: GrowthScheduleEditorProps) {
+  const fields = Object.keys(GROWTH_FIELD_LABELS) as GrowthField[]
+
+  return (
+    <div style={{ padding: 8, backgroundColor: '#ffffff', borderRadius: 8, border: '1px solid #e5e7eb' }}>
+      <div style={{ fontSize: 12, color: '#6b7280', marginBottom: 6 }}>
+        Set a rate for any year that should grow differently, e.g. flat costs in the year of an equipment replacement. Each year compounds on the one before it.
+      </div>
+      <div style={{ overflowX: 'auto' }}>
+        <table style={{ borderCollapse: 'collapse', fontVariantNumeric: 'tabular-nums' }}>
+          <thead>
+            <tr style={{ fontSize: 12, color: '#6b7280' }}>
+              <th style={{ textAlign: 'left', fontWeight: 500 }}>Growth %</th>
+              {years.map((year) => <th key={year} style={{ padding: '0 3px', fontWeight: 500 }}>{year}</th>)}
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {fields.map((field) => {
+              const flatRate = projection[GROWTH_RATE_FIELDS[field]]
+              return (
+                <tr key={field}>
+                  <td style={{ ...cellStyle, whiteSpace: 'nowrap' }}>{GROWTH_FIELD_LABELS[field]}</td>
+                  {years.map((year) => {
+                    const scheduled = schedules?.[field]?.[year]
+                    return (
+                      <td key={year} style={cellStyle}>
+                        <input
+                          type="number"
+                          step={0.1}
+                          value={scheduled ?? ''}
+                          placeholder={String(flatRate)}
+                          title={scheduled === undefined ? `Flat rate: ${flatRate}%` : `Flat rate would be ${flatRate}%; clear to use it`}
+                          onChange={(e) => onChange(field, year, e.target.value === '' ? undefined : Number(e.target.value))}
+                          style={{ width: 48, fontSize: 12, padding: '1px 3px', textAlign: 'right', border: '1px solid #d1d5db', borderRadius: 3, background: scheduled === undefined ? 'white' : '#eff6ff' }}
+                        />
+                      </td>
+                    )
+                  })}
+                  <td style={cellStyle}>
+                    {hasSchedule(schedules, field) && <button onClick={() => onClear(field)} style={buttonStyle}>Flat</button>}
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
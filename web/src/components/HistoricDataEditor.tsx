@@ -0,0 +1,121 @@
+import { useState } from 'react'
+import type { CostCategory, HistoricField, YearRow } from '../lib/types'
+import type { BaselineDetail } from '../lib/defaults'
+import { HISTORIC_DATA } from '../lib/defaults'
+import { DETAIL_OVERRIDE_FIELDS, HISTORIC_FIELD_LABELS, REQUIRED_HISTORIC_FIELDS } from '../lib/historic'
+import { COST_CATEGORIES, COST_CATEGORY_LABELS, categorizedTotal } from '../lib/costs'
+import { currency } from '../lib/format'
+
+interface HistoricDataEditorProps {
+  historic: YearRow[]
+  details: Record<number, BaselineDetail> // Shown where a row leaves staff payroll or locums blank
+  onValueChange: (year: number, field: HistoricField, value: number | undefined) => void
+  onSourceChange: (year: number, field: HistoricField, source: string) => void
+  onCostCategoryChange: (year: number, category: CostCategory, amount: number | undefined) => void
+}
+
+const cellStyle = { padding: '2px 4px', borderTop: '1px solid #f0f0f0', fontSize: 13 }
+const inputStyle = { width: 96, fontSize: 12, padding: '1px 4px', textAlign: 'right' as const, border: '1px solid #d1d5db', borderRadius: 3 }
+
+// View and edit the historic actuals, with a note on where each value came from
+export function HistoricDataEditor({ historic, details, onValueChange, onSourceChange, onCostCategoryChange }: HistoricDataEditorProps) {
+  const [active, setActive] = useState<null | { year: number; field: HistoricField }>(null)
+  const fields = Object.keys(HISTORIC_FIELD_LABELS) as HistoricField[]
+  const activeRow = active ? historic.find((h) => h.year === active.year) : undefined
+
+  return (
+    <div style={{ border: '1px solid #e5e7eb', borderRadius: 8, padding: 8, background: '#ffffff', marginBottom: 8 }}>
+      <div style={{ fontWeight: 600, marginBottom: 6 }}>Historic Data</div>
+      <div style={{ fontSize: 12, color: '#6b7280' }}>
+        Edits feed the chart and every scenario's projections. Leave a breakdown blank where the books do not have it; once a year records MD income, its therapy income should exclude it. Staff payroll and locums replace the figures a baseline year was set up with (shown greyed while blank); physician payroll is for reference, as physician costs come from the roster. Highlighted values differ from the built-in figures; click a value to note its source.
+      </div>
+      <div style={{ marginTop: 8, overflowX: 'auto' }}>
+        <table style={{ borderCollapse: 'collapse', fontVariantNumeric: 'tabular-nums' }}>
+          <thead>
+            <tr style={{ textAlign: 'right', fontSize: 12, color: '#6b7280' }}>
+              <th style={{ textAlign: 'left' }}>Year</th>
+              {fields.map((field) => <th key={field} style={{ padding: '0 4px', fontWeight: 500 }}>{HISTORIC_FIELD_LABELS[field]}</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            {historic.map((row) => {
+              const builtIn = HISTORIC_DATA.find((h) => h.year === row.year)
+              const detail = details[row.year]
+              // The detail amount a blank override field falls back to
+              const fallbacks: Partial<Record<HistoricField, number>> = detail
+                ? Object.fromEntries(Object.entries(DETAIL_OVERRIDE_FIELDS).map(([amount, field]) => [field, detail[amount as keyof typeof DETAIL_OVERRIDE_FIELDS]]))
+                : {}
+              return (
+                <tr key={row.year}>
+                  <td style={{ ...cellStyle, fontWeight: 600 }}>{row.year}</td>
+                  {fields.map((field) => {
+                    const value = row[field]
+                    const original = builtIn?.[field]
+                    const edited = builtIn ? value !== original : false
+                    const source = row.sources?.[field]
+                    const isActive = active?.year === row.year && active.field === field
+                    return (
+                      <td key={field} style={cellStyle}>
+                        <div style={{ position: 'relative' }}>
+                          <input
+                            type="number"
+                            value={value ?? ''}
+                            placeholder={fallbacks[field] !== undefined ? String(Math.round(fallbacks[field])) : '—'}
+                            onFocus={() => setActive({ year: row.year, field })}
+                            onChange={(e) => {
+                              if (e.target.value === '' && REQUIRED_HISTORIC_FIELDS.includes(field)) return
+                              onValueChange(row.year, field, e.target.value === '' ? undefined : Number(e.target.value))
+                            }}
+                            title={[source && `Source: ${source}`, edited && `Built-in: ${original === undefined ? 'none' : currency(original)}`].filter(Boolean).join('\n') || undefined}
+                            style={{ ...inputStyle, background: edited ? '#fffbeb' : 'white', border: isActive ? '1px solid #2563eb' : inputStyle.border }}
+                          />
+                          {source && <span style={{ position: 'absolute', top: -2, right: 2, fontSize: 10, color: '#2563eb' }}>•</span>}
+                        </div>
+                      </td>
+                    )
+                  })}
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
+      {active && activeRow && (
+        <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginTop: 8, fontSize: 13 }}>
+          <span>Source for {active.year} {HISTORIC_FIELD_LABELS[active.field]}:</span>
+          <input
+            type="text"
+            value={activeRow.sources?.[active.field] ?? ''}
+            placeholder={`e.g. ${active.year} P&L, line 4100`}
+            onChange={(e) => onSourceChange(active.year, active.field, e.target.value)}
+            style={{ flex: 1, fontSize: 13, padding: '2px 6px', border: '1px solid #d1d5db', borderRadius: 3 }}
+          />
+        </div>
+      )}
+      {active?.field === 'nonEmploymentCosts' && activeRow && (
+        <div style={{ marginTop: 8, fontSize: 13 }}>
+          <div style={{ color: '#6b7280', fontSize: 12, marginBottom: 4 }}>
+            {active.year} non-employment costs by category. The rest of the total counts as other; a baseline taken from this year grows each category at its own rate.
+          </div>
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(220px, 1fr))', gap: '4px 12px' }}>
+            {COST_CATEGORIES.map((category) => (
+              <label key={category} style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+                <span style={{ flex: 1 }}>{COST_CATEGORY_LABELS[category]}</span>
+                <input
+                  type="number"
+                  value={activeRow.costBreakdown?.[category] ?? ''}
+                  placeholder="—"
+                  onChange={(e) => onCostCategoryChange(active.year, category, e.target.value === '' ? undefined : Number(e.target.value))}
+                  style={inputStyle}
+                />
+              </label>
+            ))}
+          </div>
+          <div style={{ marginTop: 4, fontSize: 12, color: '#6b7280' }}>
+            Other: {currency(Math.round(activeRow.nonEmploymentCosts - categorizedTotal(activeRow.costBreakdown)))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,54 @@
+import type { HistoryEntry } from '../lib/history'
+
+interface HistoryPanelProps {
+  undoStack: HistoryEntry[]
+  redoStack: HistoryEntry[]
+  onUndo: (steps: number) => void
+  onRedo: (steps: number) => void
+}
+
+const buttonStyle = { border: '1px solid #ccc', borderRadius: 4, background: 'white', padding: '2px 8px', cursor: 'pointer', fontSize: 12 }
+const rowStyle = { display: 'flex', justifyContent: 'space-between', gap: 8, width: '100%', border: 'none', background: 'none', padding: '2px 4px', cursor: 'pointer', fontSize: 13, textAlign: 'left' as const }
+
+// Helper to show when a change was made
+function formatTime(at: number): string {
+  return new Date(at).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit', second: '2-digit' })
+}
+
+// Edit history, oldest first. Clicking an entry jumps back (or forward) to the state after it.
+export function HistoryPanel({ undoStack, redoStack, onUndo, onRedo }: HistoryPanelProps) {
+  const redoEntries = [...redoStack].reverse()
+
+  return (
+    <div style={{ border: '1px solid #e5e7eb', borderRadius: 8, padding: 8, background: '#ffffff', marginBottom: 8 }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 6 }}>
+        <div style={{ fontWeight: 600, flex: 1 }}>History</div>
+        <button onClick={() => onUndo(1)} disabled={undoStack.length === 0} style={{ ...buttonStyle, opacity: undoStack.length === 0 ? 0.5 : 1 }} title="Undo (Ctrl+Z)">Undo</button>
+        <button onClick={() => onRedo(1)} disabled={redoStack.length === 0} style={{ ...buttonStyle, opacity: redoStack.length === 0 ? 0.5 : 1 }} title="Redo (Ctrl+Shift+Z)">Redo</button>
+      </div>
+      {undoStack.length === 0 && redoStack.length === 0 ? (
+        <div style={{ fontSize: 13, color: '#6b7280' }}>No changes yet.</div>
+      ) : (
+        <div style={{ maxHeight: 240, overflowY: 'auto', display: 'flex', flexDirection: 'column' }}>
+          {undoStack.map((entry, i) => {
+            // Undoing every entry after this one leaves the state right after it
+            const steps = undoStack.length - 1 - i
+            return (
+              <button key={`u-${i}`} onClick={() => { if (steps > 0) onUndo(steps) }} style={rowStyle} title={steps > 0 ? `Undo ${steps} change${steps === 1 ? '' : 's'}` : undefined}>
+                <span>{entry.label}</span>
+                <span style={{ color: '#6b7280', fontSize: 12 }}>{formatTime(entry.at)}</span>
+              </button>
+            )
+          })}
+          <div style={{ fontSize: 12, color: '#1d4ed8', fontWeight: 600, borderTop: '1px solid #bfdbfe', padding: '2px 4px' }}>Current</div>
+          {redoEntries.map((entry, i) => (
+            <button key={`r-${i}`} onClick={() => onRedo(i + 1)} style={{ ...rowStyle, color: '#9ca3af' }} title={`Redo ${i + 1} change${i === 0 ? '' : 's'}`}>
+              <span>{entry.label}</span>
+              <span style={{ fontSize: 12 }}>{formatTime(entry.at)}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
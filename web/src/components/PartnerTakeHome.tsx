@@ -0,0 +1,67 @@
+import { useState } from 'react'
+import type { TakeHomeSettings } from '../lib/types'
+import { DEFAULT_TAKE_HOME_SETTINGS, estimateTakeHome } from '../lib/takeHome'
+import { currency } from '../lib/format'
+
+interface PartnerTakeHomeProps {
+  year: number
+  partnerIncome: number
+  w2Wages: number
+  settings: TakeHomeSettings | undefined // Undefined until the estimate is turned on for this partner
+  onChange: (settings: TakeHomeSettings | undefined) => void
+}
+
+const buttonStyle = { border: 'none', background: 'none', padding: 0, cursor: 'pointer', fontSize: 11, color: '#6b7280', textDecoration: 'underline' }
+
+// Estimated take-home pay and quarterly tax payments for one partner, with their tax settings
+export function PartnerTakeHome({ year, partnerIncome, w2Wages, settings, onChange }: PartnerTakeHomeProps) {
+  const [editing, setEditing] = useState(false)
+
+  if (!settings) {
+    return (
+      <div style={{ gridColumn: '1 / -1', textAlign: 'right', marginTop: -2 }}>
+        <button onClick={() => onChange(DEFAULT_TAKE_HOME_SETTINGS)} style={buttonStyle}>Estimate take-home</button>
+      </div>
+    )
+  }
+
+  const estimate = estimateTakeHome(partnerIncome, w2Wages, year, settings)
+  const breakdown = [
+    `Self-employment tax: ${currency(Math.round(estimate.selfEmploymentTax))}`,
+    `Additional Medicare: ${currency(Math.round(estimate.additionalMedicare))}`,
+    ...(w2Wages > 0 ? [`FICA withheld from W2: ${currency(Math.round(estimate.employeeFica))}`] : []),
+    `QBI deduction: ${currency(Math.round(estimate.qbiDeduction))}`,
+    `Income tax (${settings.incomeTaxPct}% of ${currency(Math.round(estimate.taxableIncome))}): ${currency(Math.round(estimate.incomeTax))}`,
+  ].join('\n')
+
+  return (
+    <div style={{ gridColumn: '1 / -1', fontSize: 11, color: '#4b5563', textAlign: 'right', marginTop: -2 }}>
+      <span title={breakdown}>
+        ≈ {currency(Math.round(estimate.takeHome))} take-home · {currency(Math.round(estimate.quarterlyEstimate))}/quarter estimated tax
+      </span>{' '}
+      <button onClick={() => setEditing(!editing)} style={buttonStyle}>{editing ? 'done' : 'settings'}</button>
+      {editing && (
+        <div style={{ display: 'flex', justifyContent: 'flex-end', flexWrap: 'wrap', alignItems: 'center', gap: 8, marginTop: 2 }}>
+          <label>
+            Income tax{' '}
+            <input
+              type="number"
+              step={0.5}
+              value={settings.incomeTaxPct}
+              onChange={(e) => onChange({ ...settings, incomeTaxPct: Number(e.target.value) })}
+              style={{ width: 44, fontSize: 11, padding: '0 3px', textAlign: 'right', border: '1px solid #d1d5db', borderRadius: 3 }}
+            />
+            %
+          </label>
+          <label>
+            <input type="checkbox" checked={settings.filingJointly} onChange={(e) => onChange({ ...settings, filingJointly: e.target.checked })} /> Joint
+          </label>
+          <label title="Qualified business income deduction, phased out at higher incomes for medical practices">
+            <input type="checkbox" checked={settings.claimQbi} onChange={(e) => onChange({ ...settings, claimQbi: e.target.checked })} /> QBI
+          </label>
+          <button onClick={() => onChange(undefined)} style={buttonStyle}>remove</button>
+        </div>
+      )}
+    </div>
+  )
+}
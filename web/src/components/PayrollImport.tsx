@@ -0,0 +1,146 @@
+import { useRef, useState } from 'react'
+import type { ChangeEvent } from 'react'
+import type { PayrollLedger, Physician } from '../lib/types'
+import type { BaselineDetail } from '../lib/defaults'
+import { parsePayrollWorkbook } from '../lib/payrollLedger'
+import { calculateDelayedW2Payment, computeStaffCostsFromLedger } from '../lib/payroll'
+import { currency } from '../lib/format'
+
+interface PayrollImportProps {
+  ledger: PayrollLedger
+  physicians: Physician[] // Roster for the ledger year, used to match worksheet names
+  baselineDetails: Record<number, BaselineDetail>
+  onApply: (ledger: PayrollLedger) => void
+  onReset: () => void
+}
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
+
+const buttonStyle = { border: '1px solid #ccc', borderRadius: 4, background: 'white', padding: '2px 8px', cursor: 'pointer', fontSize: 12 }
+const cellStyle = { padding: '2px 6px', borderTop: '1px solid #f0f0f0', fontSize: 13 }
+
+// Helper: "Jan–Aug 2025" for contiguous months, otherwise a list
+function describeMonths(ledger: PayrollLedger): string {
+  const { months, year } = ledger
+  if (months.length === 0) return `no months of ${year}`
+  const contiguous = months.every((m, i) => i === 0 || m === months[i - 1] + 1)
+  if (contiguous && months.length > 1) return `${MONTH_NAMES[months[0] - 1]}–${MONTH_NAMES[months[months.length - 1] - 1]} ${year}`
+  return `${months.map((m) => MONTH_NAMES[m - 1]).join(', ')} ${year}`
+}
+
+// Load a payroll worksheet workbook into the pay-run ledger behind delayed W2 payments and staff costs
+export function PayrollImport({ ledger, physicians, baselineDetails, onApply, onReset }: PayrollImportProps) {
+  const [pending, setPending] = useState<PayrollLedger | null>(null)
+  const [message, setMessage] = useState<null | { text: string; error: boolean }>(null)
+  const fileInput = useRef<HTMLInputElement>(null)
+
+  const importFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = '' // allow re-importing the same file
+    if (!file) return
+    try {
+      setPending(parsePayrollWorkbook(await file.arrayBuffer(), file.name, physicians))
+      setMessage(null)
+    } catch (err) {
+      setPending(null)
+      setMessage({ text: `Could not import ${file.name}: ${err instanceof Error ? err.message : String(err)}`, error: true })
+    }
+  }
+
+  const apply = () => {
+    if (!pending) return
+    onApply(pending)
+    setMessage({ text: `Using payroll from ${pending.source?.fileName ?? 'the imported workbook'} (${describeMonths(pending)})`, error: false })
+    setPending(null)
+  }
+
+  const setPhysicianName = (employee: string, name: string) => {
+    if (!pending) return
+    const physicianNames = { ...pending.physicianNames }
+    if (name) physicianNames[employee] = name
+    else delete physicianNames[employee]
+    setPending({ ...pending, physicianNames })
+  }
+
+  const worksheetPhysicians = pending ? Array.from(new Set(pending.entries.filter((e) => e.kind === 'physician').map((e) => e.employee))) : []
+  const transitioning = physicians.filter((p) => p.type === 'employeeToPartner')
+  const currentStaff = baselineDetails[pending?.year ?? ledger.year]?.nonMdEmploymentCosts
+  const rows = pending
+    ? [
+        { label: `Staff employment costs ${pending.year}`, current: currentStaff, next: baselineDetails[pending.year] ? computeStaffCostsFromLedger(pending) : undefined },
+        ...transitioning.map((p) => {
+          const current = calculateDelayedW2Payment(p, pending.year, ledger)
+          const next = calculateDelayedW2Payment(p, pending.year, pending)
+          return { label: `${p.name} delayed W2 incl. taxes`, current: current.amount + current.taxes, next: next.amount + next.taxes }
+        }),
+      ]
+    : []
+
+  return (
+    <div style={{ border: '1px solid #e5e7eb', borderRadius: 8, padding: 8, background: '#ffffff', marginBottom: 8 }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8, flexWrap: 'wrap', marginBottom: 6 }}>
+        <div style={{ fontWeight: 600, flex: 1 }}>Import Payroll</div>
+        <button onClick={() => fileInput.current?.click()} style={buttonStyle}>Choose workbook…</button>
+        <input ref={fileInput} type="file" accept=".xlsx,.xls" onChange={importFile} style={{ display: 'none' }} />
+      </div>
+      <div style={{ fontSize: 12, color: '#6b7280' }}>
+        {ledger.source ? (
+          <>
+            Using payroll imported from {ledger.source.fileName} on {new Date(ledger.source.importedAt).toLocaleString()} ({describeMonths(ledger)}).{' '}
+            <button onClick={() => { if (confirm('Go back to the built-in payroll ledger? The imported pay runs will be discarded.')) onReset() }} style={buttonStyle}>Revert to built-in</button>
+          </>
+        ) : (
+          `Using the built-in payroll ledger (${describeMonths(ledger)}), a hand-typed fallback. Import a Payroll Entry Worksheets workbook to refresh delayed W2 payments and staff costs; staff health premiums come from the staff roster.`
+        )}
+      </div>
+      {message && (
+        <div style={{ marginTop: 6, fontSize: 12, color: message.error ? '#b91c1c' : '#15803d' }}>{message.text}</div>
+      )}
+      {pending && (
+        <div style={{ marginTop: 8 }}>
+          <div style={{ fontSize: 13 }}>
+            {pending.entries.length} payroll lines covering {describeMonths(pending)}.
+          </div>
+          {worksheetPhysicians.length > 0 && (
+            <div style={{ display: 'flex', alignItems: 'center', gap: 12, flexWrap: 'wrap', marginTop: 6, fontSize: 13 }}>
+              {worksheetPhysicians.map((employee) => (
+                <label key={employee} style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+                  {employee} is
+                  <select value={pending.physicianNames[employee] ?? ''} onChange={(e) => setPhysicianName(employee, e.target.value)} style={{ fontSize: 13, padding: '2px 4px' }}>
+                    <option value="">not on the roster</option>
+                    {physicians.map((p) => <option key={p.id} value={p.name}>{p.name}</option>)}
+                  </select>
+                </label>
+              ))}
+            </div>
+          )}
+          <table style={{ marginTop: 8, borderCollapse: 'collapse', width: '100%', fontVariantNumeric: 'tabular-nums' }}>
+            <thead>
+              <tr style={{ textAlign: 'left', fontSize: 12, color: '#6b7280' }}>
+                <th>Value</th>
+                <th style={{ textAlign: 'right' }}>Current</th>
+                <th style={{ textAlign: 'right' }}>From payroll</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr key={row.label}>
+                  <td style={cellStyle}>{row.label}</td>
+                  <td style={{ ...cellStyle, textAlign: 'right' }}>{row.current === undefined ? '—' : currency(row.current)}</td>
+                  <td style={{ ...cellStyle, textAlign: 'right' }}>{row.next === undefined ? '—' : currency(row.next)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginTop: 8 }}>
+            <div style={{ flex: 1, fontSize: 12, color: '#6b7280' }}>
+              Staff costs are scaled from the pay runs on file to the full year, plus full-time health premiums.
+            </div>
+            <button onClick={() => setPending(null)} style={buttonStyle}>Cancel</button>
+            <button onClick={apply} style={buttonStyle}>Apply</button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,94 @@
+import { useState } from 'react'
+import type { PayrollTaxRule, PayrollTaxTables } from '../lib/types'
+import { getSocialSecurityWageBase, payrollTaxRulesFor, payrollTaxTableYear } from '../lib/payrollTaxes'
+
+interface PayrollTaxTableEditorProps {
+  years: number[] // Baseline and projected years, oldest first
+  tables: PayrollTaxTables | undefined
+  onChange: (year: number, rules: PayrollTaxRule[] | undefined) => void // undefined drops the year's table
+}
+
+type WageBaseKind = 'none' | 'socialSecurity' | 'amount'
+
+const inputStyle = { fontSize: 12, padding: '1px 4px', border: '1px solid #d1d5db', borderRadius: 3, minWidth: 0 }
+const buttonStyle = { border: '1px solid #d1d5db', borderRadius: 4, background: 'white', padding: '1px 6px', cursor: 'pointer', fontSize: 11, color: '#6b7280' }
+const columns = '1.2fr 1.2fr 60px 150px 60px 24px'
+
+// Helper: which kind of wage base a rule has
+function wageBaseKind(rule: PayrollTaxRule): WageBaseKind {
+  if (rule.wageBase === 'socialSecurity') return 'socialSecurity'
+  return rule.wageBase === undefined ? 'none' : 'amount'
+}
+
+// Employer payroll tax rules, one table per year that changes them
+export function PayrollTaxTableEditor({ years, tables, onChange }: PayrollTaxTableEditorProps) {
+  const [selected, setSelected] = useState(years[0])
+  const year = years.includes(selected) ? selected : years[0]
+  const rules = payrollTaxRulesFor(tables, year)
+  const tableYear = payrollTaxTableYear(tables, year)
+  const source = tableYear === undefined ? 'Built-in Washington State rules' : tableYear === year ? `Rules set for ${year}` : `Carried on from the ${tableYear} table`
+
+  const update = (index: number, change: Partial<PayrollTaxRule>) =>
+    onChange(year, rules.map((rule, i) => (i === index ? { ...rule, ...change } : rule)))
+
+  const setWageBaseKind = (index: number, kind: WageBaseKind) => {
+    const next = { ...rules[index] }
+    if (kind === 'none') delete next.wageBase
+    else next.wageBase = kind === 'socialSecurity' ? 'socialSecurity' : getSocialSecurityWageBase(year)
+    onChange(year, rules.map((rule, i) => (i === index ? next : rule)))
+  }
+
+  return (
+    <div style={{ padding: 8, backgroundColor: '#ffffff', borderRadius: 8, border: '1px solid #e5e7eb' }}>
+      <div style={{ fontSize: 12, color: '#6b7280', marginBottom: 6 }}>
+        Employer taxes on W2 wages for staff and employed physicians. Edit a year to start a new table; it stays in force until a later one.
+      </div>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: 12, marginBottom: 6 }}>
+        <select value={year} onChange={(e) => setSelected(Number(e.target.value))} style={{ fontSize: 12 }}>
+          {years.map((y) => <option key={y} value={y}>{y}</option>)}
+        </select>
+        <span style={{ color: '#6b7280', flex: 1 }}>{source}</span>
+        {tableYear === year && <button onClick={() => onChange(year, undefined)} style={buttonStyle}>Use earlier rules</button>}
+      </div>
+      <div style={{ overflowX: 'auto' }}>
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 3, minWidth: 520 }}>
+          <div style={{ display: 'grid', gridTemplateColumns: columns, gap: 4, fontSize: 11, color: '#6b7280' }}>
+            <span>Tax</span>
+            <span>Jurisdiction</span>
+            <span>Rate %</span>
+            <span>Wage base</span>
+            <span title="Part of the rate the practice pays">Employer %</span>
+            <span />
+          </div>
+          {rules.map((rule, index) => (
+            <div key={rule.id} style={{ display: 'grid', gridTemplateColumns: columns, gap: 4, alignItems: 'center' }}>
+              <input type="text" value={rule.name} onChange={(e) => update(index, { name: e.target.value })} style={inputStyle} />
+              <input type="text" value={rule.jurisdiction} onChange={(e) => update(index, { jurisdiction: e.target.value })} style={inputStyle} />
+              <input type="number" step={0.001} value={rule.rate} onChange={(e) => update(index, { rate: Number(e.target.value) })} style={{ ...inputStyle, textAlign: 'right' }} />
+              <div style={{ display: 'flex', gap: 3 }}>
+                <select value={wageBaseKind(rule)} onChange={(e) => setWageBaseKind(index, e.target.value as WageBaseKind)} style={{ fontSize: 11, minWidth: 0 }}>
+                  <option value="none">All wages</option>
+                  <option value="socialSecurity">SS base</option>
+                  <option value="amount">First $</option>
+                </select>
+                {typeof rule.wageBase === 'number' && (
+                  <input type="number" value={rule.wageBase} onChange={(e) => update(index, { wageBase: Number(e.target.value) })} style={{ ...inputStyle, width: 64, textAlign: 'right' }} />
+                )}
+              </div>
+              <input type="number" min={0} max={100} value={rule.employerSharePct} onChange={(e) => update(index, { employerSharePct: Number(e.target.value) })} style={{ ...inputStyle, textAlign: 'right' }} />
+              <button onClick={() => onChange(year, rules.filter((_, i) => i !== index))} style={buttonStyle}>✕</button>
+            </div>
+          ))}
+          <div>
+            <button
+              onClick={() => onChange(year, [...rules, { id: `tax-${Date.now().toString(36)}`, name: '', jurisdiction: 'Washington State', rate: 0, employerSharePct: 100 }])}
+              style={buttonStyle}
+            >
+              + Tax
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
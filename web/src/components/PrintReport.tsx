@@ -0,0 +1,138 @@
+import type { ReactNode } from 'react'
+import type { DataMode } from '../lib/types'
+import type { ExportTable } from '../lib/summaryExport'
+import type { DiffFormat, DiffValue, ScenarioDiffRow } from '../lib/scenarioDiff'
+import { currency } from '../lib/format'
+
+interface PrintReportProps {
+  generatedAt: Date
+  scenarios: { name: string; color: string; dataMode: DataMode }[]
+  notes: string[] // Where the actuals and payroll figures came from
+  chart: ReactNode
+  assumptions: ExportTable
+  parameters: ExportTable[] // Core values and roster per scenario
+  compensation: ExportTable
+  diffs: { name: string; rows: ScenarioDiffRow[] }[] // Each compared scenario against the first
+  onClose: () => void
+}
+
+const buttonStyle = { border: '1px solid #ccc', borderRadius: 6, padding: '6px 10px', background: '#fff', cursor: 'pointer' }
+
+// Helper to show a diff value the way the dashboard would
+function formatDiffValue(value: DiffValue, format: DiffFormat): string {
+  if (value === undefined) return '—'
+  if (typeof value === 'number' && format === 'currency') return currency(value)
+  if (typeof value === 'number' && format === 'percent') return `${value}%`
+  return String(value)
+}
+
+function ReportTable({ table }: { table: ExportTable }) {
+  const [header, ...body] = table.rows
+  const money = new Set(table.moneyColumns ?? [])
+  return (
+    <table className="print-table">
+      <thead>
+        <tr>
+          {header.map((cell, i) => <th key={i} className={i > 0 && typeof cell === 'number' ? 'number' : undefined}>{cell}</th>)}
+        </tr>
+      </thead>
+      <tbody>
+        {body.map((row, r) => (
+          <tr key={r}>
+            {row.map((cell, c) => (
+              <td key={c} className={typeof cell === 'number' ? 'number' : undefined}>
+                {cell === null ? '' : typeof cell === 'number' && money.has(c) ? currency(cell) : cell}
+              </td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+}
+
+// Print-optimized report for partner meetings; the browser's print dialog saves it as PDF
+export function PrintReport({ generatedAt, scenarios, notes, chart, assumptions, parameters, compensation, diffs, onClose }: PrintReportProps) {
+  return (
+    <div className="print-report">
+      <div className="print-toolbar" style={{ display: 'flex', justifyContent: 'flex-end', gap: 8, padding: '12px 0', position: 'sticky', top: 0, background: '#fff', zIndex: 10 }}>
+        <span style={{ flex: 1, fontSize: 13, color: '#6b7280', alignSelf: 'center' }}>Choose "Save as PDF" in the print dialog to keep a copy.</span>
+        <button onClick={() => window.print()} style={buttonStyle}>Print / Save as PDF</button>
+        <button onClick={onClose} style={buttonStyle}>Back to dashboard</button>
+      </div>
+
+      <section className="print-page" style={{ minHeight: '9in', display: 'flex', flexDirection: 'column', justifyContent: 'center' }}>
+        <div style={{ fontSize: 28, fontWeight: 700 }}>RadiantCare Compensation Report</div>
+        <div style={{ marginTop: 8, fontSize: 16, color: '#4b5563' }}>
+          {generatedAt.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })}
+        </div>
+        <table className="print-table" style={{ marginTop: 32, fontSize: 14, width: 'auto' }}>
+          <thead>
+            <tr><th>Scenario</th><th>Baseline data</th></tr>
+          </thead>
+          <tbody>
+            {scenarios.map((sc) => (
+              <tr key={sc.name}>
+                <td><span style={{ display: 'inline-block', width: 10, height: 10, borderRadius: 2, background: sc.color, marginRight: 8 }} />{sc.name}</td>
+                <td>{sc.dataMode}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {notes.length > 0 && (
+          <div style={{ marginTop: 24, fontSize: 12, color: '#6b7280' }}>
+            {notes.map((note) => <div key={note}>{note}</div>)}
+          </div>
+        )}
+      </section>
+
+      <section className="print-page">
+        <h2 style={{ fontSize: 18 }}>Historic and Projected Performance</h2>
+        <div className="print-keep-together">{chart}</div>
+        <h2 style={{ fontSize: 18, marginTop: 16 }}>Projection Settings</h2>
+        <ReportTable table={assumptions} />
+      </section>
+
+      <section className="print-page">
+        <h2 style={{ fontSize: 18 }}>{compensation.title}</h2>
+        <ReportTable table={compensation} />
+      </section>
+
+      {parameters.map((table) => (
+        <section key={table.title} className="print-page">
+          <h2 style={{ fontSize: 18 }}>{table.title}</h2>
+          <ReportTable table={table} />
+        </section>
+      ))}
+
+      <section className="print-page">
+        <h2 style={{ fontSize: 18 }}>Scenario Differences</h2>
+        {diffs.length === 0 && <div style={{ fontSize: 13, color: '#6b7280' }}>Only one scenario is being compared.</div>}
+        {diffs.map((diff) => (
+          <div key={diff.name} style={{ marginBottom: 16 }}>
+            <h3 style={{ fontSize: 15 }}>{diff.name} vs {scenarios[0]?.name}</h3>
+            {diff.rows.length === 0 ? (
+              <div style={{ fontSize: 13, color: '#6b7280' }}>No differences.</div>
+            ) : (
+              <table className="print-table">
+                <thead>
+                  <tr><th>Section</th><th>Setting</th><th className="number">{scenarios[0]?.name}</th><th className="number">{diff.name}</th></tr>
+                </thead>
+                <tbody>
+                  {diff.rows.map((row, i) => (
+                    <tr key={i}>
+                      <td>{row.section}</td>
+                      <td>{row.label.charAt(0).toUpperCase() + row.label.slice(1)}</td>
+                      <td className="number">{formatDiffValue(row.base, row.format)}</td>
+                      <td className="number">{formatDiffValue(row.other, row.format)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        ))}
+      </section>
+    </div>
+  )
+}
@@ -0,0 +1,99 @@
+import { useState } from 'react'
+import type { RetirementLimits, RetirementPlans } from '../lib/types'
+import { DEFAULT_RETIREMENT_PLANS, getRetirementLimits, withRetirementLimits } from '../lib/retirement'
+
+interface RetirementPlansEditorProps {
+  years: number[] // Baseline and projected years, oldest first
+  partnerNames: string[] // Partners in any of those years, for the cash balance credits
+  plans: RetirementPlans | undefined // Undefined until the practice's plans are set up
+  onChange: (plans: RetirementPlans | undefined) => void // undefined removes the plans
+}
+
+const inputStyle = { fontSize: 12, padding: '1px 4px', border: '1px solid #d1d5db', borderRadius: 3, minWidth: 0, textAlign: 'right' as const }
+const buttonStyle = { border: '1px solid #d1d5db', borderRadius: 4, background: 'white', padding: '1px 6px', cursor: 'pointer', fontSize: 11, color: '#6b7280' }
+
+const LIMIT_FIELDS: { field: keyof RetirementLimits; label: string; title: string }[] = [
+  { field: 'compensationLimit', label: 'Compensation', title: 'Pay a contribution can be figured on, 401(a)(17)' },
+  { field: 'annualAdditionsLimit', label: 'Annual additions', title: 'Deferrals plus employer contributions per person, 415(c)' },
+  { field: 'deferralLimit', label: 'Deferrals', title: 'Employee 401(k) deferrals, 402(g)' },
+]
+
+// Safe-harbor match, partner profit sharing and cash balance credits, with the IRS limits by year
+export function RetirementPlansEditor({ years, partnerNames, plans, onChange }: RetirementPlansEditorProps) {
+  const [selected, setSelected] = useState(years[0])
+  const year = years.includes(selected) ? selected : years[0]
+
+  if (!plans) {
+    return (
+      <div style={{ display: 'flex', alignItems: 'center', gap: 6, padding: 8, backgroundColor: '#ffffff', borderRadius: 8, border: '1px solid #e5e7eb', fontSize: 12, color: '#6b7280' }}>
+        <span style={{ flex: 1 }}>No employer retirement contributions are modeled.</span>
+        <button onClick={() => onChange(DEFAULT_RETIREMENT_PLANS)} style={buttonStyle}>Set up plans</button>
+      </div>
+    )
+  }
+
+  const limits = getRetirementLimits(plans, year)
+  const overridden = plans.limits?.[year] !== undefined
+
+  const setCredit = (name: string, value: string) => {
+    const credits = { ...plans.cashBalanceCredits }
+    if (value === '') delete credits[name]
+    else credits[name] = Number(value)
+    onChange({ ...plans, cashBalanceCredits: credits })
+  }
+
+  return (
+    <div style={{ padding: 8, backgroundColor: '#ffffff', borderRadius: 8, border: '1px solid #e5e7eb', fontSize: 12 }}>
+      <div style={{ color: '#6b7280', marginBottom: 6 }}>
+        The match on W2 pay for employed physicians and rostered staff is a practice cost. Partner contributions come off the pool before the FTE split.
+      </div>
+      <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 12, marginBottom: 8 }}>
+        <label title="Employer match as a percent of W2 pay; 4% for the basic safe-harbor formula">
+          Safe-harbor match{' '}
+          <input type="number" step={0.5} value={plans.safeHarborMatchPct} onChange={(e) => onChange({ ...plans, safeHarborMatchPct: Number(e.target.value) })} style={{ ...inputStyle, width: 48 }} />
+          %
+        </label>
+        <label title="Percent of each partner's compensation, within what the annual additions limit leaves after their deferrals">
+          Partner profit sharing{' '}
+          <input type="number" step={0.5} value={plans.profitSharingPct} onChange={(e) => onChange({ ...plans, profitSharingPct: Number(e.target.value) })} style={{ ...inputStyle, width: 48 }} />
+          %
+        </label>
+      </div>
+
+      <div style={{ color: '#374151', fontWeight: 600, marginBottom: 4 }}>Cash balance pay credits</div>
+      <div style={{ display: 'grid', gridTemplateColumns: 'auto 96px', justifyContent: 'start', columnGap: 8, rowGap: 3, alignItems: 'center', marginBottom: 8 }}>
+        {partnerNames.map((name) => (
+          <div key={name} style={{ display: 'contents' }}>
+            <span>{name}</span>
+            <input type="number" step={1000} value={plans.cashBalanceCredits[name] ?? ''} placeholder="Not in plan" onChange={(e) => setCredit(name, e.target.value)} style={inputStyle} />
+          </div>
+        ))}
+      </div>
+
+      <div style={{ display: 'flex', alignItems: 'center', gap: 6, marginBottom: 4 }}>
+        <span style={{ color: '#374151', fontWeight: 600 }}>IRS limits</span>
+        <select value={year} onChange={(e) => setSelected(Number(e.target.value))} style={{ fontSize: 12 }}>
+          {years.map((y) => <option key={y} value={y}>{y}</option>)}
+        </select>
+        <span style={{ color: '#6b7280', flex: 1 }}>{overridden ? `Set for ${year}` : 'Published or grown at 3% a year'}</span>
+        {overridden && <button onClick={() => onChange(withRetirementLimits(plans, year, undefined))} style={buttonStyle}>Use default limits</button>}
+      </div>
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: 12, marginBottom: 8 }}>
+        {LIMIT_FIELDS.map(({ field, label, title }) => (
+          <label key={field} title={title}>
+            {label}{' '}
+            <input
+              type="number"
+              step={500}
+              value={limits[field]}
+              onChange={(e) => onChange(withRetirementLimits(plans, year, { ...limits, [field]: Number(e.target.value) }))}
+              style={{ ...inputStyle, width: 80 }}
+            />
+          </label>
+        ))}
+      </div>
+
+      <button onClick={() => onChange(undefined)} style={buttonStyle}>Remove plans</button>
+    </div>
+  )
+}
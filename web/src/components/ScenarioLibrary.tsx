@@ -0,0 +1,109 @@
+import { useRef, useState } from 'react'
+import type { ChangeEvent } from 'react'
+import { parseScenarioFile, serializeScenarioFile } from '../lib/library'
+import type { SavedScenario } from '../lib/library'
+import { downloadBlob, toFileSlug } from '../lib/download'
+
+interface ScenarioLibraryProps {
+  entries: SavedScenario[]
+  defaultName: string
+  onSave: (name: string, description: string) => void
+  onLoad: (id: string) => void
+  onRemove: (id: string) => void
+  onImport: (entry: SavedScenario) => void
+}
+
+const buttonStyle = { border: '1px solid #ccc', borderRadius: 4, background: 'white', padding: '2px 8px', cursor: 'pointer', fontSize: 12 }
+const inputStyle = { padding: '4px 6px', border: '1px solid #ccc', borderRadius: 4, fontSize: 13 }
+
+// Saved scenario sets kept in this browser, plus JSON file export/import for sharing
+export function ScenarioLibrary({ entries, defaultName, onSave, onLoad, onRemove, onImport }: ScenarioLibraryProps) {
+  const [name, setName] = useState('')
+  const [description, setDescription] = useState('')
+  const [message, setMessage] = useState<null | { text: string; error: boolean }>(null)
+  const fileInput = useRef<HTMLInputElement>(null)
+
+  const save = () => {
+    const finalName = name.trim() || defaultName
+    onSave(finalName, description.trim())
+    setName('')
+    setDescription('')
+    setMessage({ text: `Saved "${finalName}"`, error: false })
+  }
+
+  const exportEntry = (entry: SavedScenario) => {
+    const date = entry.savedAt.slice(0, 10)
+    downloadBlob(`${toFileSlug(entry.name)}-${date}.radiantcare.json`, new Blob([serializeScenarioFile(entry)], { type: 'application/json' }))
+  }
+
+  const importFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = '' // allow re-importing the same file
+    if (!file) return
+    try {
+      const entry = parseScenarioFile(await file.text())
+      onImport(entry)
+      setMessage({ text: `Imported "${entry.name}"`, error: false })
+    } catch (err) {
+      setMessage({ text: `Could not import ${file.name}: ${err instanceof Error ? err.message : String(err)}`, error: true })
+    }
+  }
+
+  return (
+    <div style={{ border: '1px solid #e5e7eb', borderRadius: 8, padding: 8, background: '#ffffff', marginBottom: 8 }}>
+      <div style={{ fontWeight: 600, marginBottom: 6 }}>Scenario Library</div>
+      <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', alignItems: 'center' }}>
+        <input
+          type="text"
+          value={name}
+          placeholder={defaultName}
+          onChange={(e) => setName(e.target.value)}
+          style={{ ...inputStyle, flex: '1 1 160px' }}
+          aria-label="Saved scenario name"
+        />
+        <input
+          type="text"
+          value={description}
+          placeholder="Description (optional)"
+          onChange={(e) => setDescription(e.target.value)}
+          style={{ ...inputStyle, flex: '2 1 240px' }}
+          aria-label="Saved scenario description"
+        />
+        <button onClick={save} style={buttonStyle}>Save current</button>
+        <button onClick={() => fileInput.current?.click()} style={buttonStyle}>Import file…</button>
+        <input ref={fileInput} type="file" accept=".json,application/json" onChange={importFile} style={{ display: 'none' }} />
+      </div>
+      {message && (
+        <div style={{ marginTop: 6, fontSize: 12, color: message.error ? '#b91c1c' : '#15803d' }}>{message.text}</div>
+      )}
+      {entries.length === 0 ? (
+        <div style={{ marginTop: 8, fontSize: 13, color: '#6b7280' }}>No saved scenarios yet.</div>
+      ) : (
+        <div style={{ marginTop: 8, display: 'flex', flexDirection: 'column', gap: 4 }}>
+          {entries.map((entry) => {
+            const scenarioNames = entry.snapshot.scenarioOrder.map((id) => entry.snapshot.scenarios[id]?.name).filter(Boolean).join(', ')
+            return (
+              <div key={entry.id} style={{ display: 'flex', alignItems: 'center', gap: 8, flexWrap: 'wrap', borderTop: '1px solid #f0f0f0', paddingTop: 4 }}>
+                <div style={{ flex: '1 1 240px', minWidth: 0 }}>
+                  <div style={{ fontWeight: 500 }}>{entry.name}</div>
+                  <div style={{ fontSize: 12, color: '#6b7280' }}>
+                    {new Date(entry.savedAt).toLocaleString()} · {scenarioNames}
+                    {entry.description ? ` · ${entry.description}` : ''}
+                  </div>
+                </div>
+                <button
+                  onClick={() => { if (confirm(`Load "${entry.name}"? This replaces the scenarios currently on screen.`)) onLoad(entry.id) }}
+                  style={buttonStyle}
+                >
+                  Load
+                </button>
+                <button onClick={() => exportEntry(entry)} style={buttonStyle}>Export</button>
+                <button onClick={() => { if (confirm(`Remove "${entry.name}" from the library?`)) onRemove(entry.id) }} style={buttonStyle}>Remove</button>
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,84 @@
+import { useState } from 'react'
+import type { ScenarioKey, ScenarioPreset, ScenarioState } from '../lib/types'
+
+interface ScenarioManagerProps {
+  scenarios: Record<ScenarioKey, ScenarioState>
+  order: ScenarioKey[]
+  selectedIds: ScenarioKey[]
+  onCreate: (preset: ScenarioPreset) => void
+  onDuplicate: (id: ScenarioKey) => void
+  onRename: (id: ScenarioKey, name: string) => void
+  onDelete: (id: ScenarioKey) => void
+  onColorChange: (id: ScenarioKey, color: string) => void
+  onSelectedChange: (id: ScenarioKey, selected: boolean) => void
+}
+
+const PRESET_LABELS: Record<ScenarioPreset, string> = {
+  A: 'Current plan defaults',
+  B: 'Alternate plan defaults',
+}
+
+const buttonStyle = { border: '1px solid #ccc', borderRadius: 4, background: 'white', padding: '2px 8px', cursor: 'pointer', fontSize: 12 }
+
+// List of all scenarios with controls to compare, rename, recolor, duplicate and delete them
+export function ScenarioManager({ scenarios, order, selectedIds, onCreate, onDuplicate, onRename, onDelete, onColorChange, onSelectedChange }: ScenarioManagerProps) {
+  const [preset, setPreset] = useState<ScenarioPreset>('B')
+  const onlyOne = order.length <= 1
+
+  return (
+    <div style={{ border: '1px solid #e5e7eb', borderRadius: 8, padding: 8, background: '#ffffff', marginBottom: 8 }}>
+      <div style={{ fontWeight: 600, marginBottom: 6 }}>Scenarios</div>
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+        {order.map((id) => {
+          const sc = scenarios[id]
+          if (!sc) return null
+          const selected = selectedIds.includes(id)
+          return (
+            <div key={id} style={{ display: 'flex', alignItems: 'center', gap: 8, flexWrap: 'wrap' }}>
+              <input
+                type="checkbox"
+                checked={selected}
+                disabled={selected && selectedIds.length <= 1}
+                onChange={(e) => onSelectedChange(id, e.target.checked)}
+                title={selected ? 'Remove from comparison' : 'Add to comparison'}
+              />
+              <input
+                type="color"
+                value={sc.color}
+                onChange={(e) => onColorChange(id, e.target.value)}
+                style={{ width: 28, height: 22, padding: 0, border: '1px solid #ccc', borderRadius: 4, background: 'white', cursor: 'pointer' }}
+                title="Scenario color"
+              />
+              <input
+                type="text"
+                value={sc.name}
+                onChange={(e) => onRename(id, e.target.value)}
+                onBlur={(e) => { if (!e.target.value.trim()) onRename(id, 'Untitled scenario') }}
+                style={{ flex: '1 1 160px', minWidth: 120, padding: '2px 6px', border: '1px solid #ccc', borderRadius: 4, fontSize: 13 }}
+                aria-label="Scenario name"
+              />
+              <button onClick={() => onDuplicate(id)} style={buttonStyle} title="Duplicate scenario">Duplicate</button>
+              <button
+                onClick={() => { if (confirm(`Delete "${sc.name}"?`)) onDelete(id) }}
+                disabled={onlyOne}
+                style={{ ...buttonStyle, cursor: onlyOne ? 'not-allowed' : 'pointer', opacity: onlyOne ? 0.5 : 1 }}
+                title={onlyOne ? 'At least one scenario is required' : 'Delete scenario'}
+              >
+                Delete
+              </button>
+            </div>
+          )
+        })}
+      </div>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginTop: 8, fontSize: 13 }}>
+        <span>New scenario from</span>
+        <select value={preset} onChange={(e) => setPreset(e.target.value as ScenarioPreset)} style={{ fontSize: 13, padding: '2px 4px' }}>
+          {(Object.keys(PRESET_LABELS) as ScenarioPreset[]).map((key) => (
+            <option key={key} value={key}>{PRESET_LABELS[key]}</option>
+          ))}
+        </select>
+        <button onClick={() => onCreate(preset)} style={buttonStyle}>+ Add</button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,106 @@
+import Plot from 'react-plotly.js'
+import type { SensitivityResult, SensitivityTarget } from '../lib/sensitivity'
+import { currency, currencyShort } from '../lib/format'
+
+interface SensitivityPanelProps {
+  year: number
+  result: SensitivityResult
+  target: SensitivityTarget
+  physicianNames: string[] // Physicians on the roster in this year
+  shockPct: number
+  note?: string // Shown under the chart, e.g. when baseline actuals pin the pool
+  onTargetChange: (target: SensitivityTarget) => void
+  onShockChange: (shockPct: number) => void
+}
+
+// Only the largest swings are drawn; drivers that move the target by less than a dollar are left off
+const MAX_BARS = 15
+
+// Tornado chart: how much each assumption moves a year's comp when shocked up and down
+export function SensitivityPanel({ year, result, target, physicianNames, shockPct, note, onTargetChange, onShockChange }: SensitivityPanelProps) {
+  const drivers = result.drivers
+    .filter((d) => Math.abs(d.low) >= 1 || Math.abs(d.high) >= 1)
+    .slice(0, MAX_BARS)
+  // Plotly draws the first category at the bottom; the largest swing belongs on top
+  const labels = drivers.map((d) => d.label).reverse()
+  const lows = drivers.map((d) => d.low).reverse()
+  const highs = drivers.map((d) => d.high).reverse()
+  const targetLabel = target.kind === 'pool' ? 'Partner pool' : target.name
+  const subject = target.kind === 'pool' ? 'the partner pool' : `${target.name}'s comp`
+
+  return (
+    <div style={{ border: '1px solid #e5e7eb', borderRadius: 6, padding: 8, background: '#fff', fontSize: 12, color: '#374151' }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 12, flexWrap: 'wrap' }}>
+        <span style={{ fontWeight: 700, fontSize: 14 }}>Sensitivity ({year})</span>
+        <label style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+          Measure
+          <select
+            value={target.kind === 'pool' ? '' : target.name}
+            onChange={(e) => onTargetChange(e.target.value ? { kind: 'physician', name: e.target.value } : { kind: 'pool' })}
+            style={{ fontSize: 12 }}
+          >
+            <option value="">Partner pool (all partner comp)</option>
+            {physicianNames.map((name) => <option key={name} value={name}>{name}</option>)}
+          </select>
+        </label>
+        <label style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+          Shock ±
+          <input
+            type="number"
+            min={1}
+            max={100}
+            step={1}
+            value={shockPct}
+            onChange={(e) => onShockChange(Math.min(100, Math.max(1, Number(e.target.value) || 0)))}
+            style={{ width: 56, fontSize: 12, padding: '1px 4px' }}
+          />
+          %
+        </label>
+        <span style={{ color: '#6b7280' }}>{targetLabel}: {currency(result.base)}</span>
+      </div>
+      {drivers.length === 0 ? (
+        <div style={{ padding: '12px 0', color: '#6b7280' }}>None of the drivers change {subject} in {year}.</div>
+      ) : (
+        <Plot
+          data={[
+            {
+              type: 'bar',
+              orientation: 'h',
+              name: `-${shockPct}%`,
+              y: labels,
+              x: lows,
+              marker: { color: '#ef4444' },
+              hovertemplate: `%{y} -${shockPct}%: %{x:$,.0f}<extra></extra>`,
+            },
+            {
+              type: 'bar',
+              orientation: 'h',
+              name: `+${shockPct}%`,
+              y: labels,
+              x: highs,
+              marker: { color: '#3b82f6' },
+              hovertemplate: `%{y} +${shockPct}%: %{x:$,.0f}<extra></extra>`,
+            },
+          ]}
+          layout={{
+            barmode: 'overlay',
+            height: 80 + drivers.length * 24,
+            margin: { l: 200, r: 20, t: 10, b: 30 },
+            xaxis: { tickformat: '$,.0s', zeroline: true, zerolinecolor: '#374151' },
+            yaxis: { automargin: true },
+            legend: { orientation: 'h', x: 0, y: -0.15 },
+            font: { size: 11 },
+          }}
+          config={{ displayModeBar: false, responsive: true }}
+          useResizeHandler
+          style={{ width: '100%' }}
+        />
+      )}
+      <div style={{ color: '#6b7280' }}>
+        Change in {subject} when each driver moves by ±{shockPct}%, one at a time, largest swing first.
+        {drivers[0] && ` ${drivers[0].label.charAt(0).toUpperCase() + drivers[0].label.slice(1)} matters most (up to ${currencyShort(Math.max(Math.abs(drivers[0].low), Math.abs(drivers[0].high)))}).`}
+        {note && <div>{note}</div>}
+      </div>
+    </div>
+  )
+}
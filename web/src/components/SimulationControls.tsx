@@ -0,0 +1,85 @@
+import { BORROWED_VOLATILITY, DEFAULT_SIMULATION_DRAWS } from '../lib/monteCarlo'
+import type { SimulationSettings } from '../lib/monteCarlo'
+import { GROWTH_FIELD_LABELS } from '../lib/growth'
+import type { GrowthField } from '../lib/types'
+
+interface SimulationControlsProps {
+  settings: SimulationSettings | null // null while simulation is off
+  fittedVolatility: Record<GrowthField, number>
+  historicRange: string // e.g. "2016–2025"
+  runState: 'none' | 'running' | 'current' | 'stale' // Whether the bands on the chart match the settings and scenarios
+  onChange: (settings: SimulationSettings | null) => void
+  onRun: () => void
+}
+
+const inputStyle = { width: 64, fontSize: 12, padding: '1px 4px' }
+const buttonStyle = { border: '1px solid #ccc', borderRadius: 4, background: 'white', padding: '2px 8px', cursor: 'pointer', fontSize: 12 }
+
+// Toggle and tune the Monte Carlo bands on the projection chart
+export function SimulationControls({ settings, fittedVolatility, historicRange, runState, onChange, onRun }: SimulationControlsProps) {
+  const fields = Object.keys(GROWTH_FIELD_LABELS) as GrowthField[]
+  const customized = settings !== null && fields.some((f) => settings.volatility[f] !== fittedVolatility[f])
+
+  return (
+    <div style={{ display: 'flex', alignItems: 'center', gap: 12, flexWrap: 'wrap', fontSize: 12, color: '#374151', padding: '6px 4px 0' }}>
+      <label style={{ display: 'flex', alignItems: 'center', gap: 4, fontWeight: 600 }}>
+        <input
+          type="checkbox"
+          checked={settings !== null}
+          onChange={(e) => onChange(e.target.checked ? { draws: DEFAULT_SIMULATION_DRAWS, volatility: { ...fittedVolatility }, seed: 1 } : null)}
+        />
+        Monte Carlo bands (P10 / P50 / P90)
+      </label>
+      {settings && (
+        <>
+          <label style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+            Draws
+            <input
+              type="number"
+              min={100}
+              max={20000}
+              step={100}
+              value={settings.draws}
+              onChange={(e) => onChange({ ...settings, draws: Math.min(20000, Math.max(100, Math.round(Number(e.target.value) || 0))) })}
+              style={inputStyle}
+            />
+          </label>
+          {fields.map((field) => {
+            const borrowed = BORROWED_VOLATILITY[field]
+            return (
+              <label
+                key={field}
+                style={{ display: 'flex', alignItems: 'center', gap: 4 }}
+                title={`Standard deviation of the yearly growth rate, in percentage points${borrowed ? `. There is no history of its own, so the default is the ${GROWTH_FIELD_LABELS[borrowed].toLowerCase()} volatility.` : ''}`}
+              >
+                {GROWTH_FIELD_LABELS[field]} ±
+                <input
+                  type="number"
+                  min={0}
+                  step={0.1}
+                  value={settings.volatility[field]}
+                  onChange={(e) => onChange({ ...settings, volatility: { ...settings.volatility, [field]: Math.max(0, Number(e.target.value) || 0) } })}
+                  style={inputStyle}
+                />
+                pp
+                {borrowed && settings.volatility[field] === fittedVolatility[field] && (
+                  <span style={{ color: '#6b7280' }}>(from {GROWTH_FIELD_LABELS[borrowed].toLowerCase()})</span>
+                )}
+              </label>
+            )
+          })}
+          <button onClick={onRun} disabled={runState === 'running'} style={{ ...buttonStyle, fontWeight: runState === 'current' ? 400 : 600 }}>
+            {runState === 'running' ? 'Running…' : runState === 'none' ? 'Run' : 'Run again'}
+          </button>
+          {runState === 'stale' && <span style={{ color: '#b45309' }}>Bands are out of date</span>}
+          <button onClick={() => onChange({ ...settings, seed: settings.seed + 1 })} style={buttonStyle} title="Draw a fresh set of random paths on the next run">Reroll</button>
+          {customized ? (
+            <button onClick={() => onChange({ ...settings, volatility: { ...fittedVolatility } })} style={buttonStyle}>Reset to {historicRange} volatility</button>
+          ) : (
+            <span style={{ color: '#6b7280' }}>Volatility fitted from {historicRange} actuals</span>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
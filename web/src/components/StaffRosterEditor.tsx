@@ -0,0 +1,95 @@
+import { useState } from 'react'
+import type { PayrollTaxTables, StaffMember } from '../lib/types'
+import { calculateStaffMemberCost } from '../lib/payroll'
+import { STAFF_ROLES } from '../lib/staff'
+import { currency } from '../lib/format'
+
+interface StaffRosterEditorProps {
+  year: number
+  staff: StaffMember[] | undefined // Undefined while the year's staff costs follow the growth rate
+  benefitGrowthPct: number
+  taxTables: PayrollTaxTables | undefined
+  onEnable: () => void
+  onDisable: () => void
+  onAdd: () => void
+  onChange: (member: StaffMember) => void
+  onRemove: (memberId: string) => void
+}
+
+const inputStyle = { fontSize: 12, padding: '1px 4px', border: '1px solid #d1d5db', borderRadius: 3, minWidth: 0 }
+const buttonStyle = { border: '1px solid #d1d5db', borderRadius: 4, background: 'white', padding: '1px 6px', cursor: 'pointer', fontSize: 11, color: '#6b7280' }
+const columns = '1fr 1.4fr 64px 52px 28px 118px 118px 52px 76px 24px'
+
+// A year's staff roster, each member priced from wages, employer payroll taxes and benefits
+export function StaffRosterEditor({ year, staff, benefitGrowthPct, taxTables, onEnable, onDisable, onAdd, onChange, onRemove }: StaffRosterEditorProps) {
+  const [expanded, setExpanded] = useState(false)
+  const costs = (staff ?? []).map((member) => calculateStaffMemberCost(member, year, benefitGrowthPct, taxTables))
+  const employed = costs.filter((c) => c.total > 0).length
+
+  if (!staff) {
+    return (
+      <div style={{ display: 'flex', alignItems: 'center', gap: 6, marginTop: 6, fontSize: 11, color: '#6b7280' }}>
+        <span style={{ flex: 1 }}>Grows at the staff employment rate.</span>
+        <button onClick={onEnable} style={buttonStyle}>Use a staff roster</button>
+      </div>
+    )
+  }
+
+  return (
+    <div style={{ marginTop: 6 }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: 11, color: '#4b5563' }}>
+        <span style={{ flex: 1 }}>Priced from {employed} staff on the {year} roster; changes carry into later years.</span>
+        <button onClick={() => setExpanded(!expanded)} style={buttonStyle}>
+          {expanded ? 'Hide roster' : 'Staff roster'}
+        </button>
+      </div>
+
+      {expanded && (
+        <div style={{ marginTop: 6, display: 'flex', flexDirection: 'column', gap: 3, fontSize: 12, overflowX: 'auto' }}>
+          <div style={{ display: 'grid', gridTemplateColumns: columns, gap: 4, fontSize: 11, color: '#6b7280', minWidth: 700 }}>
+            <span>Name</span>
+            <span>Role</span>
+            <span>$/hr</span>
+            <span>Hrs/wk</span>
+            <span title="Medical/dental/vision">Ben.</span>
+            <span>Start</span>
+            <span>Last day</span>
+            <span title="Raise going into each following year">Raise %</span>
+            <span style={{ textAlign: 'right' }}>Cost</span>
+            <span />
+          </div>
+          <datalist id="staff-roles">
+            {STAFF_ROLES.map((role) => <option key={role} value={role} />)}
+          </datalist>
+          {staff.map((member, index) => {
+            const cost = costs[index]
+            const update = (change: Partial<StaffMember>) => onChange({ ...member, ...change })
+            return (
+              <div key={member.id} style={{ display: 'grid', gridTemplateColumns: columns, gap: 4, alignItems: 'center', minWidth: 700, opacity: cost.total > 0 ? 1 : 0.5 }}>
+                <input type="text" value={member.name} placeholder="Name" onChange={(e) => update({ name: e.target.value })} style={inputStyle} />
+                <input type="text" list="staff-roles" value={member.role} onChange={(e) => update({ role: e.target.value })} style={inputStyle} />
+                <input type="number" step={0.25} value={member.hourlyRate} onChange={(e) => update({ hourlyRate: Number(e.target.value) })} style={{ ...inputStyle, textAlign: 'right' }} />
+                <input type="number" value={member.hoursPerWeek} onChange={(e) => update({ hoursPerWeek: Number(e.target.value) })} style={{ ...inputStyle, textAlign: 'right' }} />
+                <input type="checkbox" checked={member.receivesBenefits} onChange={(e) => update({ receivesBenefits: e.target.checked })} />
+                <input type="date" value={member.startDate ?? ''} onChange={(e) => update({ startDate: e.target.value || undefined })} style={inputStyle} />
+                <input type="date" value={member.endDate ?? ''} onChange={(e) => update({ endDate: e.target.value || undefined })} style={inputStyle} />
+                <input type="number" step={0.5} value={member.raisePct ?? ''} placeholder="0" onChange={(e) => update({ raisePct: e.target.value === '' ? undefined : Number(e.target.value) })} style={{ ...inputStyle, textAlign: 'right' }} />
+                <span
+                  title={`Wages ${currency(Math.round(cost.wages))} · Taxes ${currency(Math.round(cost.taxes))} · Benefits ${currency(Math.round(cost.benefits))}`}
+                  style={{ textAlign: 'right', color: '#374151' }}
+                >
+                  {currency(Math.round(cost.total))}
+                </span>
+                <button onClick={() => onRemove(member.id)} style={buttonStyle}>✕</button>
+              </div>
+            )
+          })}
+          <div style={{ display: 'flex', gap: 6, marginTop: 2 }}>
+            <button onClick={onAdd} style={buttonStyle}>+ Staff member</button>
+            <button onClick={onDisable} style={{ ...buttonStyle, marginLeft: 'auto' }}>Use the growth rate instead</button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,78 @@
+import { useState } from 'react'
+import { YEAR_END_FIELD_LABELS } from '../lib/yearEnd'
+import type { YearEndField, YearEndFigures } from '../lib/yearEnd'
+import { currency } from '../lib/format'
+
+interface YearEndCloseProps {
+  year: number
+  initial: YearEndFigures
+  closedYears: number
+  onClose: (figures: YearEndFigures) => void
+  onReset: () => void
+}
+
+const buttonStyle = { border: '1px solid #ccc', borderRadius: 4, background: 'white', padding: '2px 8px', cursor: 'pointer', fontSize: 12 }
+const cellStyle = { padding: '2px 6px', borderTop: '1px solid #f0f0f0', fontSize: 13 }
+
+// Enter the final figures for the baseline year and close it, moving the baseline on a year
+export function YearEndClose({ year, initial, closedYears, onClose, onReset }: YearEndCloseProps) {
+  const [figures, setFigures] = useState<YearEndFigures>(initial)
+  const invalid = (Object.keys(figures) as YearEndField[]).filter((field) => !Number.isFinite(figures[field]))
+
+  const close = () => {
+    if (invalid.length > 0) return
+    if (!confirm(`Close ${year}? Its figures become actuals, ${year + 1} becomes the baseline, every scenario is re-based on it and the undo history is cleared.`)) return
+    onClose(figures)
+  }
+
+  return (
+    <div style={{ border: '1px solid #e5e7eb', borderRadius: 8, padding: 8, background: '#ffffff', marginBottom: 8 }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8, flexWrap: 'wrap', marginBottom: 6 }}>
+        <div style={{ fontWeight: 600, flex: 1 }}>Close {year}</div>
+        <button onClick={() => setFigures(initial)} style={buttonStyle}>Reset form</button>
+      </div>
+      <div style={{ fontSize: 12, color: '#6b7280' }}>
+        Prefilled with the {year} figures the dashboard is using now. Replace them with the final numbers from the books.
+        {closedYears > 0 && (
+          <>
+            {' '}{closedYears} year{closedYears === 1 ? ' has' : 's have'} been closed here.{' '}
+            <button onClick={() => { if (confirm('Go back to the built-in actuals? Closed years and imported values will be discarded.')) onReset() }} style={buttonStyle}>Revert to built-in</button>
+          </>
+        )}
+      </div>
+      <table style={{ marginTop: 8, borderCollapse: 'collapse', width: '100%', fontVariantNumeric: 'tabular-nums' }}>
+        <thead>
+          <tr style={{ textAlign: 'left', fontSize: 12, color: '#6b7280' }}>
+            <th>Value</th>
+            <th style={{ textAlign: 'right' }}>Current</th>
+            <th style={{ textAlign: 'right' }}>Final</th>
+          </tr>
+        </thead>
+        <tbody>
+          {(Object.keys(YEAR_END_FIELD_LABELS) as YearEndField[]).map((field) => (
+            <tr key={field}>
+              <td style={cellStyle}>{YEAR_END_FIELD_LABELS[field]}</td>
+              <td style={{ ...cellStyle, textAlign: 'right', color: '#6b7280' }}>{currency(initial[field])}</td>
+              <td style={{ ...cellStyle, textAlign: 'right' }}>
+                <input
+                  type="number"
+                  value={Number.isFinite(figures[field]) ? figures[field] : ''}
+                  onChange={(e) => setFigures((prev) => ({ ...prev, [field]: e.target.value === '' ? NaN : Number(e.target.value) }))}
+                  style={{ width: 130, fontSize: 13, padding: '1px 4px', textAlign: 'right', borderColor: invalid.includes(field) ? '#b91c1c' : undefined }}
+                />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginTop: 8 }}>
+        <div style={{ flex: 1, fontSize: 12, color: '#6b7280' }}>
+          {year} is added to the historic actuals and {year + 1} becomes each scenario's editable baseline.
+        </div>
+        <button onClick={close} disabled={invalid.length > 0} style={{ ...buttonStyle, opacity: invalid.length > 0 ? 0.5 : 1 }}>
+          Close {year}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,261 @@
+import { read, utils } from 'xlsx'
+import type { HistoricField, YearRow } from './types'
+import type { BaselineDetail } from './defaults'
+import { actualEmploymentCosts } from './defaults'
+import { DETAIL_OVERRIDE_FIELDS, clearDetailOverrides } from './historic'
+
+// Where an imported account line lands in the model
+export type BudgetField =
+  | 'therapyIncome'
+  | 'medicalDirectorIncome' // Kept out of therapy income; not imported on its own
+  | 'nonEmploymentCosts'
+  | 'physicianPayroll' // W2 physician salaries, benefits and taxes; part of employeePayroll
+  | 'nonMdEmploymentCosts'
+  | 'miscEmploymentCosts'
+  | 'locumCosts'
+  | 'ignore'
+
+export const BUDGET_FIELD_LABELS: Record<BudgetField, string> = {
+  therapyIncome: 'Therapy income',
+  medicalDirectorIncome: 'Medical director income (excluded)',
+  nonEmploymentCosts: 'Non-employment costs',
+  physicianPayroll: 'Physician payroll',
+  nonMdEmploymentCosts: 'Staff employment costs',
+  miscEmploymentCosts: 'Misc employment costs',
+  locumCosts: 'Locums',
+  ignore: 'Ignore',
+}
+
+export type BudgetColumn = {
+  index: number
+  header: string
+  year: number | null // Detected from the header or file name; the user can change it
+}
+
+export type BudgetLine = {
+  label: string
+  section: string // Parent account headings, e.g. "Expense / Payroll Expenses"
+  values: (number | null)[] // One per BudgetColumn
+  field: BudgetField // Suggested mapping
+}
+
+export type BudgetWorkbook = {
+  fileName: string
+  sheetName: string
+  columns: BudgetColumn[]
+  lines: BudgetLine[]
+  netIncome: (number | null)[] | null // The report's own "Net Income" row, if present
+}
+
+// Values an import can replace, keyed the way the preview lists them
+export type ActualsField = 'therapyIncome' | 'nonEmploymentCosts' | 'employeePayroll' | 'nonMdEmploymentCosts' | 'miscEmploymentCosts' | 'locumCosts' | 'netPartnerPool'
+
+export const ACTUALS_FIELD_LABELS: Record<ActualsField, string> = {
+  therapyIncome: 'Therapy income',
+  nonEmploymentCosts: 'Non-employment costs',
+  employeePayroll: 'Employee payroll (all W2)',
+  nonMdEmploymentCosts: 'Staff employment costs',
+  miscEmploymentCosts: 'Misc employment costs',
+  locumCosts: 'Locums',
+  netPartnerPool: 'Net partner pool',
+}
+
+const YEAR_ROW_FIELDS: ActualsField[] = ['therapyIncome', 'nonEmploymentCosts', 'employeePayroll']
+
+export type ActualsTotals = Partial<Record<ActualsField, number>>
+
+export type ActualsDiffRow = {
+  field: ActualsField
+  current: number | undefined
+  next: number
+  // False when the year has no baseline detail to hold the value (only 2024 and 2025 do today)
+  applicable: boolean
+}
+
+export type ActualsSource = {
+  fileName: string
+  importedAt: string // ISO timestamp
+  years: number[]
+}
+
+// Thrown for workbooks the importer cannot read; the message is shown to the user as-is
+export class ActualsImportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ActualsImportError'
+  }
+}
+
+// Header cells that hold comparison figures rather than actuals
+const NON_ACTUAL_HEADER = /budget|over|under|variance|%|diff|change|forecast/i
+const TOTAL_LABEL = /^total\b/i
+const NET_INCOME_LABEL = /^net (ordinary )?income$/i
+const SUMMARY_LABEL = /^(gross profit|net (ordinary |other )?income)$/i
+
+// Helper to pull a year out of a column header such as "2025", "Jan - Aug 25" or "YTD 2025"
+function detectYear(text: string): number | null {
+  const full = text.match(/\b(20\d{2})\b/)
+  if (full) return Number(full[1])
+  const short = text.match(/[A-Za-z]{3}\.?\s*'?(\d{2})\s*$/)
+  return short ? 2000 + Number(short[1]) : null
+}
+
+function toNumber(cell: unknown): number | null {
+  if (typeof cell === 'number' && Number.isFinite(cell)) return cell
+  if (typeof cell !== 'string') return null
+  // Accounting exports sometimes keep amounts as text: "$1,234.50" or "(1,234.50)"
+  const trimmed = cell.trim()
+  if (!/^\(?-?\$?[\d,]+(\.\d+)?\)?$/.test(trimmed)) return null
+  const value = Number(trimmed.replace(/[$,()]/g, ''))
+  return trimmed.startsWith('(') ? -value : value
+}
+
+function findValueColumns(header: unknown[], body: unknown[][], fallbackYear: number | null): BudgetColumn[] {
+  const columns: BudgetColumn[] = []
+  header.forEach((cell, index) => {
+    if (typeof cell !== 'string' && typeof cell !== 'number') return
+    const text = String(cell).trim()
+    if (!text || NON_ACTUAL_HEADER.test(text)) return
+    const year = detectYear(text)
+    if (year === null && !/actual|ytd|total/i.test(text)) return
+    if (!body.some((row) => toNumber(row[index]) !== null)) return
+    columns.push({ index, header: text, year: year ?? fallbackYear })
+  })
+  return columns
+}
+
+// Suggest a mapping from the account name and the headings above it
+export function classifyBudgetLine(label: string, section: string): BudgetField {
+  const top = section.split(' / ')[0] ?? ''
+  const text = `${section} / ${label}`
+  if (/guaranteed payment|partner (draw|distribution)|distribution|owner/i.test(text)) return 'ignore'
+  if (/income|revenue/i.test(top) && !/expense/i.test(top)) {
+    return /medical director|\bprcs\b|director fee/i.test(label) ? 'medicalDirectorIncome' : 'therapyIncome'
+  }
+  if (/locum/i.test(text)) return 'locumCosts'
+  const employment = /salar|wage|payroll|employ|benefit|health ins|dental|vision|401|retirement|fica|futa|suta|unemployment|medicare|social security/i
+  if (/physician|doctor|radiologist|\bmd\b|\bdr\b/i.test(text) && employment.test(text)) return 'physicianPayroll'
+  if (/workers'? ?comp|payroll (service|fee|processing)|recruit|continuing ed|\bcme\b|uniform|employee (gift|appreciation)/i.test(text)) {
+    return 'miscEmploymentCosts'
+  }
+  if (employment.test(text)) return 'nonMdEmploymentCosts'
+  return 'nonEmploymentCosts'
+}
+
+// Read a profit-and-loss style workbook (account names down the side, one column per period).
+// Total and summary rows are skipped so each account is only counted once. Accounts are classified
+// by name; the Budget YTD workbook is password protected, so the mapping has not been checked
+// against its layout and the user reviews it before applying.
+export function parseBudgetWorkbook(data: ArrayBuffer, fileName: string): BudgetWorkbook {
+  let workbook
+  try {
+    workbook = read(data, { type: 'array' })
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err)
+    if (/password|encrypt/i.test(message)) {
+      throw new ActualsImportError('This workbook is password protected. Open it in Excel, save a copy without a password, and import that copy.')
+    }
+    throw new ActualsImportError(`This file could not be read as a spreadsheet (${message}).`)
+  }
+
+  const fallbackYear = detectYear(fileName)
+  for (const sheetName of workbook.SheetNames) {
+    const rows = utils.sheet_to_json<unknown[]>(workbook.Sheets[sheetName], { header: 1, raw: true, blankrows: false, defval: null })
+
+    // The header row is the first one with period headings over columns of numbers
+    let headerIndex = -1
+    let columns: BudgetColumn[] = []
+    for (let i = 0; i < Math.min(rows.length, 20) && columns.length === 0; i++) {
+      headerIndex = i
+      columns = findValueColumns(rows[i], rows.slice(i + 1), fallbackYear)
+    }
+    if (columns.length === 0) continue
+    const body = rows.slice(headerIndex + 1)
+    const firstValueColumn = columns[0].index
+
+    const lines: BudgetLine[] = []
+    const sections: { depth: number; label: string }[] = []
+    let netIncome: (number | null)[] | null = null
+    for (const row of body) {
+      const labelIndex = row.findIndex((cell, i) => i < firstValueColumn && typeof cell === 'string' && cell.trim() !== '')
+      if (labelIndex < 0) continue
+      const raw = String(row[labelIndex])
+      const label = raw.trim()
+      // Nesting comes from the label column (multi-column exports) or its indentation
+      const depth = labelIndex * 100 + (raw.length - raw.trimStart().length)
+      while (sections.length > 0 && sections[sections.length - 1].depth >= depth) sections.pop()
+
+      const values = columns.map((c) => toNumber(row[c.index]))
+      if (values.every((v) => v === null)) {
+        sections.push({ depth, label })
+        continue
+      }
+      if (NET_INCOME_LABEL.test(label)) netIncome = values
+      if (TOTAL_LABEL.test(label) || SUMMARY_LABEL.test(label)) continue
+      const section = sections.map((s) => s.label).join(' / ')
+      lines.push({ label, section, values, field: classifyBudgetLine(label, section) })
+    }
+    if (lines.length > 0) return { fileName, sheetName, columns, lines, netIncome }
+  }
+  throw new ActualsImportError('No account rows with yearly amounts were found. The importer expects account names down the first column and one column of amounts per year.')
+}
+
+// Add up the mapped lines for one column
+export function summarizeBudget(workbook: BudgetWorkbook, columnPosition: number, fields: BudgetField[]): ActualsTotals {
+  const sums: Record<BudgetField, number> = {
+    therapyIncome: 0, medicalDirectorIncome: 0, nonEmploymentCosts: 0, physicianPayroll: 0,
+    nonMdEmploymentCosts: 0, miscEmploymentCosts: 0, locumCosts: 0, ignore: 0,
+  }
+  workbook.lines.forEach((line, i) => { sums[fields[i] ?? line.field] += line.values[columnPosition] ?? 0 })
+  const round = (n: number) => Math.round(n * 100) / 100
+  const totals: ActualsTotals = {
+    therapyIncome: round(sums.therapyIncome),
+    nonEmploymentCosts: round(sums.nonEmploymentCosts),
+    employeePayroll: round(sums.physicianPayroll + sums.nonMdEmploymentCosts + sums.miscEmploymentCosts),
+    nonMdEmploymentCosts: round(sums.nonMdEmploymentCosts),
+    miscEmploymentCosts: round(sums.miscEmploymentCosts),
+    locumCosts: round(sums.locumCosts),
+  }
+  const net = workbook.netIncome?.[columnPosition]
+  if (typeof net === 'number') totals.netPartnerPool = round(net)
+  return totals
+}
+
+// Compare imported totals against what the dashboard uses today
+export function diffActuals(historic: YearRow[], details: Record<number, BaselineDetail>, year: number, totals: ActualsTotals): ActualsDiffRow[] {
+  const row = historic.find((h) => h.year === year)
+  const detail = details[year]
+  return (Object.keys(ACTUALS_FIELD_LABELS) as ActualsField[])
+    .filter((field) => totals[field] !== undefined)
+    .map((field) => {
+      const onYearRow = YEAR_ROW_FIELDS.includes(field)
+      const detailAmounts = detail && { ...detail, ...actualEmploymentCosts(row, detail) }
+      const current = onYearRow ? row?.[field as HistoricField] : detailAmounts?.[field as Exclude<ActualsField, 'therapyIncome' | 'nonEmploymentCosts' | 'employeePayroll'>]
+      return { field, current, next: totals[field]!, applicable: onYearRow || Boolean(detail) }
+    })
+}
+
+// Write the selected totals into copies of the historic rows and baseline details
+export function applyActuals(
+  historic: YearRow[],
+  details: Record<number, BaselineDetail>,
+  year: number,
+  totals: ActualsTotals,
+  fields: ActualsField[]
+): { historic: YearRow[]; details: Record<number, BaselineDetail> } {
+  const yearUpdate: Partial<YearRow> = {}
+  const detailUpdate: Partial<BaselineDetail> = {}
+  for (const field of fields) {
+    const value = totals[field]
+    if (value === undefined) continue
+    if (YEAR_ROW_FIELDS.includes(field)) Object.assign(yearUpdate, { [field]: value })
+    else Object.assign(detailUpdate, { [field]: value })
+  }
+
+  // Only years already on record are updated; adding a year is part of closing it out
+  const nextHistoric = historic.map((h) => (h.year === year ? { ...h, ...yearUpdate } : h))
+  if (!details[year]) return { historic: nextHistoric, details }
+  // Imported staff and locums figures replace any the historic row was overriding them with
+  const replaced = (Object.keys(DETAIL_OVERRIDE_FIELDS) as (keyof typeof DETAIL_OVERRIDE_FIELDS)[]).filter((amount) => detailUpdate[amount] !== undefined)
+  return { historic: clearDetailOverrides(nextHistoric, year, replaced), details: { ...details, [year]: { ...details[year], ...detailUpdate } } }
+}
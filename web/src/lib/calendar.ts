@@ -0,0 +1,104 @@
+// Helper functions for date-based employee->partner transition
+export function isLeapYear(year: number): boolean {
+  return (year % 4 === 0 && year % 100 !== 0) || (year % 400 === 0)
+}
+
+export function daysInYear(year: number): number {
+  return isLeapYear(year) ? 366 : 365
+}
+
+export function dayOfYearToDate(dayOfYear: number, year: number): { month: number, day: number } {
+  const daysInMonth = [31, isLeapYear(year) ? 29 : 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31]
+  let remainingDays = dayOfYear
+  let month = 0
+  
+  while (remainingDays > daysInMonth[month]) {
+    remainingDays -= daysInMonth[month]
+    month++
+  }
+  
+  return { month: month + 1, day: remainingDays }
+}
+
+export function calendarDateToPortion(month: number, day: number, year: number): number {
+  const daysInMonth = [31, isLeapYear(year) ? 29 : 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31]
+  let dayOfYear = 0
+  
+  // Add days for all complete months before the target month
+  for (let i = 0; i < month - 1; i++) {
+    dayOfYear += daysInMonth[i]
+  }
+  
+  // Add the day within the target month
+  dayOfYear += day
+  
+  // Convert to portion of year (0 to 1)
+  const totalDays = daysInYear(year)
+  return (dayOfYear - 1) / totalDays
+}
+
+export function dateToString(month: number, day: number): string {
+  const monthNames = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
+  return `${monthNames[month - 1]} ${day}`
+}
+
+export function employeePortionToTransitionDay(employeePortionOfYear: number, year: number): number {
+  const totalDays = daysInYear(year)
+  // If employeePortionOfYear is 0, they transition on Jan 1 (day 1)
+  // If employeePortionOfYear is 1, they transition on Jan 1 of next year (day = totalDays + 1)
+  return Math.max(1, Math.round(employeePortionOfYear * totalDays) + 1)
+}
+
+export function transitionDayToEmployeePortion(transitionDay: number, year: number): number {
+  const totalDays = daysInYear(year)
+  // Day 1 means transition on Jan 1 (0% employee time - partner from day 1)
+  // Day N means they were employee for (N-1) days, then partner from day N onward
+  return Math.max(0, (transitionDay - 1) / totalDays)
+}
+
+// Helper for retirement portion - day 0 means retired in prior year (0 working days), day 1+ means last day of work
+export function retirementDayToPartnerPortion(retirementDay: number, year: number): number {
+  const totalDays = daysInYear(year)
+  if (retirementDay === 0) {
+    // Day 0 means retired in prior year - 0 working days in current year
+    return 0
+  }
+  return retirementDay / totalDays
+}
+
+export function partnerPortionToRetirementDay(partnerPortionOfYear: number, year: number): number {
+  const totalDays = daysInYear(year)
+  if (partnerPortionOfYear === 0) {
+    // 0 working portion means day 0 (retired in prior year)
+    return 0
+  }
+  return Math.round(partnerPortionOfYear * totalDays)
+}
+
+// Helper for new employee start date - similar to transition day but for start of employment
+export function startPortionToStartDay(startPortionOfYear: number, year: number): number {
+  const totalDays = daysInYear(year)
+  // startPortionOfYear 0 means Jan 1 (day 1), 1 means Dec 31 (last day)
+  return Math.max(1, Math.round(startPortionOfYear * totalDays) + 1)
+}
+
+export function startDayToStartPortion(startDay: number, year: number): number {
+  const totalDays = daysInYear(year)
+  // Day 1 means start on Jan 1 (0% through year), last day means start near end
+  return Math.max(0, Math.min(1, (startDay - 1) / totalDays))
+}
+
+// Helper function to get quarter start days for a given year (Apr 1, Jul 1, Oct 1)
+export function getQuarterStartDays(year: number): { q2: number; q3: number; q4: number } {
+  const isLeap = isLeapYear(year)
+  const q2 = 31 + (isLeap ? 29 : 28) + 31 + 1 // Apr 1
+  const q3 = 31 + (isLeap ? 29 : 28) + 31 + 30 + 31 + 30 + 1 // Jul 1
+  const q4 = 31 + (isLeap ? 29 : 28) + 31 + 30 + 31 + 30 + 31 + 31 + 30 + 1 // Oct 1
+  return { q2, q3, q4 }
+}
+
+export function addDays(date: Date, days: number): Date {
+  const result = new Date(date)
+  result.setDate(result.getDate() + days)
+  return result
+}
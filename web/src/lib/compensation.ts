@@ -0,0 +1,272 @@
+import type { FutureYear, PayrollLedger, PayrollTaxTables, Physician, PhysicianType, Projection, RetirementPlans, YearRow } from './types'
+import { getDefaultTrailingSharedMdAmount, getEmployeePortionOfYear, getPartnerFTEWeight } from './physicians'
+import { calculateDelayedW2Payment, calculateEmployeeTotalCost, calculateStaffMemberCost } from './payroll'
+import { calculatePartnerContributions, calculateSafeHarborMatch } from './retirement'
+
+// Helper function to calculate true total income for any year
+export function getTotalIncome(yearData: YearRow | FutureYear): number {
+  // Historic rows: therapy plus the MD income on record (rows without it have MD lumped into therapyIncome)
+  if (!('physicians' in yearData)) {
+    return yearData.therapyIncome + (yearData.medicalDirectorIncome ?? 0) + (yearData.prcsMedicalDirectorIncome ?? 0)
+  }
+
+  // For future years, calculate from stored values
+  const therapyIncome = yearData.therapyIncome || 0
+  const medicalDirectorIncome = yearData.medicalDirectorHours ?? 110000
+  const prcsMedicalDirectorIncome = yearData.prcsDirectorPhysicianId ? (yearData.prcsMedicalDirectorHours ?? 60000) : 0
+  
+  return therapyIncome + medicalDirectorIncome + prcsMedicalDirectorIncome
+}
+
+export type PhysicianCompensation = {
+  id: string
+  name: string
+  type: PhysicianType
+  role: 'partner' | 'employee'
+  fteWeight: number
+  poolShare: number // FTE-weighted share of the distributable pool
+  sharedMdAllocation: number // medicalDirectorHoursPercentage of the shared MD income
+  prcsMdAllocation: number // PRCS director income
+  trailingSharedMd: number // Shared MD dollars paid to a prior-year retiree (trailingSharedMdAmount)
+  buyout: number
+  w2Salary: number // Salary earned as an employee this year
+  delayedW2: number // Prior-year work paid out this year (employeeToPartner)
+  delayedW2Taxes: number // Employer taxes on the delayed W2 (a practice cost, not comp)
+  bonus: number // Relocation/signing bonus paid as an employee
+  retirementMatch: number // Safe-harbor 401(k) match on the W2 salary (a practice cost)
+  profitSharing: number // Partner profit-sharing contribution, deducted before the FTE split
+  cashBalance: number // Partner cash balance pay credit, deducted before the FTE split
+  partnerComp: number // Pool share + MD allocations + buyout
+  comp: number // Everything the physician receives from the practice this year
+  retiredPriorYear: boolean // partnerToRetire with no working portion (buyout only)
+}
+
+export type YearCompensation = {
+  year: number
+  therapyIncome: number
+  medicalDirectorIncome: number
+  prcsMedicalDirectorIncome: number
+  costs: {
+    nonEmployment: number
+    staffEmployment: number
+    miscEmployment: number
+    locums: number
+    physicianEmployees: number // Salary, benefits and payroll taxes for the employee portion of physicians
+    buyouts: number
+    delayedW2: number // Amount plus employer taxes
+    retirement: number // Safe-harbor match for employed physicians and rostered staff
+    total: number
+  }
+  netIncome: number // Total income (therapy + MD) less all costs
+  basePool: number
+  medicalDirectorAllocations: number
+  partnerRetirement: number // Partner profit sharing and cash balance credits
+  pool: number // FTE-distributable pool after MD allocations and partner retirement contributions
+  totalPartnerWeight: number
+  physicians: PhysicianCompensation[]
+}
+
+export type CompensationOptions = {
+  // Actual net partner pool for a baseline year; replaces the income - costs derivation
+  netPartnerPool?: number
+  // Actual pay runs; delayed W2 payments in the ledger year come from here instead of the estimate
+  payrollLedger?: PayrollLedger
+  // The scenario's payroll tax tables; the built-in rules apply without them
+  payrollTaxes?: PayrollTaxTables
+  // The scenario's retirement plans; no employer contributions without them
+  retirementPlans?: RetirementPlans
+}
+
+// Helper: physicians who are partners for at least part of the year, and so can hold MD roles
+export function isPartnerType(p: Physician): boolean {
+  return p.type === 'partner' || p.type === 'employeeToPartner' || p.type === 'partnerToRetire'
+}
+
+function isEmployeeType(p: Physician): boolean {
+  return p.type === 'employee' || p.type === 'employeeToPartner' || p.type === 'newEmployee' || p.type === 'employeeToTerminate'
+}
+
+// Helper: full cost of the employee portion of a physician (prorated salary plus benefits and taxes)
+function calculatePhysicianEmployeeCost(physician: Physician, year: number, benefitGrowthPct: number, taxTables?: PayrollTaxTables): number {
+  const employeePortion = getEmployeePortionOfYear(physician)
+  if (employeePortion <= 0) return 0
+  if (physician.type === 'employee') {
+    return calculateEmployeeTotalCost(physician, year, benefitGrowthPct, taxTables)
+  }
+  // New, terminating and mixed physicians only cost their employee portion of the year
+  const proratedEmployee = { ...physician, salary: (physician.salary ?? 0) * employeePortion }
+  return calculateEmployeeTotalCost(proratedEmployee, year, benefitGrowthPct, taxTables)
+}
+
+// Compute the full, itemized compensation picture for one year.
+// Pure: depends only on the year's data and projection settings, never on UI or store state.
+export function computeYearCompensation(fy: FutureYear, projection: Projection, options: CompensationOptions = {}): YearCompensation {
+  const year = fy.year
+  const partners = fy.physicians.filter(isPartnerType)
+  const employees = fy.physicians.filter(isEmployeeType)
+
+  const physicianEmployeeCosts = employees.reduce((sum, e) => sum + calculatePhysicianEmployeeCost(e, year, projection.benefitCostsGrowthPct, options.payrollTaxes), 0)
+
+  // Only subtract buyouts of partners who worked part of the year;
+  // partners who retired in the prior year shouldn't reduce the active partner pool
+  const buyoutCosts = fy.physicians.reduce((sum, p) => {
+    if (p.type === 'partnerToRetire' && getPartnerFTEWeight(p) > 0) return sum + (p.buyoutCost ?? 0)
+    return sum
+  }, 0)
+
+  const delayedW2ByPhysician = new Map<string, { amount: number; taxes: number }>()
+  for (const p of fy.physicians) {
+    if (p.type === 'employeeToPartner') {
+      const delayed = calculateDelayedW2Payment(p, year, options.payrollLedger, options.payrollTaxes)
+      delayedW2ByPhysician.set(p.id, { amount: delayed.amount, taxes: delayed.taxes })
+    }
+  }
+  const delayedW2Costs = Array.from(delayedW2ByPhysician.values()).reduce((sum, d) => sum + d.amount + d.taxes, 0)
+
+  // Safe-harbor match on employee-portion salaries and on the wages of a rostered staff
+  const plans = options.retirementPlans
+  const matchByPhysician = new Map<string, number>()
+  for (const e of employees) {
+    matchByPhysician.set(e.id, calculateSafeHarborMatch((e.salary ?? 0) * getEmployeePortionOfYear(e), year, plans))
+  }
+  const staffMatch = plans
+    ? (fy.staff ?? []).reduce((sum, m) => sum + calculateSafeHarborMatch(calculateStaffMemberCost(m, year, projection.benefitCostsGrowthPct, options.payrollTaxes).wages, year, plans), 0)
+    : 0
+
+  // Medical Director income is allocated directly to partners before the FTE split
+  const medicalDirectorIncome = fy.medicalDirectorHours ?? 110000
+  const prcsMedicalDirectorIncome = fy.prcsDirectorPhysicianId ? (fy.prcsMedicalDirectorHours ?? 60000) : 0
+
+  const sharedMdByPhysician = new Map<string, number>()
+  const trailingMdByPhysician = new Map<string, number>()
+  for (const partner of partners) {
+    if (partner.type === 'partnerToRetire' && getPartnerFTEWeight(partner) === 0) {
+      // Prior-year retirees receive a fixed trailing amount instead of a percentage
+      trailingMdByPhysician.set(partner.id, partner.trailingSharedMdAmount ?? getDefaultTrailingSharedMdAmount(partner))
+    } else if (partner.hasMedicalDirectorHours && partner.medicalDirectorHoursPercentage) {
+      // Allocate shared Medical Director income based on percentages
+      sharedMdByPhysician.set(partner.id, (partner.medicalDirectorHoursPercentage / 100) * medicalDirectorIncome)
+    }
+  }
+  // PRCS Medical Director income goes directly to the assigned physician
+  const prcsDirectorId = prcsMedicalDirectorIncome > 0 ? fy.prcsDirectorPhysicianId : undefined
+  const sumOf = (m: Map<string, number>) => Array.from(m.values()).reduce((sum, a) => sum + a, 0)
+  const medicalDirectorAllocations = sumOf(sharedMdByPhysician) + sumOf(trailingMdByPhysician) + (prcsDirectorId ? prcsMedicalDirectorIncome : 0)
+
+  const retirementCosts = sumOf(matchByPhysician) + staffMatch
+  const totalCosts = fy.nonEmploymentCosts + fy.nonMdEmploymentCosts + fy.miscEmploymentCosts + fy.locumCosts + physicianEmployeeCosts + buyoutCosts + delayedW2Costs + retirementCosts
+  const basePool = options.netPartnerPool !== undefined
+    ? options.netPartnerPool - buyoutCosts
+    : Math.max(0, fy.therapyIncome - totalCosts)
+  // Subtract Medical Director allocations from the pool to get the FTE-distributable pool
+  const poolBeforeRetirement = Math.max(0, basePool - medicalDirectorAllocations)
+
+  const partnerWeights = partners.map((p) => ({ p, weight: getPartnerFTEWeight(p) }))
+  const totalPartnerWeight = partnerWeights.reduce((s, x) => s + x.weight, 0)
+
+  // Partner plan contributions are figured on what each working partner would get without them,
+  // then come off the pool before the FTE split
+  const partnerContributions = new Map<string, { profitSharing: number; cashBalance: number }>()
+  for (const { p, weight } of partnerWeights) {
+    if (!plans || weight <= 0) continue
+    const share = (weight / (totalPartnerWeight || 1)) * poolBeforeRetirement
+    const w2Salary = p.type === 'employeeToPartner' ? (p.salary ?? 0) * getEmployeePortionOfYear(p) : 0
+    const planCompensation = share + (sharedMdByPhysician.get(p.id) ?? 0) + (p.id === prcsDirectorId ? prcsMedicalDirectorIncome : 0) + w2Salary
+    partnerContributions.set(p.id, calculatePartnerContributions(p.name, planCompensation, matchByPhysician.get(p.id) ?? 0, year, plans))
+  }
+  const partnerRetirement = Array.from(partnerContributions.values()).reduce((sum, c) => sum + c.profitSharing + c.cashBalance, 0)
+  const pool = Math.max(0, poolBeforeRetirement - partnerRetirement)
+
+  // Employee-side bonuses are only paid (and costed) while the physician is an employee
+  const bonusFor = (p: Physician) => getEmployeePortionOfYear(p) > 0 ? (p.bonusAmount ?? 0) : 0
+
+  const physicians: PhysicianCompensation[] = []
+  for (const { p, weight } of partnerWeights) {
+    const poolShare = weight > 0 ? (weight / (totalPartnerWeight || 1)) * pool : 0
+    const sharedMdAllocation = sharedMdByPhysician.get(p.id) ?? 0
+    const prcsMdAllocation = p.id === prcsDirectorId ? prcsMedicalDirectorIncome : 0
+    const trailingSharedMd = trailingMdByPhysician.get(p.id) ?? 0
+    const buyout = p.type === 'partnerToRetire' ? (p.buyoutCost ?? 0) : 0
+    const w2Salary = p.type === 'employeeToPartner' ? (p.salary ?? 0) * getEmployeePortionOfYear(p) : 0
+    const delayed = delayedW2ByPhysician.get(p.id) ?? { amount: 0, taxes: 0 }
+    const bonus = p.type === 'employeeToPartner' ? bonusFor(p) : 0
+    const retirementMatch = matchByPhysician.get(p.id) ?? 0
+    const { profitSharing, cashBalance } = partnerContributions.get(p.id) ?? { profitSharing: 0, cashBalance: 0 }
+    const partnerComp = poolShare + sharedMdAllocation + prcsMdAllocation + trailingSharedMd + buyout
+    physicians.push({
+      id: p.id,
+      name: p.name,
+      type: p.type,
+      role: 'partner',
+      fteWeight: weight,
+      poolShare,
+      sharedMdAllocation,
+      prcsMdAllocation,
+      trailingSharedMd,
+      buyout,
+      w2Salary,
+      delayedW2: delayed.amount,
+      delayedW2Taxes: delayed.taxes,
+      bonus,
+      retirementMatch,
+      profitSharing,
+      cashBalance,
+      partnerComp,
+      comp: partnerComp + w2Salary + delayed.amount + bonus + retirementMatch + profitSharing + cashBalance,
+      retiredPriorYear: p.type === 'partnerToRetire' && weight === 0,
+    })
+  }
+  // Pure employees (mixed types are already included above)
+  for (const e of fy.physicians.filter((p) => p.type === 'employee' || p.type === 'newEmployee' || p.type === 'employeeToTerminate')) {
+    const w2Salary = (e.salary ?? 0) * getEmployeePortionOfYear(e)
+    const bonus = bonusFor(e)
+    const retirementMatch = matchByPhysician.get(e.id) ?? 0
+    physicians.push({
+      id: e.id,
+      name: e.name,
+      type: e.type,
+      role: 'employee',
+      fteWeight: 0,
+      poolShare: 0,
+      sharedMdAllocation: 0,
+      prcsMdAllocation: 0,
+      trailingSharedMd: 0,
+      buyout: 0,
+      w2Salary,
+      delayedW2: 0,
+      delayedW2Taxes: 0,
+      bonus,
+      retirementMatch,
+      profitSharing: 0,
+      cashBalance: 0,
+      partnerComp: 0,
+      comp: w2Salary + bonus + retirementMatch,
+      retiredPriorYear: false,
+    })
+  }
+
+  return {
+    year,
+    therapyIncome: fy.therapyIncome,
+    medicalDirectorIncome,
+    prcsMedicalDirectorIncome,
+    costs: {
+      nonEmployment: fy.nonEmploymentCosts,
+      staffEmployment: fy.nonMdEmploymentCosts,
+      miscEmployment: fy.miscEmploymentCosts,
+      locums: fy.locumCosts,
+      physicianEmployees: physicianEmployeeCosts,
+      buyouts: buyoutCosts,
+      delayedW2: delayedW2Costs,
+      retirement: retirementCosts,
+      total: totalCosts,
+    },
+    netIncome: getTotalIncome(fy) - totalCosts,
+    basePool,
+    medicalDirectorAllocations,
+    partnerRetirement,
+    pool,
+    totalPartnerWeight,
+    physicians,
+  }
+}
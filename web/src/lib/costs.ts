@@ -0,0 +1,79 @@
+import type { CostBreakdown, CostCategory, FutureYear, GrowthSchedules, OneOffCost, Projection } from './types'
+import { growthRateFor } from './growth'
+
+export const COST_CATEGORY_LABELS: Record<CostCategory, string> = {
+  rent: 'Rent',
+  equipmentLeases: 'Equipment leases',
+  malpractice: 'Malpractice',
+  billingService: 'Billing service',
+  supplies: 'Supplies',
+  software: 'Software',
+  dues: 'Dues & subscriptions',
+}
+
+export const COST_CATEGORY_COLORS: Record<CostCategory, string> = {
+  rent: '#b45309',
+  equipmentLeases: '#c2410c',
+  malpractice: '#be123c',
+  billingService: '#7c3aed',
+  supplies: '#0f766e',
+  software: '#1d4ed8',
+  dues: '#4d7c0f',
+}
+
+export const COST_CATEGORIES = Object.keys(COST_CATEGORY_LABELS) as CostCategory[]
+
+// Recurring non-employment costs: the categorized amounts and the uncategorized rest of the total
+export type CostSplit = { breakdown: CostBreakdown; rest: number }
+
+export function oneOffTotal(oneOffs: OneOffCost[] | undefined): number {
+  return (oneOffs ?? []).reduce((sum, o) => sum + o.amount, 0)
+}
+
+export function categorizedTotal(breakdown: CostBreakdown | undefined): number {
+  return COST_CATEGORIES.reduce((sum, category) => sum + (breakdown?.[category] ?? 0), 0)
+}
+
+// A year's recurring costs, leaving out its one-offs
+export function splitCosts(fy: Pick<FutureYear, 'nonEmploymentCosts' | 'costBreakdown' | 'oneOffCosts'>): CostSplit {
+  const breakdown = { ...fy.costBreakdown }
+  return { breakdown, rest: fy.nonEmploymentCosts - oneOffTotal(fy.oneOffCosts) - categorizedTotal(breakdown) }
+}
+
+export function splitTotal(split: CostSplit): number {
+  return categorizedTotal(split.breakdown) + split.rest
+}
+
+// One year on: each category at its own rate, the rest (and categories without one) at `flatPct`
+export function growCosts(split: CostSplit, categoryRates: CostBreakdown | undefined, flatPct: number): CostSplit {
+  const breakdown: CostBreakdown = {}
+  for (const category of Object.keys(split.breakdown) as CostCategory[]) {
+    breakdown[category] = (split.breakdown[category] ?? 0) * (1 + (categoryRates?.[category] ?? flatPct) / 100)
+  }
+  return { breakdown, rest: split.rest * (1 + flatPct / 100) }
+}
+
+// Recurring costs grown from the baseline year to `year`, a year at a time
+export function projectCosts(
+  baseline: Pick<FutureYear, 'year' | 'nonEmploymentCosts' | 'costBreakdown' | 'oneOffCosts'>,
+  projection: Projection,
+  schedules: GrowthSchedules | undefined,
+  categoryRates: CostBreakdown | undefined,
+  year: number,
+): CostSplit {
+  let split = splitCosts(baseline)
+  for (let y = baseline.year + 1; y <= year; y++) {
+    split = growCosts(split, categoryRates, growthRateFor(projection, schedules, 'nonEmploymentCosts', y))
+  }
+  return split
+}
+
+// Per-category amounts (or rates) with one category set, or cleared when `value` is undefined;
+// undefined once no category is left. Totals are not touched, so an amount change moves the
+// uncategorized rest instead.
+export function withCategoryValue(breakdown: CostBreakdown | undefined, category: CostCategory, value: number | undefined): CostBreakdown | undefined {
+  const next = { ...breakdown }
+  if (value === undefined) delete next[category]
+  else next[category] = value
+  return Object.keys(next).length > 0 ? next : undefined
+}
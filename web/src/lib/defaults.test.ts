@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest'
+import { BASELINE_DETAILS, HISTORIC_DATA, buildBaselineYear } from './defaults'
+import { editHistoricValue } from './historic'
+import { defaultProjection, nextProjectionYear } from './scenarios'
+
+describe('buildBaselineYear', () => {
+  const baseline = (historic = HISTORIC_DATA) => buildBaselineYear('2024 Data', historic, BASELINE_DETAILS, [], 2025).fy
+
+  it('takes staff and locums from the baseline detail while the row leaves them blank', () => {
+    expect(baseline().locumCosts).toBe(BASELINE_DETAILS[2024].locumCosts)
+    expect(baseline().nonMdEmploymentCosts).toBe(BASELINE_DETAILS[2024].nonMdEmploymentCosts)
+  })
+
+  it('carries edited locums into the baseline and staff payroll into the projected years', () => {
+    const edited = editHistoricValue(editHistoricValue(HISTORIC_DATA, 2024, 'locumCosts', 90000), 2024, 'staffPayroll', 200000)
+    expect(baseline(edited).locumCosts).toBe(90000)
+    expect(baseline(edited).nonMdEmploymentCosts).toBe(200000)
+
+    const sc = { projection: defaultProjection('A') }
+    const before = nextProjectionYear(baseline(), sc)
+    const after = nextProjectionYear(baseline(edited), sc)
+    expect(after.nonMdEmploymentCosts).toBeGreaterThan(before.nonMdEmploymentCosts)
+  })
+})
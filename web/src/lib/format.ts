@@ -0,0 +1,32 @@
+export function currency(value: number): string {
+  // Handle undefined/null values gracefully
+  if (value == null || isNaN(value)) {
+    value = 0
+  }
+  return value.toLocaleString('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  })
+}
+
+// Currency formatter that shows dash for zero values (for tables)
+export function currencyOrDash(value: number): string {
+  // Handle undefined/null values gracefully
+  if (value == null || isNaN(value) || value === 0) {
+    return '-'
+  }
+  return value.toLocaleString('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  })
+}
+
+// Abbreviated currency for compact displays (e.g., $525k)
+export function currencyShort(value: number): string {
+  const thousands = Math.round(value / 1000)
+  return `$${thousands}k`
+}
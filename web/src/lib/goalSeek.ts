@@ -0,0 +1,158 @@
+import type { FutureYear, GrowthField, GrowthSchedules, Physician, Projection } from './types'
+import { computeYearCompensation } from './compensation'
+import type { CompensationOptions, YearCompensation } from './compensation'
+import { FUTURE_FIELD_LABELS, PROJECTION_FIELD_LABELS } from './history'
+import { GROWTH_RATE_FIELDS, compoundGrowth } from './growth'
+
+// Compensation output the solver aims at
+export type GoalMetric =
+  | { kind: 'netIncome' }
+  | { kind: 'pool' } // FTE-distributable pool after medical director allocations
+  | { kind: 'partnerTotal' }
+  | { kind: 'minPartner' } // Lowest comp among working partners
+  | { kind: 'physician'; name: string }
+
+export type GoalYearField = keyof typeof FUTURE_FIELD_LABELS
+export type GoalPhysicianField = 'salary' | 'weeksVacation' | 'bonusAmount' | 'buyoutCost'
+
+// The one input the solver is allowed to move
+export type GoalVariable =
+  | { kind: 'projection'; field: keyof Projection }
+  | { kind: 'year'; field: GoalYearField }
+  | { kind: 'physician'; physicianId: string; field: GoalPhysicianField }
+
+export type GoalSeekContext = {
+  fy: FutureYear // The year being solved
+  baseline: FutureYear // Baseline year the projection growth rates compound from
+  projection: Projection
+  growthSchedules?: GrowthSchedules // Years listed here keep their own rate when a flat rate is solved for
+  options: CompensationOptions
+}
+
+export type GoalSeekResult =
+  | { status: 'solved'; value: number; achieved: number }
+  // The target lies outside what the variable can reach; the metric at each end of the range
+  | { status: 'unreachable'; atMin: number; atMax: number }
+
+export const GOAL_PHYSICIAN_FIELD_LABELS: Record<GoalPhysicianField, string> = {
+  salary: 'salary',
+  weeksVacation: 'weeks off',
+  bonusAmount: 'bonus amount',
+  buyoutCost: 'buyout',
+}
+
+// Lower-case label for a variable, e.g. "income growth" or "LK salary"
+export function goalVariableLabel(variable: GoalVariable, physicians: Physician[]): string {
+  if (variable.kind === 'projection') return PROJECTION_FIELD_LABELS[variable.field]
+  if (variable.kind === 'year') return FUTURE_FIELD_LABELS[variable.field]
+  const name = physicians.find((p) => p.id === variable.physicianId)?.name ?? 'Physician'
+  return `${name} ${GOAL_PHYSICIAN_FIELD_LABELS[variable.field]}`
+}
+
+// Helper: the year value a growth rate drives, or undefined for the other projection fields
+function growthFieldFor(field: keyof Projection): GrowthField | undefined {
+  return (Object.keys(GROWTH_RATE_FIELDS) as GrowthField[]).find((g) => GROWTH_RATE_FIELDS[g] === field)
+}
+
+// The variable's value in the scenario as it stands
+export function currentGoalValue(ctx: GoalSeekContext, variable: GoalVariable): number {
+  if (variable.kind === 'projection') return ctx.projection[variable.field]
+  if (variable.kind === 'year') return ctx.fy[variable.field] ?? 0
+  return ctx.fy.physicians.find((p) => p.id === variable.physicianId)?.[variable.field] ?? 0
+}
+
+// Search range and rounding, matching the limits the dashboard's own controls enforce
+export function goalVariableBounds(ctx: GoalSeekContext, variable: GoalVariable): { min: number; max: number; step: number } {
+  const current = currentGoalValue(ctx, variable)
+  if (variable.kind === 'projection') {
+    if (variable.field === 'medicalDirectorHours' || variable.field === 'prcsMedicalDirectorHours') return { min: 0, max: 120000, step: 1 }
+    if (variable.field === 'locumsCosts') return { min: 0, max: 1000000, step: 1 }
+    return { min: -10, max: 20, step: 0.1 }
+  }
+  if (variable.kind === 'physician' && variable.field === 'weeksVacation') return { min: 0, max: 52, step: 1 }
+  return { min: 0, max: Math.max(2 * current, 1000000), step: 1 }
+}
+
+// The year and projection as they would be with the variable set to `value`. Projection fields
+// follow setProjectionField: growth rates re-project the year from the baseline and the dollar
+// amounts replace the year's value.
+function withGoalValue(ctx: GoalSeekContext, variable: GoalVariable, value: number): { fy: FutureYear; projection: Projection } {
+  const { fy, baseline, projection, growthSchedules } = ctx
+  if (variable.kind === 'year') return { fy: { ...fy, [variable.field]: value }, projection }
+  if (variable.kind === 'physician') {
+    const physicians = fy.physicians.map((p: Physician) => (p.id === variable.physicianId ? { ...p, [variable.field]: value } : p))
+    return { fy: { ...fy, physicians }, projection }
+  }
+  const updated = { ...projection, [variable.field]: value }
+  const growth = growthFieldFor(variable.field)
+  if (growth) return { fy: { ...fy, [growth]: compoundGrowth(baseline[growth], updated, growthSchedules, growth, baseline.year, fy.year) }, projection: updated }
+  if (variable.field === 'medicalDirectorHours' || variable.field === 'prcsMedicalDirectorHours') {
+    return { fy: { ...fy, [variable.field]: value }, projection: updated }
+  }
+  // A year that books its own locums keeps them
+  if (variable.field === 'locumsCosts') return { fy: fy.locumsOverride !== undefined ? fy : { ...fy, locumCosts: value }, projection: updated }
+  return { fy, projection: updated }
+}
+
+// Helper: read the metric off one engine run
+function metricValue(result: YearCompensation, metric: GoalMetric): number {
+  const partners = result.physicians.filter((p) => p.role === 'partner' && !p.retiredPriorYear)
+  switch (metric.kind) {
+    case 'netIncome':
+      return result.netIncome
+    case 'pool':
+      return result.pool
+    case 'partnerTotal':
+      return partners.reduce((sum, p) => sum + p.comp, 0)
+    case 'minPartner':
+      return partners.length > 0 ? Math.min(...partners.map((p) => p.comp)) : 0
+    case 'physician':
+      return result.physicians.find((p) => p.name === metric.name)?.comp ?? 0
+  }
+}
+
+// The metric with the variable set to `value`
+export function evaluateGoal(ctx: GoalSeekContext, variable: GoalVariable, metric: GoalMetric, value: number): number {
+  const { fy, projection } = withGoalValue(ctx, variable, value)
+  return metricValue(computeYearCompensation(fy, projection, ctx.options), metric)
+}
+
+// Coarse scan for a sign change, then bisection inside it. When the metric crosses the target
+// more than once, the crossing nearest the current value wins.
+export function solveGoal(ctx: GoalSeekContext, variable: GoalVariable, metric: GoalMetric, target: number): GoalSeekResult {
+  const { min, max, step } = goalVariableBounds(ctx, variable)
+  const gap = (value: number) => evaluateGoal(ctx, variable, metric, value) - target
+  const scanSteps = 40
+  const points = Array.from({ length: scanSteps + 1 }, (_, i) => min + ((max - min) * i) / scanSteps)
+  const gaps = points.map(gap)
+
+  // Index of the scan interval holding the chosen crossing
+  const current = currentGoalValue(ctx, variable)
+  const distance = (i: number) => Math.abs((points[i] + points[i + 1]) / 2 - current)
+  let bracket: number | undefined
+  for (let i = 0; i < scanSteps; i++) {
+    const crosses = gaps[i] === 0 || Math.sign(gaps[i]) !== Math.sign(gaps[i + 1])
+    if (crosses && (bracket === undefined || distance(i) < distance(bracket))) bracket = i
+  }
+  if (bracket === undefined) return { status: 'unreachable', atMin: gaps[0] + target, atMax: gaps[scanSteps] + target }
+
+  let lo = points[bracket]
+  let hi = points[bracket + 1]
+  let gapLo = gaps[bracket]
+  for (let i = 0; i < 60 && hi - lo > step / 10; i++) {
+    const mid = (lo + hi) / 2
+    const gapMid = gap(mid)
+    if (gapMid === 0 || Math.sign(gapMid) === Math.sign(gapLo)) {
+      lo = mid
+      gapLo = gapMid
+    } else {
+      hi = mid
+    }
+  }
+  // Round to the precision the dashboard stores, keeping whichever neighbour lands closer to the target
+  const candidates = [Math.floor(lo / step) * step, Math.ceil(hi / step) * step]
+    .map((v) => Math.round(v * 1e6) / 1e6)
+    .filter((v) => v >= min && v <= max)
+  const rounded = candidates.reduce((best, v) => (Math.abs(gap(v)) < Math.abs(gap(best)) ? v : best), candidates[0] ?? lo)
+  return { status: 'solved', value: rounded, achieved: evaluateGoal(ctx, variable, metric, rounded) }
+}
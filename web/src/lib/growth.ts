@@ -0,0 +1,46 @@
+import type { GrowthField, GrowthSchedules, Projection } from './types'
+
+// The projection rate each growing year value follows
+export const GROWTH_RATE_FIELDS: Record<GrowthField, keyof Projection> = {
+  therapyIncome: 'incomeGrowthPct',
+  nonEmploymentCosts: 'nonEmploymentCostsPct',
+  nonMdEmploymentCosts: 'nonMdEmploymentCostsPct',
+  miscEmploymentCosts: 'miscEmploymentCostsPct',
+}
+
+export const GROWTH_FIELD_LABELS: Record<GrowthField, string> = {
+  therapyIncome: 'Income',
+  nonEmploymentCosts: 'Non-employment costs',
+  nonMdEmploymentCosts: 'Staff costs',
+  miscEmploymentCosts: 'Misc employment costs',
+}
+
+// Growth rate in percent for one value in one year: the schedule's entry, else the flat projection rate
+export function growthRateFor(projection: Projection, schedules: GrowthSchedules | undefined, field: GrowthField, year: number): number {
+  return schedules?.[field]?.[year] ?? projection[GROWTH_RATE_FIELDS[field]]
+}
+
+// Grow a value from `fromYear` to `toYear`, compounding each year's own rate in turn
+export function compoundGrowth(value: number, projection: Projection, schedules: GrowthSchedules | undefined, field: GrowthField, fromYear: number, toYear: number): number {
+  let grown = value
+  for (let year = fromYear + 1; year <= toYear; year++) {
+    grown *= 1 + growthRateFor(projection, schedules, field, year) / 100
+  }
+  return grown
+}
+
+// Schedules with one year's rate set, or cleared back to the flat rate when `pct` is undefined.
+// Fields left with no scheduled years are dropped.
+export function withScheduledRate(schedules: GrowthSchedules | undefined, field: GrowthField, year: number, pct: number | undefined): GrowthSchedules {
+  const schedule = { ...schedules?.[field] }
+  if (pct === undefined) delete schedule[year]
+  else schedule[year] = pct
+  const next = { ...schedules, [field]: schedule }
+  if (Object.keys(schedule).length === 0) delete next[field]
+  return next
+}
+
+// True when any year of the value's growth departs from the flat rate
+export function hasSchedule(schedules: GrowthSchedules | undefined, field: GrowthField): boolean {
+  return Object.keys(schedules?.[field] ?? {}).length > 0
+}
@@ -0,0 +1,67 @@
+import type { CostCategory, HistoricField, YearRow } from './types'
+import { withCategoryValue } from './costs'
+
+export const HISTORIC_FIELD_LABELS: Record<HistoricField, string> = {
+  therapyIncome: 'Therapy income',
+  medicalDirectorIncome: 'Shared MD income',
+  prcsMedicalDirectorIncome: 'PRCS MD income',
+  nonEmploymentCosts: 'Non-employment costs',
+  employeePayroll: 'Employee payroll',
+  staffPayroll: 'Staff payroll',
+  physicianPayroll: 'Physician payroll',
+  locumCosts: 'Locums',
+}
+
+// Helper: whether two rows record therapy income the same way. Rows before 2024 lump MD income into
+// it, so growth between such a row and one that records MD income separately is not comparable.
+export const sameIncomeBasis = (a: YearRow, b: YearRow) => (a.medicalDirectorIncome === undefined) === (b.medicalDirectorIncome === undefined)
+
+// Amounts every row must have; the rest are optional breakdowns
+export const REQUIRED_HISTORIC_FIELDS: HistoricField[] = ['therapyIncome', 'nonEmploymentCosts']
+
+// Copy of the historic rows with one amount changed; clearing an optional breakdown removes it
+export function editHistoricValue(historic: YearRow[], year: number, field: HistoricField, value: number | undefined): YearRow[] {
+  return historic.map((h) => {
+    if (h.year !== year) return h
+    if (value !== undefined) return { ...h, [field]: value }
+    if (REQUIRED_HISTORIC_FIELDS.includes(field)) return h
+    const next = { ...h }
+    delete next[field]
+    return next
+  })
+}
+
+// Row fields that stand in for a baseline detail amount; see actualEmploymentCosts
+export const DETAIL_OVERRIDE_FIELDS = { nonMdEmploymentCosts: 'staffPayroll', locumCosts: 'locumCosts' } as const
+
+// Copy of the historic rows with the year's overrides of the given detail amounts removed, for when
+// the detail itself is replaced (an import, a payroll ledger, a year-end close)
+export function clearDetailOverrides(historic: YearRow[], year: number, amounts: (keyof typeof DETAIL_OVERRIDE_FIELDS)[]): YearRow[] {
+  return historic.map((h) => {
+    if (h.year !== year || !amounts.some((a) => h[DETAIL_OVERRIDE_FIELDS[a]] !== undefined)) return h
+    const next = { ...h }
+    for (const amount of amounts) delete next[DETAIL_OVERRIDE_FIELDS[amount]]
+    return next
+  })
+}
+
+// Copy of the historic rows with one cost category set (or removed); the row's total is unchanged
+export function editHistoricCostCategory(historic: YearRow[], year: number, category: CostCategory, amount: number | undefined): YearRow[] {
+  return historic.map((h) => {
+    if (h.year !== year) return h
+    const next = { ...h, costBreakdown: withCategoryValue(h.costBreakdown, category, amount) }
+    if (!next.costBreakdown) delete next.costBreakdown
+    return next
+  })
+}
+
+// Copy of the historic rows with the source note for one amount set (or removed when blank)
+export function editHistoricSource(historic: YearRow[], year: number, field: HistoricField, source: string): YearRow[] {
+  return historic.map((h) => {
+    if (h.year !== year) return h
+    const sources = { ...h.sources }
+    if (source.trim()) sources[field] = source
+    else delete sources[field]
+    return { ...h, sources }
+  })
+}
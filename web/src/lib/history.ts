@@ -0,0 +1,64 @@
+import type { FutureYear, Physician, Projection, ScenarioSnapshot, YearRow } from './types'
+
+// One undoable step: the scenario set and historic actuals as they were before the labelled change
+export type HistoryEntry = {
+  label: string
+  at: number // epoch ms of the latest change folded into this entry
+  snapshot: ScenarioSnapshot
+  historic: YearRow[] // Edits in the historic table re-project scenarios, so the rows go with them
+}
+
+export const HISTORY_LIMIT = 100
+// Repeated changes with the same label inside this window (slider drags, typing) become one entry
+export const HISTORY_COALESCE_MS = 1000
+
+export const FUTURE_FIELD_LABELS: Record<Exclude<keyof FutureYear, 'year' | 'physicians' | 'prcsDirectorPhysicianId' | 'costBreakdown' | 'oneOffCosts' | 'staff' | 'locumsOverride'>, string> = {
+  therapyIncome: 'income',
+  nonEmploymentCosts: 'non-employment costs',
+  nonMdEmploymentCosts: 'staff employment costs',
+  locumCosts: 'locums',
+  miscEmploymentCosts: 'misc employment costs',
+  medicalDirectorHours: 'medical director income',
+  prcsMedicalDirectorHours: 'PRCS medical director income',
+}
+
+export const PROJECTION_FIELD_LABELS: Record<keyof Projection, string> = {
+  incomeGrowthPct: 'income growth',
+  medicalDirectorHours: 'medical director income',
+  prcsMedicalDirectorHours: 'PRCS medical director income',
+  nonEmploymentCostsPct: 'non-employment cost growth',
+  nonMdEmploymentCostsPct: 'staff cost growth',
+  locumsCosts: 'locums',
+  miscEmploymentCostsPct: 'misc employment cost growth',
+  benefitCostsGrowthPct: 'benefit cost growth',
+}
+
+const PHYSICIAN_FIELD_LABELS: Record<Exclude<keyof Physician, 'id' | 'name'>, string> = {
+  type: 'type',
+  salary: 'salary',
+  weeksVacation: 'weeks off',
+  employeePortionOfYear: 'partnership date',
+  partnerPortionOfYear: 'retirement date',
+  startPortionOfYear: 'start date',
+  terminatePortionOfYear: 'termination date',
+  receivesBenefits: 'benefits',
+  receivesBonuses: 'bonus',
+  bonusAmount: 'bonus',
+  hasMedicalDirectorHours: 'medical director share',
+  medicalDirectorHoursPercentage: 'medical director share',
+  buyoutCost: 'buyout',
+  trailingSharedMdAmount: 'trailing MD amount',
+}
+
+// e.g. "Changed BT salary 2026", "Added LK 2027", "Renamed Physician 5 to AB"
+export function describePhysicianChange(prev: Physician | undefined, next: Physician, year: number): string {
+  if (!prev) return `Added ${next.name} ${year}`
+  if (prev.name !== next.name) return `Renamed ${prev.name} to ${next.name}`
+  const fields = new Set(
+    (Object.keys(PHYSICIAN_FIELD_LABELS) as (keyof typeof PHYSICIAN_FIELD_LABELS)[])
+      .filter((key) => prev[key] !== next[key])
+      .map((key) => PHYSICIAN_FIELD_LABELS[key])
+  )
+  if (fields.size === 1) return `Changed ${next.name} ${[...fields][0]} ${year}`
+  return `Edited ${next.name} ${year}`
+}
@@ -0,0 +1,63 @@
+import type { ScenarioSnapshot } from './types'
+import { SCHEMA_VERSION, migrateSnapshot } from './migrations'
+
+// A named copy of the scenario set kept in the browser or exchanged as a file
+export type SavedScenario = {
+  id: string
+  name: string
+  description: string
+  savedAt: string // ISO timestamp
+  version: number // Schema version the snapshot was written at
+  snapshot: ScenarioSnapshot
+}
+
+export const SCENARIO_FILE_FORMAT = 'radiantcare-scenario'
+
+type ScenarioFile = {
+  format: typeof SCENARIO_FILE_FORMAT
+  version: number
+  name: string
+  description: string
+  savedAt: string
+  snapshot: ScenarioSnapshot
+}
+
+export function makeSavedScenarioId(): string {
+  return `lib-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`
+}
+
+export function serializeScenarioFile(entry: SavedScenario): string {
+  const file: ScenarioFile = {
+    format: SCENARIO_FILE_FORMAT,
+    version: SCHEMA_VERSION,
+    name: entry.name,
+    description: entry.description,
+    savedAt: entry.savedAt,
+    snapshot: entry.snapshot,
+  }
+  return JSON.stringify(file, null, 2)
+}
+
+// Parse an exported scenario file. Throws an Error with a user-facing message when the
+// file is not something we can load.
+export function parseScenarioFile(text: string): SavedScenario {
+  let raw: Partial<ScenarioFile> | null
+  try {
+    raw = JSON.parse(text)
+  } catch {
+    throw new Error('The file is not valid JSON.')
+  }
+  if (!raw || raw.format !== SCENARIO_FILE_FORMAT) {
+    throw new Error('The file is not a RadiantCare scenario export.')
+  }
+  // Older files are upgraded through the same migration chain as saved state
+  const snapshot = migrateSnapshot(raw.snapshot, typeof raw.version === 'number' ? raw.version : 1)
+  return {
+    id: makeSavedScenarioId(),
+    name: typeof raw.name === 'string' && raw.name.trim() ? raw.name : 'Imported scenario',
+    description: typeof raw.description === 'string' ? raw.description : '',
+    savedAt: typeof raw.savedAt === 'string' ? raw.savedAt : new Date().toISOString(),
+    version: SCHEMA_VERSION,
+    snapshot,
+  }
+}
@@ -0,0 +1,500 @@
+import type { CostBreakdown, DataMode, FutureYear, GrowthField, GrowthSchedules, PayrollLedger, PayrollLedgerEntry, PayrollTaxTables, Physician, PhysicianType, RetirementLimits, RetirementPlans, ScenarioKey, ScenarioPreset, ScenarioSnapshot, ScenarioState, StaffMember, TakeHomeSettings, YearRow } from './types'
+import type { SavedScenario } from './library'
+import type { ActualsSource } from './actualsImport'
+import type { BaselineDetail } from './defaults'
+import { BASELINE_DETAILS, DEFAULT_BASELINE_YEAR, HISTORIC_DATA, defaultDataMode, findDefaultPrcsDirector, scenarioADefaultsByYear } from './defaults'
+import { SCENARIO_COLORS, defaultProjection } from './scenarios'
+import type { TrendSettings } from './trend'
+import { TREND_METHOD_LABELS } from './trend'
+import { GROWTH_RATE_FIELDS } from './growth'
+import { COST_CATEGORIES } from './costs'
+import { DEFAULT_TAKE_HOME_SETTINGS } from './takeHome'
+import { DEFAULT_RETIREMENT_PLANS, defaultRetirementLimits } from './retirement'
+
+// Version of the saved-state schema shared by localStorage, share links and exported files.
+//   1: a fixed pair of scenarios ({ scenarioA, scenarioBEnabled, scenarioB })
+//   2: keyed named scenarios ({ scenarios, scenarioOrder, selectedScenarioIds })
+//   3: localStorage may also carry imported actuals ({ historic, baselineDetails, actualsSource })
+//   4: localStorage may also carry an imported payroll ledger ({ payrollLedger, baselineDetails })
+//   5: localStorage may also carry closed years ({ baselineYear, historic, baselineDetails })
+//   6: baseline details carry the year's roster and PRCS director; data modes may name any year
+//   7: localStorage may also carry hand-edited historic rows ({ historic }), with breakdowns and source notes
+//   8: medical director income moved from the baseline details onto the historic rows
+//   9: localStorage may also carry the trend fit behind the default growth rates ({ trendSettings })
+//   10: scenarios may carry per-year growth rates ({ growthSchedules })
+//   11: non-employment costs may be split into categories and one-off costs, with growth per category
+//   12: projection years may carry a staff roster ({ staff })
+//   13: scenarios may carry their own payroll tax tables ({ payrollTaxes })
+//   14: scenarios may carry partners' take-home estimate settings ({ takeHome })
+//   15: scenarios may carry retirement plans ({ retirementPlans })
+//   16: projection years may book their own locums ({ locumsOverride }) instead of 2026 being fixed in code
+export const SCHEMA_VERSION = 16
+
+// Raised when a saved payload cannot be upgraded; the message is shown to the user as-is
+export class MigrationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'MigrationError'
+  }
+}
+
+type Payload = Record<string, unknown>
+
+const isRecord = (value: unknown): value is Payload =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+// Each step upgrades a payload from version N to N + 1
+const MIGRATIONS: Record<number, (payload: Payload) => Payload> = {
+  1: (payload) => {
+    // Written before any version tag existed, so it may already be in the keyed shape
+    if ('scenarios' in payload) return payload
+    if (!isRecord(payload.scenarioA)) throw new MigrationError('The saved data has no scenarios in it.')
+    const scenarios: Record<ScenarioKey, unknown> = {
+      A: { name: 'Scenario A', color: SCENARIO_COLORS[0], preset: 'A', ...payload.scenarioA },
+    }
+    const order = ['A']
+    if (isRecord(payload.scenarioB)) {
+      scenarios.B = { name: 'Scenario B', color: SCENARIO_COLORS[1], preset: 'B', ...payload.scenarioB }
+      order.push('B')
+    }
+    return {
+      scenarios,
+      scenarioOrder: order,
+      selectedScenarioIds: payload.scenarioBEnabled && scenarios.B ? ['A', 'B'] : ['A'],
+      library: payload.library,
+    }
+  },
+  // Imported actuals are optional; without them the built-in figures apply
+  2: (payload) => payload,
+  // Likewise the payroll ledger; without it the built-in 2025 ledger applies
+  3: (payload) => payload,
+  // And closed years; without them the baseline stays on the built-in year
+  4: (payload) => payload,
+  // Rosters used to be implied by the presets; the built-in years keep theirs, closed years take preset A's
+  5: (payload) => {
+    if (!isRecord(payload.baselineDetails)) return payload
+    const baselineDetails = Object.fromEntries(Object.entries(payload.baselineDetails).map(([year, detail]) => {
+      if (!isRecord(detail) || Array.isArray(detail.physicians)) return [year, detail]
+      const physicians = BASELINE_DETAILS[Number(year)]?.physicians ?? scenarioADefaultsByYear(Number(year))
+      return [year, { ...detail, physicians, prcsDirectorPhysicianId: findDefaultPrcsDirector(physicians) }]
+    }))
+    return { ...payload, baselineDetails }
+  },
+  // Edited historic rows are optional; without them the built-in figures apply
+  6: (payload) => payload,
+  // Stored rows take the MD income from their year's detail, else from the built-in row
+  7: (payload) => {
+    const details = isRecord(payload.baselineDetails) ? payload.baselineDetails : {}
+    const historic = Array.isArray(payload.historic)
+      ? payload.historic.map((h) => {
+        if (!isRecord(h) || h.medicalDirectorIncome !== undefined) return h
+        const detail = details[String(h.year)]
+        const builtIn = HISTORIC_DATA.find((row) => row.year === h.year)
+        return isRecord(detail)
+          ? { ...h, medicalDirectorIncome: detail.medicalDirectorHours, prcsMedicalDirectorIncome: detail.prcsMedicalDirectorHours }
+          : { ...h, medicalDirectorIncome: builtIn?.medicalDirectorIncome, prcsMedicalDirectorIncome: builtIn?.prcsMedicalDirectorIncome }
+      })
+      : payload.historic
+    const movedKeys = ['medicalDirectorHours', 'prcsMedicalDirectorHours']
+    const baselineDetails = Object.fromEntries(Object.entries(details).map(([year, detail]) => [
+      year,
+      isRecord(detail) ? Object.fromEntries(Object.entries(detail).filter(([key]) => !movedKeys.includes(key))) : detail,
+    ]))
+    return { ...payload, historic, ...(isRecord(payload.baselineDetails) ? { baselineDetails } : {}) }
+  },
+  // Trend settings are optional; without them the default window and method apply
+  8: (payload) => payload,
+  // Growth schedules are optional; without them every year grows at the flat rate
+  9: (payload) => payload,
+  // Cost categories are optional; without them the whole total grows at the non-employment rate
+  10: (payload) => payload,
+  // Staff rosters are optional; without them staff costs grow at the staff employment rate
+  11: (payload) => payload,
+  // Payroll tax tables are optional; without them the built-in rules apply
+  12: (payload) => payload,
+  // Take-home settings are optional; without them no estimates are shown
+  13: (payload) => payload,
+  // Retirement plans are optional; without them no employer contributions are made
+  14: (payload) => payload,
+  // 2026 always kept its own locums; its amount becomes that year's override
+  15: (payload) => {
+    if (!isRecord(payload.scenarios)) return payload
+    const scenarios = Object.fromEntries(Object.entries(payload.scenarios).map(([id, sc]) => {
+      if (!isRecord(sc) || !Array.isArray(sc.future)) return [id, sc]
+      const future = sc.future.map((fy) => (isRecord(fy) && fy.year === 2026 ? { ...fy, locumsOverride: num(fy.locumCosts, 60000) } : fy))
+      return [id, { ...sc, future }]
+    }))
+    return { ...payload, scenarios }
+  },
+}
+
+const PHYSICIAN_TYPES: PhysicianType[] = ['partner', 'employee', 'employeeToPartner', 'partnerToRetire', 'newEmployee', 'employeeToTerminate']
+const isDataMode = (value: unknown): value is DataMode => value === 'Custom' || (typeof value === 'string' && /^\d{4} Data$/.test(value))
+
+const num = (value: unknown, fallback: number) => (typeof value === 'number' && Number.isFinite(value) ? value : fallback)
+
+function normalizePhysician(raw: unknown, where: string): Physician {
+  if (!isRecord(raw) || typeof raw.id !== 'string' || typeof raw.name !== 'string') {
+    throw new MigrationError(`${where} has a physician without an id or name.`)
+  }
+  if (!PHYSICIAN_TYPES.includes(raw.type as PhysicianType)) {
+    throw new MigrationError(`${where}: physician "${raw.name}" has an unknown type "${String(raw.type)}".`)
+  }
+  return raw as unknown as Physician
+}
+
+const isIsoDate = (value: unknown): value is string => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value)
+
+function normalizeStaffMember(raw: unknown, where: string): StaffMember {
+  if (!isRecord(raw) || typeof raw.id !== 'string') throw new MigrationError(`${where} has a staff member without an id.`)
+  return {
+    id: raw.id,
+    name: typeof raw.name === 'string' ? raw.name : '',
+    role: typeof raw.role === 'string' ? raw.role : '',
+    hourlyRate: num(raw.hourlyRate, 0),
+    hoursPerWeek: num(raw.hoursPerWeek, 0),
+    receivesBenefits: raw.receivesBenefits === true,
+    ...(isIsoDate(raw.startDate) ? { startDate: raw.startDate } : {}),
+    ...(isIsoDate(raw.endDate) ? { endDate: raw.endDate } : {}),
+    ...(typeof raw.raisePct === 'number' && Number.isFinite(raw.raisePct) ? { raisePct: raw.raisePct } : {}),
+  }
+}
+
+// Known categories with numeric values; undefined when none are left
+function normalizeCostBreakdown(raw: unknown): CostBreakdown | undefined {
+  if (!isRecord(raw)) return undefined
+  const entries = COST_CATEGORIES.filter((c) => typeof raw[c] === 'number' && Number.isFinite(raw[c])).map((c) => [c, raw[c]])
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined
+}
+
+function normalizeFutureYear(raw: unknown, scenarioName: string): FutureYear {
+  if (!isRecord(raw) || typeof raw.year !== 'number') {
+    throw new MigrationError(`Scenario "${scenarioName}" has a projection year without a year number.`)
+  }
+  const where = `Scenario "${scenarioName}" ${raw.year}`
+  if (!Array.isArray(raw.physicians)) throw new MigrationError(`${where} has no physician list.`)
+  const { costBreakdown, oneOffCosts, staff, locumsOverride, ...rest } = raw
+  const breakdown = normalizeCostBreakdown(costBreakdown)
+  const oneOffs = Array.isArray(oneOffCosts)
+    ? oneOffCosts.filter(isRecord).map((o) => ({ label: typeof o.label === 'string' ? o.label : '', amount: num(o.amount, 0) }))
+    : []
+  return {
+    ...(rest as unknown as FutureYear),
+    ...(breakdown ? { costBreakdown: breakdown } : {}),
+    ...(oneOffs.length > 0 ? { oneOffCosts: oneOffs } : {}),
+    ...(Array.isArray(staff) ? { staff: staff.map((m) => normalizeStaffMember(m, where)) } : {}),
+    therapyIncome: num(raw.therapyIncome, 0),
+    nonEmploymentCosts: num(raw.nonEmploymentCosts, 0),
+    nonMdEmploymentCosts: num(raw.nonMdEmploymentCosts, 0),
+    locumCosts: num(raw.locumCosts, 0),
+    ...(typeof locumsOverride === 'number' && Number.isFinite(locumsOverride) ? { locumsOverride } : {}),
+    miscEmploymentCosts: num(raw.miscEmploymentCosts, 0),
+    physicians: raw.physicians.map((p) => normalizePhysician(p, where)),
+  }
+}
+
+function normalizeScenario(raw: unknown, id: ScenarioKey, index: number): ScenarioState {
+  if (!isRecord(raw)) throw new MigrationError(`Scenario "${id}" is empty or corrupted.`)
+  const name = typeof raw.name === 'string' && raw.name.trim() ? raw.name : `Scenario ${index + 1}`
+  if (!Array.isArray(raw.future)) throw new MigrationError(`Scenario "${name}" has no projection years.`)
+  const preset: ScenarioPreset = raw.preset === 'B' ? 'B' : 'A'
+  const projection = isRecord(raw.projection) ? raw.projection : {}
+  const defaults = defaultProjection(preset)
+  const costCategoryGrowth = normalizeCostBreakdown(raw.costCategoryGrowth)
+  return {
+    name,
+    color: typeof raw.color === 'string' ? raw.color : SCENARIO_COLORS[index % SCENARIO_COLORS.length],
+    preset,
+    future: raw.future.map((fy) => normalizeFutureYear(fy, name)),
+    // Fill in projection settings added after the payload was written
+    projection: Object.fromEntries(
+      Object.entries(defaults).map(([key, value]) => [key, num(projection[key], value)])
+    ) as typeof defaults,
+    ...(isRecord(raw.growthSchedules) ? { growthSchedules: normalizeGrowthSchedules(raw.growthSchedules) } : {}),
+    ...(costCategoryGrowth ? { costCategoryGrowth } : {}),
+    ...(isRecord(raw.payrollTaxes) ? { payrollTaxes: normalizePayrollTaxes(raw.payrollTaxes, name) } : {}),
+    ...(isRecord(raw.takeHome) ? { takeHome: normalizeTakeHome(raw.takeHome) } : {}),
+    ...(isRecord(raw.retirementPlans) ? { retirementPlans: normalizeRetirementPlans(raw.retirementPlans) } : {}),
+    selectedYear: num(raw.selectedYear, DEFAULT_BASELINE_YEAR),
+    dataMode: isDataMode(raw.dataMode) ? raw.dataMode : defaultDataMode(preset, HISTORIC_DATA, BASELINE_DETAILS, DEFAULT_BASELINE_YEAR),
+  }
+}
+
+// Keep only numeric rates for known growth fields, keyed by year
+function normalizeGrowthSchedules(raw: Record<string, unknown>): GrowthSchedules {
+  const schedules: GrowthSchedules = {}
+  for (const field of Object.keys(GROWTH_RATE_FIELDS) as GrowthField[]) {
+    const schedule = raw[field]
+    if (!isRecord(schedule)) continue
+    const rates = Object.entries(schedule).filter((entry): entry is [string, number] => /^\d{4}$/.test(entry[0]) && typeof entry[1] === 'number' && Number.isFinite(entry[1]))
+    if (rates.length > 0) schedules[field] = Object.fromEntries(rates.map(([year, pct]) => [Number(year), pct]))
+  }
+  return schedules
+}
+
+// Tables keyed by year, each rule with an id and numeric rates
+function normalizePayrollTaxes(raw: Record<string, unknown>, scenarioName: string): PayrollTaxTables {
+  const tables: PayrollTaxTables = {}
+  for (const [year, rules] of Object.entries(raw)) {
+    if (!/^\d{4}$/.test(year) || !Array.isArray(rules)) continue
+    tables[Number(year)] = rules.map((rule) => {
+      if (!isRecord(rule) || typeof rule.id !== 'string') throw new MigrationError(`Scenario "${scenarioName}" has a ${year} payroll tax without an id.`)
+      const wageBase = rule.wageBase === 'socialSecurity' ? 'socialSecurity' : typeof rule.wageBase === 'number' && Number.isFinite(rule.wageBase) ? rule.wageBase : undefined
+      return {
+        id: rule.id,
+        name: typeof rule.name === 'string' ? rule.name : '',
+        jurisdiction: typeof rule.jurisdiction === 'string' ? rule.jurisdiction : '',
+        rate: num(rule.rate, 0),
+        ...(wageBase !== undefined ? { wageBase } : {}),
+        employerSharePct: num(rule.employerSharePct, 100),
+      }
+    })
+  }
+  return tables
+}
+
+// Settings per partner name, with defaults filled in
+function normalizeTakeHome(raw: Record<string, unknown>): Record<string, TakeHomeSettings> {
+  return Object.fromEntries(Object.entries(raw).filter((entry): entry is [string, Payload] => isRecord(entry[1])).map(([name, settings]) => [name, {
+    incomeTaxPct: num(settings.incomeTaxPct, DEFAULT_TAKE_HOME_SETTINGS.incomeTaxPct),
+    filingJointly: typeof settings.filingJointly === 'boolean' ? settings.filingJointly : DEFAULT_TAKE_HOME_SETTINGS.filingJointly,
+    claimQbi: typeof settings.claimQbi === 'boolean' ? settings.claimQbi : DEFAULT_TAKE_HOME_SETTINGS.claimQbi,
+  }]))
+}
+
+// Numeric rates and credits, and limits keyed by year with defaults filled in
+function normalizeRetirementPlans(raw: Record<string, unknown>): RetirementPlans {
+  const credits = isRecord(raw.cashBalanceCredits)
+    ? Object.entries(raw.cashBalanceCredits).filter((entry): entry is [string, number] => typeof entry[1] === 'number' && Number.isFinite(entry[1]))
+    : []
+  const limits: Record<number, RetirementLimits> = {}
+  for (const [year, entry] of Object.entries(isRecord(raw.limits) ? raw.limits : {})) {
+    if (!/^\d{4}$/.test(year) || !isRecord(entry)) continue
+    const defaults = defaultRetirementLimits(Number(year))
+    limits[Number(year)] = {
+      compensationLimit: num(entry.compensationLimit, defaults.compensationLimit),
+      annualAdditionsLimit: num(entry.annualAdditionsLimit, defaults.annualAdditionsLimit),
+      deferralLimit: num(entry.deferralLimit, defaults.deferralLimit),
+    }
+  }
+  return {
+    safeHarborMatchPct: num(raw.safeHarborMatchPct, DEFAULT_RETIREMENT_PLANS.safeHarborMatchPct),
+    profitSharingPct: num(raw.profitSharingPct, DEFAULT_RETIREMENT_PLANS.profitSharingPct),
+    cashBalanceCredits: Object.fromEntries(credits),
+    ...(Object.keys(limits).length > 0 ? { limits } : {}),
+  }
+}
+
+function normalizeSnapshot(payload: Payload): ScenarioSnapshot {
+  if (!isRecord(payload.scenarios) || !Array.isArray(payload.scenarioOrder)) {
+    throw new MigrationError('The saved data has no scenarios in it.')
+  }
+  const rawScenarios = payload.scenarios
+  const order = payload.scenarioOrder.filter((id): id is string => typeof id === 'string' && id in rawScenarios)
+  if (order.length === 0) throw new MigrationError('The saved data has no scenarios in it.')
+  const scenarios: Record<ScenarioKey, ScenarioState> = {}
+  order.forEach((id, index) => { scenarios[id] = normalizeScenario(rawScenarios[id], id, index) })
+  const selected = Array.isArray(payload.selectedScenarioIds)
+    ? payload.selectedScenarioIds.filter((id): id is string => typeof id === 'string' && order.includes(id))
+    : []
+  return { scenarios, scenarioOrder: order, selectedScenarioIds: selected.length > 0 ? selected : [order[0]] }
+}
+
+function upgrade(payload: unknown, version: number): Payload {
+  if (!isRecord(payload)) throw new MigrationError('The saved data is empty or not an object.')
+  if (version > SCHEMA_VERSION) {
+    throw new MigrationError(`This data was saved by a newer version of the dashboard (schema ${version}); this version reads up to schema ${SCHEMA_VERSION}.`)
+  }
+  let current = payload
+  // Untagged payloads predate versioning and are treated as version 1
+  for (let v = Math.max(1, version); v < SCHEMA_VERSION; v++) {
+    current = MIGRATIONS[v](current)
+  }
+  return current
+}
+
+// Upgrade a share-link or file snapshot written at `version` to the current shape
+export function migrateSnapshot(payload: unknown, version: number): ScenarioSnapshot {
+  return normalizeSnapshot(upgrade(payload, version))
+}
+
+export type PersistedActuals = {
+  historic: YearRow[]
+  baselineDetails: Record<number, BaselineDetail>
+  actualsSource: ActualsSource
+}
+
+export type PersistedPayroll = {
+  payrollLedger: PayrollLedger
+  baselineDetails: Record<number, BaselineDetail>
+}
+
+export type PersistedClose = {
+  baselineYear: number
+  historic: YearRow[]
+  baselineDetails: Record<number, BaselineDetail>
+}
+
+export type PersistedState = ScenarioSnapshot & { library: SavedScenario[]; trendSettings?: TrendSettings } & Partial<PersistedActuals> & Partial<PersistedPayroll> & Partial<PersistedClose>
+
+const DETAIL_AMOUNTS = ['nonMdEmploymentCosts', 'miscEmploymentCosts', 'locumCosts', 'netPartnerPool'] as const
+
+function normalizeBaselineDetails(baselineDetails: unknown): Record<number, BaselineDetail> {
+  if (!isRecord(baselineDetails)) throw new MigrationError('The baseline details are incomplete.')
+  return Object.fromEntries(Object.entries(baselineDetails).map(([year, d]) => {
+    if (!isRecord(d) || !DETAIL_AMOUNTS.every((key) => typeof d[key] === 'number') || !Array.isArray(d.physicians)) {
+      throw new MigrationError(`The baseline details for ${year} are incomplete.`)
+    }
+    const physicians = d.physicians.map((p) => normalizePhysician(p, `The ${year} roster`))
+    return [year, { ...(d as unknown as BaselineDetail), physicians }]
+  }))
+}
+
+const HISTORIC_BREAKDOWNS = ['employeePayroll', 'medicalDirectorIncome', 'prcsMedicalDirectorIncome', 'locumCosts', 'staffPayroll', 'physicianPayroll'] as const
+
+function normalizeTrendSettings(trendSettings: unknown): TrendSettings {
+  if (!isRecord(trendSettings)) throw new MigrationError('Trend settings are not an object.')
+  const { method, fromYear, toYear } = trendSettings
+  if (typeof method !== 'string' || !(method in TREND_METHOD_LABELS)) throw new MigrationError(`Unknown trend method "${String(method)}".`)
+  if (typeof fromYear !== 'number' || typeof toYear !== 'number' || fromYear >= toYear) throw new MigrationError('The trend window is invalid.')
+  return { method: method as TrendSettings['method'], fromYear, toYear }
+}
+
+function normalizeHistoric(historic: unknown): YearRow[] {
+  if (!Array.isArray(historic) || !historic.every((h) => isRecord(h) && typeof h.year === 'number' && typeof h.therapyIncome === 'number' && typeof h.nonEmploymentCosts === 'number')) {
+    throw new MigrationError('The historic figures are incomplete.')
+  }
+  return (historic as Payload[]).map((h) => {
+    const row: YearRow = { year: h.year as number, therapyIncome: h.therapyIncome as number, nonEmploymentCosts: h.nonEmploymentCosts as number }
+    // Breakdowns and notes are optional, so unreadable ones are dropped rather than failing the row
+    for (const key of HISTORIC_BREAKDOWNS) {
+      if (typeof h[key] === 'number' && Number.isFinite(h[key])) row[key] = h[key]
+    }
+    const breakdown = normalizeCostBreakdown(h.costBreakdown)
+    if (breakdown) row.costBreakdown = breakdown
+    if (isRecord(h.sources)) {
+      row.sources = Object.fromEntries(Object.entries(h.sources).filter((pair): pair is [string, string] => typeof pair[1] === 'string'))
+    }
+    return row
+  })
+}
+
+function normalizeActuals(payload: Payload): PersistedActuals {
+  const { historic, baselineDetails, actualsSource } = payload
+  if (!isRecord(actualsSource) || typeof actualsSource.fileName !== 'string') {
+    throw new MigrationError('The import record is missing.')
+  }
+  return {
+    historic: normalizeHistoric(historic),
+    baselineDetails: normalizeBaselineDetails(baselineDetails),
+    actualsSource: {
+      fileName: actualsSource.fileName,
+      importedAt: typeof actualsSource.importedAt === 'string' ? actualsSource.importedAt : new Date(0).toISOString(),
+      years: Array.isArray(actualsSource.years) ? actualsSource.years.filter((y): y is number => typeof y === 'number') : [],
+    },
+  }
+}
+
+const LEDGER_KINDS: PayrollLedgerEntry['kind'][] = ['staff', 'physician', 'locum']
+
+function normalizePayrollLedger(raw: unknown): PayrollLedger {
+  if (!isRecord(raw) || typeof raw.year !== 'number' || !Array.isArray(raw.months) || !Array.isArray(raw.entries)) {
+    throw new MigrationError('The payroll ledger is incomplete.')
+  }
+  const entries = raw.entries.filter((e): e is Payload => isRecord(e) && typeof e.month === 'number' && typeof e.employee === 'string')
+  const physicianNames = isRecord(raw.physicianNames) ? raw.physicianNames : {}
+  const source = isRecord(raw.source) && typeof raw.source.fileName === 'string' ? raw.source : null
+  return {
+    year: raw.year,
+    months: raw.months.filter((m): m is number => typeof m === 'number'),
+    entries: entries.map((e) => ({
+      month: e.month as number,
+      employee: e.employee as string,
+      kind: LEDGER_KINDS.includes(e.kind as PayrollLedgerEntry['kind']) ? (e.kind as PayrollLedgerEntry['kind']) : 'staff',
+      wages: num(e.wages, 0),
+      employerTaxes: num(e.employerTaxes, 0),
+      benefits: num(e.benefits, 0),
+    })),
+    physicianNames: Object.fromEntries(Object.entries(physicianNames).filter((pair): pair is [string, string] => typeof pair[1] === 'string')),
+    source: source && {
+      fileName: source.fileName as string,
+      importedAt: typeof source.importedAt === 'string' ? source.importedAt : new Date(0).toISOString(),
+    },
+  }
+}
+
+// Upgrade the localStorage blob. Library entries that cannot be read are dropped and reported
+// through `warnings` rather than discarding the whole state.
+export function migratePersistedState(payload: unknown, version: number): PersistedState & { warnings: string[] } {
+  const current = upgrade(payload, version)
+  const warnings: string[] = []
+  const library: SavedScenario[] = []
+  for (const entry of Array.isArray(current.library) ? current.library : []) {
+    try {
+      if (!isRecord(entry) || typeof entry.id !== 'string') throw new MigrationError('The entry is corrupted.')
+      library.push({
+        id: entry.id,
+        name: typeof entry.name === 'string' ? entry.name : 'Untitled',
+        description: typeof entry.description === 'string' ? entry.description : '',
+        savedAt: typeof entry.savedAt === 'string' ? entry.savedAt : new Date(0).toISOString(),
+        version: SCHEMA_VERSION,
+        // Entries keep the version they were saved at; ones from before that was recorded share the state's
+        snapshot: migrateSnapshot(isRecord(entry.snapshot) ? entry.snapshot : {}, typeof entry.version === 'number' ? entry.version : version),
+      })
+    } catch (err) {
+      const label = isRecord(entry) && typeof entry.name === 'string' ? `"${entry.name}"` : 'an entry'
+      warnings.push(`Dropped ${label} from the scenario library: ${err instanceof Error ? err.message : String(err)}`)
+    }
+  }
+  let actuals: Partial<PersistedActuals> = {}
+  if (current.actualsSource) {
+    try {
+      actuals = normalizeActuals(current)
+    } catch (err) {
+      warnings.push(`Imported actuals could not be restored, so the built-in figures are used: ${err instanceof Error ? err.message : String(err)}`)
+    }
+  }
+  let payroll: Partial<PersistedPayroll> = {}
+  if (current.payrollLedger) {
+    try {
+      payroll = {
+        payrollLedger: normalizePayrollLedger(current.payrollLedger),
+        baselineDetails: actuals.baselineDetails ?? normalizeBaselineDetails(current.baselineDetails),
+      }
+    } catch (err) {
+      warnings.push(`The imported payroll ledger could not be restored, so the built-in ledger is used: ${err instanceof Error ? err.message : String(err)}`)
+    }
+  }
+  let closed: Partial<PersistedClose> = {}
+  const baselineYear = current.baselineYear
+  if (typeof baselineYear === 'number') {
+    try {
+      const historic = actuals.historic ?? normalizeHistoric(current.historic)
+      const baselineDetails = payroll.baselineDetails ?? actuals.baselineDetails ?? normalizeBaselineDetails(current.baselineDetails)
+      // The year before the baseline must be on record for the projections to start from it
+      if (!historic.some((h) => h.year === baselineYear - 1) || !baselineDetails[baselineYear - 1]) {
+        throw new MigrationError(`The figures for ${baselineYear - 1} are missing.`)
+      }
+      closed = { baselineYear, historic, baselineDetails }
+    } catch (err) {
+      warnings.push(`Closed years could not be restored, so the baseline is back on the built-in year: ${err instanceof Error ? err.message : String(err)}`)
+    }
+  }
+  let edited: { historic?: YearRow[] } = {}
+  if (current.historic && !actuals.historic && !closed.historic) {
+    try {
+      edited = { historic: normalizeHistoric(current.historic) }
+    } catch (err) {
+      warnings.push(`Edited historic figures could not be restored, so the built-in figures are used: ${err instanceof Error ? err.message : String(err)}`)
+    }
+  }
+  let trend: { trendSettings?: TrendSettings } = {}
+  if (current.trendSettings) {
+    try {
+      trend = { trendSettings: normalizeTrendSettings(current.trendSettings) }
+    } catch (err) {
+      warnings.push(`The trend settings could not be restored, so the default fit is used: ${err instanceof Error ? err.message : String(err)}`)
+    }
+  }
+  return { ...normalizeSnapshot(current), library, ...actuals, ...payroll, ...closed, ...edited, ...trend, warnings }
+}
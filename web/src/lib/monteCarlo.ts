@@ -0,0 +1,140 @@
+import type { FutureYear, GrowthField, GrowthSchedules, Projection, YearRow } from './types'
+import { computeYearCompensation } from './compensation'
+import type { CompensationOptions } from './compensation'
+import { GROWTH_RATE_FIELDS, growthRateFor } from './growth'
+import { sameIncomeBasis } from './historic'
+
+export type SimulationSettings = {
+  draws: number
+  // Standard deviation of each year's growth rate, in percentage points around the scenario's rate
+  volatility: Record<GrowthField, number>
+  seed: number
+}
+
+export const DEFAULT_SIMULATION_DRAWS = 2000
+
+// One value per year; null where nobody was sampled (e.g. before a partner joins)
+export type PercentileBand = { p10: (number | null)[]; p50: (number | null)[]; p90: (number | null)[] }
+
+export type SimulationResult = {
+  years: number[]
+  net: PercentileBand
+  partners: { name: string; band: PercentileBand }[]
+}
+
+// Fields with no history of their own (employeePayroll jumps with physician hires), and the field whose
+// fitted volatility they borrow
+export const BORROWED_VOLATILITY: Partial<Record<GrowthField, GrowthField>> = {
+  nonMdEmploymentCosts: 'therapyIncome',
+  miscEmploymentCosts: 'therapyIncome',
+}
+
+// Helper: year-over-year growth in percent, between consecutive rows `comparable` accepts
+function yoyGrowth(rows: YearRow[], value: (h: YearRow) => number, comparable: (a: YearRow, b: YearRow) => boolean = () => true): number[] {
+  return rows.slice(1).flatMap((h, i) => (comparable(rows[i], h) ? [(value(h) / value(rows[i]) - 1) * 100] : []))
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2
+}
+
+// Helper: robust standard deviation of growth rates, in percentage points. The median absolute
+// deviation (scaled to match a normal distribution) keeps one jump year, like 2022's non-employment
+// costs, from setting the spread for every year.
+function growthSpread(growth: number[]): number {
+  if (growth.length < 2) return 0
+  const center = median(growth)
+  return Math.round(1.4826 * median(growth.map((g) => Math.abs(g - center))) * 10) / 10
+}
+
+// Default volatility from the actuals. Income volatility is fitted on therapy income alone, since MD
+// income is set by contract rather than grown; the step between a row that lumps MD income into
+// therapy income and one that records it separately is skipped. Fields in BORROWED_VOLATILITY take
+// the volatility of the field they borrow from.
+export function fitGrowthVolatility(historic: YearRow[]): Record<GrowthField, number> {
+  const sorted = [...historic].sort((a, b) => a.year - b.year)
+  const fitted: Record<GrowthField, number> = {
+    therapyIncome: growthSpread(yoyGrowth(sorted, (h) => h.therapyIncome, sameIncomeBasis)),
+    nonEmploymentCosts: growthSpread(yoyGrowth(sorted, (h) => h.nonEmploymentCosts)),
+    nonMdEmploymentCosts: 0,
+    miscEmploymentCosts: 0,
+  }
+  for (const [field, source] of Object.entries(BORROWED_VOLATILITY) as [GrowthField, GrowthField][]) fitted[field] = fitted[source]
+  return fitted
+}
+
+// Small seeded generator (mulberry32) so the bands do not jump around on every render
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// Helper: standard normal draw (Box-Muller)
+function normal(random: () => number): number {
+  const u = 1 - random()
+  const v = random()
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v)
+}
+
+function percentiles(samples: number[][]): PercentileBand {
+  const pick = (sorted: number[], p: number) => (sorted.length > 0 ? sorted[Math.round(p * (sorted.length - 1))] : null)
+  const band: PercentileBand = { p10: [], p50: [], p90: [] }
+  for (const values of samples) {
+    const sorted = [...values].sort((a, b) => a - b)
+    band.p10.push(pick(sorted, 0.1))
+    band.p50.push(pick(sorted, 0.5))
+    band.p90.push(pick(sorted, 0.9))
+  }
+  return band
+}
+
+// Run the compensation engine over random growth paths. Each draw scales the scenario's own
+// projected years by how far its random rates drift from the rates they were projected with (the
+// year's scheduled rate, else the flat one), so manual overrides in a year stay in place and only the
+// growth around them varies.
+export function simulateScenario(future: FutureYear[], projection: Projection, growthSchedules: GrowthSchedules | undefined, settings: SimulationSettings, options: CompensationOptions = {}): SimulationResult {
+  const years = future.map((f) => f.year)
+  const fields = Object.keys(GROWTH_RATE_FIELDS) as GrowthField[]
+  const random = createRandom(settings.seed)
+  const netSamples: number[][] = years.map(() => [])
+  // Keyed by name: physician ids are per year
+  const partnerSamples = new Map<string, number[][]>()
+
+  for (let draw = 0; draw < settings.draws; draw++) {
+    const drift: Record<GrowthField, number> = { therapyIncome: 1, nonEmploymentCosts: 1, nonMdEmploymentCosts: 1, miscEmploymentCosts: 1 }
+    future.forEach((fy, yearIdx) => {
+      const simulated: FutureYear = { ...fy }
+      for (const field of fields) {
+        const rate = growthRateFor(projection, growthSchedules, field, fy.year)
+        const drawn = rate + settings.volatility[field] * normal(random)
+        drift[field] *= Math.max(0, 1 + drawn / 100) / (1 + rate / 100)
+        simulated[field] = fy[field] * drift[field]
+      }
+      const result = computeYearCompensation(simulated, projection, options)
+      netSamples[yearIdx].push(result.netIncome)
+      for (const p of result.physicians) {
+        if (p.role !== 'partner' || p.retiredPriorYear) continue
+        let values = partnerSamples.get(p.name)
+        if (!values) {
+          values = years.map(() => [])
+          partnerSamples.set(p.name, values)
+        }
+        values[yearIdx].push(p.comp)
+      }
+    })
+  }
+
+  return {
+    years,
+    net: percentiles(netSamples),
+    partners: Array.from(partnerSamples, ([name, values]) => ({ name, band: percentiles(values) })),
+  }
+}
@@ -0,0 +1,314 @@
+import type { PayrollLedger, PayrollTaxTables, Physician, StaffMember } from './types'
+import { employerPayrollTaxItems } from './payrollTaxes'
+import { addDays, dayOfYearToDate, daysInYear, employeePortionToTransitionDay, isLeapYear, startPortionToStartDay } from './calendar'
+
+// Helper: employer payroll taxes for one employee's W2 annual wages, under the rules in force for the
+// year (the built-in WA State rules unless the scenario has its own tables)
+export function calculateEmployerPayrollTaxes(annualWages: number, year: number = 2025, taxTables?: PayrollTaxTables): number {
+  return employerPayrollTaxItems(annualWages, year, taxTables).reduce((sum, item) => sum + item.amount, 0)
+}
+
+const MONTHLY_BENEFITS_MED = 796.37
+const MONTHLY_BENEFITS_DENTAL = 57.12
+const MONTHLY_BENEFITS_VISION = 6.44
+
+// Helper: Calculate benefit costs for a given year with growth applied
+export function getBenefitCostsForYear(year: number, benefitGrowthPct: number): number {
+  const baseYear = 2025
+  const baseCost = (MONTHLY_BENEFITS_MED + MONTHLY_BENEFITS_DENTAL + MONTHLY_BENEFITS_VISION) * 12
+  if (year <= baseYear) {
+    return baseCost
+  }
+  const yearsOfGrowth = year - baseYear
+  const growthMultiplier = Math.pow(1 + benefitGrowthPct / 100, yearsOfGrowth)
+  return baseCost * growthMultiplier
+}
+
+// Calculate when benefits start for a new employee based on the new waiting period rules
+export function calculateBenefitStartDay(startDay: number, year: number): number {
+  const { month: startMonth, day: startDayOfMonth } = dayOfYearToDate(startDay, year)
+  
+  // Rule: If start date is the first of any month (except February), benefits start next month
+  if (startDayOfMonth === 1 && startMonth !== 2) {
+    // Benefits start on the first of the next month
+    const nextMonth = startMonth === 12 ? 1 : startMonth + 1
+    const nextYear = startMonth === 12 ? year + 1 : year
+    
+    if (nextYear > year) {
+      // If it rolls to next year, benefits start after this year ends
+      return daysInYear(year) + 1
+    }
+    
+    // Calculate day of year for first of next month
+    const daysInMonth = [31, isLeapYear(year) ? 29 : 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31]
+    let dayOfYear = 0
+    for (let i = 0; i < nextMonth - 1; i++) {
+      dayOfYear += daysInMonth[i]
+    }
+    return dayOfYear + 1
+  }
+  
+  // Rule: If start is mid-month (or Feb 1st), benefits start one month PLUS rounding up to next month start
+  // This means: 30 days + beginning of first full month after that
+  const thirtyDaysAfterStart = startDay + 30
+  
+  if (thirtyDaysAfterStart > daysInYear(year)) {
+    // If 30 days after start goes into next year, benefits start after this year
+    return daysInYear(year) + 1
+  }
+  
+  // Find what month the 30-day mark falls in
+  const { month: month30Days } = dayOfYearToDate(thirtyDaysAfterStart, year)
+  
+  // Benefits start on the first of the month AFTER the 30-day mark
+  const benefitMonth = month30Days === 12 ? 1 : month30Days + 1
+  const benefitYear = month30Days === 12 ? year + 1 : year
+  
+  if (benefitYear > year) {
+    // If benefits start next year, return beyond this year
+    return daysInYear(year) + 1
+  }
+  
+  // Calculate day of year for first of benefit month
+  const daysInMonth = [31, isLeapYear(year) ? 29 : 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31]
+  let dayOfYear = 0
+  for (let i = 0; i < benefitMonth - 1; i++) {
+    dayOfYear += daysInMonth[i]
+  }
+  return dayOfYear + 1
+}
+
+// Staff on the 2025 payroll, at 2025 rates
+export const DEFAULT_STAFF_ROSTER: StaffMember[] = [
+  { id: 'RG', name: 'RG', role: 'Practice manager', hourlyRate: 31.25, hoursPerWeek: 40, receivesBenefits: true },
+  { id: 'AL', name: 'AL', role: 'Billing', hourlyRate: 27, hoursPerWeek: 32, receivesBenefits: false },
+  { id: 'MW', name: 'MW', role: 'Front desk', hourlyRate: 23, hoursPerWeek: 20, receivesBenefits: false },
+]
+
+// Helper: day of the year an ISO date falls on; 0 for dates in earlier years and past the end for later ones
+function isoDayOfYear(iso: string, year: number): number {
+  const [y, m, d] = iso.split('-').map(Number)
+  if (y < year) return 0
+  if (y > year) return daysInYear(year) + 1
+  return Math.round((Date.UTC(y, m - 1, d) - Date.UTC(year, 0, 1)) / 86400000) + 1
+}
+
+// Employer cost of a staff member for a year: wages for the days they are employed, employer payroll
+// taxes on those wages, and benefits once a hire's waiting period is over
+export function calculateStaffMemberCost(member: StaffMember, year: number, benefitGrowthPct: number = 5.0, taxTables?: PayrollTaxTables): { wages: number; taxes: number; benefits: number; total: number } {
+  const totalDays = daysInYear(year)
+  const startDay = member.startDate ? isoDayOfYear(member.startDate, year) : 0
+  const firstDay = Math.max(1, startDay)
+  const lastDay = member.endDate ? Math.min(totalDays, isoDayOfYear(member.endDate, year)) : totalDays
+  if (lastDay < firstDay) return { wages: 0, taxes: 0, benefits: 0, total: 0 }
+
+  const wages = member.hourlyRate * member.hoursPerWeek * 52 * (lastDay - firstDay + 1) / totalDays
+  const taxes = calculateEmployerPayrollTaxes(wages, year, taxTables)
+  let benefits = 0
+  if (member.receivesBenefits) {
+    // Staff hired during the year wait for benefits the same way new physician employees do
+    const benefitStartDay = startDay >= 1 ? calculateBenefitStartDay(startDay, year) : 1
+    benefits = getBenefitCostsForYear(year, benefitGrowthPct) * Math.max(0, lastDay - benefitStartDay + 1) / totalDays
+  }
+  return { wages, taxes, benefits, total: wages + taxes + benefits }
+}
+
+// Staff employment costs for a year's roster
+export function calculateStaffRosterCost(staff: StaffMember[], year: number, benefitGrowthPct: number = 5.0, taxTables?: PayrollTaxTables): number {
+  return staff.reduce((sum, member) => sum + calculateStaffMemberCost(member, year, benefitGrowthPct, taxTables).total, 0)
+}
+
+// Calculate total cost for an employee including benefits and payroll taxes (WA State medical practice <50 employees)
+export function calculateEmployeeTotalCost(employee: Physician, year: number = 2025, benefitGrowthPct: number = 5.0, taxTables?: PayrollTaxTables): number {
+  
+  const baseSalary = employee.salary || 0
+  const bonusAmount = employee.bonusAmount || 0
+  
+  // Monthly benefits (convert to annual) - only if employee receives benefits
+  let annualBenefits = 0
+  if (employee.receivesBenefits) {
+    const yearlyBenefitCost = getBenefitCostsForYear(year, benefitGrowthPct)
+    if (employee.type === 'newEmployee') {
+      // For new employees, use the new benefit waiting period calculation
+      const startDay = startPortionToStartDay(employee.startPortionOfYear ?? 0, year)
+      const benefitStartDay = calculateBenefitStartDay(startDay, year)
+      const totalDays = daysInYear(year)
+      
+      // Only count benefits if they start within this year
+      if (benefitStartDay <= totalDays) {
+        const benefitDays = Math.max(0, totalDays - benefitStartDay + 1)
+        const benefitPortion = benefitDays / totalDays
+        annualBenefits = yearlyBenefitCost * benefitPortion
+      }
+    } else {
+      // For regular employees and mixed types, full benefits if they receive them
+      annualBenefits = yearlyBenefitCost
+    }
+  }
+  
+  // Calculate all employer payroll taxes using the comprehensive function
+  const totalPayrollTaxes = calculateEmployerPayrollTaxes(baseSalary, year, taxTables)
+  
+  return baseSalary + annualBenefits + totalPayrollTaxes + bonusAmount
+}
+
+// Bi-weekly payroll schedule calculations
+// Reference: 12/20/2024 pay date for period 11/30/2024-12/13/2024
+const REFERENCE_PAY_DATE = new Date('2024-12-20')
+const REFERENCE_PERIOD_END = new Date('2024-12-13')
+
+
+export function getPayPeriodsForYear(year: number): Array<{ periodStart: Date; periodEnd: Date; payDate: Date }> {
+  const periods: Array<{ periodStart: Date; periodEnd: Date; payDate: Date }> = []
+  
+  // Start from reference point and work backwards to find the first period of the year
+  let currentPeriodEnd = new Date(REFERENCE_PERIOD_END)
+  let currentPayDate = new Date(REFERENCE_PAY_DATE)
+  
+  // Go back to find the first pay period of the target year
+  while (currentPeriodEnd.getFullYear() > year || 
+         (currentPeriodEnd.getFullYear() === year && currentPeriodEnd.getMonth() > 0) ||
+         (currentPeriodEnd.getFullYear() === year && currentPeriodEnd.getMonth() === 0 && currentPeriodEnd.getDate() > 14)) {
+    currentPeriodEnd = addDays(currentPeriodEnd, -14)
+    currentPayDate = addDays(currentPayDate, -14)
+  }
+  
+  // Now work forward to collect all periods that could affect the target year
+  const nextYearEnd = new Date(year + 1, 0, 31) // Include early next year for delayed payments
+  
+  while (currentPayDate <= nextYearEnd) {
+    const periodStart = addDays(currentPeriodEnd, -13) // 14-day period
+    
+    periods.push({
+      periodStart,
+      periodEnd: new Date(currentPeriodEnd),
+      payDate: new Date(currentPayDate)
+    })
+    
+    // Move to next bi-weekly period
+    currentPeriodEnd = addDays(currentPeriodEnd, 14)
+    currentPayDate = addDays(currentPayDate, 14)
+  }
+  
+  return periods
+}
+
+// Helper: pay dates that fall in a year, from the bi-weekly schedule
+function payDatesInYear(year: number): Date[] {
+  return getPayPeriodsForYear(year).map((p) => p.payDate).filter((d) => d.getFullYear() === year)
+}
+
+// Staff employment costs for the ledger year: staff wages, employer taxes and benefits booked through
+// payroll, scaled from the pay runs on file to the pay runs in the whole year. Staff health premiums are
+// billed outside payroll (the ledger only carries employee deductions), so the benefits of everyone on
+// the staff roster who receives them are added on top.
+export function computeStaffCostsFromLedger(ledger: PayrollLedger, staff: StaffMember[] = DEFAULT_STAFF_ROSTER): number {
+  const payDates = payDatesInYear(ledger.year)
+  const runsOnFile = payDates.filter((d) => ledger.months.includes(d.getMonth() + 1)).length
+  if (runsOnFile === 0) return Math.round(calculateStaffRosterCost(DEFAULT_STAFF_ROSTER, ledger.year))
+  const booked = ledger.entries
+    .filter((e) => e.kind === 'staff')
+    .reduce((sum, e) => sum + e.wages + e.employerTaxes + e.benefits, 0)
+  const premiums = staff.reduce((sum, member) => sum + calculateStaffMemberCost(member, ledger.year).benefits, 0)
+  return Math.round((booked * (payDates.length / runsOnFile) + premiums) * 100) / 100
+}
+
+// Delayed W2 straight from the payroll ledger: what was actually paid this year, once the physician was
+// a partner, on the pay runs covering prior-year work. Returns null when the ledger can't answer
+// (different year, physician not on it, or the months with those pay runs aren't on file).
+function calculateDelayedW2FromLedger(physician: Physician, year: number, ledger: PayrollLedger): { amount: number; taxes: number; periodDetails: string } | null {
+  if (ledger.year !== year) return null
+  const employee = Object.keys(ledger.physicianNames).find((name) => ledger.physicianNames[name] === physician.name)
+  if (!employee) return null
+  const priorYearRuns = getPayPeriodsForYear(year).filter((p) => p.payDate.getFullYear() === year && p.periodStart.getFullYear() < year)
+  if (!priorYearRuns.every((p) => ledger.months.includes(p.payDate.getMonth() + 1))) return null
+
+  const transitionDay = employeePortionToTransitionDay(physician.employeePortionOfYear ?? 0.5, year)
+  const transitionDate = new Date(year, 0, transitionDay)
+  const runs = priorYearRuns.filter((p) => p.payDate >= transitionDate)
+  const months = new Set(runs.map((p) => p.payDate.getMonth() + 1))
+  const entries = ledger.entries.filter((e) => e.employee === employee && months.has(e.month))
+  const priorYearEnd = new Date(year - 1, 11, 31)
+  const formatDate = (d: Date) => `${d.getMonth() + 1}/${d.getDate()}/${String(d.getFullYear()).slice(-2)}`
+  return {
+    amount: entries.reduce((sum, e) => sum + e.wages, 0),
+    taxes: entries.reduce((sum, e) => sum + e.employerTaxes, 0),
+    periodDetails: runs.length > 0
+      ? `${runs.map((p) => `${formatDate(p.periodStart)}-${formatDate(p.periodEnd < priorYearEnd ? p.periodEnd : priorYearEnd)}`).join(', ')} (payroll ledger)`
+      : '',
+  }
+}
+
+export function calculateDelayedW2Payment(physician: Physician, year: number, ledger?: PayrollLedger, taxTables?: PayrollTaxTables): { amount: number; taxes: number; periodDetails: string } {
+  if (physician.type !== 'employeeToPartner') {
+    return { amount: 0, taxes: 0, periodDetails: '' }
+  }
+
+  const fromLedger = ledger ? calculateDelayedW2FromLedger(physician, year, ledger) : null
+  if (fromLedger) return fromLedger
+
+  // No payroll on file: estimate from the salary and the bi-weekly schedule
+  const transitionDay = employeePortionToTransitionDay(physician.employeePortionOfYear ?? 0.5, year)
+  const transitionDate = new Date(year, 0, transitionDay) // Convert to actual date
+  
+  const periods = getPayPeriodsForYear(year)
+  const salary = physician.salary ?? 0
+  
+  // Calculate hourly rate: salary ÷ (52 weeks × 5 days × 8 hours)
+  const annualWorkHours = 52 * 5 * 8  // 2,080 hours per year
+  const hourlyRate = salary / annualWorkHours
+  
+  let totalWorkDays = 0
+  const periodDetails: string[] = []
+  
+  // Helper function to count business days (Mon-Fri) in a date range
+  function countBusinessDays(startDate: Date, endDate: Date): number {
+    let count = 0
+    const current = new Date(startDate)
+    
+    while (current <= endDate) {
+      const dayOfWeek = current.getDay()
+      // 1 = Monday through 5 = Friday
+      if (dayOfWeek >= 1 && dayOfWeek <= 5) {
+        count++
+      }
+      current.setDate(current.getDate() + 1)
+    }
+    
+    return count
+  }
+  
+  // Find periods where work was done in prior year but paid in current year
+  for (const period of periods) {
+    // Skip periods where pay date is before transition date
+    if (period.payDate < transitionDate) continue
+    
+    // Check if work period was in prior year
+    if (period.periodStart.getFullYear() < year || period.periodEnd.getFullYear() < year) {
+      // Calculate business days in prior year
+      const priorYearEnd = new Date(year - 1, 11, 31)
+      const periodStartInPriorYear = period.periodStart.getFullYear() < year ? period.periodStart : new Date(year, 0, 1)
+      const periodEndInPriorYear = period.periodEnd.getFullYear() < year ? period.periodEnd : priorYearEnd
+      
+      if (periodStartInPriorYear <= priorYearEnd) {
+        const businessDaysInPriorYear = countBusinessDays(periodStartInPriorYear, periodEndInPriorYear)
+        totalWorkDays += businessDaysInPriorYear
+        
+        const periodStartStr = `${periodStartInPriorYear.getMonth() + 1}/${periodStartInPriorYear.getDate()}`
+        const periodEndStr = `${periodEndInPriorYear.getMonth() + 1}/${periodEndInPriorYear.getDate()}`
+        const payDateStr = `${period.payDate.getMonth() + 1}/${period.payDate.getDate()}`
+        periodDetails.push(`${periodStartStr}-${periodEndStr} (paid ${payDateStr}, ${businessDaysInPriorYear} work days)`)
+      }
+    }
+  }
+  
+  // Calculate total amount: business days × 8 hours/day × hourly rate
+  const amount = totalWorkDays * 8 * hourlyRate
+  const taxes = calculateEmployerPayrollTaxes(amount, year, taxTables)
+  
+  return {
+    amount: Math.round(amount),
+    taxes: Math.round(taxes),
+    periodDetails: periodDetails.join(', ')
+  }
+}
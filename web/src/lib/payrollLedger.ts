@@ -0,0 +1,122 @@
+import { read, utils } from 'xlsx'
+import type { PayrollLedger, PayrollLedgerEntry, Physician } from './types'
+
+// Thrown for workbooks that are not in the payroll worksheet format; the message is shown as-is
+export class PayrollImportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PayrollImportError'
+  }
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+
+// Helper: month number for worksheet tabs such as "Jan", "June" or "August"; summary tabs return null
+function sheetMonth(sheetName: string): number | null {
+  const index = MONTHS.indexOf(sheetName.trim().slice(0, 3).toLowerCase())
+  return index >= 0 ? index + 1 : null
+}
+
+const amount = (cell: unknown) => (typeof cell === 'number' && Number.isFinite(cell) ? cell : 0)
+
+// Read the "Payroll Worksheet for QB Entry" workbook: one tab per month whose first journal block has
+// account number, account, debit, credit, memo and employee columns. Liability lines (net pay,
+// 401k deductions) are skipped; only expense accounts make it into the ledger.
+export function parsePayrollWorkbook(data: ArrayBuffer, fileName: string, roster: Physician[]): PayrollLedger {
+  let workbook
+  try {
+    workbook = read(data, { type: 'array' })
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err)
+    if (/password|encrypt/i.test(message)) {
+      throw new PayrollImportError('This workbook is password protected. Open it in Excel, save a copy without a password, and import that copy.')
+    }
+    throw new PayrollImportError(`This file could not be read as a spreadsheet (${message}).`)
+  }
+
+  const yearMatch = fileName.match(/\b(20\d{2})\b/)
+  const year = yearMatch ? Number(yearMatch[1]) : new Date().getFullYear()
+  const entries: PayrollLedgerEntry[] = []
+  const months: number[] = []
+
+  for (const sheetName of workbook.SheetNames) {
+    const month = sheetMonth(sheetName)
+    if (month === null || months.includes(month)) continue
+    const rows = utils.sheet_to_json<unknown[]>(workbook.Sheets[sheetName], { header: 1, raw: true, blankrows: false, defval: null })
+    const start = rows.findIndex((row) => typeof row[0] === 'number')
+    if (start < 0) continue
+
+    // Wage lines say who is staff, physician or locum; tax lines only carry the employee name
+    const kinds = new Map<string, PayrollLedgerEntry['kind']>()
+    const byEmployee = new Map<string, PayrollLedgerEntry>()
+    const entryFor = (employee: string, kind: PayrollLedgerEntry['kind']) => {
+      const key = `${kind}:${employee}`
+      let entry = byEmployee.get(key)
+      if (!entry) {
+        entry = { month, employee, kind, wages: 0, employerTaxes: 0, benefits: 0 }
+        byEmployee.set(key, entry)
+      }
+      return entry
+    }
+
+    for (const row of rows.slice(start)) {
+      // The journal block ends at its totals row, which has no account number
+      if (typeof row[0] !== 'number') break
+      const account = String(row[1] ?? '')
+      const employee = String(row[5] ?? '').trim()
+      const net = amount(row[2]) - amount(row[3])
+      if (/md assoc|physician/i.test(account)) {
+        kinds.set(employee, 'physician')
+        entryFor(employee, 'physician').wages += net
+      } else if (/locum/i.test(account)) {
+        entryFor(employee || 'Locums', 'locum').wages += net
+      } else if (/salary|wage/i.test(account)) {
+        kinds.set(employee, 'staff')
+        entryFor(employee || 'Staff', 'staff').wages += net
+      } else if (/payroll tax/i.test(account)) {
+        entryFor(employee || 'Staff', kinds.get(employee) ?? 'staff').employerTaxes += net
+      } else if (/benefit/i.test(account)) {
+        // Booked without a name; the credits are employee contributions toward staff coverage
+        entryFor(employee || 'Staff', kinds.get(employee) ?? 'staff').benefits += net
+      }
+    }
+    // Staff benefits may be booked before the staff wage line names the employee
+    const pooled = byEmployee.get('staff:Staff')
+    const staffName = Array.from(kinds).find(([, kind]) => kind === 'staff')?.[0]
+    if (pooled && staffName) {
+      byEmployee.delete('staff:Staff')
+      const named = entryFor(staffName, 'staff')
+      named.wages += pooled.wages
+      named.employerTaxes += pooled.employerTaxes
+      named.benefits += pooled.benefits
+    }
+
+    const round = (n: number) => Math.round(n * 100) / 100
+    for (const entry of byEmployee.values()) {
+      if (entry.wages === 0 && entry.employerTaxes === 0 && entry.benefits === 0) continue
+      entries.push({ ...entry, wages: round(entry.wages), employerTaxes: round(entry.employerTaxes), benefits: round(entry.benefits) })
+    }
+    months.push(month)
+  }
+
+  if (months.length === 0) {
+    throw new PayrollImportError('No monthly payroll tabs were found. The importer expects one tab per month (Jan, Feb, …) laid out like the payroll worksheet for QuickBooks entry.')
+  }
+
+  const physicianNames: Record<string, string> = {}
+  for (const entry of entries) {
+    if (entry.kind !== 'physician' || entry.employee in physicianNames) continue
+    const match = guessRosterName(entry.employee, roster)
+    if (match) physicianNames[entry.employee] = match
+  }
+  return { year, months: months.sort((a, b) => a - b), entries, physicianNames, source: { fileName, importedAt: new Date().toISOString() } }
+}
+
+// Helper: match a worksheet surname to roster initials ("Tinnel" -> "BT"), or an exact name
+export function guessRosterName(employee: string, roster: Physician[]): string | undefined {
+  const exact = roster.find((p) => p.name.toLowerCase() === employee.toLowerCase())
+  if (exact) return exact.name
+  const initial = employee.trim().charAt(0).toUpperCase()
+  const candidates = roster.filter((p) => /^[A-Z]{2,3}$/.test(p.name) && p.name.endsWith(initial))
+  return candidates.length === 1 ? candidates[0].name : undefined
+}
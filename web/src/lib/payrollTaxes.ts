@@ -0,0 +1,81 @@
+import type { PayrollTaxRule, PayrollTaxTables } from './types'
+
+// Published and projected Social Security wage bases
+const SS_WAGE_BASES: Record<number, number> = {
+  2025: 176100,
+  2026: 183600,
+  2027: 190800,
+  2028: 198900,
+  2029: 207000,
+  2030: 215400,
+}
+
+// Helper: Get Social Security wage base limit for a given year. Past the table the base keeps
+// growing at the table's average rate, rounded to a multiple of $300 the way SSA publishes it.
+export function getSocialSecurityWageBase(year: number): number {
+  if (SS_WAGE_BASES[year]) return SS_WAGE_BASES[year]
+  const years = Object.keys(SS_WAGE_BASES).map(Number).sort((a, b) => a - b)
+  const first = years[0]
+  const last = years[years.length - 1]
+  if (year < first) return SS_WAGE_BASES[first]
+  const growth = (SS_WAGE_BASES[last] / SS_WAGE_BASES[first]) ** (1 / (last - first))
+  return Math.round((SS_WAGE_BASES[last] * growth ** (year - last)) / 300) * 300
+}
+
+// Built-in rules for a WA State medical practice with fewer than 50 employees. The additional
+// Medicare tax over $200K is employee-only and left out.
+export const DEFAULT_PAYROLL_TAX_RULES: PayrollTaxRule[] = [
+  { id: 'futa', name: 'FUTA', jurisdiction: 'Federal', rate: 0.6, wageBase: 7000, employerSharePct: 100 },
+  { id: 'socialSecurity', name: 'Social Security', jurisdiction: 'Federal', rate: 12.4, wageBase: 'socialSecurity', employerSharePct: 50 },
+  { id: 'medicare', name: 'Medicare', jurisdiction: 'Federal', rate: 2.9, employerSharePct: 50 },
+  // Experience-rated: the practice's assigned rate changes from year to year
+  { id: 'waSuta', name: 'SUTA', jurisdiction: 'Washington State', rate: 0.9, wageBase: 72800, employerSharePct: 100 },
+  { id: 'waFamilyLeave', name: 'Family Leave', jurisdiction: 'Washington State', rate: 0.658, wageBase: 'socialSecurity', employerSharePct: 100 },
+  { id: 'waStateDisability', name: 'State Disability', jurisdiction: 'Washington State', rate: 0.255, employerSharePct: 100 },
+  { id: 'waRate', name: 'Washington Rate', jurisdiction: 'Washington State', rate: 0.03, employerSharePct: 100 },
+]
+
+// The year a table in force for `year` took effect; undefined when the built-in rules apply
+export function payrollTaxTableYear(tables: PayrollTaxTables | undefined, year: number): number | undefined {
+  const years = Object.keys(tables ?? {}).map(Number).filter((y) => y <= year)
+  return years.length > 0 ? Math.max(...years) : undefined
+}
+
+export function payrollTaxRulesFor(tables: PayrollTaxTables | undefined, year: number): PayrollTaxRule[] {
+  const tableYear = payrollTaxTableYear(tables, year)
+  return tables && tableYear !== undefined ? tables[tableYear] : DEFAULT_PAYROLL_TAX_RULES
+}
+
+// Wages the rule taxes per employee in a year; Infinity when uncapped
+export function ruleWageBase(rule: PayrollTaxRule, year: number): number {
+  if (rule.wageBase === 'socialSecurity') return getSocialSecurityWageBase(year)
+  return rule.wageBase ?? Infinity
+}
+
+export function employerRatePct(rule: PayrollTaxRule): number {
+  return (rule.rate * rule.employerSharePct) / 100
+}
+
+// Employer tax under each rule in force for the year, on one employee's annual wages
+export function employerPayrollTaxItems(annualWages: number, year: number, tables?: PayrollTaxTables): { rule: PayrollTaxRule; amount: number }[] {
+  return payrollTaxRulesFor(tables, year).map((rule) => ({
+    rule,
+    amount: (Math.min(annualWages, ruleWageBase(rule, year)) * employerRatePct(rule)) / 100,
+  }))
+}
+
+// Helper: "6.2% on first $176,100" style description of the employer's part of a rule
+export function describeEmployerRate(rule: PayrollTaxRule, year: number): string {
+  const base = ruleWageBase(rule, year)
+  const rate = `${Math.round(employerRatePct(rule) * 1000) / 1000}%`
+  return Number.isFinite(base) ? `${rate} on first $${base.toLocaleString('en-US')}` : rate
+}
+
+// Tables with the year's rules replaced, or dropped (so earlier rules carry on) when `rules` is undefined;
+// undefined once no table is left
+export function withPayrollTaxTable(tables: PayrollTaxTables | undefined, year: number, rules: PayrollTaxRule[] | undefined): PayrollTaxTables | undefined {
+  const next = { ...tables }
+  if (rules === undefined) delete next[year]
+  else next[year] = rules
+  return Object.keys(next).length > 0 ? next : undefined
+}
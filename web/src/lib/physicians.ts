@@ -0,0 +1,114 @@
+import type { Physician, PhysicianType } from './types'
+
+export const PHYSICIAN_TYPE_LABELS: Record<PhysicianType, string> = {
+  newEmployee: 'New Employee',
+  employee: 'Employee',
+  employeeToTerminate: 'Employee → Terminate',
+  employeeToPartner: 'Employee → Partner',
+  partner: 'Partner',
+  partnerToRetire: 'Partner → Retire',
+}
+
+export function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value))
+}
+
+// Mixed type helpers
+export function getEmployeePortionOfYear(physician: Physician): number {
+  if (physician.type === 'employee') return 1
+  if (physician.type === 'partner') return 0
+  if (physician.type === 'newEmployee') {
+    // New employees work from their start date to end of year
+    const startPortion = physician.startPortionOfYear ?? 0
+    return 1 - startPortion
+  }
+  if (physician.type === 'employeeToTerminate') {
+    // Terminating employees work from beginning of year to termination date
+    const terminatePortion = physician.terminatePortionOfYear ?? 1
+    return terminatePortion
+  }
+  const val = physician.employeePortionOfYear ?? 0.5
+  return clamp(val, 0, 1)
+}
+
+export function getPartnerPortionOfYear(physician: Physician): number {
+  if (physician.type === 'employee') return 0
+  if (physician.type === 'newEmployee') return 0
+  if (physician.type === 'employeeToTerminate') return 0
+  if (physician.type === 'partner') return 1
+  if (physician.type === 'employeeToPartner') return 1 - getEmployeePortionOfYear(physician)
+  if (physician.type === 'partnerToRetire') return physician.partnerPortionOfYear ?? 0.5
+  return 0
+}
+
+export function getPartnerFTEWeight(physician: Physician): number {
+  // Allow up to 24 weeks for historical data compatibility
+  const weeks = clamp(physician.weeksVacation ?? 0, 0, 24)
+  const baseFte = 1 - weeks / 52
+  return baseFte * getPartnerPortionOfYear(physician)
+}
+
+// Calculate FTE weight properly accounting for vacation during partner working period
+export function getPartnerFTEWeightProper(physician: Physician): number {
+  const partnerPortion = getPartnerPortionOfYear(physician)
+  if (partnerPortion === 0) return 0
+  
+  const weeksVacation = clamp(physician.weeksVacation ?? 0, 0, 24)
+  const partnerWeeksInYear = partnerPortion * 52
+  
+  // Vacation is taken during the partner working period
+  const effectivePartnerWeeks = Math.max(0, partnerWeeksInYear - weeksVacation)
+  
+  // Return as fraction of full year for comparison
+  return effectivePartnerWeeks / 52
+}
+
+// Helper function to calculate even medical director hour percentages among partners
+export function calculateMedicalDirectorHourPercentages(physicians: Physician[]): Physician[] {
+  // Calculate total partner work time (sum of partner portions, ignoring vacation as requested)
+  const totalPartnerPortions = physicians.reduce((sum, physician) => {
+    return sum + getPartnerPortionOfYear(physician)
+  }, 0)
+  
+  // If no partners, return physicians as-is
+  if (totalPartnerPortions === 0) {
+    return physicians.map(p => ({
+      ...p,
+      medicalDirectorHoursPercentage: 0,
+      hasMedicalDirectorHours: false
+    }))
+  }
+  
+  // Distribute percentages evenly among partners based on their portion of year
+  return physicians.map(physician => {
+    const partnerPortion = getPartnerPortionOfYear(physician)
+    const percentage = partnerPortion > 0 ? (partnerPortion / totalPartnerPortions) * 100 : 0
+    
+    return {
+      ...physician,
+      medicalDirectorHoursPercentage: percentage,
+      hasMedicalDirectorHours: percentage > 0
+    }
+  })
+}
+
+// Default trailing shared MD amount for prior-year retirees
+export function getDefaultTrailingSharedMdAmount(physician: Physician): number {
+  return physician.name === 'HW' ? 8302.5 : 2500
+}
+
+// Next year's roster from this year's: transitions complete, leavers drop off and one-time
+// bonuses end. Ids move to the new year the same way the default rosters are keyed.
+export function rollRosterForward(physicians: Physician[], year: number): Physician[] {
+  const rolled: Physician[] = []
+  for (const p of physicians) {
+    if (p.type === 'partnerToRetire' || p.type === 'employeeToTerminate') continue
+    const id = /^\d{4}-/.test(p.id) ? `${year}-${p.id.slice(5)}` : `${year}-${p.id}`
+    if (p.type === 'employeeToPartner' || p.type === 'partner') {
+      rolled.push({ id, name: p.name, type: 'partner', weeksVacation: p.weeksVacation ?? 8, receivesBonuses: false, bonusAmount: 0 })
+    } else {
+      rolled.push({ id, name: p.name, type: 'employee', salary: p.salary, receivesBenefits: p.receivesBenefits, receivesBonuses: false, bonusAmount: 0 })
+    }
+  }
+  return calculateMedicalDirectorHourPercentages(rolled)
+}
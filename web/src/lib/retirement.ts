@@ -0,0 +1,57 @@
+import type { RetirementLimits, RetirementPlans } from './types'
+
+export const DEFAULT_RETIREMENT_PLANS: RetirementPlans = { safeHarborMatchPct: 4, profitSharingPct: 10, cashBalanceCredits: {} }
+
+// Published IRS limits. Later years grow at 3% a year, rounded down to the increments the IRS
+// adjusts each limit by.
+const PUBLISHED_LIMITS: Record<number, RetirementLimits> = {
+  2024: { compensationLimit: 345000, annualAdditionsLimit: 69000, deferralLimit: 23000 },
+  2025: { compensationLimit: 350000, annualAdditionsLimit: 70000, deferralLimit: 23500 },
+  2026: { compensationLimit: 360000, annualAdditionsLimit: 72000, deferralLimit: 24500 },
+}
+const LIMIT_GROWTH_PCT = 3
+
+// Helper: the published (or grown) limits for a year, ignoring scenario overrides
+export function defaultRetirementLimits(year: number): RetirementLimits {
+  const years = Object.keys(PUBLISHED_LIMITS).map(Number)
+  const last = Math.max(...years)
+  const known = PUBLISHED_LIMITS[Math.max(Math.min(...years), Math.min(year, last))]
+  if (year <= last) return known
+  const grow = (amount: number, step: number) => Math.floor(amount * (1 + LIMIT_GROWTH_PCT / 100) ** (year - last) / step) * step
+  return {
+    compensationLimit: grow(known.compensationLimit, 5000),
+    annualAdditionsLimit: grow(known.annualAdditionsLimit, 1000),
+    deferralLimit: grow(known.deferralLimit, 500),
+  }
+}
+
+export function getRetirementLimits(plans: RetirementPlans | undefined, year: number): RetirementLimits {
+  return plans?.limits?.[year] ?? defaultRetirementLimits(year)
+}
+
+// Employer safe-harbor match on one person's W2 pay for the year
+export function calculateSafeHarborMatch(wages: number, year: number, plans: RetirementPlans | undefined): number {
+  if (!plans || wages <= 0) return 0
+  return Math.min(wages, getRetirementLimits(plans, year).compensationLimit) * plans.safeHarborMatchPct / 100
+}
+
+// A partner's profit-sharing contribution and cash balance pay credit. Partners are assumed to max
+// out their own deferrals, so profit sharing fills what that and any match on W2 pay leave of the
+// annual additions limit.
+export function calculatePartnerContributions(partnerName: string, planCompensation: number, match: number, year: number, plans: RetirementPlans | undefined): { profitSharing: number; cashBalance: number } {
+  if (!plans) return { profitSharing: 0, cashBalance: 0 }
+  const limits = getRetirementLimits(plans, year)
+  const room = Math.max(0, limits.annualAdditionsLimit - limits.deferralLimit - match)
+  const profitSharing = Math.min(Math.max(0, Math.min(planCompensation, limits.compensationLimit)) * plans.profitSharingPct / 100, room)
+  return { profitSharing, cashBalance: plans.cashBalanceCredits[partnerName] ?? 0 }
+}
+
+// Plans with the year's limits replaced, or dropped (back to the defaults) when `limits` is undefined
+export function withRetirementLimits(plans: RetirementPlans, year: number, limits: RetirementLimits | undefined): RetirementPlans {
+  const next = { ...plans.limits }
+  if (limits === undefined) delete next[year]
+  else next[year] = limits
+  const result: RetirementPlans = { ...plans, limits: next }
+  if (Object.keys(next).length === 0) delete result.limits
+  return result
+}
@@ -0,0 +1,220 @@
+import type { FutureYear, GrowthField, PayrollTaxRule, Physician, Projection, ScenarioState, StaffMember, TakeHomeSettings } from './types'
+import { FUTURE_FIELD_LABELS, PROJECTION_FIELD_LABELS } from './history'
+import { PHYSICIAN_TYPE_LABELS } from './physicians'
+import { GROWTH_RATE_FIELDS, growthRateFor } from './growth'
+import { COST_CATEGORIES, COST_CATEGORY_LABELS, oneOffTotal } from './costs'
+import { describeEmployerRate, payrollTaxRulesFor } from './payrollTaxes'
+import { getRetirementLimits } from './retirement'
+
+export type DiffValue = string | number | undefined
+
+// How a diff value should be shown: dollars, a percentage, or as-is
+export type DiffFormat = 'currency' | 'percent' | 'text'
+
+// One setting that differs between two scenarios
+export type ScenarioDiffRow = {
+  section: string // "Projection", "Baseline", "Payroll taxes", "Take-home", "Retirement plans" or the year
+  label: string
+  base: DiffValue
+  other: DiffValue
+  format: DiffFormat
+}
+
+const PROJECTION_FORMATS: Record<keyof Projection, DiffFormat> = {
+  incomeGrowthPct: 'percent',
+  medicalDirectorHours: 'currency',
+  prcsMedicalDirectorHours: 'currency',
+  nonEmploymentCostsPct: 'percent',
+  nonMdEmploymentCostsPct: 'percent',
+  locumsCosts: 'currency',
+  miscEmploymentCostsPct: 'percent',
+  benefitCostsGrowthPct: 'percent',
+}
+
+type YearField = keyof typeof FUTURE_FIELD_LABELS
+
+// Portions of the year are shown as percentages of the year
+const PHYSICIAN_FIELDS: { key: keyof Physician; label: string; format: DiffFormat; scale?: number }[] = [
+  { key: 'salary', label: 'salary', format: 'currency' },
+  { key: 'weeksVacation', label: 'weeks off', format: 'text' },
+  { key: 'employeePortionOfYear', label: 'employee share of year', format: 'percent', scale: 100 },
+  { key: 'partnerPortionOfYear', label: 'partner share of year', format: 'percent', scale: 100 },
+  { key: 'startPortionOfYear', label: 'start (share of year)', format: 'percent', scale: 100 },
+  { key: 'terminatePortionOfYear', label: 'termination (share of year)', format: 'percent', scale: 100 },
+  { key: 'receivesBenefits', label: 'benefits', format: 'text' },
+  { key: 'receivesBonuses', label: 'bonus', format: 'text' },
+  { key: 'bonusAmount', label: 'bonus amount', format: 'currency' },
+  { key: 'hasMedicalDirectorHours', label: 'medical director share', format: 'text' },
+  { key: 'medicalDirectorHoursPercentage', label: 'medical director %', format: 'percent' },
+  { key: 'buyoutCost', label: 'buyout', format: 'currency' },
+  { key: 'trailingSharedMdAmount', label: 'trailing MD amount', format: 'currency' },
+]
+
+// Helper: a physician field as a diff value
+function physicianValue(p: Physician, field: typeof PHYSICIAN_FIELDS[number]): DiffValue {
+  const value = p[field.key]
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No'
+  if (typeof value === 'number') return field.scale ? Math.round(value * field.scale * 10) / 10 : value
+  return value
+}
+
+// Roster changes within one year, matched by physician name
+function diffPhysicians(section: string, base: Physician[], other: Physician[]): ScenarioDiffRow[] {
+  const rows: ScenarioDiffRow[] = []
+  const names = Array.from(new Set([...base.map((p) => p.name), ...other.map((p) => p.name)]))
+  for (const name of names) {
+    const a = base.find((p) => p.name === name)
+    const b = other.find((p) => p.name === name)
+    if (!a || !b || a.type !== b.type) {
+      rows.push({ section, label: name, base: a ? PHYSICIAN_TYPE_LABELS[a.type] : '—', other: b ? PHYSICIAN_TYPE_LABELS[b.type] : '—', format: 'text' })
+      continue
+    }
+    for (const field of PHYSICIAN_FIELDS) {
+      const before = physicianValue(a, field)
+      const after = physicianValue(b, field)
+      if (before !== after) rows.push({ section, label: `${name} ${field.label}`, base: before, other: after, format: field.format })
+    }
+  }
+  return rows
+}
+
+const STAFF_FIELDS: { key: keyof StaffMember; label: string; format: DiffFormat }[] = [
+  { key: 'role', label: 'role', format: 'text' },
+  { key: 'hourlyRate', label: 'hourly rate', format: 'currency' },
+  { key: 'hoursPerWeek', label: 'hours per week', format: 'text' },
+  { key: 'receivesBenefits', label: 'benefits', format: 'text' },
+  { key: 'startDate', label: 'start', format: 'text' },
+  { key: 'endDate', label: 'last day', format: 'text' },
+  { key: 'raisePct', label: 'raise', format: 'percent' },
+]
+
+// Helper: a staff member field as a diff value
+function staffValue(member: StaffMember, key: keyof StaffMember): DiffValue {
+  const value = member[key]
+  return typeof value === 'boolean' ? (value ? 'Yes' : 'No') : value
+}
+
+// Staff roster changes within one year, matched by staff member
+function diffStaff(section: string, base: StaffMember[] | undefined, other: StaffMember[] | undefined): ScenarioDiffRow[] {
+  if (!base || !other) {
+    if (!base && !other) return []
+    const describe = (staff: StaffMember[] | undefined) => (staff ? `${staff.length} staff` : 'Growth rate')
+    return [{ section, label: 'staff roster', base: describe(base), other: describe(other), format: 'text' }]
+  }
+  const rows: ScenarioDiffRow[] = []
+  const ids = Array.from(new Set([...base.map((m) => m.id), ...other.map((m) => m.id)]))
+  for (const id of ids) {
+    const a = base.find((m) => m.id === id)
+    const b = other.find((m) => m.id === id)
+    const name = (a ?? b)?.name || (a ?? b)?.role || 'Staff member'
+    if (!a || !b) {
+      rows.push({ section, label: name, base: a ? a.role : '—', other: b ? b.role : '—', format: 'text' })
+      continue
+    }
+    for (const field of STAFF_FIELDS) {
+      const before = staffValue(a, field.key)
+      const after = staffValue(b, field.key)
+      if (before !== after) rows.push({ section, label: `${name} ${field.label}`, base: before, other: after, format: field.format })
+    }
+  }
+  return rows
+}
+
+// Everything that differs between two scenarios: projection settings, baseline, then year by year
+export function diffScenarios(base: ScenarioState, other: ScenarioState): ScenarioDiffRow[] {
+  const rows: ScenarioDiffRow[] = []
+  if (base.dataMode !== other.dataMode) {
+    rows.push({ section: 'Baseline', label: 'Data mode', base: base.dataMode, other: other.dataMode, format: 'text' })
+  }
+  for (const key of Object.keys(PROJECTION_FIELD_LABELS) as (keyof Projection)[]) {
+    if (base.projection[key] !== other.projection[key]) {
+      rows.push({ section: 'Projection', label: PROJECTION_FIELD_LABELS[key], base: base.projection[key], other: other.projection[key], format: PROJECTION_FORMATS[key] })
+    }
+  }
+  // Per-year rates, shown against the flat rate a year falls back to when only one side schedules it
+  for (const field of Object.keys(GROWTH_RATE_FIELDS) as GrowthField[]) {
+    const scheduledYears = Object.keys({ ...base.growthSchedules?.[field], ...other.growthSchedules?.[field] }).map(Number).sort((a, b) => a - b)
+    for (const year of scheduledYears) {
+      const before = growthRateFor(base.projection, base.growthSchedules, field, year)
+      const after = growthRateFor(other.projection, other.growthSchedules, field, year)
+      if (before !== after) rows.push({ section: 'Projection', label: `${PROJECTION_FIELD_LABELS[GROWTH_RATE_FIELDS[field]]} ${year}`, base: before, other: after, format: 'percent' })
+    }
+  }
+  // Cost categories without their own rate follow the non-employment rate
+  for (const category of COST_CATEGORIES) {
+    const before = base.costCategoryGrowth?.[category] ?? base.projection.nonEmploymentCostsPct
+    const after = other.costCategoryGrowth?.[category] ?? other.projection.nonEmploymentCostsPct
+    if (before !== after) rows.push({ section: 'Projection', label: `${COST_CATEGORY_LABELS[category].toLowerCase()} growth`, base: before, other: after, format: 'percent' })
+  }
+  // Employer payroll tax rates in each year either side starts a table, matched by rule
+  const taxYears = Object.keys({ ...base.payrollTaxes, ...other.payrollTaxes }).map(Number).sort((a, b) => a - b)
+  for (const year of taxYears) {
+    const before = payrollTaxRulesFor(base.payrollTaxes, year)
+    const after = payrollTaxRulesFor(other.payrollTaxes, year)
+    for (const id of Array.from(new Set([...before, ...after].map((rule) => rule.id)))) {
+      const a = before.find((rule) => rule.id === id)
+      const b = after.find((rule) => rule.id === id)
+      const describe = (rule: PayrollTaxRule | undefined) => (rule ? describeEmployerRate(rule, year) : '—')
+      if (describe(a) !== describe(b)) rows.push({ section: 'Payroll taxes', label: `${(a ?? b)?.name} ${year}`, base: describe(a), other: describe(b), format: 'text' })
+    }
+  }
+
+  // Partners' take-home settings; a partner without them gets no estimate
+  for (const name of Object.keys({ ...base.takeHome, ...other.takeHome })) {
+    const describe = (settings: TakeHomeSettings | undefined) =>
+      settings ? `${settings.incomeTaxPct}% income tax, ${settings.filingJointly ? 'joint' : 'single'}${settings.claimQbi ? ', QBI' : ''}` : '—'
+    const before = describe(base.takeHome?.[name])
+    const after = describe(other.takeHome?.[name])
+    if (before !== after) rows.push({ section: 'Take-home', label: name, base: before, other: after, format: 'text' })
+  }
+
+  // Retirement plans; a scenario without them makes no contributions
+  const basePlans = base.retirementPlans
+  const otherPlans = other.retirementPlans
+  if (basePlans || otherPlans) {
+    const pushPlanRow = (label: string, before: DiffValue, after: DiffValue, format: DiffFormat) => {
+      if (before !== after) rows.push({ section: 'Retirement plans', label, base: before, other: after, format })
+    }
+    pushPlanRow('safe-harbor match', basePlans?.safeHarborMatchPct ?? 0, otherPlans?.safeHarborMatchPct ?? 0, 'percent')
+    pushPlanRow('partner profit sharing', basePlans?.profitSharingPct ?? 0, otherPlans?.profitSharingPct ?? 0, 'percent')
+    for (const name of Object.keys({ ...basePlans?.cashBalanceCredits, ...otherPlans?.cashBalanceCredits })) {
+      pushPlanRow(`${name} cash balance credit`, basePlans?.cashBalanceCredits[name], otherPlans?.cashBalanceCredits[name], 'currency')
+    }
+    // Limits only matter where both sides have plans
+    if (basePlans && otherPlans) {
+      for (const year of Object.keys({ ...basePlans.limits, ...otherPlans.limits }).map(Number).sort((a, b) => a - b)) {
+        const before = getRetirementLimits(basePlans, year)
+        const after = getRetirementLimits(otherPlans, year)
+        pushPlanRow(`compensation limit ${year}`, before.compensationLimit, after.compensationLimit, 'currency')
+        pushPlanRow(`annual additions limit ${year}`, before.annualAdditionsLimit, after.annualAdditionsLimit, 'currency')
+        pushPlanRow(`deferral limit ${year}`, before.deferralLimit, after.deferralLimit, 'currency')
+      }
+    }
+  }
+
+  const years = Array.from(new Set([...base.future, ...other.future].map((f) => f.year))).sort((a, b) => a - b)
+  for (const year of years) {
+    const a: FutureYear | undefined = base.future.find((f) => f.year === year)
+    const b: FutureYear | undefined = other.future.find((f) => f.year === year)
+    const section = String(year)
+    for (const key of Object.keys(FUTURE_FIELD_LABELS) as YearField[]) {
+      const before = a?.[key]
+      const after = b?.[key]
+      // Ignore rounding noise from growth projections
+      if (before === after || (typeof before === 'number' && typeof after === 'number' && Math.abs(before - after) < 0.5)) continue
+      rows.push({ section, label: FUTURE_FIELD_LABELS[key], base: before, other: after, format: 'currency' })
+    }
+    for (const category of COST_CATEGORIES) {
+      const before = a?.costBreakdown?.[category]
+      const after = b?.costBreakdown?.[category]
+      if (before === after || (before !== undefined && after !== undefined && Math.abs(before - after) < 0.5)) continue
+      rows.push({ section, label: COST_CATEGORY_LABELS[category].toLowerCase(), base: before, other: after, format: 'currency' })
+    }
+    if (oneOffTotal(a?.oneOffCosts) !== oneOffTotal(b?.oneOffCosts)) {
+      rows.push({ section, label: 'one-off costs', base: oneOffTotal(a?.oneOffCosts), other: oneOffTotal(b?.oneOffCosts), format: 'currency' })
+    }
+    rows.push(...diffStaff(section, a?.staff, b?.staff))
+    rows.push(...diffPhysicians(section, a?.physicians ?? [], b?.physicians ?? []))
+  }
+  return rows
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest'
+import type { FutureYear } from './types'
+import { computeYearCompensation } from './compensation'
+import { defaultProjection, nextProjectionYear } from './scenarios'
+
+describe('nextProjectionYear', () => {
+  const projection = defaultProjection('A')
+  const last: FutureYear = {
+    year: 2030,
+    therapyIncome: 3000000,
+    nonEmploymentCosts: 250000,
+    nonMdEmploymentCosts: 180000,
+    miscEmploymentCosts: 30000,
+    locumCosts: 0,
+    prcsMedicalDirectorHours: 60000,
+    prcsDirectorPhysicianId: '2030-AB',
+    physicians: [
+      { id: '2030-CD', name: 'CD', type: 'partner', weeksVacation: 8 },
+      { id: '2030-AB', name: 'AB', type: 'employeeToPartner', salary: 400000, employeePortionOfYear: 0.5, weeksVacation: 8 },
+    ],
+  }
+
+  it('keeps a PRCS director who made partner partway through the year', () => {
+    const next = nextProjectionYear(last, { projection })
+    expect(next.prcsDirectorPhysicianId).toBe('2031-AB')
+    const ab = computeYearCompensation(next, projection).physicians.find((p) => p.name === 'AB')
+    expect(ab?.prcsMdAllocation).toBe(60000)
+  })
+})
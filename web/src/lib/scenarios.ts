@@ -0,0 +1,115 @@
+import type { DataMode, FutureYear, GrowthField, Physician, Projection, ScenarioKey, ScenarioPreset, ScenarioState } from './types'
+import {
+  INITIAL_FUTURE_YEARS_A,
+  INITIAL_FUTURE_YEARS_B,
+  scenarioADefaultsByYear,
+  scenarioBDefaultsByYear,
+} from './defaults'
+import { rollRosterForward } from './physicians'
+import { growthRateFor } from './growth'
+import { growCosts, splitCosts, splitTotal } from './costs'
+import { rollStaffForward } from './staff'
+import { calculateStaffRosterCost } from './payroll'
+import { isPartnerType } from './compensation'
+
+// Palette handed out to new scenarios in order; users can change it afterwards
+export const SCENARIO_COLORS = ['#1976d2', '#c2410c', '#15803d', '#7c3aed', '#be185d', '#0891b2', '#a16207', '#4b5563']
+
+// Built-in projection settings. Growth rates with enough history behind them are replaced by the
+// fitted trend (see deriveProjectionDefaults); these values are the fallback.
+export function defaultProjection(preset: ScenarioPreset): Projection {
+  return {
+    incomeGrowthPct: 3.7,
+    medicalDirectorHours: 110000,
+    prcsMedicalDirectorHours: 60000,
+    nonEmploymentCostsPct: 7.8,
+    nonMdEmploymentCostsPct: 6.0,
+    // Preset B assumes no locums beyond the years that book their own (locumsOverride)
+    locumsCosts: preset === 'B' ? 0 : 120000,
+    miscEmploymentCostsPct: 6.7,
+    benefitCostsGrowthPct: 5.0,
+  }
+}
+
+export function scenarioDefaultsByYear(preset: ScenarioPreset, year: number): Physician[] {
+  return preset === 'A' ? scenarioADefaultsByYear(year) : scenarioBDefaultsByYear(year)
+}
+
+// Bounds for the add/remove year buttons; succession planning runs up to fifteen years out
+export const MIN_PROJECTION_YEARS = 1
+export const MAX_PROJECTION_YEARS = 15
+
+// The year after a scenario's last projected year: amounts grown at that year's rates from the
+// last year (so its overrides carry forward) and the roster rolled forward
+export function nextProjectionYear(last: FutureYear, sc: Pick<ScenarioState, 'projection' | 'growthSchedules' | 'costCategoryGrowth' | 'payrollTaxes'>): FutureYear {
+  const year = last.year + 1
+  const { projection, growthSchedules: schedules, costCategoryGrowth } = sc
+  const grow = (value: number, field: GrowthField) => value * (1 + growthRateFor(projection, schedules, field, year) / 100)
+  // Categories grow at their own rates; the last year's one-off costs do not carry forward
+  const costs = growCosts(splitCosts(last), costCategoryGrowth, growthRateFor(projection, schedules, 'nonEmploymentCosts', year))
+  const physicians = rollRosterForward(last.physicians, year)
+  // A staff roster carries forward with raises, and its cost replaces the growth rate
+  const staff = last.staff ? rollStaffForward(last.staff, year) : undefined
+  const prcsDirectorName = last.physicians.find((p) => p.id === last.prcsDirectorPhysicianId)?.name
+  return {
+    year,
+    therapyIncome: grow(last.therapyIncome, 'therapyIncome'),
+    nonEmploymentCosts: splitTotal(costs),
+    ...(last.costBreakdown ? { costBreakdown: costs.breakdown } : {}),
+    nonMdEmploymentCosts: staff ? calculateStaffRosterCost(staff, year, projection.benefitCostsGrowthPct, sc.payrollTaxes) : grow(last.nonMdEmploymentCosts, 'nonMdEmploymentCosts'),
+    ...(staff ? { staff } : {}),
+    miscEmploymentCosts: grow(last.miscEmploymentCosts, 'miscEmploymentCosts'),
+    locumCosts: projection.locumsCosts,
+    medicalDirectorHours: last.medicalDirectorHours,
+    prcsMedicalDirectorHours: last.prcsMedicalDirectorHours,
+    prcsDirectorPhysicianId: physicians.find((p) => p.name === prcsDirectorName && isPartnerType(p))?.id,
+    physicians,
+  }
+}
+
+function initialFutureYears(preset: ScenarioPreset): FutureYear[] {
+  const source = preset === 'A' ? INITIAL_FUTURE_YEARS_A : INITIAL_FUTURE_YEARS_B
+  return source.map((f) => ({ ...f, physicians: f.physicians.map((p) => ({ ...p })) }))
+}
+
+// Fresh scenario seeded from one of the built-in presets, opened on the Baseline tab. `projection`
+// carries the preset's rates (with the historic trend where there is one).
+export function createScenarioState(preset: ScenarioPreset, name: string, color: string, projection: Projection, baselineYear: number, dataMode: DataMode): ScenarioState {
+  return {
+    name,
+    color,
+    preset,
+    future: initialFutureYears(preset),
+    projection,
+    selectedYear: baselineYear,
+    dataMode,
+  }
+}
+
+export function makeScenarioId(): ScenarioKey {
+  return `sc-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`
+}
+
+// First palette color not already taken, cycling once every color is in use
+export function nextScenarioColor(scenarios: ScenarioState[]): string {
+  const used = new Set(scenarios.map((s) => s.color.toLowerCase()))
+  return SCENARIO_COLORS.find((c) => !used.has(c)) ?? SCENARIO_COLORS[scenarios.length % SCENARIO_COLORS.length]
+}
+
+// "Scenario C", "Scenario D", ... skipping names that already exist
+export function nextScenarioName(scenarios: ScenarioState[]): string {
+  const used = new Set(scenarios.map((s) => s.name))
+  for (let i = 0; i < 26; i++) {
+    const name = `Scenario ${String.fromCharCode(65 + i)}`
+    if (!used.has(name)) return name
+  }
+  return `Scenario ${scenarios.length + 1}`
+}
+
+// Copy name that does not collide with an existing scenario
+export function copyScenarioName(base: string, scenarios: ScenarioState[]): string {
+  const used = new Set(scenarios.map((s) => s.name))
+  let name = `${base} (copy)`
+  for (let i = 2; used.has(name); i++) name = `${base} (copy ${i})`
+  return name
+}
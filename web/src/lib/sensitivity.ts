@@ -0,0 +1,98 @@
+import type { FutureYear, GrowthField, GrowthSchedules, Physician, Projection } from './types'
+import { computeYearCompensation } from './compensation'
+import type { CompensationOptions, YearCompensation } from './compensation'
+import { PROJECTION_FIELD_LABELS } from './history'
+import { GROWTH_RATE_FIELDS, growthRateFor } from './growth'
+
+// What the tornado measures: every partner's comp added up, or one physician's comp
+export type SensitivityTarget = { kind: 'pool' } | { kind: 'physician'; name: string }
+
+// One bar of the tornado: the change in the target when the driver moves down / up by the shock
+export type SensitivityDriver = {
+  key: string
+  label: string
+  low: number
+  high: number
+}
+
+export type SensitivityResult = {
+  base: number
+  drivers: SensitivityDriver[] // Largest swing first
+}
+
+export const DEFAULT_SENSITIVITY_SHOCK_PCT = 10
+
+// Projection amounts that are copied into each year rather than read from the projection.
+// `fallback` matches what the compensation engine assumes when a year leaves the amount unset.
+const YEAR_AMOUNT_FIELDS: { key: keyof Projection; field: 'medicalDirectorHours' | 'prcsMedicalDirectorHours' | 'locumCosts'; fallback: number }[] = [
+  { key: 'medicalDirectorHours', field: 'medicalDirectorHours', fallback: 110000 },
+  { key: 'prcsMedicalDirectorHours', field: 'prcsMedicalDirectorHours', fallback: 60000 },
+  { key: 'locumsCosts', field: 'locumCosts', fallback: 0 },
+]
+
+// Helper: the target's value in one engine run
+function targetValue(result: YearCompensation, target: SensitivityTarget): number {
+  if (target.kind === 'pool') {
+    return result.physicians.filter((p) => p.role === 'partner').reduce((sum, p) => sum + p.comp, 0)
+  }
+  return result.physicians.find((p) => p.name === target.name)?.comp ?? 0
+}
+
+// Helper: a physician field scaled by a factor, leaving the rest of the roster alone
+function withPhysicianField(fy: FutureYear, id: string, field: 'salary' | 'weeksVacation', factor: number): FutureYear {
+  return {
+    ...fy,
+    physicians: fy.physicians.map((p: Physician) => (p.id === id ? { ...p, [field]: (p[field] ?? 0) * factor } : p)),
+  }
+}
+
+// Re-run the compensation engine with each driver moved by ±shockPct percent, one at a time.
+// Growth rates are shocked relative to their own value in each year from `baselineYear` on (the
+// scheduled rate where a year has one, as the projection grows it) and compounded up to the year, the
+// same way the Monte Carlo bands scale a projected year, so manual overrides stay in place.
+export function analyzeSensitivity(
+  fy: FutureYear,
+  projection: Projection,
+  growthSchedules: GrowthSchedules | undefined,
+  baselineYear: number,
+  target: SensitivityTarget,
+  shockPct: number,
+  options: CompensationOptions = {},
+): SensitivityResult {
+  const run = (year: FutureYear, proj: Projection) => targetValue(computeYearCompensation(year, proj, options), target)
+  const base = run(fy, projection)
+  const drivers: SensitivityDriver[] = []
+  const add = (key: string, label: string, shocked: (factor: number) => number) => {
+    drivers.push({ key, label, low: shocked(1 - shockPct / 100) - base, high: shocked(1 + shockPct / 100) - base })
+  }
+
+  for (const field of Object.keys(GROWTH_RATE_FIELDS) as GrowthField[]) {
+    const rateKey = GROWTH_RATE_FIELDS[field]
+    add(rateKey, PROJECTION_FIELD_LABELS[rateKey], (factor) => {
+      let drift = 1
+      for (let year = baselineYear + 1; year <= fy.year; year++) {
+        const rate = growthRateFor(projection, growthSchedules, field, year)
+        drift *= (1 + (rate * factor) / 100) / (1 + rate / 100)
+      }
+      return run({ ...fy, [field]: fy[field] * drift }, projection)
+    })
+  }
+  add('benefitCostsGrowthPct', PROJECTION_FIELD_LABELS.benefitCostsGrowthPct, (factor) =>
+    run(fy, { ...projection, benefitCostsGrowthPct: projection.benefitCostsGrowthPct * factor }))
+  for (const { key, field, fallback } of YEAR_AMOUNT_FIELDS) {
+    const value = fy[field] ?? fallback
+    add(key, PROJECTION_FIELD_LABELS[key], (factor) => run({ ...fy, [field]: value * factor }, projection))
+  }
+
+  for (const p of fy.physicians) {
+    if (p.salary !== undefined) {
+      add(`${p.id}-salary`, `${p.name} salary`, (factor) => run(withPhysicianField(fy, p.id, 'salary', factor), projection))
+    }
+    if (p.weeksVacation !== undefined) {
+      add(`${p.id}-weeksVacation`, `${p.name} weeks off`, (factor) => run(withPhysicianField(fy, p.id, 'weeksVacation', factor), projection))
+    }
+  }
+
+  const swing = (d: SensitivityDriver) => Math.max(Math.abs(d.low), Math.abs(d.high))
+  return { base, drivers: drivers.sort((a, b) => swing(b) - swing(a)) }
+}
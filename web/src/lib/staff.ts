@@ -0,0 +1,44 @@
+import type { StaffMember } from './types'
+import { DEFAULT_STAFF_ROSTER } from './payroll'
+
+// Roles offered when adding staff; any other role can be typed in
+export const STAFF_ROLES = ['Practice manager', 'Billing', 'Front desk', 'Medical assistant', 'Nurse']
+
+export function makeStaffId(): string {
+  return `st-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`
+}
+
+// A hire starting on the first of the year, with benefits
+export function newStaffMember(year: number, raisePct: number): StaffMember {
+  return { id: makeStaffId(), name: '', role: 'Medical assistant', hourlyRate: 22, hoursPerWeek: 40, receivesBenefits: true, startDate: `${year}-01-01`, raisePct }
+}
+
+// The member as they carry into `year`: their raise applied and a start date before the year
+// dropped. Undefined once they have left.
+export function rollStaffMember(member: StaffMember, year: number): StaffMember | undefined {
+  if (member.endDate && Number(member.endDate.slice(0, 4)) < year) return undefined
+  const rolled: StaffMember = { ...member, hourlyRate: Math.round(member.hourlyRate * (1 + (member.raisePct ?? 0) / 100) * 100) / 100 }
+  if (rolled.startDate && Number(rolled.startDate.slice(0, 4)) < year) delete rolled.startDate
+  return rolled
+}
+
+export function rollStaffForward(staff: StaffMember[], year: number): StaffMember[] {
+  return staff.flatMap((member) => rollStaffMember(member, year) ?? [])
+}
+
+// The built-in 2025 staff carried to `year`, each with the given annual raise
+export function defaultStaffRoster(year: number, raisePct: number): StaffMember[] {
+  let staff: StaffMember[] = DEFAULT_STAFF_ROSTER.map((member) => ({ ...member, raisePct }))
+  for (let y = 2026; y <= year; y++) staff = rollStaffForward(staff, y)
+  return staff
+}
+
+// Tooltip text for a year's staff: the roles covered, then one line per member
+export function describeStaffRoster(staff: StaffMember[], year: number): string {
+  const roles = [...new Set(staff.map((m) => m.role))].join(', ')
+  const lines = staff.map((m) => {
+    const hours = m.hoursPerWeek >= 40 ? 'Full-time' : `Part-time, ${m.hoursPerWeek} hours per week`
+    return `${m.name || m.role}: ${hours}, $${Number(m.hourlyRate.toFixed(2))} per hour${m.receivesBenefits ? ', Medical/Dental/Vision' : ''}`
+  })
+  return `Includes: ${roles || 'no staff'}\n\nBaseline ${year}:\n${lines.join('\n') || 'No staff on the roster'}`
+}
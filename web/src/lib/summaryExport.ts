@@ -0,0 +1,174 @@
+import { utils, write } from 'xlsx'
+import type { DataMode, FutureYear, Physician, Projection } from './types'
+import { dayOfYearToDate, employeePortionToTransitionDay, partnerPortionToRetirementDay, startPortionToStartDay } from './calendar'
+import { PROJECTION_FIELD_LABELS } from './history'
+import { PHYSICIAN_TYPE_LABELS } from './physicians'
+
+export type ExportCell = string | number | null
+
+// One table in an export: a CSV section or an XLSX sheet. The first row is the header.
+export type ExportTable = {
+  title: string
+  rows: ExportCell[][]
+  moneyColumns?: number[] // Numeric body cells in these columns get a currency format in XLSX
+  sheet?: string // Shorter XLSX sheet name when the title would not fit
+}
+
+// Compensation for one scenario, in the same shape the Multi-Year summary draws it
+export type CompensationSeries = {
+  scenarioName: string
+  physicians: { name: string; values: number[] }[] // One value per year
+  locums: number[]
+}
+
+// Projection settings of one scenario, for the assumptions table
+export type ScenarioAssumptions = {
+  scenarioName: string
+  dataMode: DataMode
+  projection: Projection
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100
+const sum = (values: number[]) => values.reduce((a, b) => a + b, 0)
+
+// Helper: the date a physician's status changes in a year ("7/1/2026"), or '' when it doesn't
+function keyDate(p: Physician, year: number): string {
+  const format = (day: number) => {
+    const { month, day: d } = dayOfYearToDate(day, year)
+    return `${month}/${d}/${year}`
+  }
+  if (p.type === 'employeeToPartner') return format(employeePortionToTransitionDay(p.employeePortionOfYear ?? 0.5, year))
+  if (p.type === 'partnerToRetire') {
+    const day = partnerPortionToRetirementDay(p.partnerPortionOfYear ?? 0.5, year)
+    return day === 0 ? 'Retired prior year' : format(day)
+  }
+  if (p.type === 'newEmployee') return format(startPortionToStartDay(p.startPortionOfYear ?? 0, year))
+  if (p.type === 'employeeToTerminate') return format(startPortionToStartDay(p.terminatePortionOfYear ?? 1, year))
+  return ''
+}
+
+// "Per Physician By Year" and, when comparing, "Per Scenario by Year"
+export function compensationTables(years: number[], series: CompensationSeries[]): ExportTable[] {
+  const header = ['Scenario', 'Name', ...years, 'Total']
+  const row = (scenarioName: string, name: string, values: number[]): ExportCell[] =>
+    [scenarioName, name, ...values.map(round2), round2(sum(values))]
+  const netValues = (s: CompensationSeries) => years.map((_, i) => sum(s.physicians.map((p) => p.values[i] ?? 0)) + (s.locums[i] ?? 0))
+  const names = Array.from(new Set(series.flatMap((s) => s.physicians.map((p) => p.name))))
+  const valuesFor = (s: CompensationSeries, name: string) => s.physicians.find((p) => p.name === name)?.values ?? years.map(() => 0)
+
+  const byPhysician: ExportCell[][] = [header]
+  for (const name of names) for (const s of series) byPhysician.push(row(s.scenarioName, name, valuesFor(s, name)))
+  for (const s of series) byPhysician.push(row(s.scenarioName, 'Locums', s.locums))
+  for (const s of series) byPhysician.push(row(s.scenarioName, 'Net Income for MDs', netValues(s)))
+  const moneyColumns = header.map((_, i) => i).slice(2)
+  const tables: ExportTable[] = [{ title: 'Per Physician By Year', rows: byPhysician, moneyColumns }]
+
+  if (series.length > 1) {
+    const byScenario: ExportCell[][] = [header]
+    for (const s of series) {
+      for (const name of names) byScenario.push(row(s.scenarioName, name, valuesFor(s, name)))
+      byScenario.push(row(s.scenarioName, 'Locums', s.locums))
+      byScenario.push(row(s.scenarioName, 'Net Income for MDs', netValues(s)))
+    }
+    tables.push({ title: 'Per Scenario by Year', rows: byScenario, moneyColumns })
+  }
+  return tables
+}
+
+// "Per Year Core Values" and "Physicians Per Year" for one scenario
+export function parameterTables(scenarioName: string, data: FutureYear[]): ExportTable[] {
+  const core: ExportCell[][] = [
+    ['Metric', ...data.map((d) => d.year)],
+    ['Income', ...data.map((d) => round2(d.therapyIncome))],
+    ['Non-Employment', ...data.map((d) => round2(d.nonEmploymentCosts))],
+    ['Staff Employment', ...data.map((d) => round2(d.nonMdEmploymentCosts))],
+    ['Misc Employment', ...data.map((d) => round2(d.miscEmploymentCosts))],
+    ['Locums', ...data.map((d) => round2(d.locumCosts))],
+    ['Medical Director', ...data.map((d) => (d.medicalDirectorHours === undefined ? null : round2(d.medicalDirectorHours)))],
+    ['PRCS Medical Director', ...data.map((d) => (d.prcsMedicalDirectorHours === undefined ? null : round2(d.prcsMedicalDirectorHours)))],
+  ]
+
+  // One row per physician per year rather than the on-screen grid, so values stay in their own columns
+  const physicians: ExportCell[][] = [['Year', 'Slot', 'Name', 'Type', 'Key date', 'Salary', 'Weeks off', 'Buyout', 'Bonus', 'Benefits', 'Medical director %']]
+  for (const d of data) {
+    d.physicians.forEach((p, i) => {
+      physicians.push([
+        d.year,
+        i + 1,
+        p.name,
+        PHYSICIAN_TYPE_LABELS[p.type],
+        keyDate(p, d.year),
+        p.salary ?? null,
+        p.weeksVacation ?? null,
+        p.type === 'partnerToRetire' ? (p.buyoutCost ?? null) : null,
+        p.receivesBonuses ? (p.bonusAmount ?? null) : null,
+        p.receivesBenefits === undefined ? null : p.receivesBenefits ? 'Yes' : 'No',
+        p.hasMedicalDirectorHours ? (p.medicalDirectorHoursPercentage ?? null) : null,
+      ])
+    })
+  }
+
+  return [
+    { title: `${scenarioName} Core Values`, sheet: `${scenarioName.slice(0, 19).trim()} Core Values`, rows: core, moneyColumns: data.map((_, i) => i + 1) },
+    { title: `${scenarioName} Physicians`, sheet: `${scenarioName.slice(0, 20).trim()} Physicians`, rows: physicians, moneyColumns: [5, 7, 8] },
+  ]
+}
+
+// Projection settings behind every exported scenario, one column per scenario
+export function assumptionsTable(scenarios: ScenarioAssumptions[]): ExportTable {
+  const keys = Object.keys(PROJECTION_FIELD_LABELS) as (keyof Projection)[]
+  const label = (key: keyof Projection) => {
+    const text = PROJECTION_FIELD_LABELS[key]
+    return key.endsWith('Pct') ? `${text[0].toUpperCase()}${text.slice(1)} (%)` : `${text[0].toUpperCase()}${text.slice(1)} ($)`
+  }
+  return {
+    title: 'Assumptions',
+    rows: [
+      ['Setting', ...scenarios.map((s) => s.scenarioName)],
+      ['Baseline data', ...scenarios.map((s) => s.dataMode)],
+      ...keys.map((key) => [label(key), ...scenarios.map((s) => s.projection[key])]),
+    ],
+  }
+}
+
+// Helper: quote a CSV field when it holds a delimiter, quote or line break
+function csvField(cell: ExportCell): string {
+  if (cell === null) return ''
+  const text = String(cell)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+// All tables in one CSV file, each under its title and separated by a blank line
+export function tablesToCsv(tables: ExportTable[]): string {
+  return tables
+    .map((table) => [table.title, ...table.rows.map((row) => row.map(csvField).join(','))].join('\r\n'))
+    .join('\r\n\r\n') + '\r\n'
+}
+
+// Helper: a unique sheet name within Excel's 31-character limit and without reserved characters
+function sheetName(title: string, taken: Set<string>): string {
+  const base = title.replace(/[[\]:*?/\\]/g, '-').slice(0, 31).trim() || 'Sheet'
+  let name = base
+  for (let n = 2; taken.has(name.toLowerCase()); n++) name = `${base.slice(0, 31 - String(n).length - 1)} ${n}`
+  taken.add(name.toLowerCase())
+  return name
+}
+
+// A workbook with one sheet per table; numbers stay numeric, money columns get a currency format
+export function tablesToXlsx(tables: ExportTable[]): ArrayBuffer {
+  const workbook = utils.book_new()
+  const taken = new Set<string>()
+  for (const table of tables) {
+    const sheet = utils.aoa_to_sheet(table.rows)
+    table.rows.forEach((_, r) => {
+      if (r === 0) return
+      for (const c of table.moneyColumns ?? []) {
+        const cell = sheet[utils.encode_cell({ r, c })]
+        if (cell?.t === 'n') cell.z = '$#,##0.00'
+      }
+    })
+    sheet['!cols'] = (table.rows[0] ?? []).map((_, i) => ({ wch: i === 0 ? 24 : 14 }))
+    utils.book_append_sheet(workbook, sheet, sheetName(table.sheet ?? table.title, taken))
+  }
+  return write(workbook, { type: 'array', bookType: 'xlsx' }) as ArrayBuffer
+}
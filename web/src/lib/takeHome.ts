@@ -0,0 +1,85 @@
+import type { TakeHomeSettings } from './types'
+import { getSocialSecurityWageBase } from './payrollTaxes'
+
+export const DEFAULT_TAKE_HOME_SETTINGS: TakeHomeSettings = { incomeTaxPct: 30, filingJointly: true, claimQbi: true }
+
+// Self-employment tax applies to 92.35% of net earnings
+const SE_EARNINGS_SHARE = 0.9235
+const SE_SOCIAL_SECURITY_PCT = 12.4
+const SE_MEDICARE_PCT = 2.9
+const EMPLOYEE_SOCIAL_SECURITY_PCT = 6.2
+const EMPLOYEE_MEDICARE_PCT = 1.45
+const ADDITIONAL_MEDICARE_PCT = 0.9
+// Not indexed for inflation
+const ADDITIONAL_MEDICARE_THRESHOLD = { single: 200000, joint: 250000 }
+
+// Taxable income where the QBI deduction for a specified service business (a medical practice) starts
+// to phase out. Later years are grown at 3% a year.
+const QBI_THRESHOLDS: Record<number, { single: number; joint: number }> = {
+  2024: { single: 191950, joint: 383900 },
+  2025: { single: 197300, joint: 394600 },
+}
+
+// Helper: the QBI phase-out threshold and the width of the phase-out range for a year
+function qbiPhaseOut(year: number, filingJointly: boolean): { threshold: number; range: number } {
+  const years = Object.keys(QBI_THRESHOLDS).map(Number)
+  const last = Math.max(...years)
+  const known = QBI_THRESHOLDS[Math.max(Math.min(...years), Math.min(year, last))]
+  const base = filingJointly ? known.joint : known.single
+  const threshold = year > last ? Math.round(base * 1.03 ** (year - last) / 50) * 50 : base
+  // The phase-out range widened from 2026
+  const range = year >= 2026 ? (filingJointly ? 150000 : 75000) : (filingJointly ? 100000 : 50000)
+  return { threshold, range }
+}
+
+export type TakeHomeEstimate = {
+  selfEmploymentTax: number // Social Security and Medicare on partner income
+  additionalMedicare: number
+  employeeFica: number // Withheld from W2 pay
+  qbiDeduction: number
+  taxableIncome: number
+  incomeTax: number
+  totalTax: number
+  takeHome: number
+  quarterlyEstimate: number // Tax not covered by W2 withholding, paid in four installments
+}
+
+// Rough after-tax income for a partner: SE tax on partner income (Social Security only up to what W2
+// pay left of the wage base), Additional Medicare over the filing threshold, the QBI deduction after
+// the specified-service phase-out, and a flat effective income tax rate
+export function estimateTakeHome(partnerIncome: number, w2Wages: number, year: number, settings: TakeHomeSettings): TakeHomeEstimate {
+  const ssWageBase = getSocialSecurityWageBase(year)
+  const seEarnings = Math.max(0, partnerIncome) * SE_EARNINGS_SHARE
+  const seSocialSecurity = Math.min(seEarnings, Math.max(0, ssWageBase - w2Wages)) * SE_SOCIAL_SECURITY_PCT / 100
+  const selfEmploymentTax = seSocialSecurity + seEarnings * SE_MEDICARE_PCT / 100
+  const employeeFica = Math.min(w2Wages, ssWageBase) * EMPLOYEE_SOCIAL_SECURITY_PCT / 100 + w2Wages * EMPLOYEE_MEDICARE_PCT / 100
+  const threshold = settings.filingJointly ? ADDITIONAL_MEDICARE_THRESHOLD.joint : ADDITIONAL_MEDICARE_THRESHOLD.single
+  const additionalMedicare = Math.max(0, w2Wages + seEarnings - threshold) * ADDITIONAL_MEDICARE_PCT / 100
+
+  // Half of SE tax comes off income before the QBI deduction and income tax
+  const incomeBeforeQbi = Math.max(0, partnerIncome + w2Wages - selfEmploymentTax / 2)
+  let qbiDeduction = 0
+  if (settings.claimQbi && partnerIncome > 0) {
+    const { threshold: qbiThreshold, range } = qbiPhaseOut(year, settings.filingJointly)
+    const allowed = 1 - Math.min(1, Math.max(0, (incomeBeforeQbi - qbiThreshold) / range))
+    qbiDeduction = Math.min(0.2 * (partnerIncome - selfEmploymentTax / 2) * allowed, 0.2 * incomeBeforeQbi)
+  }
+  const taxableIncome = Math.max(0, incomeBeforeQbi - qbiDeduction)
+  const incomeTax = taxableIncome * settings.incomeTaxPct / 100
+
+  const totalTax = selfEmploymentTax + additionalMedicare + employeeFica + incomeTax
+  // W2 pay carries its FICA and its share of income tax through withholding
+  const grossIncome = Math.max(0, partnerIncome) + w2Wages
+  const withheld = employeeFica + (grossIncome > 0 ? incomeTax * w2Wages / grossIncome : 0)
+  return {
+    selfEmploymentTax,
+    additionalMedicare,
+    employeeFica,
+    qbiDeduction,
+    taxableIncome,
+    incomeTax,
+    totalTax,
+    takeHome: partnerIncome + w2Wages - totalTax,
+    quarterlyEstimate: Math.max(0, totalTax - withheld) / 4,
+  }
+}
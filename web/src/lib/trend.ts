@@ -0,0 +1,147 @@
+import type { Projection, ScenarioPreset, YearRow } from './types'
+import { DEFAULT_BASELINE_YEAR, HISTORIC_DATA } from './defaults'
+import { defaultProjection } from './scenarios'
+import { sameIncomeBasis } from './historic'
+
+// How a growth rate is fitted to the historic series
+export type TrendMethod = 'cagr' | 'regression' | 'trimmedMean' | 'smoothing'
+
+export const TREND_METHOD_LABELS: Record<TrendMethod, string> = {
+  cagr: 'CAGR',
+  regression: 'Linear regression (log scale)',
+  trimmedMean: 'Trimmed mean of YoY growth',
+  smoothing: 'Exponential smoothing of YoY growth',
+}
+
+export type TrendSettings = {
+  method: TrendMethod
+  fromYear: number // First and last historic year in the fitting window, inclusive
+  toYear: number
+}
+
+// Every built-in year with final actuals; the provisional baseline year is left out
+export const DEFAULT_TREND_SETTINGS: TrendSettings = {
+  method: 'regression',
+  fromYear: HISTORIC_DATA[0].year,
+  toYear: DEFAULT_BASELINE_YEAR - 1,
+}
+
+// Projection growth rates that can be fitted, and the historic series each one follows. Growth is
+// only measured between rows `comparable` accepts: therapy income skips the step where rows start
+// recording MD income separately, as the Monte Carlo volatility fit does.
+// Misc employment has no history of its own, so it keeps its built-in default.
+export const TREND_FIELDS: { key: keyof Projection; label: string; series: (h: YearRow) => number | undefined; comparable?: (a: YearRow, b: YearRow) => boolean }[] = [
+  { key: 'incomeGrowthPct', label: 'Therapy income', series: (h) => h.therapyIncome, comparable: sameIncomeBasis },
+  { key: 'nonEmploymentCostsPct', label: 'Non-employment costs', series: (h) => h.nonEmploymentCosts },
+  { key: 'nonMdEmploymentCostsPct', label: 'Staff payroll', series: (h) => h.staffPayroll },
+]
+
+// Share of YoY growth rates dropped from each end before averaging
+const TRIM_SHARE = 0.2
+// Weight of the latest YoY growth rate in exponential smoothing
+const SMOOTHING_ALPHA = 0.5
+
+export type TrendPoint = {
+  year: number
+  value: number
+  segment: number // Points are only compared with others in the same segment (recorded on the same basis)
+}
+
+export type TrendFit = {
+  ratePct: number // Annual growth rate, in percent to one decimal
+  line: TrendPoint[] // Fitted value for each year of the window
+}
+
+// Points of one series inside the window, oldest first; years without a positive value are skipped.
+// A new segment starts wherever `comparable` rejects a row and the one before it.
+export function trendPoints(
+  historic: YearRow[],
+  settings: TrendSettings,
+  series: (h: YearRow) => number | undefined,
+  comparable: (a: YearRow, b: YearRow) => boolean = () => true,
+): TrendPoint[] {
+  const rows = historic
+    .filter((h) => h.year >= settings.fromYear && h.year <= settings.toYear && (series(h) ?? 0) > 0)
+    .sort((a, b) => a.year - b.year)
+  let segment = 0
+  return rows.map((h, i) => {
+    if (i > 0 && !comparable(rows[i - 1], h)) segment++
+    return { year: h.year, value: series(h) ?? 0, segment }
+  })
+}
+
+// Fit an annual growth rate to the points; undefined when no two points in a segment are available.
+// Growth is only measured within segments, so a change of basis between them does not read as growth.
+export function fitTrend(points: TrendPoint[], method: TrendMethod): TrendFit | undefined {
+  const segments = [...new Set(points.map((p) => p.segment))].map((segment) => points.filter((p) => p.segment === segment))
+  // Year-over-year steps within each segment, annualized across any gaps
+  const steps = segments.flatMap((run) => run.slice(1).map((p, i) => ({ years: p.year - run[i].year, ratio: p.value / run[i].value })))
+  if (steps.length === 0) return undefined
+  const last = points[points.length - 1]
+  const yoy = steps.map((s) => s.ratio ** (1 / s.years) - 1)
+  let rate: number
+  // Regression has its own intercept; the other methods run the line back from the latest year
+  let valueAt = (year: number) => last.value * (1 + rate) ** (year - last.year)
+  if (method === 'cagr') {
+    rate = Math.exp(steps.reduce((sum, s) => sum + Math.log(s.ratio), 0) / steps.reduce((sum, s) => sum + s.years, 0)) - 1
+  } else if (method === 'regression') {
+    // One slope across the segments, each around its own mean; the line follows the latest segment
+    const centred = segments.flatMap((run) => {
+      const meanX = run.reduce((sum, p) => sum + p.year, 0) / run.length
+      const meanY = run.reduce((sum, p) => sum + Math.log(p.value), 0) / run.length
+      return run.map((p) => ({ x: p.year - meanX, y: Math.log(p.value) - meanY }))
+    })
+    const slope = centred.reduce((sum, p) => sum + p.x * p.y, 0) / centred.reduce((sum, p) => sum + p.x ** 2, 0)
+    const latest = segments[segments.length - 1]
+    const meanX = latest.reduce((sum, p) => sum + p.year, 0) / latest.length
+    const meanY = latest.reduce((sum, p) => sum + Math.log(p.value), 0) / latest.length
+    rate = Math.exp(slope) - 1
+    valueAt = (year) => Math.exp(meanY + slope * (year - meanX))
+  } else if (method === 'trimmedMean') {
+    const trim = Math.floor(yoy.length * TRIM_SHARE)
+    const kept = [...yoy].sort((a, b) => a - b).slice(trim, yoy.length - trim)
+    rate = kept.reduce((sum, g) => sum + g, 0) / kept.length
+  } else {
+    rate = yoy.slice(1).reduce((smoothed, g) => SMOOTHING_ALPHA * g + (1 - SMOOTHING_ALPHA) * smoothed, yoy[0])
+  }
+  return {
+    ratePct: Math.round(rate * 1000) / 10,
+    line: points.map((p) => ({ ...p, value: valueAt(p.year) })),
+  }
+}
+
+// Helper: one field's fit over the window
+function fitTrendField(historic: YearRow[], settings: TrendSettings, field: typeof TREND_FIELDS[number]): TrendFit | undefined {
+  return fitTrend(trendPoints(historic, settings, field.series, field.comparable), settings.method)
+}
+
+// Fitted rate for each projection field the window has enough history for
+export function fitTrendFields(historic: YearRow[], settings: TrendSettings): Partial<Record<keyof Projection, number>> {
+  const rates: Partial<Record<keyof Projection, number>> = {}
+  for (const field of TREND_FIELDS) {
+    const fit = fitTrendField(historic, settings, field)
+    if (fit) rates[field.key] = fit.ratePct
+  }
+  return rates
+}
+
+// Fields the window has no two comparable years of figures for, which keep their built-in defaults
+export function unfittedTrendFields(historic: YearRow[], settings: TrendSettings): typeof TREND_FIELDS {
+  return TREND_FIELDS.filter((field) => !fitTrendField(historic, settings, field))
+}
+
+// The fitted line for one projection field, e.g. to draw over the historic chart
+export function trendLine(historic: YearRow[], settings: TrendSettings, key: keyof Projection): TrendFit | undefined {
+  const field = TREND_FIELDS.find((f) => f.key === key)
+  return field && fitTrendField(historic, settings, field)
+}
+
+// A preset's projection defaults with the growth rates fitted to the historic window
+export function deriveProjectionDefaults(historic: YearRow[], settings: TrendSettings, preset: ScenarioPreset): Projection {
+  return { ...defaultProjection(preset), ...fitTrendFields(historic, settings) }
+}
+
+// Short description of the fit, e.g. "2016–2024 trend (CAGR)"
+export function describeTrend(settings: TrendSettings): string {
+  return `${settings.fromYear}–${settings.toYear} trend (${TREND_METHOD_LABELS[settings.method]})`
+}
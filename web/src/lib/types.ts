@@ -0,0 +1,199 @@
+export type YearRow = {
+  year: number
+  therapyIncome: number // Excludes medical director income wherever the row records it; otherwise (2016-2023) MD income is lumped in
+  nonEmploymentCosts: number
+  employeePayroll?: number
+  // Breakdowns the books only have for some years
+  medicalDirectorIncome?: number // Shared medical director income
+  prcsMedicalDirectorIncome?: number
+  // Locums and staff payroll replace the figures in the year's baseline detail, where it has one
+  locumCosts?: number
+  staffPayroll?: number // Staff employment costs (non-physician wages, taxes and benefits) within employeePayroll
+  physicianPayroll?: number // Physician part of employeePayroll; for reference, as physician costs come from the roster
+  costBreakdown?: CostBreakdown // Categorized part of nonEmploymentCosts
+  sources?: Partial<Record<HistoricField, string>> // Where each value came from, e.g. "2024 P&L, line 4100"
+}
+
+// P&L lines that make up non-employment costs; whatever is not categorized is reported as other
+export type CostCategory = 'rent' | 'equipmentLeases' | 'malpractice' | 'billingService' | 'supplies' | 'software' | 'dues'
+
+export type CostBreakdown = Partial<Record<CostCategory, number>>
+
+// A cost that lands in one year only, e.g. a linac replacement
+export type OneOffCost = { label: string; amount: number }
+
+// Every amount on a historic row
+export type HistoricField =
+  | 'therapyIncome'
+  | 'medicalDirectorIncome'
+  | 'prcsMedicalDirectorIncome'
+  | 'nonEmploymentCosts'
+  | 'employeePayroll'
+  | 'staffPayroll'
+  | 'physicianPayroll'
+  | 'locumCosts'
+
+export type PhysicianType = 'partner' | 'employee' | 'employeeToPartner' | 'partnerToRetire' | 'newEmployee' | 'employeeToTerminate'
+
+export type Physician = {
+  id: string
+  name: string
+  type: PhysicianType
+  salary?: number
+  weeksVacation?: number
+  // For mixed type: portion of the year as an employee (0..1). Remainder is partner.
+  employeePortionOfYear?: number
+  // For partnerToRetire: portion of the year working as partner (0..1). Remainder is retired.
+  partnerPortionOfYear?: number
+  // For newEmployee: portion of the year when they start (0 = Jan 1, 1 = Dec 31)
+  startPortionOfYear?: number
+  // For employeeToTerminate: portion of the year when they terminate (0 = Jan 1, 1 = Dec 31)
+  terminatePortionOfYear?: number
+  // Whether this employee receives benefits (medical/dental/vision)
+  receivesBenefits?: boolean
+  // Whether this employee receives bonuses
+  receivesBonuses?: boolean
+  // Relocation/Signing bonus amount
+  bonusAmount?: number
+  // Whether this partner has Medical Director Hours
+  hasMedicalDirectorHours?: boolean
+  // Medical Director Hours percentage (0-100)
+  medicalDirectorHoursPercentage?: number
+  // Buyout cost for retiring partners
+  buyoutCost?: number
+  // Trailing shared MD dollars for prior-year retirees
+  trailingSharedMdAmount?: number
+}
+
+// A non-physician employee on a year's staff roster. Dates are ISO (YYYY-MM-DD); without them the
+// member works the whole year.
+export type StaffMember = {
+  id: string
+  name: string
+  role: string // e.g. "Medical assistant", "Billing"
+  hourlyRate: number // This year's rate
+  hoursPerWeek: number
+  receivesBenefits: boolean // Medical/dental/vision
+  startDate?: string
+  endDate?: string // Last day worked
+  raisePct?: number // Raise going into each following year
+}
+
+// Extend FutureYear with nonMdEmploymentCosts
+export type FutureYear = {
+  year: number
+  therapyIncome: number // Therapy income only (not including medical director income)
+  nonEmploymentCosts: number // Total, including the categories and one-off costs below
+  costBreakdown?: CostBreakdown
+  oneOffCosts?: OneOffCost[]
+  nonMdEmploymentCosts: number // Derived from `staff` when the year has a roster
+  staff?: StaffMember[]
+  locumCosts: number
+  locumsOverride?: number // This year's locums in place of the projection's amount, e.g. a locum already booked
+  miscEmploymentCosts: number
+  medicalDirectorHours?: number
+  prcsMedicalDirectorHours?: number
+  prcsDirectorPhysicianId?: string
+  physicians: Physician[]
+}
+
+export type Projection = {
+  incomeGrowthPct: number // Total income growth percentage
+  medicalDirectorHours: number // Medical Director Hours annual amount (0-250K)
+  prcsMedicalDirectorHours: number // PRCS Medical Director Hours annual amount (0-90K)
+  nonEmploymentCostsPct: number // Non-Employment Costs growth percentage
+  nonMdEmploymentCostsPct: number // Staff Employment Costs growth percentage
+  locumsCosts: number // Locums costs in dollars (global override)
+  miscEmploymentCostsPct: number // Misc Employment Costs growth percentage
+  benefitCostsGrowthPct: number // Benefit Costs growth percentage
+}
+
+// Year values that grow at one of the projection's rates
+export type GrowthField = 'therapyIncome' | 'nonEmploymentCosts' | 'nonMdEmploymentCosts' | 'miscEmploymentCosts'
+
+// Per-year growth rates in percent, keyed by the year they apply to; unlisted years use the flat rate
+export type GrowthSchedules = Partial<Record<GrowthField, Record<number, number>>>
+
+// One payroll tax: `rate` percent of wages up to the wage base, shared between employer and employee
+export type PayrollTaxRule = {
+  id: string
+  name: string // e.g. "FUTA"
+  jurisdiction: string // Who levies it, e.g. "Federal", "Washington State"; the tax breakdown groups by it
+  rate: number // Combined employer + employee percent
+  wageBase?: number | 'socialSecurity' // Wages taxed per employee; uncapped when absent, or the year's Social Security base
+  employerSharePct: number // Part of the rate the employer pays, 0-100
+}
+
+// Payroll tax rules keyed by the year they take effect; each table stays in force until a later one
+export type PayrollTaxTables = Record<number, PayrollTaxRule[]>
+
+// A partner's personal tax picture for the take-home estimate
+export type TakeHomeSettings = {
+  incomeTaxPct: number // Effective federal + state income tax rate on taxable income
+  filingJointly: boolean
+  claimQbi: boolean // Take the qualified business income deduction where the phase-out allows it
+}
+
+// IRS limits on qualified retirement plans for one year
+export type RetirementLimits = {
+  compensationLimit: number // Pay a contribution can be figured on, 401(a)(17)
+  annualAdditionsLimit: number // Deferrals plus employer contributions per person, 415(c)
+  deferralLimit: number // Employee 401(k) deferrals, 402(g)
+}
+
+// The practice's retirement plans: a safe-harbor 401(k) match for W2 pay, and profit sharing plus a
+// cash balance plan for partners
+export type RetirementPlans = {
+  safeHarborMatchPct: number // Employer match as a percent of W2 pay (4 for the basic safe-harbor formula)
+  profitSharingPct: number // Profit-sharing contribution as a percent of each partner's compensation
+  cashBalanceCredits: Record<string, number> // Annual pay credit keyed by partner name; partners without one aren't in the plan
+  limits?: Record<number, RetirementLimits> // Per-year overrides of the published (or grown) limits
+}
+
+// Where the baseline year comes from: the scenario's own figures, or a year of actuals ("2024 Data")
+export type DataMode = 'Custom' | `${number} Data`
+
+// Which built-in roster/projection defaults a scenario resets to
+export type ScenarioPreset = 'A' | 'B'
+
+export type ScenarioKey = string
+
+export type ScenarioState = {
+  name: string
+  color: string
+  preset: ScenarioPreset
+  future: FutureYear[]
+  projection: Projection
+  growthSchedules?: GrowthSchedules
+  costCategoryGrowth?: CostBreakdown // Growth % per cost category; unlisted ones follow the non-employment rate
+  payrollTaxes?: PayrollTaxTables // Without tables the built-in rules apply
+  takeHome?: Record<string, TakeHomeSettings> // Keyed by partner name; partners without one get no estimate
+  retirementPlans?: RetirementPlans // No employer contributions without plans
+  selectedYear: number
+  dataMode: DataMode
+}
+
+// Everything needed to restore the scenario set (share links, saved files)
+export type ScenarioSnapshot = {
+  scenarios: Record<ScenarioKey, ScenarioState>
+  scenarioOrder: ScenarioKey[]
+  selectedScenarioIds: ScenarioKey[]
+}
+
+// One employee's line on a monthly payroll worksheet (one or more bi-weekly pay runs)
+export type PayrollLedgerEntry = {
+  month: number // 1-12, the worksheet the pay runs were booked on
+  employee: string // Name as it appears on the worksheet; staff wages are booked under one name
+  kind: 'staff' | 'physician' | 'locum'
+  wages: number
+  employerTaxes: number
+  benefits: number // Net of employee contributions
+}
+
+export type PayrollLedger = {
+  year: number
+  months: number[] // Worksheets present, so partial years can be annualized
+  entries: PayrollLedgerEntry[]
+  physicianNames: Record<string, string> // Worksheet name -> roster name, e.g. "Tinnel" -> "BT"
+  source: { fileName: string; importedAt: string } | null // null for the built-in ledger
+}
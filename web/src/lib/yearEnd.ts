@@ -0,0 +1,112 @@
+import type { FutureYear, GrowthField, ScenarioState, YearRow } from './types'
+import type { BaselineDetail } from './defaults'
+import { actualEmploymentCosts } from './defaults'
+import { ACTUALS_FIELD_LABELS } from './actualsImport'
+import type { ActualsField } from './actualsImport'
+import { nextProjectionYear } from './scenarios'
+import { growthRateFor } from './growth'
+import { oneOffTotal } from './costs'
+import { calculateStaffRosterCost } from './payroll'
+import { clearDetailOverrides } from './historic'
+
+// Final figures entered when a year is closed: the historic row plus its baseline detail
+export type YearEndField = ActualsField | 'medicalDirectorIncome' | 'prcsMedicalDirectorIncome'
+export type YearEndFigures = Record<YearEndField, number>
+
+export const YEAR_END_FIELD_LABELS: Record<YearEndField, string> = {
+  ...ACTUALS_FIELD_LABELS,
+  medicalDirectorIncome: 'Shared medical director income',
+  prcsMedicalDirectorIncome: 'PRCS medical director income',
+}
+
+// Starting figures for the close form, in whole dollars: whatever is on record for the year, else
+// the baseline the dashboard is currently showing for it
+export function draftYearEndFigures(
+  historic: YearRow[],
+  details: Record<number, BaselineDetail>,
+  year: number,
+  fallback: { fy: FutureYear; netPartnerPool: number },
+): YearEndFigures {
+  const row = historic.find((h) => h.year === year)
+  const detail = details[year]
+  const employment = detail && actualEmploymentCosts(row, detail)
+  const { fy } = fallback
+  const figures: YearEndFigures = {
+    therapyIncome: row?.therapyIncome ?? fy.therapyIncome,
+    nonEmploymentCosts: row?.nonEmploymentCosts ?? fy.nonEmploymentCosts,
+    employeePayroll: row?.employeePayroll ?? fy.nonMdEmploymentCosts + fy.miscEmploymentCosts,
+    nonMdEmploymentCosts: employment?.nonMdEmploymentCosts ?? fy.nonMdEmploymentCosts,
+    miscEmploymentCosts: detail?.miscEmploymentCosts ?? fy.miscEmploymentCosts,
+    locumCosts: employment?.locumCosts ?? fy.locumCosts,
+    medicalDirectorIncome: row?.medicalDirectorIncome ?? fy.medicalDirectorHours ?? 0,
+    prcsMedicalDirectorIncome: row?.prcsMedicalDirectorIncome ?? fy.prcsMedicalDirectorHours ?? 0,
+    netPartnerPool: detail?.netPartnerPool ?? fallback.netPartnerPool,
+  }
+  for (const field of Object.keys(figures) as YearEndField[]) figures[field] = Math.round(figures[field])
+  return figures
+}
+
+// Copies of the historic rows and baseline details with the year's final figures on record,
+// replacing any provisional ones. `roster` is the physician line-up the year was worked with.
+export function closeActuals(
+  historic: YearRow[],
+  details: Record<number, BaselineDetail>,
+  year: number,
+  figures: YearEndFigures,
+  roster: Pick<FutureYear, 'physicians' | 'prcsDirectorPhysicianId'>,
+): { historic: YearRow[]; details: Record<number, BaselineDetail> } {
+  // Breakdowns and source notes already entered for the year are kept, apart from staff and locums
+  // figures that would override the final ones in the detail
+  const row: YearRow = {
+    ...clearDetailOverrides(historic, year, ['nonMdEmploymentCosts', 'locumCosts']).find((h) => h.year === year),
+    year,
+    therapyIncome: figures.therapyIncome,
+    nonEmploymentCosts: figures.nonEmploymentCosts,
+    employeePayroll: figures.employeePayroll,
+    medicalDirectorIncome: figures.medicalDirectorIncome,
+    prcsMedicalDirectorIncome: figures.prcsMedicalDirectorIncome,
+  }
+  const detail: BaselineDetail = {
+    nonMdEmploymentCosts: figures.nonMdEmploymentCosts,
+    miscEmploymentCosts: figures.miscEmploymentCosts,
+    locumCosts: figures.locumCosts,
+    prcsDirectorPhysicianId: roster.prcsDirectorPhysicianId,
+    netPartnerPool: figures.netPartnerPool,
+    physicians: roster.physicians,
+  }
+  return {
+    historic: [...historic.filter((h) => h.year !== year), row].sort((a, b) => a.year - b.year),
+    details: { ...details, [year]: detail },
+  }
+}
+
+// Drop a scenario's years before the baseline, keeping at least one projected year after it
+export function alignScenarioToBaseline(sc: ScenarioState, baselineYear: number): ScenarioState {
+  const future = sc.future.filter((f) => f.year >= baselineYear)
+  if (future.length > 0 && !future.some((f) => f.year > baselineYear)) {
+    future.push(nextProjectionYear(future[future.length - 1], sc))
+  }
+  return { ...sc, future, selectedYear: Math.max(sc.selectedYear, baselineYear) }
+}
+
+// Re-base a scenario once `closedYear` is on record. The next year becomes its editable (Custom)
+// baseline: the scenario's own plan for that year (roster, MD amounts, locums) is kept, while
+// income and costs carry forward one year from the final actuals at the scenario's growth rates.
+export function rebaseScenarioAfterClose(sc: ScenarioState, closedYear: number, figures: YearEndFigures): ScenarioState {
+  const baselineYear = closedYear + 1
+  const grow = (field: GrowthField) => figures[field] * (1 + growthRateFor(sc.projection, sc.growthSchedules, field, baselineYear) / 100)
+  const latest = sc.future.reduce((a, b) => (b.year > a.year ? b : a))
+  const planned = sc.future.find((f) => f.year === baselineYear) ?? nextProjectionYear(latest, sc)
+  const opening: FutureYear = {
+    ...planned,
+    year: baselineYear,
+    therapyIncome: grow('therapyIncome'),
+    // The planned year's one-off costs stay on top of the grown actuals
+    nonEmploymentCosts: grow('nonEmploymentCosts') + oneOffTotal(planned.oneOffCosts),
+    // A planned staff roster prices the year itself
+    nonMdEmploymentCosts: planned.staff ? calculateStaffRosterCost(planned.staff, baselineYear, sc.projection.benefitCostsGrowthPct, sc.payrollTaxes) : grow('nonMdEmploymentCosts'),
+    miscEmploymentCosts: grow('miscEmploymentCosts'),
+  }
+  const later = sc.future.filter((f) => f.year > baselineYear)
+  return alignScenarioToBaseline({ ...sc, future: [opening, ...later], dataMode: 'Custom' }, baselineYear)
+}